@@ -58,8 +58,15 @@ const start = async () => {
         ).load(),
         path.resolve('h5p/libraries'), // the path on the local disc where libraries should be stored
         path.resolve('h5p/temporary-storage'), // the path on the local disc where temporary files (uploads) should be stored
-        path.resolve('h5p/content') // the path on the local disc where content is stored
+        path.resolve('h5p/content'), // the path on the local disc where content is stored
+        undefined,
+        {
+            contentUserDataPath: path.resolve('h5p/content-user-data'), // the path on the local disc where the user data of content (e.g. states) is stored
+            resultsPath: path.resolve('h5p/results'), // the path on the local disc where the results of users are stored
+            xapiStatementsPath: path.resolve('h5p/xapi') // the path on the local disc where xAPI statements are stored
+        }
     );
+    h5pEditor.config.enableXapiTracking = true;
 
     const server = express();
 
@@ -91,6 +98,11 @@ const start = async () => {
         )
     );
 
+    server.use(
+        `${h5pEditor.config.baseUrl}/library-administration`,
+        H5P.adapters.expressLibraryAdministration(h5pEditor)
+    );
+
     server.use(h5pEditor.config.baseUrl, expressRoutes(h5pEditor));
 
     server.get('/', startPageRenderer(h5pEditor));
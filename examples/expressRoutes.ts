@@ -5,33 +5,10 @@ import * as H5P from '../src';
 export default function(h5pEditor: H5P.H5PEditor): express.Router {
     const router = express.Router();
 
-    router.get(`${h5pEditor.config.playUrl}/:contentId`, (req, res) => {
-        const libraryLoader = (lib, maj, min) =>
-            h5pEditor.libraryManager.loadLibrary(
-                new H5P.LibraryName(lib, maj, min)
-            );
-        Promise.all([
-            h5pEditor.contentManager.loadContent(
-                req.params.contentId,
-                req.user
-            ),
-            h5pEditor.contentManager.loadH5PJson(req.params.contentId, req.user)
-        ]).then(([contentObject, h5pObject]) =>
-            new H5P.H5PPlayer(
-                libraryLoader as any,
-                h5pEditor.config,
-                null,
-                null,
-                null
-            )
-                .render(req.params.contentId, contentObject, h5pObject)
-                .then(h5pPage => res.end(h5pPage))
-                .catch(error => res.status(500).end(error.message))
-        );
-    });
-
     router.get('/edit/:contentId', async (req, res) => {
-        h5pEditor.render(req.params.contentId).then(page => res.end(page));
+        h5pEditor
+            .render(req.params.contentId, req.language)
+            .then(page => res.end(page));
     });
 
     router.post('/edit/:contentId', async (req, res) => {
@@ -40,7 +17,8 @@ export default function(h5pEditor: H5P.H5PEditor): express.Router {
             req.body.params.params,
             req.body.params.metadata,
             req.body.library,
-            req.user
+            req.user,
+            req.body.displayOptions
         );
 
         res.send(JSON.stringify({ contentId }));
@@ -48,7 +26,7 @@ export default function(h5pEditor: H5P.H5PEditor): express.Router {
     });
 
     router.get('/new', async (req, res) => {
-        h5pEditor.render(undefined).then(page => res.end(page));
+        h5pEditor.render(undefined, req.language).then(page => res.end(page));
     });
 
     router.post('/new', async (req, res) => {
@@ -57,7 +35,8 @@ export default function(h5pEditor: H5P.H5PEditor): express.Router {
             req.body.params.params,
             req.body.params.metadata,
             req.body.library,
-            req.user
+            req.user,
+            req.body.displayOptions
         );
 
         res.send(JSON.stringify({ contentId }));
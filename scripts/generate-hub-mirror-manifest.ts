@@ -0,0 +1,28 @@
+/**
+ * Generates the manifest (content-types.json) of a local mirror of the H5P Hub from the .h5p packages in
+ * the directory passed as the first argument. Run it after adding or replacing packages in the mirror:
+ *
+ * npm run generate:hub-mirror-manifest -- path/to/mirror
+ */
+
+import * as path from 'path';
+
+import HubMirror from '../src/HubMirror';
+
+const start = async () => {
+    const directory = process.argv[2];
+    if (!directory) {
+        console.error(
+            'Usage: npm run generate:hub-mirror-manifest -- <directory>'
+        );
+        process.exit(1);
+    }
+    const contentTypes = await new HubMirror(
+        path.resolve(directory)
+    ).generateManifest();
+    console.log(
+        `Wrote ${contentTypes.length} content type(s) to the manifest in ${directory}`
+    );
+};
+
+start();
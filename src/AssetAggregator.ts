@@ -0,0 +1,254 @@
+import crypto from 'crypto';
+import path from 'path';
+
+import H5pError from './helpers/H5pError';
+import Logger from './helpers/Logger';
+import { streamToString } from './helpers/StreamHelpers';
+import LibraryManager from './LibraryManager';
+import LibraryName from './LibraryName';
+import {
+    IAssetBundleLibrary,
+    IAssetMinifier,
+    IAssets,
+    IEditorConfig,
+    IFullLibraryName,
+    IKeyValueStorage
+} from './types';
+import UrlGenerator from './UrlGenerator';
+
+const log = new Logger('AssetAggregator');
+
+/**
+ * Combines the scripts and the styles of a set of libraries into bundles, so
+ * that the player needs a single request for the scripts and a single one
+ * for the styles of all libraries instead of one per file. Bundles are
+ * identified by a hash of the sorted list of their libraries (including the
+ * patch versions) and can be minified. The libraries of the bundles are kept
+ * in the key-value storage, so that bundles can be created again after a
+ * restart; the bundles themselves are cached in memory. Bundles are removed
+ * when one of their libraries is updated to a new patch version.
+ */
+export default class AssetAggregator {
+    /**
+     * @param libraryManager the library manager used to read the library
+     * files; the aggregator registers itself as a listener to remove bundles
+     * of updated libraries
+     * @param keyValueStorage the storage in which the libraries of the
+     * bundles are kept
+     * @param config the configuration (used to generate the URLs of the
+     * bundles and library files)
+     */
+    constructor(
+        private libraryManager: LibraryManager,
+        private keyValueStorage: IKeyValueStorage,
+        config: IEditorConfig
+    ) {
+        log.info('initialize');
+        this.urlGenerator = new UrlGenerator(config);
+        libraryManager.addLibraryUpdatedListener(oldVersion =>
+            this.onLibraryUpdated(oldVersion)
+        );
+    }
+
+    /**
+     * The key under which the libraries of the bundles are kept in the
+     * key-value storage.
+     */
+    private static storageKey: string = 'assetBundles';
+
+    private bundles: { [filename: string]: string } = {};
+    private minifier: IAssetMinifier;
+    private registryUpdates: Promise<void> = Promise.resolve();
+    private urlGenerator: UrlGenerator;
+
+    /**
+     * Registers bundles for the scripts and styles of the libraries and
+     * returns their URLs. The bundles are created when they are requested
+     * for the first time.
+     * @param libraries the libraries with the paths of their scripts and
+     * styles in the order in which they must be loaded (dependencies first)
+     * @returns the URLs of the bundles (no URL is returned for scripts or
+     * styles if the libraries have none)
+     */
+    public async createBundles(
+        libraries: IAssetBundleLibrary[]
+    ): Promise<IAssets> {
+        const id = crypto
+            .createHash('sha1')
+            .update(
+                libraries
+                    .map(
+                        ({ library }) =>
+                            `${LibraryName.toUberName(library)}.${
+                                library.patchVersion
+                            }`
+                    )
+                    .sort()
+                    .join(',')
+            )
+            .digest('hex');
+        await this.updateRegistry(registry => {
+            if (registry[id]) {
+                return false;
+            }
+            log.debug(`registering asset bundle ${id}`);
+            registry[id] = libraries;
+            return true;
+        });
+        return {
+            scripts: libraries.some(library => library.scripts.length > 0)
+                ? [this.urlGenerator.assetBundle(`${id}.js`)]
+                : [],
+            styles: libraries.some(library => library.styles.length > 0)
+                ? [this.urlGenerator.assetBundle(`${id}.css`)]
+                : [],
+            translations: {}
+        };
+    }
+
+    /**
+     * Returns a bundle created by createBundles(...). Throws an H5pError (404)
+     * if the bundle doesn't exist (e.g. because one of its libraries was
+     * updated).
+     * @param filename the filename of the bundle (e.g. '<hash>.js')
+     * @returns the concatenated (and minified) scripts or styles
+     */
+    public async getBundle(filename: string): Promise<string> {
+        const match = /^([0-9a-f]{40})\.(css|js)$/.exec(filename);
+        const libraries: IAssetBundleLibrary[] =
+            match && (await this.loadRegistry())[match[1]];
+        if (!libraries) {
+            throw new H5pError('asset-bundle-not-found', { filename }, 404);
+        }
+        if (this.bundles[filename] === undefined) {
+            this.bundles[filename] = await this.buildBundle(
+                libraries,
+                match[2] as 'css' | 'js'
+            );
+        }
+        return this.bundles[filename];
+    }
+
+    /**
+     * Sets the minifier that is used for new bundles.
+     * @param minifier the minifier (e.g. a wrapper for terser or clean-css)
+     */
+    public useMinifier(minifier: IAssetMinifier): AssetAggregator {
+        log.info('changing minifier');
+        this.minifier = minifier;
+        this.bundles = {};
+        return this;
+    }
+
+    private async buildBundle(
+        libraries: IAssetBundleLibrary[],
+        type: 'css' | 'js'
+    ): Promise<string> {
+        log.debug(`building ${type} bundle`);
+        const files: string[] = [];
+        for (const { library, scripts, styles } of libraries) {
+            for (const file of type === 'js' ? scripts : styles) {
+                const code = await streamToString(
+                    await this.libraryManager.getFileStream(library, file)
+                );
+                files.push(
+                    type === 'css'
+                        ? this.rewriteCssUrls(code, library, file)
+                        : code
+                );
+            }
+        }
+        // The semicolons keep scripts that don't end with one from being
+        // joined with the next script.
+        const bundle = files.join(type === 'js' ? ';\n' : '\n');
+        return this.minifier ? this.minifier.minify(bundle, type) : bundle;
+    }
+
+    private async loadRegistry(): Promise<{
+        [id: string]: IAssetBundleLibrary[];
+    }> {
+        return (
+            (await this.keyValueStorage.load(AssetAggregator.storageKey)) ?? {}
+        );
+    }
+
+    /**
+     * Removes all bundles that contain the old version of the library.
+     */
+    private async onLibraryUpdated(
+        oldVersion: IFullLibraryName
+    ): Promise<void> {
+        await this.updateRegistry(registry => {
+            const outdated = Object.keys(registry).filter(id =>
+                registry[id].some(({ library }) =>
+                    LibraryName.equal(library, oldVersion)
+                )
+            );
+            if (outdated.length === 0) {
+                return false;
+            }
+            log.debug(
+                `removing asset bundles of ${LibraryName.toUberName(
+                    oldVersion
+                )}`
+            );
+            for (const id of outdated) {
+                delete registry[id];
+                delete this.bundles[`${id}.css`];
+                delete this.bundles[`${id}.js`];
+            }
+            return true;
+        });
+    }
+
+    /**
+     * Styles refer to images and fonts with URLs relative to the style file.
+     * As the bundle is served from another URL, relative URLs are replaced by
+     * the URLs of the files in the library.
+     */
+    private rewriteCssUrls(
+        css: string,
+        library: IFullLibraryName,
+        file: string
+    ): string {
+        return css.replace(
+            /url\(\s*(['"]?)([^'")]+)\1\s*\)/g,
+            (match, quote, url) => {
+                const trimmedUrl = url.trim();
+                if (/^([a-z][a-z0-9+.-]*:|\/|#)/i.test(trimmedUrl)) {
+                    return match;
+                }
+                return `url(${quote}${this.urlGenerator.libraryFile(
+                    {
+                        machineName: library.machineName,
+                        majorVersion: library.majorVersion,
+                        minorVersion: library.minorVersion
+                    },
+                    path.posix.join(path.posix.dirname(file), trimmedUrl)
+                )}${quote})`;
+            }
+        );
+    }
+
+    /**
+     * Changes the registry of the bundles in the key-value storage. The
+     * changes are queued, so that concurrent changes (e.g. by renders of
+     * content with different libraries) don't overwrite each other.
+     * @param change changes the registry and returns true if it must be saved
+     */
+    private updateRegistry(
+        change: (registry: { [id: string]: IAssetBundleLibrary[] }) => boolean
+    ): Promise<void> {
+        const update = this.registryUpdates.then(async () => {
+            const registry = await this.loadRegistry();
+            if (change(registry)) {
+                await this.keyValueStorage.save(
+                    AssetAggregator.storageKey,
+                    registry
+                );
+            }
+        });
+        this.registryUpdates = update.catch(() => undefined);
+        return update;
+    }
+}
@@ -6,12 +6,18 @@ import { Stream } from 'stream';
 
 import { ContentMetadata } from './ContentMetadata';
 import H5pError from './helpers/H5pError';
+import { hasGeneralPermission } from './helpers/PermissionHelpers';
 import { streamToString } from './helpers/StreamHelpers';
 import {
+    ContentChangedListener,
     ContentId,
     ContentParameters,
+    GeneralPermission,
     IContentMetadata,
     IContentStorage,
+    IDisplayOptions,
+    IFileStats,
+    IPermissionSystem,
     IUser,
     Permission
 } from './types';
@@ -27,14 +33,31 @@ const log = new Logger('ContentManager');
 export default class ContentManager {
     /**
      * @param {FileContentStorage} contentStorage The storage object
+     * @param permissionSystem (optional) the permission system that decides
+     * who can access content; if not set, the permissions are taken from the
+     * storage object
      */
-    constructor(contentStorage: IContentStorage) {
+    constructor(
+        contentStorage: IContentStorage,
+        private permissionSystem?: IPermissionSystem
+    ) {
         log.info('initialize');
         this.contentStorage = contentStorage;
     }
 
+    private contentChangedListeners: ContentChangedListener[] = [];
     private contentStorage: IContentStorage;
 
+    /**
+     * Registers a function that is called after a piece of content was
+     * created, updated or deleted through the ContentManager. Errors thrown
+     * by the function are logged and don't affect the operation.
+     * @param listener the function to call
+     */
+    public addContentChangedListener(listener: ContentChangedListener): void {
+        this.contentChangedListeners.push(listener);
+    }
+
     /**
      * Adds a content file to an existing content object. The content object has to be created with createContent(...) first.
      * @param {number} contentId The id of the content to add the file to
@@ -58,6 +81,34 @@ export default class ContentManager {
         );
     }
 
+    /**
+     * Checks if the user has a permission on a piece of content and throws an
+     * H5pError (403) if this is not the case.
+     * @param contentId the content to check
+     * @param user the user who wants to access the piece of content
+     * @param permission the permission the user needs
+     */
+    public async checkPermission(
+        contentId: ContentId,
+        user: IUser,
+        permission: Permission
+    ): Promise<void> {
+        if (
+            !(await this.getUserPermissions(contentId, user)).includes(
+                permission
+            )
+        ) {
+            throw new H5pError(
+                'content-permission-denied',
+                {
+                    contentId,
+                    permission: Permission[permission].toLowerCase()
+                },
+                403
+            );
+        }
+    }
+
     /**
      * Checks if a piece of content exists.
      * @param contentId the content to check
@@ -83,7 +134,8 @@ export default class ContentManager {
 
     /**
      * Adds content from a H5P package (in a temporary directory) to the installation.
-     * It does not check whether the user has permissions to save content.
+     * It only checks whether the user has permissions to save content if there
+     * is a permission system.
      * @param packageDirectory The absolute path containing the package (the directory containing h5p.json)
      * @param user The user who is adding the package.
      * @param contentId (optional) The content id to use for the package
@@ -108,12 +160,21 @@ export default class ContentManager {
                 path.relative(packageDirectory, file) !== 'content.json'
         );
 
+        const isNew = await this.checkCreateOrEditPermission(contentId, user);
+        const parametersChanged = await this.haveParametersChanged(
+            contentId,
+            parameters,
+            user
+        );
         const newContentId: ContentId = await this.contentStorage.createContent(
             metadata,
             parameters,
             user,
             contentId
         );
+        if (isNew && this.permissionSystem) {
+            await this.permissionSystem.setContentOwner(newContentId, user);
+        }
         try {
             await Promise.all(
                 otherContentFiles.map((file: string) => {
@@ -135,6 +196,11 @@ export default class ContentManager {
             await this.contentStorage.deleteContent(newContentId);
             throw error;
         }
+        await this.notifyContentChanged(
+            newContentId,
+            metadata,
+            parametersChanged
+        );
         return { id: newContentId, metadata, parameters };
     }
 
@@ -153,12 +219,27 @@ export default class ContentManager {
         contentId?: ContentId
     ): Promise<ContentId> {
         log.info(`creating content for ${contentId}`);
-        return this.contentStorage.createContent(
+        const isNew = await this.checkCreateOrEditPermission(contentId, user);
+        const parametersChanged = await this.haveParametersChanged(
+            contentId,
+            content,
+            user
+        );
+        const newContentId = await this.contentStorage.createContent(
             metadata,
             content,
             user,
             contentId
         );
+        if (isNew && this.permissionSystem) {
+            await this.permissionSystem.setContentOwner(newContentId, user);
+        }
+        await this.notifyContentChanged(
+            newContentId,
+            metadata,
+            parametersChanged
+        );
+        return newContentId;
     }
 
     /**
@@ -170,7 +251,14 @@ export default class ContentManager {
         contentId: ContentId,
         user: IUser
     ): Promise<void> {
-        return this.contentStorage.deleteContent(contentId, user);
+        if (this.permissionSystem) {
+            await this.checkPermission(contentId, user, Permission.Delete);
+        }
+        await this.contentStorage.deleteContent(contentId, user);
+        if (this.permissionSystem) {
+            await this.permissionSystem.deleteContentPermissions(contentId);
+        }
+        await this.notifyContentChanged(contentId);
     }
 
     /**
@@ -199,17 +287,50 @@ export default class ContentManager {
         return this.contentStorage.getContentFiles(contentId, user);
     }
 
+    /**
+     * Returns information about a content file (e.g. image or video) inside a
+     * piece of content. Throws an H5pError (404) if the file doesn't exist.
+     * @param contentId the id of the content object that the file is attached to
+     * @param filename the filename of the file
+     * @param user the user who wants to retrieve the content file
+     * @returns the information about the file (e.g. its size)
+     */
+    public async getContentFileStats(
+        contentId: ContentId,
+        filename: string,
+        user: IUser
+    ): Promise<IFileStats> {
+        if (
+            !(await this.contentStorage.contentFileExists(contentId, filename))
+        ) {
+            throw new H5pError(
+                'content-file-missing',
+                { filename, contentId },
+                404
+            );
+        }
+        return this.contentStorage.getContentFileStats(
+            contentId,
+            filename,
+            user
+        );
+    }
+
     /**
      * Returns a readable stream of a content file (e.g. image or video) inside a piece of content
      * @param {number} contentId the id of the content object that the file is attached to
      * @param {string} filename the filename of the file to get
      * @param {IUser} user the user who wants to retrieve the content file
+     * @param {number} rangeStart (optional) the position in bytes at which the stream should start
+     * @param {number} rangeEnd (optional) the position in bytes at which the stream should end (inclusive)
      * @returns {Stream}
      */
     public async getContentFileStream(
         contentId: ContentId,
         filename: string,
-        user: IUser
+        user: IUser,
+        rangeStart?: number,
+        rangeEnd?: number
     ): Promise<ReadStream> {
         log.debug(`loading ${filename} for ${contentId}`);
         if (
@@ -224,12 +345,28 @@ export default class ContentManager {
         return this.contentStorage.getContentFileStream(
             contentId,
             filename,
-            user
+            user,
+            rangeStart,
+            rangeEnd
         );
     }
 
+    /**
+     * Returns the display options that were set for a piece of content. They
+     * override the defaults of the installation.
+     * @param contentId the content
+     * @returns the display options set for the content (can be empty)
+     */
+    public async getDisplayOptions(
+        contentId: ContentId
+    ): Promise<Partial<IDisplayOptions>> {
+        return this.contentStorage.getDisplayOptions(contentId);
+    }
+
     /**
      * Returns an array of permissions a user has on a piece of content.
+     * The permission system is consulted if there is one; otherwise the
+     * permissions are taken from the storage object.
      * @param contentId the content to check
      * @param user the user who wants to access the piece of content
      * @returns an array of permissions
@@ -239,16 +376,32 @@ export default class ContentManager {
         user: IUser
     ): Promise<Permission[]> {
         log.info(`checking user permissions for ${contentId}`);
+        if (this.permissionSystem) {
+            return this.permissionSystem.getContentPermissions(contentId, user);
+        }
         return this.contentStorage.getUserPermissions(contentId, user);
     }
 
     /**
      * Lists the content objects in the system (if no user is specified) or owned by the user.
+     * If there is a permission system, all content objects the user is allowed to view
+     * are listed.
      * @param user (optional) the user who owns the content
      * @returns a list of contentIds
      */
-    public listContent(user?: IUser): Promise<ContentId[]> {
-        return this.contentStorage.listContent(user);
+    public async listContent(user?: IUser): Promise<ContentId[]> {
+        if (!this.permissionSystem || !user) {
+            return this.contentStorage.listContent(user);
+        }
+        const allContent = await this.contentStorage.listContent();
+        const permissions = await Promise.all(
+            allContent.map(contentId =>
+                this.permissionSystem.getContentPermissions(contentId, user)
+            )
+        );
+        return allContent.filter((contentId, index) =>
+            permissions[index].includes(Permission.View)
+        );
     }
 
     /**
@@ -281,6 +434,57 @@ export default class ContentManager {
         );
     }
 
+    /**
+     * Sets the display options of a piece of content, which override the
+     * defaults of the installation. The user must be allowed to edit the
+     * content.
+     * @param contentId the content
+     * @param displayOptions the display options to set; options that aren't
+     * set use the defaults of the installation
+     * @param user the user who changes the display options
+     */
+    public async setDisplayOptions(
+        contentId: ContentId,
+        displayOptions: Partial<IDisplayOptions>,
+        user: IUser
+    ): Promise<void> {
+        log.info(`setting display options of ${contentId}`);
+        await this.checkPermission(contentId, user, Permission.Edit);
+        await this.contentStorage.setDisplayOptions(contentId, displayOptions);
+    }
+
+    /**
+     * Checks if the user is allowed to create the content (if it doesn't exist
+     * yet) or to edit it (if it exists). Throws an H5pError (403) if not.
+     * Only checks the permissions if there is a permission system.
+     * @param contentId the content id (undefined for new content)
+     * @param user the user who wants to save the content
+     * @returns true if the content is new
+     */
+    private async checkCreateOrEditPermission(
+        contentId: ContentId,
+        user: IUser
+    ): Promise<boolean> {
+        if (!this.permissionSystem) {
+            return contentId === undefined;
+        }
+        const isNew =
+            contentId === undefined ||
+            !(await this.contentStorage.contentExists(contentId));
+        if (!isNew) {
+            await this.checkPermission(contentId, user, Permission.Edit);
+        } else if (
+            !(await hasGeneralPermission(
+                GeneralPermission.CreateContent,
+                user,
+                this.permissionSystem
+            ))
+        ) {
+            throw new H5pError('content-create-forbidden', {}, 403);
+        }
+        return isNew;
+    }
+
     /**
      * Returns the decoded JSON data inside a file
      * @param {number} contentId The id of the content object that the file is attached to
@@ -302,4 +506,56 @@ export default class ContentManager {
         const jsonString: string = await streamToString(stream);
         return JSON.parse(jsonString);
     }
+
+    /**
+     * Checks if the parameters of existing content differ from the ones that
+     * are about to be saved.
+     * @param contentId the content id (undefined for new content)
+     * @param parameters the parameters that will be saved
+     * @param user the user who saves the content
+     * @returns true if the content exists and its parameters differ; false for
+     * new content
+     */
+    private async haveParametersChanged(
+        contentId: ContentId,
+        parameters: ContentParameters,
+        user: IUser
+    ): Promise<boolean> {
+        if (
+            contentId === undefined ||
+            this.contentChangedListeners.length === 0 ||
+            !(await this.contentStorage.contentExists(contentId))
+        ) {
+            return false;
+        }
+        try {
+            return (
+                JSON.stringify(
+                    await this.getFileJson(contentId, 'content.json', user)
+                ) !== JSON.stringify(parameters)
+            );
+        } catch (error) {
+            // content without readable parameters is treated as changed
+            return true;
+        }
+    }
+
+    /**
+     * Calls all registered content changed listeners.
+     */
+    private async notifyContentChanged(
+        contentId: ContentId,
+        metadata?: IContentMetadata,
+        parametersChanged: boolean = false
+    ): Promise<void> {
+        for (const listener of this.contentChangedListeners) {
+            try {
+                await listener(contentId, metadata, parametersChanged);
+            } catch (error) {
+                log.error(
+                    `error in content changed listener for ${contentId}: ${error}`
+                );
+            }
+        }
+    }
 }
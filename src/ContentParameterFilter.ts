@@ -0,0 +1,795 @@
+import jp from 'jsonpath';
+
+import defaultEditorIntegration from '../assets/default_editor_integration.json';
+import { ContentScanner, ScanCallback } from './ContentScanner';
+import H5pError from './helpers/H5pError';
+import {
+    addImpliedTags,
+    decodeEntities,
+    escapeHtml,
+    filterHtml
+} from './helpers/HtmlFilter';
+import Logger from './helpers/Logger';
+import LibraryManager from './LibraryManager';
+import LibraryName from './LibraryName';
+import { ILibraryName, ISemanticsEntry } from './types';
+
+const log = new Logger('ContentParameterFilter');
+
+/**
+ * The result of filtering the parameters of a piece of content.
+ */
+export interface IParameterFilterResult {
+    /**
+     * The filtered parameters. Contains no disallowed HTML, no out-of-range
+     * values and no elements that are not described by the semantics.
+     */
+    params: any;
+    /**
+     * A list of all violations that were found (and fixed) while filtering.
+     * Each error has a 'path' replacement that contains the JSON path of the
+     * offending element.
+     */
+    violations: H5pError[];
+}
+
+/**
+ * Filters the parameters of a piece of content (= content.json) against the
+ * semantic structure of the libraries used in it. This is the server-side
+ * equivalent of the filtering the H5P PHP library performs in its
+ * H5PContentValidator: HTML tags that are not whitelisted are removed, numbers
+ * are forced into their allowed range, lists are truncated, unknown fields and
+ * disallowed sub-content libraries are removed.
+ */
+export default class ContentParameterFilter extends ContentScanner {
+    constructor(libraryManager: LibraryManager) {
+        super(libraryManager);
+        log.info('initialize');
+    }
+
+    /**
+     * The properties that are allowed in the parameters of file-like elements
+     * (besides the copyright information, which is filtered separately).
+     */
+    // tslint:disable-next-line: typedef
+    private static allowedFileProperties = {
+        audio: ['path', 'mime', 'codecs', 'quality'],
+        file: ['path', 'mime'],
+        image: ['path', 'mime', 'width', 'height', 'originalImage'],
+        video: ['path', 'mime', 'width', 'height', 'codecs', 'quality']
+    };
+
+    /**
+     * The properties that are allowed in the parameters of a library element
+     * (a nested piece of content).
+     */
+    // tslint:disable-next-line: typedef
+    private static allowedLibraryProperties = [
+        'library',
+        'params',
+        'subContentId',
+        'metadata'
+    ];
+
+    /**
+     * The CSS declarations that are allowed in style attributes of text fields
+     * with HTML.
+     */
+    // tslint:disable-next-line: typedef
+    private static allowedStyles = [/^text-align: *(center|left|right);?$/i];
+
+    /**
+     * Sub content ids must be UUIDs.
+     */
+    // tslint:disable-next-line: typedef
+    private static subContentIdRegExp = /^\{?[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}\}?$/;
+
+    /**
+     * Escapes all strings in the metadata object (= the metadata part of
+     * h5p.json or the metadata of a sub content).
+     * @param metadata the metadata object
+     * @returns a copy of the metadata in which all strings are escaped
+     */
+    public filterMetadata<T>(metadata: T): T {
+        if (typeof metadata === 'string') {
+            return (escapeHtml(metadata) as unknown) as T;
+        }
+        if (Array.isArray(metadata)) {
+            return (metadata.map(entry =>
+                this.filterMetadata(entry)
+            ) as unknown) as T;
+        }
+        if (typeof metadata === 'object' && metadata !== null) {
+            const filtered: any = {};
+            for (const key of Object.keys(metadata)) {
+                filtered[key] = this.filterMetadata(metadata[key]);
+            }
+            return filtered;
+        }
+        return metadata;
+    }
+
+    /**
+     * Filters the parameters of a piece of content. The original parameters
+     * are not changed.
+     * @param params the parameters of the content (= content.json)
+     * @param mainLibraryName the main library of the content
+     * @returns the filtered parameters and a list of the violations that were
+     * found
+     */
+    public async filterParams(
+        params: any,
+        mainLibraryName: ILibraryName
+    ): Promise<IParameterFilterResult> {
+        log.info(
+            `filtering parameters of content with main library ${LibraryName.toUberName(
+                mainLibraryName
+            )}`
+        );
+        const violations: H5pError[] = [];
+        if (
+            typeof params !== 'object' ||
+            params === null ||
+            Array.isArray(params)
+        ) {
+            violations.push(
+                new H5pError('semantics-invalid-params', { path: '$' }, 400)
+            );
+            return { params: {}, violations };
+        }
+
+        const root = JSON.parse(JSON.stringify(params));
+        const mainSemantics = await this.libraryManager.loadSemantics(
+            mainLibraryName
+        );
+
+        const installedLibraries = await this.getInstalledLibraries(root);
+        const removals: string[] = [];
+        const copyrightsToFilter: { params: any; path: string }[] = [];
+        const callback = (
+            semantics: ISemanticsEntry,
+            elementParams: any,
+            jsonPath: string
+        ): boolean =>
+            this.filterEntry(
+                root,
+                semantics,
+                elementParams,
+                jsonPath,
+                violations,
+                removals,
+                copyrightsToFilter,
+                installedLibraries
+            );
+
+        await this.walkSemanticsRecursive(mainSemantics, root, '$', callback);
+
+        // The copyright information of files is described by a semantic
+        // structure that is not part of the library semantics. (We call the
+        // walker of the base class as the file parameters themselves must not
+        // be treated like a group.)
+        for (const copyright of copyrightsToFilter) {
+            await super.walkSemanticsRecursive(
+                [defaultEditorIntegration.copyrightSemantics as any],
+                copyright.params,
+                copyright.path,
+                callback
+            );
+        }
+
+        // We remove elements after walking the tree to not change the JSON
+        // paths while walking. The removals are done in reverse order so
+        // that removing an array element doesn't change the index of the
+        // following removals.
+        for (const path of removals.reverse()) {
+            const parent = jp.parent(root, path);
+            const key = jp.parse(path).pop().expression.value;
+            if (Array.isArray(parent)) {
+                parent.splice(key, 1);
+            } else {
+                delete parent[key];
+            }
+        }
+
+        return { params: root, violations };
+    }
+
+    /**
+     * Treats the parameters of the main content and of sub content like a
+     * group, so that fields that are not part of the semantics are removed.
+     * The other elements are walked like in ContentScanner.
+     */
+    protected async walkSemanticsRecursive(
+        semantics: ISemanticsEntry[],
+        params: any,
+        parentJsonPath: string,
+        callback: ScanCallback
+    ): Promise<void> {
+        callback(
+            { fields: semantics, name: '', type: 'group' },
+            params,
+            parentJsonPath
+        );
+        return super.walkSemanticsRecursive(
+            semantics,
+            params,
+            parentJsonPath,
+            callback
+        );
+    }
+
+    /**
+     * Checks a single element of the parameter tree and fixes it if necessary.
+     * Used as the callback of the semantics walker.
+     * @returns true if the children of the element should not be walked
+     */
+    private filterEntry(
+        root: any,
+        semantics: ISemanticsEntry,
+        params: any,
+        jsonPath: string,
+        violations: H5pError[],
+        removals: string[],
+        copyrightsToFilter: { params: any; path: string }[],
+        installedLibraries: string[]
+    ): boolean {
+        const replace = (value: any): void => {
+            jp.value(root, jsonPath, value);
+        };
+        const remove = (errorId: string, replacements: any = {}): boolean => {
+            violations.push(
+                new H5pError(errorId, { path: jsonPath, ...replacements }, 400)
+            );
+            removals.push(jsonPath);
+            return true;
+        };
+
+        switch (semantics.type) {
+            case 'text':
+                replace(
+                    this.filterText(semantics, params, jsonPath, violations)
+                );
+                return true;
+            case 'number':
+                replace(
+                    this.filterNumber(semantics, params, jsonPath, violations)
+                );
+                return true;
+            case 'boolean':
+                if (typeof params !== 'boolean') {
+                    violations.push(
+                        new H5pError(
+                            'semantics-invalid-boolean',
+                            { path: jsonPath },
+                            400
+                        )
+                    );
+                    replace(params === 'true' || params === 1);
+                }
+                return true;
+            case 'select':
+                replace(
+                    this.filterSelect(semantics, params, jsonPath, violations)
+                );
+                return true;
+            case 'list':
+                if (!Array.isArray(params)) {
+                    return remove('semantics-invalid-list');
+                }
+                if (
+                    semantics.max !== undefined &&
+                    params.length > semantics.max
+                ) {
+                    violations.push(
+                        new H5pError(
+                            'semantics-list-too-long',
+                            { path: jsonPath, max: semantics.max.toString() },
+                            400
+                        )
+                    );
+                    params.splice(semantics.max);
+                }
+                if (
+                    semantics.min !== undefined &&
+                    params.length < semantics.min
+                ) {
+                    violations.push(
+                        new H5pError(
+                            'semantics-list-too-short',
+                            { path: jsonPath, min: semantics.min.toString() },
+                            400
+                        )
+                    );
+                }
+                return false;
+            case 'group':
+                if (typeof params !== 'object' || Array.isArray(params)) {
+                    return remove('semantics-invalid-group');
+                }
+                for (const key of Object.keys(params)) {
+                    if (
+                        key !== 'subContentId' &&
+                        !semantics.fields.some(f => f.name === key)
+                    ) {
+                        violations.push(
+                            new H5pError(
+                                'semantics-unknown-field',
+                                { path: `${jsonPath}.${key}` },
+                                400
+                            )
+                        );
+                        delete params[key];
+                    }
+                }
+                return false;
+            case 'library':
+                return this.filterLibrary(
+                    semantics,
+                    params,
+                    jsonPath,
+                    violations,
+                    remove,
+                    installedLibraries
+                );
+            case 'file':
+            case 'image':
+                if (
+                    !this.filterFile(
+                        semantics.type,
+                        params,
+                        jsonPath,
+                        violations,
+                        copyrightsToFilter
+                    )
+                ) {
+                    return remove('semantics-invalid-file');
+                }
+                return true;
+            case 'video':
+            case 'audio':
+                if (!Array.isArray(params)) {
+                    return remove('semantics-invalid-file');
+                }
+                for (let index = params.length - 1; index >= 0; index -= 1) {
+                    if (
+                        !this.filterFile(
+                            semantics.type,
+                            params[index],
+                            `${jsonPath}[${index}]`,
+                            violations,
+                            copyrightsToFilter
+                        )
+                    ) {
+                        violations.push(
+                            new H5pError(
+                                'semantics-invalid-file',
+                                { path: `${jsonPath}[${index}]` },
+                                400
+                            )
+                        );
+                        params.splice(index, 1);
+                    }
+                }
+                return true;
+            default:
+                return false;
+        }
+    }
+
+    /**
+     * Checks the parameters of a file-like element (file, image, video or
+     * audio) and removes all unknown properties.
+     * @returns false if the element is invalid and must be removed
+     */
+    private filterFile(
+        type: 'file' | 'image' | 'video' | 'audio',
+        params: any,
+        jsonPath: string,
+        violations: H5pError[],
+        copyrightsToFilter: { params: any; path: string }[]
+    ): boolean {
+        if (
+            typeof params !== 'object' ||
+            params === null ||
+            typeof params.path !== 'string'
+        ) {
+            return false;
+        }
+        for (const key of Object.keys(params)) {
+            if (
+                key !== 'copyright' &&
+                !ContentParameterFilter.allowedFileProperties[type].includes(
+                    key
+                )
+            ) {
+                violations.push(
+                    new H5pError(
+                        'semantics-unknown-field',
+                        { path: `${jsonPath}.${key}` },
+                        400
+                    )
+                );
+                delete params[key];
+            }
+        }
+        params.path = escapeHtml(params.path);
+        if (params.mime !== undefined) {
+            params.mime = escapeHtml(String(params.mime));
+        }
+        for (const key of ['width', 'height']) {
+            if (params[key] !== undefined) {
+                params[key] = Number.parseInt(params[key], 10) || 0;
+            }
+        }
+        for (const key of ['codecs', 'quality']) {
+            if (params[key] !== undefined) {
+                params[key] = this.filterMetadata(params[key]);
+            }
+        }
+        if (
+            params.originalImage !== undefined &&
+            !this.filterFile(
+                'image',
+                params.originalImage,
+                `${jsonPath}.originalImage`,
+                violations,
+                copyrightsToFilter
+            )
+        ) {
+            violations.push(
+                new H5pError(
+                    'semantics-invalid-file',
+                    { path: `${jsonPath}.originalImage` },
+                    400
+                )
+            );
+            delete params.originalImage;
+        }
+        if (params.copyright !== undefined) {
+            copyrightsToFilter.push({ params, path: jsonPath });
+        }
+        return true;
+    }
+
+    /**
+     * Checks the parameters of a library element (= a nested piece of
+     * content): only whitelisted libraries and properties are allowed.
+     * @returns true if the children of the element should not be walked
+     */
+    private filterLibrary(
+        semantics: ISemanticsEntry,
+        params: any,
+        jsonPath: string,
+        violations: H5pError[],
+        remove: (errorId: string, replacements?: any) => boolean,
+        installedLibraries: string[]
+    ): boolean {
+        if (typeof params !== 'object' || Array.isArray(params)) {
+            return remove('semantics-invalid-library');
+        }
+        if (params.library === undefined) {
+            // The element is unused.
+            return true;
+        }
+
+        let libraryName: ILibraryName;
+        try {
+            libraryName = LibraryName.fromUberName(params.library, {
+                useWhitespace: true
+            });
+        } catch {
+            return remove('semantics-invalid-library');
+        }
+
+        if (semantics.options !== undefined) {
+            const allowedLibraries = semantics.options.map(option =>
+                LibraryName.fromUberName(option, { useWhitespace: true })
+            );
+            if (
+                !allowedLibraries.some(allowed =>
+                    LibraryName.equal(allowed, libraryName)
+                )
+            ) {
+                return remove(
+                    allowedLibraries.some(
+                        allowed =>
+                            allowed.machineName === libraryName.machineName
+                    )
+                        ? 'semantics-library-wrong-version'
+                        : 'semantics-library-not-allowed',
+                    { library: params.library }
+                );
+            }
+        }
+
+        if (
+            !installedLibraries.includes(
+                LibraryName.toUberName(libraryName, { useWhitespace: true })
+            )
+        ) {
+            return remove('semantics-library-not-installed', {
+                library: params.library
+            });
+        }
+
+        const allowedProperties = ContentParameterFilter.allowedLibraryProperties.concat(
+            semantics.extraAttributes ?? []
+        );
+        for (const key of Object.keys(params)) {
+            if (!allowedProperties.includes(key)) {
+                violations.push(
+                    new H5pError(
+                        'semantics-unknown-field',
+                        { path: `${jsonPath}.${key}` },
+                        400
+                    )
+                );
+                delete params[key];
+            }
+        }
+
+        if (
+            params.subContentId !== undefined &&
+            !ContentParameterFilter.subContentIdRegExp.test(params.subContentId)
+        ) {
+            violations.push(
+                new H5pError(
+                    'semantics-invalid-sub-content-id',
+                    { path: `${jsonPath}.subContentId` },
+                    400
+                )
+            );
+            delete params.subContentId;
+        }
+        if (
+            typeof params.params !== 'object' ||
+            params.params === null ||
+            Array.isArray(params.params)
+        ) {
+            params.params = {};
+        }
+        if (params.metadata !== undefined) {
+            params.metadata = this.filterMetadata(params.metadata);
+        }
+        return false;
+    }
+
+    /**
+     * Checks a number against the min, max, steps and decimals constraints.
+     * @returns the (possibly corrected) number
+     */
+    private filterNumber(
+        semantics: ISemanticsEntry,
+        value: any,
+        jsonPath: string,
+        violations: H5pError[]
+    ): number {
+        let num: number = typeof value === 'number' ? value : Number(value);
+        if (
+            (typeof value !== 'number' && typeof value !== 'string') ||
+            value === '' ||
+            !Number.isFinite(num)
+        ) {
+            violations.push(
+                new H5pError(
+                    'semantics-invalid-number',
+                    { path: jsonPath },
+                    400
+                )
+            );
+            num = 0;
+        }
+        if (semantics.min !== undefined && num < semantics.min) {
+            violations.push(
+                new H5pError(
+                    'semantics-number-too-small',
+                    { path: jsonPath, min: semantics.min.toString() },
+                    400
+                )
+            );
+            num = semantics.min;
+        }
+        if (semantics.max !== undefined && num > semantics.max) {
+            violations.push(
+                new H5pError(
+                    'semantics-number-too-large',
+                    { path: jsonPath, max: semantics.max.toString() },
+                    400
+                )
+            );
+            num = semantics.max;
+        }
+        if (semantics.steps) {
+            const start = semantics.min ?? 0;
+            const stepped =
+                start +
+                Math.round((num - start) / semantics.steps) * semantics.steps;
+            if (Math.abs(stepped - num) > 1e-9) {
+                violations.push(
+                    new H5pError(
+                        'semantics-number-step-mismatch',
+                        { path: jsonPath, steps: semantics.steps.toString() },
+                        400
+                    )
+                );
+                num = stepped;
+            }
+        }
+        if (semantics.decimals !== undefined) {
+            const factor = 10 ** semantics.decimals;
+            num = Math.round(num * factor) / factor;
+        }
+        return num;
+    }
+
+    /**
+     * Checks the value of a select field against the allowed options.
+     * @returns the (possibly corrected) value
+     */
+    private filterSelect(
+        semantics: ISemanticsEntry,
+        value: any,
+        jsonPath: string,
+        violations: H5pError[]
+    ): any {
+        if (!semantics.options || semantics.options.length === 0) {
+            return typeof value === 'string' ? escapeHtml(value) : value;
+        }
+        const allowedValues = semantics.options.map(option => option.value);
+        if (semantics.multiple) {
+            const values: any[] = Array.isArray(value) ? value : [value];
+            const filtered = values.filter(v => allowedValues.includes(v));
+            if (filtered.length !== values.length || !Array.isArray(value)) {
+                violations.push(
+                    new H5pError(
+                        'semantics-invalid-select-option',
+                        { path: jsonPath },
+                        400
+                    )
+                );
+            }
+            return filtered;
+        }
+        if (allowedValues.includes(value)) {
+            return value;
+        }
+        violations.push(
+            new H5pError(
+                'semantics-invalid-select-option',
+                { path: jsonPath },
+                400
+            )
+        );
+        return allowedValues.includes(semantics.default)
+            ? semantics.default
+            : allowedValues[0];
+    }
+
+    /**
+     * Filters the HTML of a text field (or escapes it if no tags are allowed)
+     * and checks the maxLength and regexp constraints.
+     * @returns the (possibly corrected) text
+     */
+    private filterText(
+        semantics: ISemanticsEntry,
+        value: any,
+        jsonPath: string,
+        violations: H5pError[]
+    ): string {
+        if (typeof value !== 'string') {
+            violations.push(
+                new H5pError('semantics-invalid-text', { path: jsonPath }, 400)
+            );
+            return '';
+        }
+
+        let text: string;
+        if (semantics.tags) {
+            text = filterHtml(
+                value,
+                addImpliedTags(semantics.tags),
+                ContentParameterFilter.allowedStyles
+            );
+            // The filter also escapes characters like & or lone < (e.g.
+            // "&" becomes "&amp;"), which isn't a violation.
+            if (decodeEntities(text) !== decodeEntities(value)) {
+                violations.push(
+                    new H5pError(
+                        'semantics-html-tags-removed',
+                        { path: jsonPath },
+                        400
+                    )
+                );
+            }
+        } else {
+            text = escapeHtml(value);
+        }
+
+        if (
+            semantics.maxLength !== undefined &&
+            text.length > semantics.maxLength
+        ) {
+            violations.push(
+                new H5pError(
+                    'semantics-text-too-long',
+                    {
+                        maxLength: semantics.maxLength.toString(),
+                        path: jsonPath
+                    },
+                    400
+                )
+            );
+            text = text.substr(0, semantics.maxLength);
+        }
+
+        if (semantics.regexp && text !== '') {
+            let regExp: RegExp;
+            try {
+                regExp = new RegExp(
+                    semantics.regexp.pattern,
+                    semantics.regexp.modifiers
+                );
+            } catch {
+                log.error(
+                    `Invalid regular expression in semantics: ${semantics.regexp.pattern}`
+                );
+            }
+            if (regExp && !regExp.test(text)) {
+                violations.push(
+                    new H5pError(
+                        'semantics-text-regexp-mismatch',
+                        { path: jsonPath },
+                        400
+                    )
+                );
+                text = '';
+            }
+        }
+        return text;
+    }
+
+    /**
+     * Looks for all library names referenced in the parameters and checks if
+     * they are installed. (We have to do this before walking the tree, as the
+     * walker's callback can't check it asynchronously.)
+     * @param params the content parameters
+     * @returns the ubernames (with whitespace) of all installed libraries that
+     * are referenced in the parameters
+     */
+    private async getInstalledLibraries(params: any): Promise<string[]> {
+        const referencedLibraries: string[] = [];
+        const collect = (object: any): void => {
+            if (typeof object !== 'object' || object === null) {
+                return;
+            }
+            if (
+                typeof object.library === 'string' &&
+                !referencedLibraries.includes(object.library)
+            ) {
+                referencedLibraries.push(object.library);
+            }
+            for (const key of Object.keys(object)) {
+                collect(object[key]);
+            }
+        };
+        collect(params);
+
+        const installedLibraries: string[] = [];
+        for (const library of referencedLibraries) {
+            let libraryName: ILibraryName;
+            try {
+                libraryName = LibraryName.fromUberName(library, {
+                    useWhitespace: true
+                });
+            } catch {
+                continue;
+            }
+            if (await this.libraryManager.libraryExists(libraryName)) {
+                installedLibraries.push(
+                    LibraryName.toUberName(libraryName, { useWhitespace: true })
+                );
+            }
+        }
+        return installedLibraries;
+    }
+}
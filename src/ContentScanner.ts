@@ -23,7 +23,7 @@ export type ScanCallback = (
  * element in the semantic tree. This includes all nested pieces of content.
  */
 export class ContentScanner {
-    constructor(private libraryManager: LibraryManager) {
+    constructor(protected libraryManager: LibraryManager) {
         log.info('initialize');
     }
 
@@ -74,7 +74,7 @@ export class ContentScanner {
         }
 
         // we ignore elements that are not used in the parameters
-        if (elementParams === undefined) {
+        if (elementParams === undefined || elementParams === null) {
             return;
         }
 
@@ -172,7 +172,7 @@ export class ContentScanner {
      * @param parentJsonPath the path of the parent
      * @param callback the callback to execute for every element in the tree
      */
-    private async walkSemanticsRecursive(
+    protected async walkSemanticsRecursive(
         semantics: ISemanticsEntry[],
         params: any,
         parentJsonPath: string,
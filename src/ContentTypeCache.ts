@@ -5,6 +5,7 @@ import * as qs from 'qs';
 
 import H5pError from './helpers/H5pError';
 import Logger from './helpers/Logger';
+import HubMirror from './HubMirror';
 import {
     IEditorConfig,
     IHubContentType,
@@ -34,8 +35,14 @@ export default class ContentTypeCache {
      *
      * @param {EditorConfig} config The configuration to use.
      * @param {IStorage} storage The storage object.
+     * @param hubMirror (optional) a local mirror of the H5P Hub; if set, the
+     * content types are read from it instead of being downloaded
      */
-    constructor(config: IEditorConfig, storage: IKeyValueStorage) {
+    constructor(
+        config: IEditorConfig,
+        storage: IKeyValueStorage,
+        private hubMirror?: HubMirror
+    ) {
         log.info(`initialize`);
         this.config = config;
         this.storage = storage;
@@ -86,10 +93,15 @@ export default class ContentTypeCache {
 
     /**
      * Downloads information about available content types from the H5P Hub. This method will
-     * create a UUID to identify this site if required.
+     * create a UUID to identify this site if required. If there is a hub mirror, the
+     * information is read from its manifest instead (without registering the site).
      * @returns content types
      */
     public async downloadContentTypesFromHub(): Promise<any[]> {
+        if (this.hubMirror) {
+            log.info(`reading content types from hub mirror`);
+            return this.hubMirror.getContentTypes();
+        }
         log.info(
             `downloading content types from hub ${this.config.hubContentTypesEndpoint}`
         );
@@ -5,15 +5,19 @@ import { withFile } from 'tmp-promise';
 
 import ContentTypeCache from './ContentTypeCache';
 import H5pError from './helpers/H5pError';
+import { hasGeneralPermission } from './helpers/PermissionHelpers';
+import HubMirror from './HubMirror';
 import LibraryManager from './LibraryManager';
 import PackageImporter from './PackageImporter';
 import {
+    GeneralPermission,
     IEditorConfig,
     IHubContentType,
     IHubContentTypeWithLocalInfo,
     IHubInfo,
     IInstalledLibrary,
     ILibraryInstallResult,
+    IPermissionSystem,
     IUser
 } from './types';
 
@@ -35,11 +39,17 @@ export default class ContentTypeInformationRepository {
      * @param contentTypeCache
      * @param libraryManager
      * @param config
+     * @param permissionSystem (optional) the permission system that decides
+     * who can install libraries; if not set, the flags of the user object are used
+     * @param hubMirror (optional) a local mirror of the H5P Hub; if set, the
+     * packages of content types are read from it instead of being downloaded
      */
     constructor(
         private contentTypeCache: ContentTypeCache,
         private libraryManager: LibraryManager,
-        private config: IEditorConfig
+        private config: IEditorConfig,
+        private permissionSystem?: IPermissionSystem,
+        private hubMirror?: HubMirror
     ) {
         log.info(`initialize`);
     }
@@ -65,8 +75,16 @@ export default class ContentTypeInformationRepository {
             libraries: hubInfoWithLocalInfo,
             outdated:
                 (await this.contentTypeCache.isOutdated()) &&
-                (user.canInstallRecommended ||
-                    user.canUpdateAndInstallLibraries),
+                ((await hasGeneralPermission(
+                    GeneralPermission.InstallRecommended,
+                    user,
+                    this.permissionSystem
+                )) ||
+                    (await hasGeneralPermission(
+                        GeneralPermission.UpdateAndInstallLibraries,
+                        user,
+                        this.permissionSystem
+                    ))),
             recentlyUsed: [], // TODO: store this somewhere
             user: user.type
         };
@@ -100,18 +118,22 @@ export default class ContentTypeInformationRepository {
         }
 
         // Reject installation of content types that the user has no permission to
-        if (!this.canInstallLibrary(localContentType[0], user)) {
+        if (!(await this.canInstallLibrary(localContentType[0], user))) {
             log.warn(
                 `rejecting installation of content type ${machineName}: user has no permission`
             );
             throw new H5pError('hub-install-denied', {}, 403);
         }
 
-        // Download content type package from the Hub
-        const response = await axios.get(
-            this.config.hubContentTypesEndpoint + machineName,
-            { responseType: 'stream' }
-        );
+        // Download content type package from the Hub (or get it from the mirror)
+        const packageStream = this.hubMirror
+            ? await this.hubMirror.getPackageStream(machineName)
+            : (
+                  await axios.get(
+                      this.config.hubContentTypesEndpoint + machineName,
+                      { responseType: 'stream' }
+                  )
+              ).data;
 
         let installedLibraries: ILibraryInstallResult[] = [];
 
@@ -120,7 +142,7 @@ export default class ContentTypeInformationRepository {
             async ({ path: tempPackagePath }) => {
                 const writeStream = fsExtra.createWriteStream(tempPackagePath);
                 try {
-                    await promisepipe(response.data, writeStream);
+                    await promisepipe(packageStream, writeStream);
                 } catch (error) {
                     log.error(error);
                     throw new H5pError('hub-install-download-failed', {}, 504);
@@ -151,6 +173,11 @@ export default class ContentTypeInformationRepository {
         user: IUser
     ): Promise<IHubContentTypeWithLocalInfo[]> {
         const localLibsWrapped = await this.libraryManager.getInstalled();
+        const canCreateRestricted = await hasGeneralPermission(
+            GeneralPermission.CreateRestricted,
+            user,
+            this.permissionSystem
+        );
         const localLibs = Object.keys(localLibsWrapped)
             .map(
                 machineName =>
@@ -189,7 +216,7 @@ export default class ContentTypeInformationRepository {
                     patchVersion: localLib.patchVersion,
                     restricted:
                         this.libraryIsRestricted(localLib) &&
-                        !user.canCreateRestricted,
+                        !canCreateRestricted,
                     title: localLib.title
                 };
             });
@@ -216,6 +243,11 @@ export default class ContentTypeInformationRepository {
     ): Promise<IHubContentTypeWithLocalInfo[]> {
         log.info(`adding user and installation specific information`);
         const localLibsWrapped = await this.libraryManager.getInstalled();
+        const canCreateRestricted = await hasGeneralPermission(
+            GeneralPermission.CreateRestricted,
+            user,
+            this.permissionSystem
+        );
         const localLibs = Object.keys(localLibsWrapped).map(
             machineName =>
                 localLibsWrapped[machineName][
@@ -239,17 +271,21 @@ export default class ContentTypeInformationRepository {
                 );
                 if (!localLib) {
                     hubLib.installed = false;
-                    hubLib.restricted = !this.canInstallLibrary(hubLib, user);
-                    hubLib.canInstall = this.canInstallLibrary(hubLib, user);
+                    const canInstall = await this.canInstallLibrary(
+                        hubLib,
+                        user
+                    );
+                    hubLib.restricted = !canInstall;
+                    hubLib.canInstall = canInstall;
                     hubLib.isUpToDate = true;
                 } else {
                     hubLib.installed = true;
                     hubLib.restricted =
                         this.libraryIsRestricted(localLib) &&
-                        !user.canCreateRestricted;
+                        !canCreateRestricted;
                     hubLib.canInstall =
                         !this.libraryIsRestricted(localLib) &&
-                        this.canInstallLibrary(hubLib, user);
+                        (await this.canInstallLibrary(hubLib, user));
                     hubLib.isUpToDate = !(await this.libraryManager.libraryHasUpgrade(
                         hubLib
                     ));
@@ -266,13 +302,29 @@ export default class ContentTypeInformationRepository {
      * Checks if users can install library due to their rights.
      * @param {HubContentType} library
      */
-    private canInstallLibrary(library: IHubContentType, user: IUser): boolean {
+    private async canInstallLibrary(
+        library: IHubContentType,
+        user: IUser
+    ): Promise<boolean> {
         log.verbose(
             `checking if user can install library ${library.machineName}`
         );
+        if (
+            await hasGeneralPermission(
+                GeneralPermission.UpdateAndInstallLibraries,
+                user,
+                this.permissionSystem
+            )
+        ) {
+            return true;
+        }
         return (
-            user.canUpdateAndInstallLibraries ||
-            (library.isRecommended && user.canInstallRecommended)
+            library.isRecommended &&
+            hasGeneralPermission(
+                GeneralPermission.InstallRecommended,
+                user,
+                this.permissionSystem
+            )
         );
     }
 
@@ -0,0 +1,466 @@
+import vm from 'vm';
+
+import ContentManager from './ContentManager';
+import H5pError from './helpers/H5pError';
+import Logger from './helpers/Logger';
+import { streamToString } from './helpers/StreamHelpers';
+import LibraryManager from './LibraryManager';
+import LibraryName from './LibraryName';
+import {
+    ContentId,
+    ContentParameters,
+    IContentMetadata,
+    IContentUpgradeResult,
+    ILibraryName,
+    IUser
+} from './types';
+
+const log = new Logger('ContentUpgrader');
+
+/**
+ * Upgrades stored content to a new major or minor version of a library on the
+ * server. (The H5P client does the same in the browser.)
+ *
+ * The upgrades.js script of the new library version is executed in a
+ * separate VM context, in which require, process etc. aren't defined, objects
+ * of the host aren't reachable and code can't be generated from strings (eval,
+ * new Function). Every upgrade step must finish within a time limit.
+ * Parameters are passed in and out of the context as JSON strings, so no code
+ * of the script runs outside of the time limit.
+ *
+ * The vm module of Node.js is not a security mechanism, so this is NOT a
+ * sandbox for untrusted code: a malicious upgrades.js might still find a way
+ * to execute code on the server. Only upgrade content to libraries from
+ * trusted sources (e.g. libraries installed by administrators).
+ *
+ * The main library and all sub-content (objects with the properties library
+ * and params) using an older version of the library are upgraded. The
+ * dependencies in h5p.json are rewritten to the new version.
+ */
+export default class ContentUpgrader {
+    /**
+     * @param contentManager the content manager used to load and save content
+     * @param libraryManager the library manager used to load upgrades.js
+     */
+    constructor(
+        private contentManager: ContentManager,
+        private libraryManager: LibraryManager
+    ) {
+        log.info('initialize');
+    }
+
+    /**
+     * The time in milliseconds a single upgrade step (or the evaluation of
+     * upgrades.js) may take before it is aborted.
+     */
+    public static timeout: number = 1000;
+
+    private static addUnique(list: string[], library: ILibraryName): void {
+        const uberName = LibraryName.toUberName(library);
+        if (!list.includes(uberName)) {
+            list.push(uberName);
+        }
+    }
+
+    /**
+     * Runs code in the VM context and parses the JSON string it returns.
+     * Nothing the scripts of the library put into the context is accessed
+     * outside of runInContext (e.g. a getter or toString method would run on
+     * the host without time limit), so the code must return a string
+     * primitive; everything else is treated like no result.
+     * @returns the parsed value or undefined if the code didn't return a
+     * string
+     */
+    private static evaluate(context: vm.Context, code: string): any {
+        const result = vm.runInContext(code, context, {
+            timeout: ContentUpgrader.timeout
+        });
+        return typeof result === 'string' ? JSON.parse(result) : undefined;
+    }
+
+    private static isOlderVersion(
+        library: ILibraryName,
+        targetLibrary: ILibraryName
+    ): boolean {
+        return (
+            library.machineName === targetLibrary.machineName &&
+            (library.majorVersion < targetLibrary.majorVersion ||
+                (library.majorVersion === targetLibrary.majorVersion &&
+                    library.minorVersion < targetLibrary.minorVersion))
+        );
+    }
+
+    /**
+     * Replaces all versions of the library in the dependencies of the
+     * metadata with the target version.
+     * @returns the new metadata
+     */
+    private static replaceDependencies(
+        metadata: IContentMetadata,
+        targetLibrary: ILibraryName
+    ): IContentMetadata {
+        const replace = (dependencies: ILibraryName[]): ILibraryName[] => {
+            if (!dependencies) {
+                return dependencies;
+            }
+            const replaced = dependencies.filter(
+                dependency =>
+                    dependency.machineName !== targetLibrary.machineName
+            );
+            if (replaced.length !== dependencies.length) {
+                replaced.push({
+                    machineName: targetLibrary.machineName,
+                    majorVersion: targetLibrary.majorVersion,
+                    minorVersion: targetLibrary.minorVersion
+                });
+            }
+            return replaced;
+        };
+        return {
+            ...metadata,
+            dynamicDependencies: replace(metadata.dynamicDependencies),
+            editorDependencies: replace(metadata.editorDependencies),
+            preloadedDependencies: replace(metadata.preloadedDependencies)
+        };
+    }
+
+    /**
+     * Upgrades all content in the system that uses an older version of the
+     * library. Failures are reported for each piece of content and don't stop
+     * the upgrade of other content.
+     * @param targetLibrary the installed library version to upgrade to
+     * @param user the user who performs the upgrade
+     * @param dryRun if true, the upgrades are performed, but the content is
+     * not saved
+     * @returns a result for each piece of content
+     */
+    public async upgradeAllContent(
+        targetLibrary: ILibraryName,
+        user: IUser,
+        dryRun: boolean = false
+    ): Promise<IContentUpgradeResult[]> {
+        log.info(
+            `upgrading all content to ${LibraryName.toUberName(targetLibrary)}${
+                dryRun ? ' (dry run)' : ''
+            }`
+        );
+        const context = await this.createContext(targetLibrary);
+        const results: IContentUpgradeResult[] = [];
+        for (const contentId of await this.contentManager.listContent()) {
+            results.push(
+                await this.upgradeContentInContext(
+                    contentId,
+                    targetLibrary,
+                    context,
+                    user,
+                    dryRun
+                )
+            );
+        }
+        return results;
+    }
+
+    /**
+     * Upgrades a single piece of content to the library version.
+     * @param contentId the content to upgrade
+     * @param targetLibrary the installed library version to upgrade to
+     * @param user the user who performs the upgrade
+     * @param dryRun if true, the upgrade is performed, but the content is not
+     * saved
+     * @returns the result
+     */
+    public async upgradeContent(
+        contentId: ContentId,
+        targetLibrary: ILibraryName,
+        user: IUser,
+        dryRun: boolean = false
+    ): Promise<IContentUpgradeResult> {
+        return this.upgradeContentInContext(
+            contentId,
+            targetLibrary,
+            await this.createContext(targetLibrary),
+            user,
+            dryRun
+        );
+    }
+
+    /**
+     * Creates the VM context and evaluates the upgrades.js script of the
+     * library in it. The context is empty if the library has no upgrades.js.
+     * @param targetLibrary the library to upgrade to
+     * @returns the context
+     */
+    private async createContext(
+        targetLibrary: ILibraryName
+    ): Promise<vm.Context> {
+        if (!(await this.libraryManager.libraryExists(targetLibrary))) {
+            throw new H5pError(
+                'content-upgrade-library-not-installed',
+                { library: LibraryName.toUberName(targetLibrary) },
+                404
+            );
+        }
+        // The globals are created inside the context (and not passed in from
+        // the host), as the constructors of host objects would give access to
+        // the Function constructor of the host.
+        const context = vm.createContext(Object.create(null), {
+            codeGeneration: { strings: false, wasm: false }
+        });
+        vm.runInContext('var H5P = {}; var H5PUpgrades = {};', context);
+        if (
+            await this.libraryManager.libraryFileExists(
+                targetLibrary,
+                'upgrades.js'
+            )
+        ) {
+            const script = await streamToString(
+                await this.libraryManager.getFileStream(
+                    targetLibrary,
+                    'upgrades.js'
+                )
+            );
+            vm.runInContext(script, context, {
+                filename: `${LibraryName.toUberName(
+                    targetLibrary
+                )}/upgrades.js`,
+                timeout: ContentUpgrader.timeout
+            });
+        }
+        return context;
+    }
+
+    /**
+     * Runs all upgrade steps defined in upgrades.js that lie between the
+     * library versions.
+     * @param context the VM context in which upgrades.js was evaluated
+     * @param fromLibrary the library version the parameters were created with
+     * @param targetLibrary the library version to upgrade to
+     * @param params the parameters of the library
+     * @param extras the extras passed to the upgrade steps (contains the
+     * metadata)
+     * @returns the upgraded parameters and extras
+     */
+    private runUpgrades(
+        context: vm.Context,
+        fromLibrary: ILibraryName,
+        targetLibrary: ILibraryName,
+        params: any,
+        extras: any
+    ): { extras: any; params: any } {
+        let result = { extras, params };
+        for (
+            let major = fromLibrary.majorVersion;
+            major <= targetLibrary.majorVersion;
+            major += 1
+        ) {
+            const minorVersions = ContentUpgrader.evaluate(
+                context,
+                `JSON.stringify(Object.keys((H5PUpgrades[${JSON.stringify(
+                    targetLibrary.machineName
+                )}] || {})[${major}] || {}).map(Number))`
+            );
+            if (!Array.isArray(minorVersions)) {
+                continue;
+            }
+            for (const minor of minorVersions
+                .filter(Number.isInteger)
+                .sort((a, b) => a - b)) {
+                if (
+                    (major === fromLibrary.majorVersion &&
+                        minor <= fromLibrary.minorVersion) ||
+                    (major === targetLibrary.majorVersion &&
+                        minor > targetLibrary.minorVersion)
+                ) {
+                    continue;
+                }
+                log.debug(
+                    `running upgrade to ${targetLibrary.machineName} ${major}.${minor}`
+                );
+                result = this.runUpgradeStep(
+                    context,
+                    targetLibrary.machineName,
+                    major,
+                    minor,
+                    result
+                );
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Runs a single upgrade step in the VM context.
+     */
+    private runUpgradeStep(
+        context: vm.Context,
+        machineName: string,
+        major: number,
+        minor: number,
+        input: { extras: any; params: any }
+    ): { extras: any; params: any } {
+        // The input is part of the code (and not set as a property of the
+        // context), as setting a property could call a setter of the scripts.
+        const output = ContentUpgrader.evaluate(
+            context,
+            `(function () {
+                var input = JSON.parse(${JSON.stringify(
+                    JSON.stringify(input)
+                )});
+                var output;
+                H5PUpgrades[${JSON.stringify(
+                    machineName
+                )}][${major}][${minor}](input.params, function (error, params, extras) {
+                    output = JSON.stringify({
+                        error: error ? String(error.message || error) : null,
+                        extras: extras === undefined ? input.extras : extras,
+                        params: params
+                    });
+                }, input.extras);
+                return output;
+            })();`
+        );
+        if (typeof output !== 'object' || output === null) {
+            throw new H5pError('content-upgrade-not-finished', {
+                version: `${major}.${minor}`
+            });
+        }
+        if (output.error) {
+            throw new H5pError('content-upgrade-step-failed', {
+                message: output.error,
+                version: `${major}.${minor}`
+            });
+        }
+        return { extras: output.extras, params: output.params };
+    }
+
+    /**
+     * Upgrades the main content and the sub-content of a piece of content
+     * using an existing VM context. Errors are not thrown but reported in the
+     * result.
+     */
+    private async upgradeContentInContext(
+        contentId: ContentId,
+        targetLibrary: ILibraryName,
+        context: vm.Context,
+        user: IUser,
+        dryRun: boolean
+    ): Promise<IContentUpgradeResult> {
+        const upgradedFrom: string[] = [];
+        try {
+            let metadata = await this.contentManager.loadH5PJson(
+                contentId,
+                user
+            );
+            let params: ContentParameters = await this.contentManager.loadContent(
+                contentId,
+                user
+            );
+
+            const mainLibrary = metadata.preloadedDependencies.find(
+                dependency => dependency.machineName === metadata.mainLibrary
+            );
+            if (
+                mainLibrary &&
+                ContentUpgrader.isOlderVersion(mainLibrary, targetLibrary)
+            ) {
+                const result = this.runUpgrades(
+                    context,
+                    mainLibrary,
+                    targetLibrary,
+                    params,
+                    { metadata }
+                );
+                params = result.params;
+                metadata = { ...metadata, ...result.extras?.metadata };
+                ContentUpgrader.addUnique(upgradedFrom, mainLibrary);
+            }
+            this.upgradeSubContent(
+                context,
+                targetLibrary,
+                params,
+                upgradedFrom
+            );
+
+            if (upgradedFrom.length === 0) {
+                return { contentId, status: 'up-to-date', upgradedFrom };
+            }
+            if (!dryRun) {
+                await this.contentManager.createOrUpdateContent(
+                    ContentUpgrader.replaceDependencies(
+                        metadata,
+                        targetLibrary
+                    ),
+                    params,
+                    user,
+                    contentId
+                );
+            }
+            log.info(
+                `upgraded content ${contentId} from ${upgradedFrom.join(', ')}${
+                    dryRun ? ' (dry run)' : ''
+                }`
+            );
+            return { contentId, status: 'upgraded', upgradedFrom };
+        } catch (error) {
+            log.error(`could not upgrade content ${contentId}: ${error}`);
+            return {
+                contentId,
+                error: error.message,
+                status: 'failed',
+                upgradedFrom
+            };
+        }
+    }
+
+    /**
+     * Upgrades all sub-content in the parameters that uses an older version
+     * of the library.
+     * @param context the VM context in which upgrades.js was evaluated
+     * @param targetLibrary the library version to upgrade to
+     * @param params the parameters to search; are changed in place
+     * @param upgradedFrom the list of upgraded versions (is extended)
+     */
+    private upgradeSubContent(
+        context: vm.Context,
+        targetLibrary: ILibraryName,
+        params: any,
+        upgradedFrom: string[]
+    ): void {
+        if (typeof params !== 'object' || params === null) {
+            return;
+        }
+        if (
+            typeof params.library === 'string' &&
+            /.+ \d+\.\d+/.test(params.library)
+        ) {
+            const library = LibraryName.fromUberName(params.library, {
+                useWhitespace: true
+            });
+            if (ContentUpgrader.isOlderVersion(library, targetLibrary)) {
+                const result = this.runUpgrades(
+                    context,
+                    library,
+                    targetLibrary,
+                    params.params,
+                    { metadata: params.metadata }
+                );
+                params.params = result.params;
+                if (result.extras?.metadata !== undefined) {
+                    params.metadata = result.extras.metadata;
+                }
+                params.library = LibraryName.toUberName(targetLibrary, {
+                    useWhitespace: true
+                });
+                ContentUpgrader.addUnique(upgradedFrom, library);
+            }
+        }
+        for (const key of Object.keys(params)) {
+            this.upgradeSubContent(
+                context,
+                targetLibrary,
+                params[key],
+                upgradedFrom
+            );
+        }
+    }
+}
@@ -0,0 +1,216 @@
+import ContentManager from './ContentManager';
+import H5pError from './helpers/H5pError';
+import Logger from './helpers/Logger';
+import {
+    ContentId,
+    IContentMetadata,
+    IContentUserDataStorage,
+    IUser,
+    Permission
+} from './types';
+
+const log = new Logger('ContentUserDataManager');
+
+/**
+ * Saves and loads the data the H5P client stores for users in content (the
+ * "content user data"), e.g. the state of a presentation that is used to
+ * resume it later. User data saved with the invalidate flag is deleted when
+ * the parameters of the content change, and all user data of content is
+ * deleted together with the content.
+ */
+export default class ContentUserDataManager {
+    /**
+     * @param contentManager the content manager used to check permissions;
+     * the manager registers itself as a listener to keep track of changes
+     * @param contentUserDataStorage the storage for the user data
+     */
+    constructor(
+        private contentManager: ContentManager,
+        private contentUserDataStorage: IContentUserDataStorage
+    ) {
+        log.info('initialize');
+        contentManager.addContentChangedListener(
+            (contentId, metadata, parametersChanged) =>
+                this.onContentChanged(contentId, metadata, parametersChanged)
+        );
+    }
+
+    /**
+     * Checks if the data type and sub-content id only contain characters that
+     * can be used safely as identifiers. Throws an H5pError (400) if not.
+     */
+    private static validateIdentifiers(
+        dataType: string,
+        subContentId: string
+    ): void {
+        if (
+            !/^[\w-]+$/.test(dataType ?? '') ||
+            !/^[\w-]+$/.test(subContentId ?? '')
+        ) {
+            throw new H5pError(
+                'content-user-data-invalid-identifiers',
+                { dataType, subContentId },
+                400
+            );
+        }
+    }
+
+    /**
+     * Saves user data. The user must be allowed to view the content.
+     * @param contentId the content
+     * @param dataType the type of data (e.g. 'state')
+     * @param subContentId the sub-content ('0' for the main content)
+     * @param userState the data as sent by the H5P client
+     * @param invalidate true if the data should be deleted when the
+     * parameters of the content change
+     * @param preload true if the data should be added to the player
+     * integration
+     * @param user the user to whom the data belongs
+     */
+    public async createOrUpdateContentUserData(
+        contentId: ContentId,
+        dataType: string,
+        subContentId: string,
+        userState: string,
+        invalidate: boolean,
+        preload: boolean,
+        user: IUser
+    ): Promise<void> {
+        log.debug(
+            `saving user data ${dataType} of content ${contentId}/${subContentId} for user ${user.id}`
+        );
+        ContentUserDataManager.validateIdentifiers(dataType, subContentId);
+        await this.checkContent(contentId, user);
+        await this.contentUserDataStorage.createOrUpdateContentUserData({
+            contentId,
+            dataType,
+            invalidate,
+            preload,
+            subContentId,
+            userId: user.id,
+            userState
+        });
+    }
+
+    /**
+     * Deletes user data. The user must be allowed to view the content.
+     * @param contentId the content
+     * @param dataType the type of data (e.g. 'state')
+     * @param subContentId the sub-content ('0' for the main content)
+     * @param user the user to whom the data belongs
+     */
+    public async deleteContentUserData(
+        contentId: ContentId,
+        dataType: string,
+        subContentId: string,
+        user: IUser
+    ): Promise<void> {
+        log.debug(
+            `deleting user data ${dataType} of content ${contentId}/${subContentId} for user ${user.id}`
+        );
+        ContentUserDataManager.validateIdentifiers(dataType, subContentId);
+        await this.checkContent(contentId, user);
+        await this.contentUserDataStorage.deleteContentUserData(
+            contentId,
+            dataType,
+            subContentId,
+            user.id
+        );
+    }
+
+    /**
+     * Generates the user data that is passed to the H5P client in the player
+     * integration (H5PIntegration.contents['cid-...'].contentUserData). Only
+     * contains the data that was saved with the preload flag.
+     * @param contentId the content
+     * @param user the user who views the content
+     * @returns the preloaded data by sub-content id and data type
+     */
+    public async generateContentUserDataIntegration(
+        contentId: ContentId,
+        user: IUser
+    ): Promise<{ [subContentId: string]: { [dataType: string]: string } }> {
+        const integration: {
+            [subContentId: string]: { [dataType: string]: string };
+        } = {};
+        for (const data of await this.contentUserDataStorage.listContentUserDataByUser(
+            contentId,
+            user.id
+        )) {
+            if (data.preload) {
+                if (!integration[data.subContentId]) {
+                    integration[data.subContentId] = {};
+                }
+                integration[data.subContentId][data.dataType] = data.userState;
+            }
+        }
+        return integration;
+    }
+
+    /**
+     * Loads user data. The user must be allowed to view the content.
+     * @param contentId the content
+     * @param dataType the type of data (e.g. 'state')
+     * @param subContentId the sub-content ('0' for the main content)
+     * @param user the user to whom the data belongs
+     * @returns the data as sent by the H5P client or undefined if there is
+     * none
+     */
+    public async getContentUserData(
+        contentId: ContentId,
+        dataType: string,
+        subContentId: string,
+        user: IUser
+    ): Promise<string> {
+        ContentUserDataManager.validateIdentifiers(dataType, subContentId);
+        await this.checkContent(contentId, user);
+        return (
+            await this.contentUserDataStorage.getContentUserData(
+                contentId,
+                dataType,
+                subContentId,
+                user.id
+            )
+        )?.userState;
+    }
+
+    /**
+     * Throws an H5pError if the content doesn't exist (404) or the user
+     * can't view it (403).
+     */
+    private async checkContent(
+        contentId: ContentId,
+        user: IUser
+    ): Promise<void> {
+        if (!(await this.contentManager.contentExists(contentId))) {
+            throw new H5pError('content-not-found', { contentId }, 404);
+        }
+        await this.contentManager.checkPermission(
+            contentId,
+            user,
+            Permission.View
+        );
+    }
+
+    /**
+     * Deletes the invalidated user data when the parameters of content have
+     * changed and all user data when content was deleted.
+     */
+    private async onContentChanged(
+        contentId: ContentId,
+        metadata: IContentMetadata,
+        parametersChanged: boolean
+    ): Promise<void> {
+        if (!metadata) {
+            log.info(`deleting all user data of content ${contentId}`);
+            await this.contentUserDataStorage.deleteAllContentUserDataByContentId(
+                contentId
+            );
+        } else if (parametersChanged) {
+            log.info(`deleting invalidated user data of content ${contentId}`);
+            await this.contentUserDataStorage.deleteInvalidatedContentUserData(
+                contentId
+            );
+        }
+    }
+}
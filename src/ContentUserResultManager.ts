@@ -0,0 +1,136 @@
+import ContentManager from './ContentManager';
+import H5pError from './helpers/H5pError';
+import Logger from './helpers/Logger';
+import {
+    ContentId,
+    IContentUserResult,
+    IContentUserResultStorage,
+    IUser,
+    Permission
+} from './types';
+
+const log = new Logger('ContentUserResultManager');
+
+/**
+ * Stores the results the H5P client reports when users have finished content
+ * (setFinished) and offers queries for results per content and per user.
+ */
+export default class ContentUserResultManager {
+    /**
+     * @param contentManager the content manager used to check permissions
+     * @param resultStorage the storage for the results
+     */
+    constructor(
+        private contentManager: ContentManager,
+        private resultStorage: IContentUserResultStorage
+    ) {
+        log.info('initialize');
+    }
+
+    /**
+     * Lists the results of all users in a piece of content. Requires the
+     * permission to edit the content.
+     * @param contentId the content
+     * @param user the user who requests the results
+     * @returns the results
+     */
+    public async getResultsByContent(
+        contentId: ContentId,
+        user: IUser
+    ): Promise<IContentUserResult[]> {
+        log.info(`getting results of content ${contentId}`);
+        await this.checkContent(contentId, user, Permission.Edit);
+        return this.resultStorage.getResultsByContent(contentId);
+    }
+
+    /**
+     * Lists the results of a user in all pieces of content. Users get all of
+     * their own results. The results of other users are only returned for
+     * content the requesting user can edit.
+     * @param userId the user whose results should be returned
+     * @param user the user who requests the results
+     * @returns the results
+     */
+    public async getResultsByUser(
+        userId: string,
+        user: IUser
+    ): Promise<IContentUserResult[]> {
+        log.info(`getting results of user ${userId}`);
+        const results = await this.resultStorage.getResultsByUser(userId);
+        if (userId === user.id) {
+            return results;
+        }
+        const permissions = await Promise.all(
+            results.map(result =>
+                this.contentManager.getUserPermissions(result.contentId, user)
+            )
+        );
+        return results.filter((result, index) =>
+            permissions[index].includes(Permission.Edit)
+        );
+    }
+
+    /**
+     * Stores the result of a user who has finished a piece of content.
+     * Replaces the previous result of the user in the content. The user must
+     * be allowed to view the content.
+     * @param contentId the content the user has finished
+     * @param result the score and times reported by the H5P client
+     * @param user the user who has finished the content
+     * @returns the stored result
+     */
+    public async setFinished(
+        contentId: ContentId,
+        result: {
+            finished: number;
+            maxScore: number;
+            opened: number;
+            score: number;
+            time?: number;
+        },
+        user: IUser
+    ): Promise<IContentUserResult> {
+        log.info(`storing result of user ${user.id} in content ${contentId}`);
+        await this.checkContent(contentId, user, Permission.View);
+        const values = [
+            result.finished,
+            result.maxScore,
+            result.opened,
+            result.score,
+            result.time ?? 0
+        ];
+        if (
+            values.some(value => !Number.isFinite(value) || value < 0) ||
+            result.score > result.maxScore
+        ) {
+            throw new H5pError('user-result-invalid', {}, 400);
+        }
+
+        const userResult: IContentUserResult = {
+            contentId,
+            finished: result.finished,
+            maxScore: result.maxScore,
+            opened: result.opened,
+            score: result.score,
+            time: result.time ?? 0,
+            userId: user.id
+        };
+        await this.resultStorage.saveResult(userResult);
+        return userResult;
+    }
+
+    /**
+     * Throws an H5pError if the content doesn't exist (404) or the user
+     * lacks the permission (403).
+     */
+    private async checkContent(
+        contentId: ContentId,
+        user: IUser,
+        permission: Permission
+    ): Promise<void> {
+        if (!(await this.contentManager.contentExists(contentId))) {
+            throw new H5pError('content-not-found', { contentId }, 404);
+        }
+        await this.contentManager.checkPermission(contentId, user, permission);
+    }
+}
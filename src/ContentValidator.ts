@@ -0,0 +1,84 @@
+import ContentParameterFilter from './ContentParameterFilter';
+import AggregateH5pError from './helpers/AggregateH5pError';
+import Logger from './helpers/Logger';
+import LibraryManager from './LibraryManager';
+import LibraryName from './LibraryName';
+import { ContentParameters, ILibraryName } from './types';
+
+const log = new Logger('ContentValidator');
+
+/**
+ * Validates the parameters of a piece of content (= content.json) against the
+ * semantics of the libraries used in it before it is saved. (This is the
+ * equivalent of H5PContentValidator in the PHP implementation.)
+ *
+ * There are two modes:
+ * - strict: the parameters are rejected if there are any violations.
+ * - lenient: the violations are fixed automatically (e.g. disallowed HTML is
+ *   removed, numbers are clamped, unknown fields are removed).
+ */
+export default class ContentValidator {
+    /**
+     * @param libraryManager the library manager used to load the semantics
+     * @param mode 'strict' to reject invalid parameters, 'lenient' to fix them
+     */
+    constructor(
+        libraryManager: LibraryManager,
+        private mode: 'strict' | 'lenient' = 'lenient'
+    ) {
+        log.info(`initialize (mode: ${mode})`);
+        this.parameterFilter = new ContentParameterFilter(libraryManager);
+    }
+
+    private parameterFilter: ContentParameterFilter;
+
+    /**
+     * Validates the parameters.
+     * Throws an AggregateH5pError in strict mode if the parameters are invalid.
+     * The individual errors contain the JSON path of the offending element in
+     * the 'path' replacement.
+     * @param params the content parameters (= content.json)
+     * @param mainLibraryName the main library of the content
+     * @returns the validated parameters (fixed in lenient mode)
+     */
+    public async validate(
+        params: ContentParameters,
+        mainLibraryName: ILibraryName
+    ): Promise<ContentParameters> {
+        log.info(
+            `validating parameters of content with main library ${LibraryName.toUberName(
+                mainLibraryName
+            )}`
+        );
+        const {
+            params: filteredParams,
+            violations
+        } = await this.parameterFilter.filterParams(params, mainLibraryName);
+
+        if (violations.length === 0) {
+            return filteredParams;
+        }
+
+        if (this.mode === 'strict') {
+            const error = new AggregateH5pError(
+                'content-validation-failed',
+                {},
+                400,
+                `${violations.length} violation(s) found in the content parameters`
+            );
+            for (const violation of violations) {
+                error.addError(violation);
+            }
+            throw error;
+        }
+
+        log.debug(
+            `Fixed ${
+                violations.length
+            } violation(s) in the content parameters: ${violations
+                .map(v => v.message)
+                .join(', ')}`
+        );
+        return filteredParams;
+    }
+}
@@ -77,6 +77,10 @@ export default class DependencyGetter {
         libraries.add(LibraryName.toUberName(library));
 
         const metadata = await this.libraryManager.loadLibrary(library);
+        if (!metadata) {
+            // missing libraries have no dependencies we could follow
+            return libraries;
+        }
         if (preloaded && metadata.preloadedDependencies) {
             await this.addDependenciesToSet(
                 metadata.preloadedDependencies,
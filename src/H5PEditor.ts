@@ -5,21 +5,35 @@ import stream from 'stream';
 import { withFile } from 'tmp-promise';
 
 import defaultEditorIntegration from '../assets/default_editor_integration.json';
-import defaultTranslation from '../assets/translations/client/en.json';
 import editorAssetList from './editorAssetList.json';
 import defaultRenderer from './renderers/default';
 
+import AssetAggregator from './AssetAggregator';
 import ContentManager from './ContentManager';
+import ContentParameterFilter from './ContentParameterFilter';
 import { ContentMetadata } from './ContentMetadata';
 import ContentStorer from './ContentStorer';
 import ContentTypeCache from './ContentTypeCache';
 import ContentTypeInformationRepository from './ContentTypeInformationRepository';
+import ContentUpgrader from './ContentUpgrader';
+import ContentUserDataManager from './ContentUserDataManager';
+import ContentUserResultManager from './ContentUserResultManager';
+import ContentValidator from './ContentValidator';
+import { computeDisplayOptions } from './helpers/DisplayOptionsHelpers';
 import H5pError from './helpers/H5pError';
+import HubMirror from './HubMirror';
+import {
+    getClientTranslation,
+    getLanguageFallbacks
+} from './helpers/LocalizationHelpers';
 import Logger from './helpers/Logger';
+import LibraryAdministration from './LibraryAdministration';
 import LibraryManager from './LibraryManager';
+import LibraryUsageIndex from './LibraryUsageIndex';
 import LibraryName from './LibraryName';
 import PackageExporter from './PackageExporter';
 import PackageImporter from './PackageImporter';
+import RevisionManager from './RevisionManager';
 import TemporaryFileManager from './TemporaryFileManager';
 import {
     ContentId,
@@ -27,8 +41,10 @@ import {
     IAssets,
     IContentMetadata,
     IContentStorage,
+    IDisplayOptions,
     IEditorConfig,
     IEditorIntegration,
+    IH5PEditorOptions,
     IIntegration,
     IKeyValueStorage,
     ILibraryDetailedDataForClient,
@@ -36,39 +52,79 @@ import {
     ILibraryName,
     ILibraryOverviewForClient,
     ILibraryStorage,
+    IPermissionSystem,
     ISemanticsEntry,
     ITemporaryFileStorage,
-    IUser
+    IUser,
+    Permission
 } from './types';
 import UrlGenerator from './UrlGenerator';
+import XapiLrsForwarder from './XapiLrsForwarder';
+import XapiStatementManager from './XapiStatementManager';
 
 const log = new Logger('Editor');
 
 export default class H5PEditor {
+    /**
+     * @param keyValueStorage the storage for (user-configurable) settings and caches
+     * @param config the configuration
+     * @param libraryStorage the storage for libraries
+     * @param contentStorage the storage for content
+     * @param temporaryStorage the storage for files uploaded in the editor
+     * @param options (optional) the permission system and the storages of the
+     * optional features (revisions, xAPI statements, results and user data)
+     */
     constructor(
         keyValueStorage: IKeyValueStorage,
         public config: IEditorConfig,
         libraryStorage: ILibraryStorage,
         contentStorage: IContentStorage,
-        temporaryStorage: ITemporaryFileStorage
+        temporaryStorage: ITemporaryFileStorage,
+        options: IH5PEditorOptions = {}
     ) {
         log.info('initialize');
 
+        const {
+            contentUserDataStorage,
+            contentUserResultStorage,
+            permissionSystem,
+            revisionStorage,
+            xapiStatementStore
+        } = options;
         this.config = config;
+        this.permissionSystem = permissionSystem;
         this.urlGenerator = new UrlGenerator(config);
 
         this.renderer = defaultRenderer;
-        this.clientTranslation = defaultTranslation;
-        this.contentTypeCache = new ContentTypeCache(config, keyValueStorage);
+        if (config.hubMirrorPath) {
+            this.hubMirror = new HubMirror(config.hubMirrorPath);
+        }
+        this.contentTypeCache = new ContentTypeCache(
+            config,
+            keyValueStorage,
+            this.hubMirror
+        );
         this.libraryManager = new LibraryManager(
             libraryStorage,
             this.urlGenerator.libraryFile
         );
-        this.contentManager = new ContentManager(contentStorage);
+        if (config.aggregateAssets) {
+            this.assetAggregator = new AssetAggregator(
+                this.libraryManager,
+                keyValueStorage,
+                config
+            );
+        }
+        this.contentManager = new ContentManager(
+            contentStorage,
+            permissionSystem
+        );
         this.contentTypeRepository = new ContentTypeInformationRepository(
             this.contentTypeCache,
             this.libraryManager,
-            config
+            config,
+            permissionSystem,
+            this.hubMirror
         );
         this.temporaryFileManager = new TemporaryFileManager(
             temporaryStorage,
@@ -83,24 +139,126 @@ export default class H5PEditor {
             this.libraryManager,
             this.config,
             this.contentManager,
-            this.contentStorer
+            this.contentStorer,
+            permissionSystem
         );
         this.packageExporter = new PackageExporter(
             this.libraryManager,
             this.contentManager
         );
+        this.contentParameterFilter = new ContentParameterFilter(
+            this.libraryManager
+        );
+        this.contentValidator = new ContentValidator(
+            this.libraryManager,
+            config.contentValidationMode
+        );
+        this.libraryUsageIndex = new LibraryUsageIndex(
+            this.contentManager,
+            this.libraryManager
+        );
+        this.libraryAdministration = new LibraryAdministration(
+            this.libraryManager,
+            this.contentManager,
+            this.libraryUsageIndex,
+            permissionSystem
+        );
+        this.contentUpgrader = new ContentUpgrader(
+            this.contentManager,
+            this.libraryManager
+        );
+        if (revisionStorage) {
+            this.revisionManager = new RevisionManager(
+                this.contentManager,
+                revisionStorage
+            );
+        }
+        if (xapiStatementStore) {
+            this.xapiStatementManager = new XapiStatementManager(
+                this.contentManager,
+                xapiStatementStore,
+                config.lrsEndpoint
+                    ? new XapiLrsForwarder(
+                          config.lrsEndpoint,
+                          config.lrsAuthorization
+                      )
+                    : undefined,
+                config.siteUrl || undefined
+            );
+        }
+        if (contentUserResultStorage) {
+            this.contentUserResultManager = new ContentUserResultManager(
+                this.contentManager,
+                contentUserResultStorage
+            );
+        }
+        if (contentUserDataStorage) {
+            this.contentUserDataManager = new ContentUserDataManager(
+                this.contentManager,
+                contentUserDataStorage
+            );
+        }
     }
 
+    /**
+     * Combines the scripts and styles of libraries into bundles. Pass it to
+     * the H5PPlayer constructor to use the bundles in the player. Undefined
+     * if aggregateAssets isn't set in the configuration.
+     */
+    public assetAggregator: AssetAggregator;
     public contentManager: ContentManager;
     public contentTypeCache: ContentTypeCache;
     public contentTypeRepository: ContentTypeInformationRepository;
+    /**
+     * Upgrades existing content to newer versions of installed libraries by
+     * running the libraries' upgrades.js scripts on the server. The scripts
+     * aren't sandboxed, so only use it with libraries from trusted sources.
+     */
+    public contentUpgrader: ContentUpgrader;
+    /**
+     * Saves and loads the user data of content. Undefined if no user data
+     * storage was passed to the constructor.
+     */
+    public contentUserDataManager: ContentUserDataManager;
+    /**
+     * Stores and queries the results users achieve in content. Undefined if
+     * no result storage was passed to the constructor.
+     */
+    public contentUserResultManager: ContentUserResultManager;
+    /**
+     * The local mirror of the H5P Hub. Call hubMirror.generateManifest()
+     * after adding packages to it. Undefined if hubMirrorPath isn't set in the
+     * configuration.
+     */
+    public hubMirror: HubMirror;
+    /**
+     * Lists, (un)restricts, deletes and checks installed libraries. Used by
+     * the library administration routes.
+     */
+    public libraryAdministration: LibraryAdministration;
     public libraryManager: LibraryManager;
+    /**
+     * Keeps track of which content uses which libraries.
+     */
+    public libraryUsageIndex: LibraryUsageIndex;
     public packageImporter: PackageImporter;
+    /**
+     * Manages the revision history of content. Undefined if no revision
+     * storage was passed to the constructor.
+     */
+    public revisionManager: RevisionManager;
     public temporaryFileManager: TemporaryFileManager;
+    /**
+     * Stores and forwards the xAPI statements posted by the player. Undefined
+     * if no xAPI statement store was passed to the constructor.
+     */
+    public xapiStatementManager: XapiStatementManager;
 
-    private clientTranslation: any;
+    private contentParameterFilter: ContentParameterFilter;
     private contentStorer: ContentStorer;
+    private contentValidator: ContentValidator;
     private packageExporter: PackageExporter;
+    private permissionSystem: IPermissionSystem;
     private renderer: any;
     private urlGenerator: UrlGenerator;
 
@@ -122,6 +280,63 @@ export default class H5PEditor {
         );
     }
 
+    /**
+     * Filters the parameters and the metadata of a piece of content against the
+     * semantics of the libraries used in it. Disallowed HTML, out-of-range
+     * values and elements that are not described by the semantics are removed.
+     * (This is what the editor client calls when content is copy & pasted.)
+     * @param library the ubername of the main library with whitespace as
+     * separator (e.g. "H5P.Example 1.0")
+     * @param params the content parameters (=content.json)
+     * @param metadata the content metadata
+     * @returns the filtered library name, parameters and metadata
+     */
+    public async filterParameters(
+        library: string,
+        params: ContentParameters,
+        metadata: IContentMetadata
+    ): Promise<{
+        library: string;
+        metadata: IContentMetadata;
+        params: ContentParameters;
+    }> {
+        log.info(`filtering parameters for library ${library}`);
+        let parsedLibraryName: ILibraryName;
+        try {
+            parsedLibraryName = LibraryName.fromUberName(library, {
+                useWhitespace: true
+            });
+        } catch (error) {
+            throw new H5pError(
+                'invalid-main-library-name',
+                { message: error.message },
+                400
+            );
+        }
+
+        const {
+            params: filteredParams,
+            violations
+        } = await this.contentParameterFilter.filterParams(
+            params,
+            parsedLibraryName
+        );
+        if (violations.length > 0) {
+            log.debug(
+                `Removed invalid parameters: ${violations
+                    .map(v => v.message)
+                    .join(', ')}`
+            );
+        }
+        return {
+            library: LibraryName.toUberName(parsedLibraryName, {
+                useWhitespace: true
+            }),
+            metadata: this.contentParameterFilter.filterMetadata(metadata),
+            params: filteredParams
+        };
+    }
+
     /**
      * Returns a stream for a file that was uploaded for a content object.
      * The requested content file can be a temporary file uploaded for unsaved content or a
@@ -136,6 +351,13 @@ export default class H5PEditor {
         filename: string,
         user: IUser
     ): Promise<ReadStream> {
+        if (contentId !== undefined && this.permissionSystem) {
+            await this.contentManager.checkPermission(
+                contentId,
+                user,
+                Permission.View
+            );
+        }
         // We have to try the regular content repository first and then fall back to the temporary storage.
         // This is necessary as the H5P client ignores the '#tmp' suffix we've added to temporary files.
         try {
@@ -163,7 +385,8 @@ export default class H5PEditor {
         machineName: string,
         majorVersion: string,
         minorVersion: string,
-        language: string = 'en'
+        language: string = 'en',
+        defaultLanguage?: string
     ): Promise<ILibraryDetailedDataForClient> {
         log.info(
             `getting data for library ${machineName}-${majorVersion}.${minorVersion}`
@@ -190,7 +413,8 @@ export default class H5PEditor {
             languageObject,
             languages,
             installedLibrary,
-            upgradeScriptPath
+            upgradeScriptPath,
+            defaultLanguageObject
         ] = await Promise.all([
             this.loadAssets(
                 new LibraryName(
@@ -204,14 +428,17 @@ export default class H5PEditor {
             this.libraryManager.loadLanguage(library, language),
             this.libraryManager.listLanguages(library),
             this.libraryManager.loadLibrary(library),
-            this.libraryManager.getUpgradesScriptPath(library)
+            this.libraryManager.getUpgradesScriptPath(library),
+            defaultLanguage
+                ? this.libraryManager.loadLanguage(library, defaultLanguage)
+                : Promise.resolve(null)
         ]);
         return {
             languages,
             semantics,
             // tslint:disable-next-line: object-literal-sort-keys
             css: assets.styles,
-            defaultLanguage: null,
+            defaultLanguage: defaultLanguageObject,
             language: languageObject,
             name: machineName,
             version: {
@@ -303,6 +530,15 @@ export default class H5PEditor {
         ).filter(lib => lib !== undefined); // we filter out undefined values as the last map return undefined values if a library doesn't exist
     }
 
+    /**
+     * Returns the permission system passed to the constructor or undefined if
+     * none was passed. Pass it to the H5PPlayer constructor so that the
+     * player checks the same permissions.
+     */
+    public getPermissionSystem(): IPermissionSystem {
+        return this.permissionSystem;
+    }
+
     /**
      * Determines the main library and returns the ubername for it (e.g. "H5P.Example 1.0").
      * @param metadata the metadata object (=h5p.json)
@@ -330,10 +566,20 @@ export default class H5PEditor {
         return this.contentTypeRepository.install(id, user);
     }
 
+    /**
+     * Loads the data the editor needs to edit existing content.
+     * @param contentId the content to edit
+     * @param user (optional) the user who wants to edit the content; only
+     * needed if there is a permission system
+     * @returns the metadata, parameters and display options of the content;
+     * the display options are the defaults of the configuration overridden by
+     * the options set for the content
+     */
     public async loadH5P(
         contentId: ContentId,
         user?: IUser
     ): Promise<{
+        displayOptions: IDisplayOptions;
         h5p: IContentMetadata;
         library: string;
         params: {
@@ -342,11 +588,23 @@ export default class H5PEditor {
         };
     }> {
         log.info(`loading h5p for ${contentId}`);
-        const [h5pJson, content] = await Promise.all([
+        if (this.permissionSystem) {
+            await this.contentManager.checkPermission(
+                contentId,
+                user,
+                Permission.Edit
+            );
+        }
+        const [h5pJson, content, displayOptions] = await Promise.all([
             this.contentManager.loadH5PJson(contentId, user),
-            this.contentManager.loadContent(contentId, user)
+            this.contentManager.loadContent(contentId, user),
+            this.contentManager.getDisplayOptions(contentId)
         ]);
         return {
+            displayOptions: computeDisplayOptions(
+                this.config.displayOptions,
+                displayOptions
+            ),
             h5p: h5pJson,
             library: this.getUbernameFromMetadata(h5pJson),
             params: {
@@ -356,11 +614,21 @@ export default class H5PEditor {
         };
     }
 
-    public render(contentId: ContentId): Promise<string> {
+    /**
+     * Renders the page of the editor.
+     * @param contentId the id of the content to edit (undefined for new
+     * content)
+     * @param language (optional) the language of the user interface of the
+     * editor (e.g. 'de'); the strings of the H5P client and of the editor are
+     * translated into this language if a translation exists
+     * @returns the rendered page
+     */
+    public render(contentId: ContentId, language?: string): Promise<string> {
         log.info(`rendering ${contentId}`);
         const model = {
-            integration: this.integration(contentId),
-            scripts: this.getCoreScripts(),
+            displayOptions: this.config.displayOptions,
+            integration: this.integration(contentId, language),
+            scripts: this.getCoreScripts(language),
             styles: this.getCoreStyles(),
             urlGenerator: this.urlGenerator
         };
@@ -386,6 +654,13 @@ export default class H5PEditor {
         },
         user: IUser
     ): Promise<{ mime: string; path: string }> {
+        if (contentId && this.permissionSystem) {
+            await this.contentManager.checkPermission(
+                contentId,
+                user,
+                Permission.Edit
+            );
+        }
         const dataStream: any = new stream.PassThrough();
         dataStream.end(file.data);
 
@@ -404,12 +679,17 @@ export default class H5PEditor {
 
     /**
      * Stores new content or updates existing content.
+     * The parameters are validated against the semantics of the libraries
+     * first (see IEditorConfig.contentValidationMode).
      * Copies over files from temporary storage if necessary.
+     * Creates a revision of the content if the revision history is enabled.
      * @param contentId the contentId of existing content (undefined or previously unsaved content)
      * @param parameters the content parameters (=content.json)
      * @param metadata the content metadata (~h5p.json)
      * @param mainLibraryName the ubername with whitespace as separator (no hyphen!)
      * @param user the user who wants to save the piece of content
+     * @param displayOptions (optional) the display options of the content;
+     * if undefined, the display options stay unchanged
      * @returns the existing contentId or the newly assigned one
      */
     public async saveH5P(
@@ -417,7 +697,8 @@ export default class H5PEditor {
         parameters: ContentParameters,
         metadata: IContentMetadata,
         mainLibraryName: string,
-        user: IUser
+        user: IUser,
+        displayOptions?: Partial<IDisplayOptions>
     ): Promise<ContentId> {
         if (contentId !== undefined) {
             log.info(`saving h5p content for ${contentId}`);
@@ -439,19 +720,42 @@ export default class H5PEditor {
             );
         }
 
+        const validatedParameters = await this.contentValidator.validate(
+            parameters,
+            parsedLibraryName
+        );
+
         const h5pJson: IContentMetadata = await this.generateH5PJSON(
             metadata,
             parsedLibraryName,
-            this.findLibraries(parameters)
+            this.findLibraries(validatedParameters)
         );
 
+        if (this.revisionManager) {
+            // The content storer deletes files that aren't used anymore, so
+            // we must keep them in a revision before the content is changed.
+            await this.revisionManager.createRevisionIfMissing(contentId, user);
+        }
+
         const newContentId = await this.contentStorer.saveOrUpdateContent(
             contentId,
-            parameters,
+            validatedParameters,
             h5pJson,
             parsedLibraryName,
             user
         );
+
+        if (displayOptions) {
+            await this.contentManager.setDisplayOptions(
+                newContentId,
+                displayOptions,
+                user
+            );
+        }
+
+        if (this.revisionManager) {
+            await this.revisionManager.createRevision(newContentId, user);
+        }
         return newContentId;
     }
 
@@ -553,11 +857,11 @@ export default class H5PEditor {
         return h5pJson;
     }
 
-    private getCoreScripts(): string[] {
+    private getCoreScripts(language?: string): string[] {
         return editorAssetList.scripts.core
             .map(this.urlGenerator.coreFile)
             .concat(
-                editorAssetList.scripts.editor.map(
+                this.getEditorScripts(language).map(
                     this.urlGenerator.editorLibraryFile
                 )
             );
@@ -573,7 +877,10 @@ export default class H5PEditor {
             );
     }
 
-    private getEditorIntegration(contentId: ContentId): IEditorIntegration {
+    private getEditorIntegration(
+        contentId: ContentId,
+        language?: string
+    ): IEditorIntegration {
         log.info(`generating integration for ${contentId}`);
         return {
             ...defaultEditorIntegration,
@@ -587,7 +894,7 @@ export default class H5PEditor {
                 js: editorAssetList.scripts.integrationCore
                     .map(this.urlGenerator.coreFile)
                     .concat(
-                        editorAssetList.scripts.editor.map(
+                        this.getEditorScripts(language).map(
                             this.urlGenerator.editorLibraryFile
                         )
                     )
@@ -598,17 +905,38 @@ export default class H5PEditor {
         };
     }
 
-    private integration(contentId: ContentId): IIntegration {
+    /**
+     * Returns the scripts of the editor. The English strings of the editor
+     * are always loaded, as other translations of the editor only override
+     * the strings that are translated.
+     */
+    private getEditorScripts(language?: string): string[] {
+        // The editor ships its translations with the primary language subtag
+        // as filename (e.g. language/de.js).
+        const primaryLanguage = getLanguageFallbacks(language).pop();
+        if (!primaryLanguage || primaryLanguage === 'en') {
+            return editorAssetList.scripts.editor;
+        }
+        return [].concat(
+            ...editorAssetList.scripts.editor.map(script =>
+                script === 'language/en.js'
+                    ? [script, `language/${primaryLanguage}.js`]
+                    : [script]
+            )
+        );
+    }
+
+    private integration(contentId: ContentId, language?: string): IIntegration {
         return {
             ajax: {
                 contentUserData: '',
                 setFinished: ''
             },
             ajaxPath: `${this.config.baseUrl}${this.config.ajaxUrl}?action=`,
-            editor: this.getEditorIntegration(contentId),
+            editor: this.getEditorIntegration(contentId, language),
             hubIsEnabled: true,
             l10n: {
-                H5P: this.clientTranslation
+                H5P: getClientTranslation(language)
             },
             postUserStatistics: false,
             saveFreq: false,
@@ -665,14 +993,18 @@ export default class H5PEditor {
             })
         );
 
+        const versionedName = {
+            ...libraryName,
+            patchVersion: library.patchVersion
+        };
         (library.preloadedJs || []).forEach(script =>
             assets.scripts.push(
-                this.urlGenerator.libraryFile(libraryName, script.path)
+                this.urlGenerator.libraryFile(versionedName, script.path)
             )
         );
         (library.preloadedCss || []).forEach(style =>
             assets.styles.push(
-                this.urlGenerator.libraryFile(libraryName, style.path)
+                this.urlGenerator.libraryFile(versionedName, style.path)
             )
         );
         assets.translations[libraryName.machineName] = translation || undefined;
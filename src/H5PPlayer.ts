@@ -1,18 +1,32 @@
+import AssetAggregator from './AssetAggregator';
+import ContentUserDataManager from './ContentUserDataManager';
+import ContentUserResultManager from './ContentUserResultManager';
+import { computeDisplayOptions } from './helpers/DisplayOptionsHelpers';
+import H5pError from './helpers/H5pError';
+import { getClientTranslation } from './helpers/LocalizationHelpers';
 import LibraryName from './LibraryName';
 import {
     ContentId,
     IAssets,
     IContentMetadata,
+    IDisplayOptions,
     IEditorConfig,
+    IH5PPlayerOptions,
     IInstalledLibrary,
     IIntegration,
     ILibraryLoader,
-    ILibraryName
+    ILibraryName,
+    IPermissionSystem,
+    IPlayerContent,
+    IPlayerFragment,
+    IUser,
+    Permission
 } from './types';
 import UrlGenerator from './UrlGenerator';
 
-import defaultTranslation from '../assets/translations/client/en.json';
 import playerAssetList from './playerAssetList.json';
+import embed from './renderers/embed';
+import fragment from './renderers/fragment';
 import player from './renderers/player';
 
 import Logger from './helpers/Logger';
@@ -20,52 +34,107 @@ import Logger from './helpers/Logger';
 const log = new Logger('Player');
 
 export default class H5PPlayer {
+    /**
+     * @param libraryLoader the function used to load the metadata of libraries
+     * @param config the configuration
+     * @param integration (optional) values that override the generated player
+     * integration
+     * @param content (optional) values that are added to the integration of
+     * the content
+     * @param customScripts (optional) HTML that is inserted after the
+     * integration (e.g. script tags)
+     * @param options (optional) the permission system and the managers of
+     * the optional features (user data, results and asset bundles)
+     */
     constructor(
         private libraryLoader: ILibraryLoader,
         private config: IEditorConfig,
         private integration: IIntegration,
         private content: any,
-        private customScripts: string = ''
+        private customScripts: string = '',
+        options: IH5PPlayerOptions = {}
     ) {
         log.info('initialize');
+        this.assetAggregator = options.assetAggregator;
+        this.contentUserDataManager = options.contentUserDataManager;
+        this.contentUserResultManager = options.contentUserResultManager;
+        this.permissionSystem = options.permissionSystem;
         this.renderer = player;
-        this.clientTranslation = defaultTranslation;
+        this.embedRenderer = embed;
+        this.fragmentRenderer = fragment;
         this.urlGenerator = new UrlGenerator(config);
     }
-    private clientTranslation: any;
+    private assetAggregator: AssetAggregator;
+    private contentUserDataManager: ContentUserDataManager;
+    private contentUserResultManager: ContentUserResultManager;
+    private embedRenderer: any;
+    private fragmentRenderer: any;
+    private permissionSystem: IPermissionSystem;
     private renderer: any;
     private urlGenerator: UrlGenerator;
 
+    /**
+     * Generates the integration object (H5PIntegration) used by the H5P
+     * client.
+     * @param contentId the id of the content
+     * @param contentObject the content parameters (= content.json)
+     * @param h5pObject the content metadata (= h5p.json)
+     * @param user (optional) the user who views the content
+     * @param contentUserData (optional) the preloaded user data of the user
+     * (see ContentUserDataManager.generateContentUserDataIntegration); if
+     * set, the H5P client saves the state of the content in the configured
+     * interval
+     * @param displayOptions (optional) the display options (buttons and
+     * frame) of the content; if undefined, the defaults of the configuration
+     * are used
+     * @param language (optional) the language of the user interface of the
+     * H5P client (e.g. 'de'); if undefined, the language of the content
+     * (h5pObject.language) is used
+     * @returns the integration object
+     */
     public generateIntegration(
         contentId: ContentId,
         contentObject: any,
-        h5pObject: IContentMetadata
+        h5pObject: IContentMetadata,
+        user?: IUser,
+        contentUserData?: {
+            [subContentId: string]: { [dataType: string]: string };
+        },
+        displayOptions?: IDisplayOptions,
+        language?: string
     ): IIntegration {
         // see https://h5p.org/creating-your-own-h5p-plugin
         log.info(`generating integration for ${contentId}`);
         return {
+            ajax: {
+                contentUserData: this.urlGenerator.contentUserData(),
+                setFinished: this.contentUserResultManager
+                    ? this.urlGenerator.results()
+                    : ''
+            },
             contents: {
                 [`cid-${contentId}`]: {
                     ...this.content,
-                    displayOptions: {
-                        copy: false,
-                        copyright: false,
-                        embed: false,
-                        export: false,
-                        frame: false,
-                        icon: false
-                    },
+                    contentUserData,
+                    displayOptions:
+                        displayOptions ??
+                        computeDisplayOptions(this.config.displayOptions),
+                    embedCode: this.generateEmbedCode(contentId),
                     fullScreen: false,
                     jsonContent: JSON.stringify(contentObject),
-                    library: this.getMainLibraryUbername(h5pObject)
+                    library: this.getMainLibraryUbername(h5pObject),
+                    resizeCode: this.generateResizeCode()
                 }
             },
             l10n: {
-                H5P: this.clientTranslation
+                H5P: getClientTranslation(language ?? h5pObject.language)
             },
-            postUserStatistics: false,
-            saveFreq: false,
+            postUserStatistics: !!this.contentUserResultManager,
+            saveFreq: contentUserData
+                ? this.config.contentUserStateSaveInterval
+                : false,
             url: this.config.baseUrl,
+            user: user ? { mail: '', name: user.name } : undefined,
             ...this.integration
         };
     }
@@ -78,38 +147,156 @@ export default class H5PPlayer {
         return playerAssetList.styles.core.map(this.urlGenerator.coreFile);
     }
 
+    /**
+     * Renders the page that displays the content (mode 'page', default) or a
+     * fragment that is inserted into a page of your own application (mode
+     * 'fragment'). Fragments allow displaying content inline without the
+     * page being an iframe: the content is rendered as a div if its metadata
+     * and its main library support this; otherwise the H5P client creates an
+     * iframe for it.
+     * @param contentId the id of the content
+     * @param contentObject the content parameters (= content.json)
+     * @param h5pObject the content metadata (= h5p.json)
+     * @param user (optional) the user who wants to view the content; only
+     * needed if the player was created with a permission system
+     * @param displayOptions (optional) the display options set for the
+     * content (see ContentManager.getDisplayOptions); they override the
+     * defaults of the configuration
+     * @param mode (optional) 'page' or 'fragment'
+     * @param language (optional) the language of the user interface of the
+     * H5P client (e.g. the language of the user); if undefined, the language
+     * of the content (h5pObject.language) is used
+     * @returns the rendered page or the fragment with the integration, scripts
+     * and styles the page must include
+     */
+    public render(
+        contentId: ContentId,
+        contentObject: any,
+        h5pObject: IContentMetadata,
+        user?: IUser,
+        displayOptions?: Partial<IDisplayOptions>,
+        mode?: 'page',
+        language?: string
+    ): Promise<string>;
     public render(
         contentId: ContentId,
         contentObject: any,
-        h5pObject: IContentMetadata
+        h5pObject: IContentMetadata,
+        user: IUser,
+        displayOptions: Partial<IDisplayOptions>,
+        mode: 'fragment',
+        language?: string
+    ): Promise<IPlayerFragment>;
+    public async render(
+        contentId: ContentId,
+        contentObject: any,
+        h5pObject: IContentMetadata,
+        user?: IUser,
+        displayOptions?: Partial<IDisplayOptions>,
+        mode: 'page' | 'fragment' = 'page',
+        language?: string
+    ): Promise<string | IPlayerFragment> {
+        log.info(`rendering ${mode} for ${contentId}`);
+        return this.renderContents(
+            [{ contentId, contentObject, displayOptions, h5pObject }],
+            user,
+            mode,
+            language
+        );
+    }
+
+    /**
+     * Renders the page that displays the content when it is embedded into
+     * other sites with an iframe (see the embed code in the integration).
+     * Throws an H5pError (403) if embedding is disabled for the content.
+     * @param contentId the id of the content
+     * @param contentObject the content parameters (= content.json)
+     * @param h5pObject the content metadata (= h5p.json)
+     * @param user (optional) the user who wants to view the content; only
+     * needed if the player was created with a permission system
+     * @param displayOptions (optional) the display options set for the
+     * content (see ContentManager.getDisplayOptions); the embed option
+     * decides if the content can be embedded
+     * @param language (optional) the language of the user interface of the
+     * H5P client; if undefined, the language of the content is used
+     * @returns the rendered page
+     */
+    public async renderEmbed(
+        contentId: ContentId,
+        contentObject: any,
+        h5pObject: IContentMetadata,
+        user?: IUser,
+        displayOptions?: Partial<IDisplayOptions>,
+        language?: string
     ): Promise<string> {
-        log.info(`rendering page for ${contentId}`);
-        const model = {
-            contentId,
-            customScripts: this.customScripts,
-            downloadPath: this.generateDownloadPath(contentId),
-            integration: this.generateIntegration(
-                contentId,
-                contentObject,
-                h5pObject
-            ),
-            scripts: this.getCoreScripts(),
-            styles: this.getCoreStyles(),
-            translations: {}
-        };
+        log.info(`rendering embedded page for ${contentId}`);
+        if (
+            !computeDisplayOptions(this.config.displayOptions, displayOptions)
+                .embed
+        ) {
+            throw new H5pError('content-embed-disabled', { contentId }, 403);
+        }
+        return this.embedRenderer(
+            await this.generateModel(
+                [{ contentId, contentObject, displayOptions, h5pObject }],
+                user,
+                language
+            )
+        );
+    }
 
-        const libraries = {};
-        return this.loadLibraries(
-            h5pObject.preloadedDependencies || [],
-            libraries
-        ).then(() => {
-            this.loadAssets(
-                h5pObject.preloadedDependencies || [],
-                model,
-                libraries
-            );
-            return this.renderer(model);
-        });
+    /**
+     * Renders several pieces of content into a single page (mode 'page',
+     * default) or fragment (mode 'fragment'; see render). All pieces of content
+     * share one integration object, and the scripts and styles of libraries
+     * used by several pieces of content are only included once.
+     * @param contents the pieces of content to render (in the order in which
+     * they are displayed)
+     * @param user (optional) the user who wants to view the content; only
+     * needed if the player was created with a permission system
+     * @param mode (optional) 'page' or 'fragment'
+     * @param language (optional) the language of the user interface of the
+     * H5P client; if undefined, the language of the first piece of content is
+     * used
+     * @returns the rendered page or the fragment with the integration, scripts
+     * and styles the page must include
+     */
+    public renderMultiple(
+        contents: IPlayerContent[],
+        user?: IUser,
+        mode?: 'page',
+        language?: string
+    ): Promise<string>;
+    public renderMultiple(
+        contents: IPlayerContent[],
+        user: IUser,
+        mode: 'fragment',
+        language?: string
+    ): Promise<IPlayerFragment>;
+    public async renderMultiple(
+        contents: IPlayerContent[],
+        user?: IUser,
+        mode: 'page' | 'fragment' = 'page',
+        language?: string
+    ): Promise<string | IPlayerFragment> {
+        log.info(
+            `rendering ${mode} for ${contents
+                .map(content => content.contentId)
+                .join(', ')}`
+        );
+        return this.renderContents(contents, user, mode, language);
+    }
+
+    public useEmbedRenderer(renderer: any): H5PPlayer {
+        log.info('changing embed renderer');
+        this.embedRenderer = renderer;
+        return this;
+    }
+
+    public useFragmentRenderer(renderer: any): H5PPlayer {
+        log.info('changing fragment renderer');
+        this.fragmentRenderer = renderer;
+        return this;
     }
 
     public useRenderer(renderer: any): H5PPlayer {
@@ -118,57 +305,243 @@ export default class H5PPlayer {
         return this;
     }
 
+    /**
+     * Determines how the content is embedded into a page: as a div if the
+     * content prefers it and the main library supports it, otherwise as an
+     * iframe (like H5PCore::determineEmbedType of the PHP implementation).
+     */
+    private determineEmbedType(
+        h5pObject: IContentMetadata,
+        libraries: object
+    ): 'div' | 'iframe' {
+        const mainLibrary = (h5pObject.preloadedDependencies || []).find(
+            lib => lib.machineName === h5pObject.mainLibrary
+        );
+        const libraryEmbedTypes: ('div' | 'iframe')[] =
+            (mainLibrary &&
+                libraries[LibraryName.toUberName(mainLibrary)]?.embedTypes) ||
+            [];
+        const embedType = (h5pObject.embedTypes || []).includes('div')
+            ? 'div'
+            : 'iframe';
+        if (
+            libraryEmbedTypes.length === 0 ||
+            libraryEmbedTypes.includes(embedType)
+        ) {
+            return embedType;
+        }
+        return libraryEmbedTypes.includes('div') ? 'div' : 'iframe';
+    }
+
     private generateDownloadPath(contentId: ContentId): string {
         return this.urlGenerator.downloadPackage(contentId);
     }
 
-    private getMainLibraryUbername(h5pObject: IContentMetadata): string {
-        const library = (h5pObject.preloadedDependencies || []).find(
-            lib => lib.machineName === h5pObject.mainLibrary
+    /**
+     * Generates the iframe HTML other sites use to embed the content. The
+     * H5P client replaces :w and :h with the size of the content.
+     */
+    private generateEmbedCode(contentId: ContentId): string {
+        return `<iframe src="${this.urlGenerator.embed(
+            contentId
+        )}" width=":w" height=":h" frameborder="0" allowfullscreen="allowfullscreen"></iframe>`;
+    }
+
+    /**
+     * Generates the model passed to the renderers: checks if the user may
+     * view the content and collects the integration and the scripts and
+     * styles of the libraries of all pieces of content. contentId and
+     * downloadPath are only set if there is a single piece of content.
+     */
+    private async generateModel(
+        contents: IPlayerContent[],
+        user: IUser,
+        language?: string
+    ): Promise<any> {
+        const libraries = {};
+        const renderedContents = [];
+        let integration: IIntegration;
+        for (const {
+            contentId,
+            contentObject,
+            displayOptions,
+            h5pObject
+        } of contents) {
+            const permissions = this.permissionSystem
+                ? await this.permissionSystem.getContentPermissions(
+                      contentId,
+                      user
+                  )
+                : undefined;
+            if (permissions && !permissions.includes(Permission.View)) {
+                throw new H5pError(
+                    'content-permission-denied',
+                    { contentId, permission: 'view' },
+                    403
+                );
+            }
+            const contentIntegration = this.generateIntegration(
+                contentId,
+                contentObject,
+                h5pObject,
+                user,
+                this.contentUserDataManager && user
+                    ? await this.contentUserDataManager.generateContentUserDataIntegration(
+                          contentId,
+                          user
+                      )
+                    : undefined,
+                computeDisplayOptions(
+                    this.config.displayOptions,
+                    displayOptions,
+                    permissions
+                ),
+                language
+            );
+            integration = integration
+                ? {
+                      ...integration,
+                      contents: {
+                          ...integration.contents,
+                          ...contentIntegration.contents
+                      },
+                      saveFreq:
+                          integration.saveFreq || contentIntegration.saveFreq
+                  }
+                : contentIntegration;
+
+            const dependencies = h5pObject.preloadedDependencies || [];
+            await this.loadLibraries(dependencies, libraries);
+            renderedContents.push({
+                assets: await this.getLibraryAssets(dependencies, libraries),
+                contentId,
+                dependencies,
+                embedType: this.determineEmbedType(h5pObject, libraries)
+            });
+        }
+
+        // Libraries used by several pieces of content are only loaded once.
+        const libraryAssets = await this.getLibraryAssets(
+            [].concat(...renderedContents.map(content => content.dependencies)),
+            libraries
         );
+        return {
+            contentId:
+                contents.length === 1 ? contents[0].contentId : undefined,
+            contents: renderedContents,
+            customScripts: this.config.enableXapiTracking
+                ? `${this.generateXapiScript()}${this.customScripts ?? ''}`
+                : this.customScripts,
+            downloadPath:
+                contents.length === 1
+                    ? this.generateDownloadPath(contents[0].contentId)
+                    : undefined,
+            integration,
+            libraries,
+            scripts: [...this.getCoreScripts(), ...libraryAssets.scripts],
+            styles: [...this.getCoreStyles(), ...libraryAssets.styles],
+            translations: {}
+        };
+    }
 
-        if (!library) return undefined;
+    /**
+     * Generates the script tag other sites add together with the embed code
+     * to resize the iframe.
+     */
+    private generateResizeCode(): string {
+        return `<script src="${this.urlGenerator.resizer()}" charset="UTF-8"></script>`;
+    }
 
-        return LibraryName.toUberName(library, { useWhitespace: true });
+    /**
+     * Generates a script that posts the xAPI statements emitted by the
+     * content to the server.
+     */
+    private generateXapiScript(): string {
+        const xapiUrl = `${this.config.baseUrl}${this.config.xapiUrl}`;
+        return `
+    <script>
+        H5P.externalDispatcher.on('xAPI', function (event) {
+            var statement = event.data.statement;
+            var extensions = statement.object && statement.object.definition
+                && statement.object.definition.extensions;
+            var contentId = extensions
+                && extensions['http://h5p.org/x-api/h5p-local-content-id'];
+            if (contentId === undefined) {
+                return;
+            }
+            H5P.jQuery.ajax({
+                contentType: 'application/json',
+                data: JSON.stringify(statement),
+                type: 'POST',
+                url: ${JSON.stringify(xapiUrl)} + '/' + contentId
+            });
+        });
+    </script>`;
     }
 
-    private loadAssets(
+    /**
+     * Collects the URLs of the scripts and styles of the libraries and their
+     * dependencies. If the player has an asset aggregator, the files are
+     * combined into bundles.
+     */
+    private async getLibraryAssets(
         dependencies: ILibraryName[],
-        assets: IAssets,
-        libraries: object = {},
-        loaded: object = {}
-    ): void {
-        log.verbose(
-            `loading assets from dependencies: ${dependencies
-                .map(dep => LibraryName.toUberName(dep))
-                .join(', ')}`
-        );
-        dependencies.forEach(dependency => {
-            const key = LibraryName.toUberName(dependency);
-            if (key in loaded) return;
-
-            loaded[key] = true;
-            const lib = libraries[key];
-            this.loadAssets(
-                lib.preloadedDependencies || [],
-                assets,
-                libraries,
-                loaded
+        libraries: object
+    ): Promise<IAssets> {
+        const sortedLibraries = this.sortLibraries(dependencies, libraries);
+        if (this.assetAggregator) {
+            return this.assetAggregator.createBundles(
+                sortedLibraries.map(({ library, name }) => ({
+                    library: { ...name, patchVersion: library.patchVersion },
+                    scripts: (library.preloadedJs || []).map(
+                        script => script.path
+                    ),
+                    styles: (library.preloadedCss || []).map(
+                        style => style.path
+                    )
+                }))
             );
-            (lib.preloadedCss || []).forEach(asset =>
+        }
+        const assets: IAssets = {
+            scripts: [],
+            styles: [],
+            translations: {}
+        };
+        sortedLibraries.forEach(({ library, name }) => {
+            const versionedName = {
+                ...name,
+                patchVersion: library.patchVersion
+            };
+            (library.preloadedCss || []).forEach(asset =>
                 assets.styles.push(
-                    this.urlGenerator.libraryFile(dependency, asset.path)
+                    this.urlGenerator.libraryFile(versionedName, asset.path)
                 )
             );
-            (lib.preloadedJs || []).forEach(script =>
+            (library.preloadedJs || []).forEach(script =>
                 assets.scripts.push(
-                    this.urlGenerator.libraryFile(dependency, script.path)
+                    this.urlGenerator.libraryFile(versionedName, script.path)
                 )
             );
         });
+        return assets;
     }
 
-    private loadLibraries(
+    private getMainLibraryUbername(h5pObject: IContentMetadata): string {
+        const library = (h5pObject.preloadedDependencies || []).find(
+            lib => lib.machineName === h5pObject.mainLibrary
+        );
+
+        if (!library) return undefined;
+
+        return LibraryName.toUberName(library, { useWhitespace: true });
+    }
+
+    /**
+     * Loads the libraries and their preloaded dependencies (recursively) into
+     * the loaded object. Throws an H5pError (404) if one of them isn't
+     * installed.
+     */
+    private async loadLibraries(
         dependencies: ILibraryName[],
         loaded: object
     ): Promise<void> {
@@ -177,32 +550,27 @@ export default class H5PPlayer {
                 .map(dep => LibraryName.toUberName(dep))
                 .join(', ')}`
         );
-        return new Promise(resolve => {
-            Promise.all(
-                dependencies.map(
-                    dependency =>
-                        new Promise(rslv => {
-                            const name = dependency.machineName;
-                            const majVer = dependency.majorVersion;
-                            const minVer = dependency.minorVersion;
-
-                            const key = LibraryName.toUberName(dependency);
-
-                            if (key in loaded) return rslv();
-
-                            return this.loadLibrary(name, majVer, minVer).then(
-                                lib => {
-                                    loaded[key] = lib;
-                                    this.loadLibraries(
-                                        lib.preloadedDependencies || [],
-                                        loaded
-                                    ).then(() => rslv());
-                                }
-                            );
-                        })
-                )
-            ).then(() => resolve());
-        });
+        await Promise.all(
+            dependencies.map(async dependency => {
+                const key = LibraryName.toUberName(dependency);
+                if (key in loaded) {
+                    return;
+                }
+                const lib = await this.loadLibrary(
+                    dependency.machineName,
+                    dependency.majorVersion,
+                    dependency.minorVersion
+                );
+                if (!lib) {
+                    throw new H5pError('library-not-found', { name: key }, 404);
+                }
+                loaded[key] = lib;
+                await this.loadLibraries(
+                    lib.preloadedDependencies || [],
+                    loaded
+                );
+            })
+        );
     }
 
     private loadLibrary(
@@ -217,4 +585,95 @@ export default class H5PPlayer {
             this.libraryLoader(machineName, majorVersion, minorVersion)
         );
     }
+
+    /**
+     * Renders the pieces of content as a page or as a fragment (see
+     * renderMultiple).
+     */
+    private async renderContents(
+        contents: IPlayerContent[],
+        user: IUser,
+        mode: 'page' | 'fragment',
+        language?: string
+    ): Promise<string | IPlayerFragment> {
+        const model = await this.generateModel(contents, user, language);
+        if (mode === 'page') {
+            return this.renderer(model);
+        }
+
+        const divContents = model.contents.filter(
+            content => content.embedType === 'div'
+        );
+        const iframeContents = model.contents.filter(
+            content => content.embedType === 'iframe'
+        );
+        // The H5P client creates the iframes and adds the core files and the
+        // files of the libraries to them.
+        if (iframeContents.length > 0) {
+            model.integration.core = {
+                scripts: this.getCoreScripts(),
+                styles: this.getCoreStyles()
+            };
+        }
+        for (const content of iframeContents) {
+            model.integration.contents[`cid-${content.contentId}`].scripts =
+                content.assets.scripts;
+            model.integration.contents[`cid-${content.contentId}`].styles =
+                content.assets.styles;
+        }
+        // The page only needs the files of the libraries of content that is
+        // displayed directly in it.
+        const pageAssets = await this.getLibraryAssets(
+            [].concat(...divContents.map(content => content.dependencies)),
+            model.libraries
+        );
+        return {
+            embedType: iframeContents.length > 0 ? 'iframe' : 'div',
+            html: `${model.contents
+                .map(content =>
+                    this.fragmentRenderer({
+                        ...model,
+                        contentId: content.contentId,
+                        embedType: content.embedType
+                    })
+                )
+                .join('\n')}${model.customScripts ?? ''}`,
+            integration: model.integration,
+            scripts: [...this.getCoreScripts(), ...pageAssets.scripts],
+            styles: [...this.getCoreStyles(), ...pageAssets.styles]
+        };
+    }
+
+    /**
+     * Returns the libraries and all their (preloaded) dependencies in the
+     * order in which their files must be loaded (dependencies first). Every
+     * library is only returned once.
+     */
+    private sortLibraries(
+        dependencies: ILibraryName[],
+        libraries: object,
+        loaded: object = {},
+        sorted: { library: any; name: ILibraryName }[] = []
+    ): { library: any; name: ILibraryName }[] {
+        log.verbose(
+            `loading assets from dependencies: ${dependencies
+                .map(dep => LibraryName.toUberName(dep))
+                .join(', ')}`
+        );
+        dependencies.forEach(dependency => {
+            const key = LibraryName.toUberName(dependency);
+            if (key in loaded) return;
+
+            loaded[key] = true;
+            const lib = libraries[key];
+            this.sortLibraries(
+                lib.preloadedDependencies || [],
+                libraries,
+                loaded,
+                sorted
+            );
+            sorted.push({ library: lib, name: dependency });
+        });
+        return sorted;
+    }
 }
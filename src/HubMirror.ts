@@ -0,0 +1,207 @@
+import * as fsExtra from 'fs-extra';
+import path from 'path';
+import * as yauzlPromise from 'yauzl-promise';
+
+import H5pError from './helpers/H5pError';
+import { toHubContentType } from './helpers/HubHelpers';
+import Logger from './helpers/Logger';
+import { streamToString } from './helpers/StreamHelpers';
+import InstalledLibrary from './InstalledLibrary';
+import { ILibraryMetadata } from './types';
+
+const log = new Logger('HubMirror');
+
+/**
+ * A local replacement of the H5P Hub for servers without internet access. The
+ * mirror is a directory of .h5p packages of content types (e.g. downloaded
+ * from the H5P Hub on another machine) and a manifest (content-types.json)
+ * that lists them in the format used by the H5P Hub. ContentTypeCache and
+ * ContentTypeInformationRepository read the manifest and the packages instead
+ * of calling the H5P Hub if a mirror is set (see IEditorConfig.hubMirrorPath).
+ *
+ * Call generateManifest() after adding packages to the directory. The
+ * manifest can be edited to add information that isn't contained in the
+ * packages (e.g. icon, summary, screenshots or categories); these changes are
+ * kept when the manifest is generated again.
+ */
+export default class HubMirror {
+    /**
+     * @param directory the directory that contains the packages and the
+     * manifest
+     */
+    constructor(private directory: string) {
+        log.info(`initialize (directory: ${directory})`);
+    }
+
+    /**
+     * The filename of the manifest in the directory.
+     */
+    private static manifestFilename: string = 'content-types.json';
+
+    /**
+     * Creates the manifest from the packages in the directory. If there are
+     * several packages of a content type, the one with the highest version is
+     * used. Packages that can't be read or don't contain a main library are
+     * skipped.
+     * @returns the content types in the manifest (in the format of the H5P
+     * Hub)
+     */
+    public async generateManifest(): Promise<any[]> {
+        log.info(`generating manifest of hub mirror ${this.directory}`);
+        const oldContentTypes = (await this.loadManifest()) ?? [];
+        const newest: {
+            [machineName: string]: {
+                library: ILibraryMetadata;
+                modified: string;
+                packageFile: string;
+            };
+        } = {};
+        const packages = (await fsExtra.readdir(this.directory))
+            .filter(filename => filename.toLowerCase().endsWith('.h5p'))
+            .sort();
+        for (const packageFile of packages) {
+            let library: ILibraryMetadata;
+            let modified: string;
+            try {
+                library = await this.readMainLibrary(packageFile);
+                modified = (
+                    await fsExtra.stat(path.join(this.directory, packageFile))
+                ).mtime.toISOString();
+            } catch (error) {
+                log.warn(`skipping package ${packageFile}: ${error.message}`);
+                continue;
+            }
+            if (
+                newest[library.machineName] &&
+                InstalledLibrary.fromMetadata(
+                    newest[library.machineName].library
+                ).compareVersions(library) >= 0
+            ) {
+                continue;
+            }
+            newest[library.machineName] = { library, modified, packageFile };
+        }
+        const manifest = Object.keys(newest)
+            .sort()
+            .map(machineName => {
+                const { library, modified, packageFile } = newest[machineName];
+                const contentType = toHubContentType(library, modified);
+                return {
+                    ...contentType,
+                    ...oldContentTypes.find(({ id }) => id === machineName),
+                    coreApiVersionNeeded: contentType.coreApiVersionNeeded,
+                    package: packageFile,
+                    updatedAt: contentType.updatedAt,
+                    version: contentType.version
+                };
+            });
+        await fsExtra.writeJSON(
+            path.join(this.directory, HubMirror.manifestFilename),
+            { contentTypes: manifest },
+            { spaces: 2 }
+        );
+        return manifest;
+    }
+
+    /**
+     * Returns the content types listed in the manifest in the format of the
+     * H5P Hub. Throws an H5pError if the manifest doesn't exist.
+     * @returns the content types
+     */
+    public async getContentTypes(): Promise<any[]> {
+        log.debug(`getting content types of hub mirror ${this.directory}`);
+        const contentTypes = await this.loadManifest();
+        if (!contentTypes) {
+            throw new H5pError('hub-mirror-manifest-missing', {}, 500);
+        }
+        return contentTypes;
+    }
+
+    /**
+     * Returns the package of a content type. Throws an H5pError (404) if the
+     * content type isn't listed in the manifest or its package is missing.
+     * @param machineName the machine name of the content type
+     * @returns a stream of the .h5p file
+     */
+    public async getPackageStream(
+        machineName: string
+    ): Promise<fsExtra.ReadStream> {
+        log.debug(`getting package of ${machineName} from hub mirror`);
+        const contentType = (await this.getContentTypes()).find(
+            ({ id }) => id === machineName
+        );
+        const packagePath = contentType?.package
+            ? path.join(this.directory, path.basename(contentType.package))
+            : undefined;
+        if (!packagePath || !(await fsExtra.pathExists(packagePath))) {
+            throw new H5pError(
+                'hub-mirror-package-missing',
+                { machineName },
+                404
+            );
+        }
+        return fsExtra.createReadStream(packagePath);
+    }
+
+    private async loadManifest(): Promise<any[]> {
+        try {
+            return (
+                await fsExtra.readJSON(
+                    path.join(this.directory, HubMirror.manifestFilename)
+                )
+            ).contentTypes;
+        } catch (error) {
+            log.debug(`no manifest in hub mirror: ${error.message}`);
+            return undefined;
+        }
+    }
+
+    /**
+     * Reads the metadata of the main library of the package. If the package
+     * contains several versions of the main library, the highest one is
+     * returned.
+     */
+    private async readMainLibrary(
+        packageFile: string
+    ): Promise<ILibraryMetadata> {
+        const zipFile = await yauzlPromise.open(
+            path.join(this.directory, packageFile)
+        );
+        try {
+            const entries = await zipFile.readEntries();
+            const readJson = async (entry: yauzlPromise.Entry) =>
+                JSON.parse(await streamToString(await entry.openReadStream()));
+
+            const h5pJsonEntry = entries.find(
+                entry => entry.fileName === 'h5p.json'
+            );
+            if (!h5pJsonEntry) {
+                throw new Error('h5p.json is missing');
+            }
+            const { mainLibrary } = await readJson(h5pJsonEntry);
+            let library: ILibraryMetadata;
+            for (const entry of entries.filter(
+                e =>
+                    e.fileName.startsWith(`${mainLibrary}-`) &&
+                    /^[^/]+\/library\.json$/.test(e.fileName)
+            )) {
+                const candidate: ILibraryMetadata = await readJson(entry);
+                if (
+                    candidate.machineName === mainLibrary &&
+                    (!library ||
+                        InstalledLibrary.fromMetadata(
+                            candidate
+                        ).compareVersions(library) > 0)
+                ) {
+                    library = candidate;
+                }
+            }
+            if (!library) {
+                throw new Error(`main library ${mainLibrary} is missing`);
+            }
+            return library;
+        } finally {
+            await zipFile.close();
+        }
+    }
+}
@@ -0,0 +1,218 @@
+import { Readable } from 'stream';
+import yazl from 'yazl';
+
+import DependencyGetter from './DependencyGetter';
+import H5pError from './helpers/H5pError';
+import { toHubContentType } from './helpers/HubHelpers';
+import Logger from './helpers/Logger';
+import LibraryManager from './LibraryManager';
+import LibraryName from './LibraryName';
+import { IInstalledLibrary, ILibraryStorage } from './types';
+
+const log = new Logger('HubServer');
+
+/**
+ * Serves the content types in a library storage like the H5P Hub does, so that
+ * other H5P servers can use this server as their hub (by setting
+ * IEditorConfig.hubContentTypesEndpoint to the URL of the hub routes of the
+ * Express adapter, see adapters.expressHubServer). All runnable libraries in
+ * the storage are published as content types; if there are several versions
+ * of a library, the one with the highest version is published.
+ *
+ * The content types are returned in the format of the H5P Hub, which is
+ * converted to the local format by ContentTypeCache, and the packages contain
+ * the library of the content type and all its dependencies.
+ */
+export default class HubServer {
+    /**
+     * @param libraryStorage the storage of the libraries that are published
+     */
+    constructor(libraryStorage: ILibraryStorage) {
+        log.info('initialize');
+        this.libraryManager = new LibraryManager(libraryStorage);
+    }
+
+    private libraryManager: LibraryManager;
+
+    /**
+     * Creates a package (.h5p file) of a content type. The package contains a
+     * h5p.json file and the library of the content type with its preloaded,
+     * editor and dynamic dependencies. The libraries and their files are
+     * resolved before the package is returned, so errors are thrown before
+     * anything is written. Throws an H5pError (404) if the content type isn't
+     * published.
+     * @param machineName the machine name of the content type
+     * @returns a stream of the package (e.g. to be piped to the response
+     * stream of Express)
+     */
+    public async createPackage(machineName: string): Promise<Readable> {
+        log.info(`creating package of content type ${machineName}`);
+        const library = await this.getContentTypeLibrary(machineName);
+        const dependencies = await new DependencyGetter(
+            this.libraryManager
+        ).getDependentLibraries([library], {
+            dynamic: true,
+            editor: true,
+            preloaded: true
+        });
+        const files: { path: string; stream: Readable }[] = [];
+        for (const dependency of dependencies) {
+            for (const file of await this.libraryManager.listFiles(
+                dependency
+            )) {
+                files.push({
+                    path: `${LibraryName.toUberName(dependency)}/${file}`,
+                    stream: await this.libraryManager.getFileStream(
+                        dependency,
+                        file
+                    )
+                });
+            }
+        }
+
+        const outputZipFile = new yazl.ZipFile();
+        outputZipFile.addReadStream(
+            createJsonStream({
+                embedTypes: library.embedTypes ?? ['iframe'],
+                language: 'und',
+                license: 'U',
+                mainLibrary: library.machineName,
+                preloadedDependencies: [
+                    {
+                        machineName: library.machineName,
+                        majorVersion: library.majorVersion,
+                        minorVersion: library.minorVersion
+                    }
+                ],
+                title: library.title
+            }),
+            'h5p.json'
+        );
+        for (const file of files) {
+            outputZipFile.addReadStream(file.stream, file.path);
+        }
+        outputZipFile.end();
+        return outputZipFile.outputStream as Readable;
+    }
+
+    /**
+     * Returns the published content types in the format of the H5P Hub (the
+     * value of the property contentTypes in the response of the content type
+     * endpoint).
+     * @param iconBaseUrl (optional) the URL under which the icons of the
+     * content types are served (see getIconStream); the icon of a content
+     * type is at <iconBaseUrl>/<machineName>/icon.svg; if undefined, no icons
+     * are returned
+     * @returns the content types sorted by machine name
+     */
+    public async getContentTypes(iconBaseUrl?: string): Promise<any[]> {
+        log.info('getting published content types');
+        const installed = await this.libraryManager.getInstalled();
+        const contentTypes = [];
+        for (const machineName of Object.keys(installed).sort()) {
+            const library = await this.findNewestRunnable(
+                installed[machineName]
+            );
+            if (library) {
+                contentTypes.push(await this.toHubFormat(library, iconBaseUrl));
+            }
+        }
+        return contentTypes;
+    }
+
+    /**
+     * Returns the icon (icon.svg) of a content type. Throws an H5pError (404)
+     * if the content type isn't published or has no icon.
+     * @param machineName the machine name of the content type
+     * @returns a stream of the icon
+     */
+    public async getIconStream(machineName: string): Promise<Readable> {
+        const library = await this.getContentTypeLibrary(machineName);
+        if (
+            !(await this.libraryManager.libraryFileExists(library, 'icon.svg'))
+        ) {
+            throw new H5pError(
+                'hub-server-content-type-not-found',
+                { machineName },
+                404
+            );
+        }
+        return this.libraryManager.getFileStream(library, 'icon.svg');
+    }
+
+    /**
+     * Returns the metadata of the newest runnable version of the libraries or
+     * undefined if none of them is runnable.
+     */
+    private async findNewestRunnable(
+        libraries: IInstalledLibrary[]
+    ): Promise<IInstalledLibrary> {
+        const newest = libraries
+            .filter(library => library.runnable)
+            .sort((library1, library2) =>
+                library2.compareVersions(library1)
+            )[0];
+        return newest ? this.libraryManager.loadLibrary(newest) : undefined;
+    }
+
+    /**
+     * Returns the metadata of the published version of a content type. Throws
+     * an H5pError (404) if there is no runnable library with the machine name.
+     */
+    private async getContentTypeLibrary(
+        machineName: string
+    ): Promise<IInstalledLibrary> {
+        const library = await this.findNewestRunnable(
+            (await this.libraryManager.getInstalled([machineName]))[
+                machineName
+            ] ?? []
+        );
+        if (!library) {
+            throw new H5pError(
+                'hub-server-content-type-not-found',
+                { machineName },
+                404
+            );
+        }
+        return library;
+    }
+
+    /**
+     * Converts the metadata of a library to an entry of the content type list
+     * of the H5P Hub, with the modification date of library.json and the URL
+     * of the icon (if the library has one).
+     */
+    private async toHubFormat(
+        library: IInstalledLibrary,
+        iconBaseUrl: string
+    ): Promise<any> {
+        const updatedAt = (
+            await this.libraryManager.getFileStats(library, 'library.json')
+        ).mtime.toISOString();
+        const hasIcon =
+            iconBaseUrl !== undefined &&
+            (await this.libraryManager.libraryFileExists(library, 'icon.svg'));
+        return toHubContentType(
+            library,
+            updatedAt,
+            hasIcon
+                ? `${iconBaseUrl}/${encodeURIComponent(
+                      library.machineName
+                  )}/icon.svg`
+                : ''
+        );
+    }
+}
+
+/**
+ * Creates a stream of the JSON representation of an object.
+ */
+function createJsonStream(object: any): Readable {
+    const stream = new Readable();
+    stream._read = () => {
+        return;
+    };
+    stream.push(JSON.stringify(object));
+    stream.push(null);
+    return stream;
+}
@@ -0,0 +1,306 @@
+import ContentManager from './ContentManager';
+import H5pError from './helpers/H5pError';
+import Logger from './helpers/Logger';
+import { hasGeneralPermission } from './helpers/PermissionHelpers';
+import LibraryManager from './LibraryManager';
+import LibraryName from './LibraryName';
+import LibraryTranslationChecker from './LibraryTranslationChecker';
+import LibraryUsageIndex from './LibraryUsageIndex';
+import {
+    ContentId,
+    GeneralPermission,
+    IInstalledLibrary,
+    ILibraryAdministrationDetails,
+    ILibraryAdministrationOverviewItem,
+    ILibraryName,
+    ILibraryRemovalResult,
+    ILibraryTranslationReport,
+    IPermissionSystem,
+    IUser
+} from './types';
+
+const log = new Logger('LibraryAdministration');
+
+/**
+ * Information about which content and libraries use a library.
+ */
+interface ILibraryDependents {
+    dependentContent: ContentId[];
+    dependentLibraries: ILibraryName[];
+    instancesCount: number;
+}
+
+/**
+ * Provides the functionality of the "Libraries" administration page of the
+ * PHP implementation: listing the installed libraries with their usage,
+ * (un)restricting, deleting and checking libraries.
+ * All methods can only be used by users who are allowed to update and install
+ * libraries and throw an H5pError (403) otherwise.
+ */
+export default class LibraryAdministration {
+    /**
+     * @param libraryManager the library manager used to access the libraries
+     * @param contentManager the content manager used when deleting libraries
+     * @param libraryUsageIndex the index used to find out which content uses
+     * the libraries
+     * @param permissionSystem (optional) the permission system; if not set,
+     * the flags of the user object are used
+     */
+    constructor(
+        private libraryManager: LibraryManager,
+        private contentManager: ContentManager,
+        private libraryUsageIndex: LibraryUsageIndex,
+        private permissionSystem?: IPermissionSystem
+    ) {
+        log.info('initialize');
+        this.translationChecker = new LibraryTranslationChecker(libraryManager);
+    }
+
+    private translationChecker: LibraryTranslationChecker;
+
+    /**
+     * Checks if all files required by the library are present.
+     * Throws an H5pError if the library is not consistent.
+     * @param library the library to check
+     * @param user the user who performs the check
+     * @returns true if the library is consistent
+     */
+    public async checkConsistency(
+        library: ILibraryName,
+        user: IUser
+    ): Promise<boolean> {
+        await this.checkPermission(user);
+        return this.libraryManager.checkConsistency(library);
+    }
+
+    /**
+     * Deletes a library. The deletion is refused if the library is still used
+     * by content or other libraries unless force is set (see
+     * LibraryManager.removeLibrary).
+     * @param library the library to delete
+     * @param user the user who deletes the library
+     * @param force (optional) deletes the library and all libraries that
+     * depend on it even if it is still in use
+     * @returns the libraries and content depending on the library and the
+     * libraries that were removed
+     */
+    public async deleteLibrary(
+        library: ILibraryName,
+        user: IUser,
+        force: boolean = false
+    ): Promise<ILibraryRemovalResult> {
+        await this.checkPermission(user);
+        return this.libraryManager.removeLibrary(
+            library,
+            this.contentManager,
+            force
+        );
+    }
+
+    /**
+     * Lists all installed libraries with information about their usage.
+     * @param user the user who wants to see the list
+     * @returns the libraries sorted by title and version
+     */
+    public async getLibraries(
+        user: IUser
+    ): Promise<ILibraryAdministrationOverviewItem[]> {
+        await this.checkPermission(user);
+        const installed = await this.libraryManager.getInstalled();
+        const libraries: IInstalledLibrary[] = [];
+        for (const machineName of Object.keys(installed)) {
+            libraries.push(...installed[machineName]);
+        }
+        const usage = await this.getUsage(libraries);
+        return libraries.map(library =>
+            this.createOverviewItem(
+                library,
+                usage[LibraryName.toUberName(library)]
+            )
+        );
+    }
+
+    /**
+     * Gets detailed information about a single library.
+     * Throws an H5pError (404) if the library is not installed.
+     * @param library the library
+     * @param user the user who wants to see the information
+     * @returns the information
+     */
+    public async getLibrary(
+        library: ILibraryName,
+        user: IUser
+    ): Promise<ILibraryAdministrationDetails> {
+        await this.checkPermission(user);
+        const installedLibrary = (
+            await this.libraryManager.getInstalled([library.machineName])
+        )[library.machineName]?.find(installed =>
+            LibraryName.equal(installed, library)
+        );
+        if (!installedLibrary) {
+            throw new H5pError(
+                'library-not-found',
+                { name: LibraryName.toUberName(library) },
+                404
+            );
+        }
+        const usage = (await this.getUsage([installedLibrary]))[
+            LibraryName.toUberName(library)
+        ];
+        return {
+            ...this.createOverviewItem(installedLibrary, usage),
+            dependentContent: usage.dependentContent,
+            dependentLibraries: usage.dependentLibraries,
+            metadata: await this.libraryManager.loadLibrary(library)
+        };
+    }
+
+    /**
+     * Checks which fields are missing, superfluous or untranslated in the
+     * language files of a library.
+     * Throws an H5pError (404) if the library is not installed.
+     * @param library the library to check
+     * @param user the user who performs the check
+     * @param languages (optional) the languages to check; if undefined, all
+     * languages the library is translated into are checked
+     * @returns the report for each language
+     */
+    public async getLibraryTranslationReport(
+        library: ILibraryName,
+        user: IUser,
+        languages?: string[]
+    ): Promise<ILibraryTranslationReport> {
+        await this.checkPermission(user);
+        if (!(await this.libraryManager.libraryExists(library))) {
+            throw new H5pError(
+                'library-not-found',
+                { name: LibraryName.toUberName(library) },
+                404
+            );
+        }
+        return this.translationChecker.checkLibrary(library, languages);
+    }
+
+    /**
+     * Checks the language files of all installed libraries (see
+     * getLibraryTranslationReport).
+     * @param user the user who performs the check
+     * @param languages (optional) the languages to check
+     * @returns the reports of all libraries
+     */
+    public async getTranslationReport(
+        user: IUser,
+        languages?: string[]
+    ): Promise<ILibraryTranslationReport[]> {
+        await this.checkPermission(user);
+        return this.translationChecker.checkLibraries(languages);
+    }
+
+    /**
+     * Sets or removes the restricted flag of a library. Restricted libraries
+     * can only be used by users who are allowed to create restricted content.
+     * @param library the library to change
+     * @param restricted true if the library should be restricted
+     * @param user the user who changes the library
+     */
+    public async setRestricted(
+        library: ILibraryName,
+        restricted: boolean,
+        user: IUser
+    ): Promise<void> {
+        await this.checkPermission(user);
+        await this.libraryManager.setRestricted(library, restricted);
+    }
+
+    /**
+     * Throws an H5pError (403) if the user isn't allowed to administrate
+     * libraries.
+     */
+    private async checkPermission(user: IUser): Promise<void> {
+        if (
+            !(await hasGeneralPermission(
+                GeneralPermission.UpdateAndInstallLibraries,
+                user,
+                this.permissionSystem
+            ))
+        ) {
+            throw new H5pError('library-administration-forbidden', {}, 403);
+        }
+    }
+
+    private createOverviewItem(
+        library: IInstalledLibrary,
+        usage: ILibraryDependents
+    ): ILibraryAdministrationOverviewItem {
+        return {
+            canBeDeleted:
+                usage.dependentContent.length === 0 &&
+                usage.dependentLibraries.length === 0,
+            dependentsCount: usage.dependentLibraries.length,
+            instancesAsDependencyCount: usage.dependentContent.length,
+            instancesCount: usage.instancesCount,
+            machineName: library.machineName,
+            majorVersion: library.majorVersion,
+            minorVersion: library.minorVersion,
+            patchVersion: library.patchVersion,
+            restricted: library.restricted,
+            runnable: !!library.runnable,
+            title: library.title
+        };
+    }
+
+    /**
+     * Finds out which installed libraries directly use the libraries and
+     * which content uses them (directly or through other libraries).
+     * @param libraries the libraries to get the usage for
+     * @returns the usage of each library (key: ubername)
+     */
+    private async getUsage(
+        libraries: ILibraryName[]
+    ): Promise<{ [uberName: string]: ILibraryDependents }> {
+        const usage: { [uberName: string]: ILibraryDependents } = {};
+        for (const library of libraries) {
+            usage[LibraryName.toUberName(library)] = {
+                dependentContent: [],
+                dependentLibraries: [],
+                instancesCount: 0
+            };
+        }
+
+        const installed = await this.libraryManager.getInstalled();
+        for (const machineName of Object.keys(installed)) {
+            for (const library of installed[machineName]) {
+                const metadata = await this.libraryManager.loadLibrary(library);
+                const dependencies = [
+                    ...(metadata?.preloadedDependencies ?? []),
+                    ...(metadata?.editorDependencies ?? []),
+                    ...(metadata?.dynamicDependencies ?? [])
+                ];
+                for (const uberName of Object.keys(usage)) {
+                    if (
+                        dependencies.some(
+                            dependency =>
+                                LibraryName.toUberName(dependency) === uberName
+                        )
+                    ) {
+                        usage[uberName].dependentLibraries.push({
+                            machineName: library.machineName,
+                            majorVersion: library.majorVersion,
+                            minorVersion: library.minorVersion
+                        });
+                    }
+                }
+            }
+        }
+
+        for (const library of libraries) {
+            const contentUsage = await this.libraryUsageIndex.getLibraryUsage(
+                library
+            );
+            const libraryUsage = usage[LibraryName.toUberName(library)];
+            libraryUsage.dependentContent = contentUsage.contentIds;
+            libraryUsage.instancesCount = contentUsage.asMainLibrary;
+        }
+        return usage;
+    }
+}
@@ -4,21 +4,29 @@ import globPromise from 'glob-promise';
 import path from 'path';
 import { Stream } from 'stream';
 
+import ContentManager from './ContentManager';
+import DependencyGetter from './DependencyGetter';
 import H5pError from './helpers/H5pError';
+import { getLanguageFallbacks } from './helpers/LocalizationHelpers';
 import Logger from './helpers/Logger';
 import { streamToString } from './helpers/StreamHelpers';
 import InstalledLibrary from './InstalledLibrary';
 import LibraryName from './LibraryName';
 import {
+    ContentId,
+    IContentMetadata,
+    IFileStats,
     IFullLibraryName,
     IInstalledLibrary,
     ILibraryFileUrlResolver,
     ILibraryInstallResult,
     ILibraryMetadata,
     ILibraryName,
+    ILibraryRemovalResult,
     ILibraryStorage,
     IPath,
-    ISemanticsEntry
+    ISemanticsEntry,
+    LibraryUpdatedListener
 } from './types';
 
 const log = new Logger('LibraryManager');
@@ -47,23 +55,105 @@ export default class LibraryManager {
         log.info('initialize');
     }
 
+    private libraryUpdatedListeners: LibraryUpdatedListener[] = [];
+
+    /**
+     * Registers a function that is called after an installed library was
+     * updated to a new patch version by installFromDirectory(...). Errors
+     * thrown by the function are logged and don't affect the installation.
+     * @param listener the function to call
+     */
+    public addLibraryUpdatedListener(listener: LibraryUpdatedListener): void {
+        this.libraryUpdatedListeners.push(listener);
+    }
+
+    /**
+     * Checks (as far as possible) if all necessary files are present for the library to run properly.
+     * @param {ILibraryName} library The library to check
+     * @returns {Promise<boolean>} true if the library is ok. Throws errors if not.
+     */
+    public async checkConsistency(library: ILibraryName): Promise<boolean> {
+        if (!(await this.libraryExists(library))) {
+            log.error(
+                `Error in library ${LibraryName.toUberName(
+                    library
+                )}: not installed.`
+            );
+            throw new H5pError('library-consistency-check-not-installed', {
+                name: LibraryName.toUberName(library)
+            });
+        }
+
+        let metadata: ILibraryMetadata;
+        try {
+            metadata = await this.getJsonFile(library, 'library.json');
+        } catch (error) {
+            throw new H5pError(
+                'library-consistency-check-library-json-unreadable',
+                {
+                    message: error.message,
+                    name: LibraryName.toUberName(library)
+                }
+            );
+        }
+        if (metadata.preloadedJs) {
+            await this.checkFiles(
+                library,
+                metadata.preloadedJs.map((js: IPath) => js.path)
+            );
+        }
+        if (metadata.preloadedCss) {
+            await this.checkFiles(
+                library,
+                metadata.preloadedCss.map((css: IPath) => css.path)
+            );
+        }
+
+        return true;
+    }
+
+    /**
+     * Returns information about a library file (size, modification time).
+     * Throws an exception if the file does not exist.
+     * @param library library
+     * @param filename the relative path inside the library
+     * @returns the information about the file
+     */
+    public async getFileStats(
+        library: ILibraryName,
+        file: string
+    ): Promise<IFileStats> {
+        return this.libraryStorage.getFileStats(library, file);
+    }
+
     /**
      * Returns a readable stream of a library file's contents.
      * Throws an exception if the file does not exist.
      * @param library library
      * @param filename the relative path inside the library
+     * @param rangeStart (optional) the position in bytes at which the stream
+     * should start
+     * @param rangeEnd (optional) the position in bytes at which the stream
+     * should end (inclusive)
      * @returns a readable stream of the file's contents
      */
     public async getFileStream(
         library: ILibraryName,
-        file: string
+        file: string,
+        rangeStart?: number,
+        rangeEnd?: number
     ): Promise<ReadStream> {
         log.debug(
             `getting file ${file} from library ${LibraryName.toUberName(
                 library
             )}`
         );
-        return this.libraryStorage.getFileStream(library, file);
+        return this.libraryStorage.getFileStream(
+            library,
+            file,
+            rangeStart,
+            rangeEnd
+        );
     }
 
     /**
@@ -85,6 +175,9 @@ export default class LibraryManager {
                     installedLib.patchVersion = info.patchVersion;
                     installedLib.runnable = info.runnable;
                     installedLib.title = info.title;
+                    installedLib.restricted = await this.libraryStorage.isRestricted(
+                        libName
+                    );
                     return installedLib;
                 })
             )
@@ -166,6 +259,7 @@ export default class LibraryManager {
             ) {
                 // Update the library if it is only a patch of an existing library
                 await this.updateLibrary(newLibraryMetadata, directory);
+                await this.notifyLibraryUpdated(oldVersion, newVersion);
                 return {
                     newVersion,
                     oldVersion,
@@ -321,33 +415,38 @@ export default class LibraryManager {
     }
 
     /**
-     * Gets the language file for the specified language.
+     * Gets the language file for the specified language. If the library has
+     * no file for a regional variant of a language (e.g. 'de-CH'), the file
+     * of the language itself (e.g. 'de') is used.
      * @param {ILibraryName} library
      * @param {string} language the language code
-     * @returns {Promise<any>} the decoded JSON data in the language file
+     * @returns {Promise<any>} the decoded JSON data in the language file; null
+     * if the library isn't translated into the language
      */
     public async loadLanguage(
         library: ILibraryName,
         language: string
     ): Promise<any> {
-        try {
-            log.debug(
-                `loading language ${language} for library ${LibraryName.toUberName(
-                    library
-                )}`
-            );
-            return await this.getJsonFile(
-                library,
-                path.join('language', `${language}.json`)
-            );
-        } catch (ignored) {
-            log.debug(
-                `language '${language}' not found for ${LibraryName.toUberName(
-                    library
-                )}`
-            );
-            return null;
+        for (const fallback of getLanguageFallbacks(language)) {
+            try {
+                log.debug(
+                    `loading language ${fallback} for library ${LibraryName.toUberName(
+                        library
+                    )}`
+                );
+                return await this.getJsonFile(
+                    library,
+                    path.join('language', `${fallback}.json`)
+                );
+            } catch (ignored) {
+                log.debug(
+                    `language '${fallback}' not found for ${LibraryName.toUberName(
+                        library
+                    )}`
+                );
+            }
         }
+        return null;
     }
 
     /**
@@ -388,48 +487,125 @@ export default class LibraryManager {
     }
 
     /**
-     * Checks (as far as possible) if all necessary files are present for the library to run properly.
-     * @param {ILibraryName} library The library to check
-     * @returns {Promise<boolean>} true if the library is ok. Throws errors if not.
+     * Removes a library from the system. The removal is refused if the library
+     * is still required by other installed libraries or used by stored
+     * content (directly or through other libraries). In this case nothing is
+     * removed and the dependent libraries and content are returned.
+     * If force is set, the library and all libraries that require it are
+     * removed, even if content still uses them. Content is never deleted.
+     * Content whose metadata can't be read is ignored.
+     * Throws an H5pError (404) if the library is not installed.
+     * @param library the library to remove
+     * @param contentManager the content manager used to find content that
+     * uses the library
+     * @param force (optional) removes the library and all dependent libraries
+     * even if they are still in use; only admins should be allowed to do this
+     * @returns the dependent libraries and content and the libraries that
+     * were removed
      */
-    private async checkConsistency(library: ILibraryName): Promise<boolean> {
+    public async removeLibrary(
+        library: ILibraryName,
+        contentManager: ContentManager,
+        force: boolean = false
+    ): Promise<ILibraryRemovalResult> {
+        const uberName = LibraryName.toUberName(library);
+        log.info(`removing library ${uberName}${force ? ' (forced)' : ''}`);
         if (!(await this.libraryExists(library))) {
-            log.error(
-                `Error in library ${LibraryName.toUberName(
-                    library
-                )}: not installed.`
-            );
-            throw new H5pError('library-consistency-check-not-installed', {
-                name: LibraryName.toUberName(library)
-            });
+            throw new H5pError('library-not-found', { name: uberName }, 404);
         }
 
-        let metadata: ILibraryMetadata;
-        try {
-            metadata = await this.getJsonFile(library, 'library.json');
-        } catch (error) {
-            throw new H5pError(
-                'library-consistency-check-library-json-unreadable',
-                {
-                    message: error.message,
-                    name: LibraryName.toUberName(library)
-                }
-            );
+        const dependencyGetter = new DependencyGetter(this);
+        const requiresLibrary = async (
+            libraries: ILibraryName[]
+        ): Promise<boolean> =>
+            (
+                await dependencyGetter.getDependentLibraries(libraries, {
+                    dynamic: true,
+                    editor: true,
+                    preloaded: true
+                })
+            ).some(dependency => LibraryName.equal(dependency, library));
+
+        const dependentLibraries: ILibraryName[] = [];
+        for (const installed of await this.libraryStorage.getInstalled()) {
+            if (
+                !LibraryName.equal(installed, library) &&
+                (await requiresLibrary([installed]))
+            ) {
+                dependentLibraries.push({
+                    machineName: installed.machineName,
+                    majorVersion: installed.majorVersion,
+                    minorVersion: installed.minorVersion
+                });
+            }
         }
-        if (metadata.preloadedJs) {
-            await this.checkFiles(
-                library,
-                metadata.preloadedJs.map((js: IPath) => js.path)
-            );
+
+        const dependentContent: ContentId[] = [];
+        for (const contentId of await contentManager.listContent()) {
+            let metadata: IContentMetadata;
+            try {
+                metadata = await contentManager.loadH5PJson(
+                    contentId,
+                    undefined
+                );
+            } catch (error) {
+                log.warn(
+                    `skipping content ${contentId} when removing library ${uberName}: ${error.message}`
+                );
+                continue;
+            }
+            if (await requiresLibrary(metadata.preloadedDependencies ?? [])) {
+                dependentContent.push(contentId);
+            }
         }
-        if (metadata.preloadedCss) {
-            await this.checkFiles(
-                library,
-                metadata.preloadedCss.map((css: IPath) => css.path)
+
+        if (
+            !force &&
+            (dependentLibraries.length > 0 || dependentContent.length > 0)
+        ) {
+            log.info(
+                `refusing to remove library ${uberName} as it is still in use`
             );
+            return {
+                dependentContent,
+                dependentLibraries,
+                removedLibraries: []
+            };
         }
 
-        return true;
+        const removedLibraries = [...dependentLibraries, library];
+        for (const toRemove of removedLibraries) {
+            log.info(`removing library ${LibraryName.toUberName(toRemove)}`);
+            await this.libraryStorage.removeLibrary(toRemove);
+        }
+        return { dependentContent, dependentLibraries, removedLibraries };
+    }
+
+    /**
+     * Sets or removes the restricted flag of an installed library. Restricted
+     * libraries can only be used by users who are allowed to create
+     * restricted content.
+     * Throws an H5pError (404) if the library is not installed.
+     * @param library the library to change
+     * @param restricted true if the library should be restricted
+     */
+    public async setRestricted(
+        library: ILibraryName,
+        restricted: boolean
+    ): Promise<void> {
+        log.info(
+            `setting restricted flag of library ${LibraryName.toUberName(
+                library
+            )} to ${restricted}`
+        );
+        if (!(await this.libraryExists(library))) {
+            throw new H5pError(
+                'library-not-found',
+                { name: LibraryName.toUberName(library) },
+                404
+            );
+        }
+        await this.libraryStorage.setRestricted(library, restricted);
     }
 
     /**
@@ -570,6 +746,29 @@ export default class LibraryManager {
         return newLibraryInfo;
     }
 
+    /**
+     * Calls all registered library updated listeners. Errors thrown by
+     * listeners are logged and don't stop the update.
+     * @param oldVersion the version that was installed before the update
+     * @param newVersion the version that is installed now
+     */
+    private async notifyLibraryUpdated(
+        oldVersion: IFullLibraryName,
+        newVersion: IFullLibraryName
+    ): Promise<void> {
+        for (const listener of this.libraryUpdatedListeners) {
+            try {
+                await listener(oldVersion, newVersion);
+            } catch (error) {
+                log.error(
+                    `error in library updated listener for ${LibraryName.toUberName(
+                        newVersion
+                    )}: ${error}`
+                );
+            }
+        }
+    }
+
     /**
      * Updates the library to a new version.
      * REMOVES THE LIBRARY IF THERE IS AN ERROR!!!
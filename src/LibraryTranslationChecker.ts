@@ -0,0 +1,169 @@
+import Logger from './helpers/Logger';
+import LibraryManager from './LibraryManager';
+import LibraryName from './LibraryName';
+import {
+    ILanguageTranslationReport,
+    ILibraryName,
+    ILibraryTranslationReport,
+    ISemanticsEntry
+} from './types';
+
+const log = new Logger('LibraryTranslationChecker');
+
+/**
+ * Checks how complete the translations of libraries (language/*.json) are by
+ * comparing them to the English texts of the semantics. The properties
+ * label, description and default of the fields (and the labels of the
+ * options of select fields) must be translated.
+ */
+export default class LibraryTranslationChecker {
+    /**
+     * @param libraryManager the library manager used to load the semantics
+     * and language files
+     */
+    constructor(private libraryManager: LibraryManager) {
+        log.info('initialize');
+    }
+
+    /**
+     * Checks the translations of all installed libraries.
+     * @param languages (optional) the languages to check (see checkLibrary)
+     * @returns the reports of the libraries sorted by name and version
+     */
+    public async checkLibraries(
+        languages?: string[]
+    ): Promise<ILibraryTranslationReport[]> {
+        log.info('checking translations of all installed libraries');
+        const installed = await this.libraryManager.getInstalled();
+        const reports: ILibraryTranslationReport[] = [];
+        for (const machineName of Object.keys(installed).sort()) {
+            for (const library of installed[machineName]) {
+                reports.push(await this.checkLibrary(library, languages));
+            }
+        }
+        return reports;
+    }
+
+    /**
+     * Checks the translations of a library.
+     * @param library the library to check
+     * @param languages (optional) the languages to check; languages for which
+     * the library has no language file are reported with all fields missing;
+     * if undefined, all languages the library has a file for (except English)
+     * are checked
+     * @returns the report for each language
+     */
+    public async checkLibrary(
+        library: ILibraryName,
+        languages?: string[]
+    ): Promise<ILibraryTranslationReport> {
+        log.debug(
+            `checking translations of ${LibraryName.toUberName(library)}`
+        );
+        const semanticsStrings = collectTranslatableStrings(
+            await this.loadSemantics(library),
+            'semantics'
+        );
+        const languagesToCheck =
+            languages ??
+            (await this.libraryManager.listLanguages(library)).filter(
+                language => language !== 'en'
+            );
+
+        const reports: ILanguageTranslationReport[] = [];
+        for (const language of languagesToCheck) {
+            const languageFile = await this.libraryManager.loadLanguage(
+                library,
+                language
+            );
+            const languageStrings = collectTranslatableStrings(
+                languageFile?.semantics,
+                'semantics'
+            );
+            reports.push({
+                exists: !!languageFile,
+                extra: Object.keys(languageStrings).filter(
+                    path => semanticsStrings[path] === undefined
+                ),
+                language,
+                missing: Object.keys(semanticsStrings).filter(
+                    path => languageStrings[path] === undefined
+                ),
+                untranslated: Object.keys(semanticsStrings).filter(
+                    path =>
+                        semanticsStrings[path].trim() !== '' &&
+                        languageStrings[path]?.trim() ===
+                            semanticsStrings[path].trim()
+                )
+            });
+        }
+        return {
+            languages: reports,
+            machineName: library.machineName,
+            majorVersion: library.majorVersion,
+            minorVersion: library.minorVersion
+        };
+    }
+
+    /**
+     * Libraries without semantics.json have nothing to translate.
+     */
+    private async loadSemantics(
+        library: ILibraryName
+    ): Promise<ISemanticsEntry[]> {
+        try {
+            return await this.libraryManager.loadSemantics(library);
+        } catch (error) {
+            log.debug(
+                `${LibraryName.toUberName(library)} has no semantics: ${
+                    error.message
+                }`
+            );
+            return [];
+        }
+    }
+}
+
+/**
+ * Returns the translatable texts of semantic fields (or of the fields in a
+ * language file, which mirror the semantics) by their paths.
+ * @param fields the fields (can be undefined)
+ * @param path the path of the list of fields
+ */
+function collectTranslatableStrings(
+    fields: any[],
+    path: string,
+    strings: { [path: string]: string } = {}
+): { [path: string]: string } {
+    if (!Array.isArray(fields)) {
+        return strings;
+    }
+    fields.forEach((field, index) =>
+        collectFieldStrings(field, `${path}[${index}]`, strings)
+    );
+    return strings;
+}
+
+function collectFieldStrings(
+    field: any,
+    path: string,
+    strings: { [path: string]: string }
+): void {
+    if (typeof field !== 'object' || field === null) {
+        return;
+    }
+    for (const property of ['label', 'description', 'default']) {
+        if (typeof field[property] === 'string') {
+            strings[`${path}.${property}`] = field[property];
+        }
+    }
+    if (Array.isArray(field.options)) {
+        field.options.forEach((option, index) => {
+            if (typeof option?.label === 'string') {
+                strings[`${path}.options[${index}].label`] = option.label;
+            }
+        });
+    }
+    collectTranslatableStrings(field.fields, `${path}.fields`, strings);
+    collectFieldStrings(field.field, `${path}.field`, strings);
+}
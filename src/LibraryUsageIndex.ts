@@ -0,0 +1,222 @@
+import ContentManager from './ContentManager';
+import DependencyGetter from './DependencyGetter';
+import Logger from './helpers/Logger';
+import LibraryManager from './LibraryManager';
+import LibraryName from './LibraryName';
+import {
+    ContentId,
+    IContentMetadata,
+    ILibraryName,
+    ILibraryUsage
+} from './types';
+
+const log = new Logger('LibraryUsageIndex');
+
+/**
+ * Keeps track of which content uses which library versions (as main library
+ * or as a direct or indirect dependency).
+ *
+ * The index is built from the h5p.json files of all content when it is
+ * first accessed and is kept in memory. Content whose h5p.json can't be read
+ * is left out; if the index can't be built at all (e.g. because the content
+ * storage isn't available), it is built again on the next access. It is updated whenever content is
+ * saved or deleted through the ContentManager. As the dependencies of
+ * libraries can change when libraries are installed or updated, call
+ * rebuildIndex() after changing libraries if you need exact numbers.
+ */
+export default class LibraryUsageIndex {
+    /**
+     * @param contentManager the content manager used to list and load
+     * content; the index registers itself as a listener to keep track of
+     * changes
+     * @param libraryManager the library manager used to resolve the
+     * dependencies of libraries
+     */
+    constructor(
+        private contentManager: ContentManager,
+        libraryManager: LibraryManager
+    ) {
+        log.info('initialize');
+        this.dependencyGetter = new DependencyGetter(libraryManager);
+        contentManager.addContentChangedListener((contentId, metadata) =>
+            this.onContentChanged(contentId, metadata)
+        );
+    }
+
+    /**
+     * The libraries used by each piece of content (key: content id)
+     */
+    private contentLibraries: {
+        [contentId: string]: { dependencies: string[]; mainLibrary: string };
+    } = {};
+    private dependencyGetter: DependencyGetter;
+    private indexPromise: Promise<void>;
+    /**
+     * The reverse map of contentLibraries (key: ubername of library)
+     */
+    private usage: {
+        [uberName: string]: {
+            asDependency: ContentId[];
+            asMainLibrary: ContentId[];
+        };
+    } = {};
+
+    /**
+     * Gets the content that uses a library.
+     * @param library the library
+     * @returns the number of pieces of content that use the library as main
+     * library and as dependency and their ids
+     */
+    public async getLibraryUsage(
+        library: ILibraryName
+    ): Promise<ILibraryUsage> {
+        await this.ensureIndex();
+        const usage = this.usage[LibraryName.toUberName(library)] ?? {
+            asDependency: [],
+            asMainLibrary: []
+        };
+        return {
+            asDependency: usage.asDependency.length,
+            asMainLibrary: usage.asMainLibrary.length,
+            contentIds: [...usage.asMainLibrary, ...usage.asDependency]
+        };
+    }
+
+    /**
+     * Discards the index and builds it again from the h5p.json files of all
+     * content.
+     */
+    public async rebuildIndex(): Promise<void> {
+        return this.startBuildingIndex();
+    }
+
+    /**
+     * Adds the libraries used by the content to the index. (Content ids are
+     * stored as strings, as some storages return numbers.)
+     * @param contentId the content
+     * @param metadata the metadata (= h5p.json) of the content
+     */
+    private async addContent(
+        contentId: ContentId,
+        metadata: IContentMetadata
+    ): Promise<void> {
+        const dependencies = (
+            await this.dependencyGetter.getDependentLibraries(
+                metadata.preloadedDependencies ?? [],
+                { dynamic: true, editor: true, preloaded: true }
+            )
+        ).map(library => LibraryName.toUberName(library));
+        const mainLibraryName = metadata.preloadedDependencies?.find(
+            dependency => dependency.machineName === metadata.mainLibrary
+        );
+        const mainLibrary = mainLibraryName
+            ? LibraryName.toUberName(mainLibraryName)
+            : undefined;
+
+        const id = contentId.toString();
+        this.removeContent(id);
+        this.contentLibraries[id] = { dependencies, mainLibrary };
+        for (const uberName of dependencies) {
+            if (!this.usage[uberName]) {
+                this.usage[uberName] = { asDependency: [], asMainLibrary: [] };
+            }
+            if (uberName === mainLibrary) {
+                this.usage[uberName].asMainLibrary.push(id);
+            } else {
+                this.usage[uberName].asDependency.push(id);
+            }
+        }
+    }
+
+    private async buildIndex(): Promise<void> {
+        log.info('building library usage index');
+        this.contentLibraries = {};
+        this.usage = {};
+        for (const contentId of await this.contentManager.listContent()) {
+            let metadata: IContentMetadata;
+            try {
+                metadata = await this.contentManager.loadH5PJson(
+                    contentId,
+                    undefined
+                );
+            } catch (error) {
+                log.warn(
+                    `skipping content ${contentId} in library usage index: ${error.message}`
+                );
+                continue;
+            }
+            await this.addContent(contentId, metadata);
+        }
+    }
+
+    private async ensureIndex(): Promise<void> {
+        return this.indexPromise ?? this.startBuildingIndex();
+    }
+
+    /**
+     * Updates the index when content was saved or deleted. Does nothing if
+     * the index hasn't been built yet, as the change will be picked up when
+     * building it.
+     */
+    private async onContentChanged(
+        contentId: ContentId,
+        metadata?: IContentMetadata
+    ): Promise<void> {
+        if (!this.indexPromise) {
+            return;
+        }
+        try {
+            await this.indexPromise;
+        } catch {
+            // the change will be picked up when the index is built again
+            return;
+        }
+        if (metadata) {
+            await this.addContent(contentId, metadata);
+        } else {
+            this.removeContent(contentId);
+        }
+    }
+
+    /**
+     * Removes the content from the index.
+     */
+    private removeContent(contentId: ContentId): void {
+        const id = contentId.toString();
+        const entry = this.contentLibraries[id];
+        if (!entry) {
+            return;
+        }
+        for (const uberName of entry.dependencies) {
+            const usage = this.usage[uberName];
+            usage.asDependency = usage.asDependency.filter(
+                other => other !== id
+            );
+            usage.asMainLibrary = usage.asMainLibrary.filter(
+                other => other !== id
+            );
+            if (
+                usage.asDependency.length === 0 &&
+                usage.asMainLibrary.length === 0
+            ) {
+                delete this.usage[uberName];
+            }
+        }
+        delete this.contentLibraries[id];
+    }
+
+    /**
+     * Builds the index. If building fails, the promise is discarded, so that
+     * the next access tries again.
+     */
+    private startBuildingIndex(): Promise<void> {
+        const promise = this.buildIndex().catch(error => {
+            if (this.indexPromise === promise) {
+                this.indexPromise = undefined;
+            }
+            throw error;
+        });
+        this.indexPromise = promise;
+        return promise;
+    }
+}
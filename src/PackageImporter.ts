@@ -7,13 +7,16 @@ import yauzlPromise from 'yauzl-promise';
 import ContentManager from './ContentManager';
 import ContentStorer from './ContentStorer';
 import H5pError from './helpers/H5pError';
+import { hasGeneralPermission } from './helpers/PermissionHelpers';
 import LibraryManager from './LibraryManager';
 import PackageValidator from './PackageValidator';
 import {
     ContentId,
+    GeneralPermission,
     IContentMetadata,
     IEditorConfig,
     ILibraryInstallResult,
+    IPermissionSystem,
     IUser
 } from './types';
 
@@ -48,12 +51,15 @@ export default class PackageImporter {
      * @param {LibraryManager} libraryManager
      * @param {EditorConfig} config
      * @param {ContentStorer} contentStorer
+     * @param permissionSystem (optional) the permission system that decides
+     * who can install libraries; if not set, the flags of the user object are used
      */
     constructor(
         private libraryManager: LibraryManager,
         private config: IEditorConfig,
         private contentManager: ContentManager = null,
-        private contentStorer: ContentStorer = null
+        private contentStorer: ContentStorer = null,
+        private permissionSystem?: IPermissionSystem
     ) {
         log.info(`initialize`);
     }
@@ -137,7 +143,11 @@ export default class PackageImporter {
             packagePath,
             {
                 copyMode: ContentCopyModes.Install,
-                installLibraries: user.canUpdateAndInstallLibraries
+                installLibraries: await hasGeneralPermission(
+                    GeneralPermission.UpdateAndInstallLibraries,
+                    user,
+                    this.permissionSystem
+                )
             },
             user,
             contentId
@@ -170,7 +180,11 @@ export default class PackageImporter {
             packagePath,
             {
                 copyMode: ContentCopyModes.Temporary,
-                installLibraries: user.canUpdateAndInstallLibraries
+                installLibraries: await hasGeneralPermission(
+                    GeneralPermission.UpdateAndInstallLibraries,
+                    user,
+                    this.permissionSystem
+                )
             },
             user
         );
@@ -0,0 +1,416 @@
+import crypto from 'crypto';
+import jp from 'jsonpath';
+
+import ContentManager from './ContentManager';
+import H5pError from './helpers/H5pError';
+import Logger from './helpers/Logger';
+import {
+    ContentId,
+    IContentRevision,
+    IRevisionDifference,
+    IRevisionStorage,
+    IUser,
+    Permission
+} from './types';
+
+const log = new Logger('RevisionManager');
+
+/**
+ * Keeps a history of the revisions of content. Each save creates an immutable
+ * revision that contains the parameters, the metadata and the hashes of all
+ * files of the content. The files themselves are copied into the revision
+ * storage, so they can be restored even if they were deleted from the
+ * content storage in the meantime.
+ */
+export default class RevisionManager {
+    /**
+     * @param contentManager the content manager used to access the content
+     * @param revisionStorage the storage for revisions and their files
+     */
+    constructor(
+        private contentManager: ContentManager,
+        private revisionStorage: IRevisionStorage
+    ) {
+        log.info('initialize');
+    }
+
+    /**
+     * Compares the property (or array element) of two values.
+     */
+    private static diffKey(
+        oldParent: any,
+        newParent: any,
+        key: string | number,
+        path: (string | number)[],
+        result: IRevisionDifference[]
+    ): void {
+        const childPath = path.concat([key]);
+        if (!(key in oldParent)) {
+            result.push({
+                newValue: newParent[key],
+                path: jp.stringify(childPath),
+                type: 'added'
+            });
+        } else if (!(key in newParent)) {
+            result.push({
+                oldValue: oldParent[key],
+                path: jp.stringify(childPath),
+                type: 'removed'
+            });
+        } else {
+            RevisionManager.diffValues(
+                oldParent[key],
+                newParent[key],
+                childPath,
+                result
+            );
+        }
+    }
+
+    /**
+     * Compares two values recursively and adds all differences to the
+     * result.
+     * @param oldValue the value in the older revision
+     * @param newValue the value in the newer revision
+     * @param path the path of the values (as accepted by jp.stringify)
+     * @param result the differences found so far
+     */
+    private static diffValues(
+        oldValue: any,
+        newValue: any,
+        path: (string | number)[],
+        result: IRevisionDifference[]
+    ): void {
+        if (JSON.stringify(oldValue) === JSON.stringify(newValue)) {
+            return;
+        }
+        if (Array.isArray(oldValue) && Array.isArray(newValue)) {
+            for (
+                let index = 0;
+                index < Math.max(oldValue.length, newValue.length);
+                index += 1
+            ) {
+                RevisionManager.diffKey(
+                    oldValue,
+                    newValue,
+                    index,
+                    path,
+                    result
+                );
+            }
+            return;
+        }
+        if (
+            RevisionManager.isObject(oldValue) &&
+            RevisionManager.isObject(newValue)
+        ) {
+            const keys = Object.keys(oldValue).concat(
+                Object.keys(newValue).filter(key => !(key in oldValue))
+            );
+            for (const key of keys.sort()) {
+                RevisionManager.diffKey(oldValue, newValue, key, path, result);
+            }
+            return;
+        }
+        result.push({
+            newValue,
+            oldValue,
+            path: jp.stringify(path),
+            type: 'changed'
+        });
+    }
+
+    private static isObject(value: any): boolean {
+        return (
+            typeof value === 'object' && value !== null && !Array.isArray(value)
+        );
+    }
+
+    /**
+     * Creates a new revision of the content as it is currently stored.
+     * @param contentId the content
+     * @param user the user who saved the content
+     * @param restoredFrom (optional) the revision the content was restored from
+     * @returns the new revision
+     */
+    public async createRevision(
+        contentId: ContentId,
+        user: IUser,
+        restoredFrom?: number
+    ): Promise<IContentRevision> {
+        log.info(`creating revision of content ${contentId}`);
+        const files: { [filename: string]: string } = {};
+        for (const filename of await this.contentManager.getContentFiles(
+            contentId,
+            user
+        )) {
+            files[filename] = await this.storeFile(contentId, filename, user);
+        }
+
+        const revision: Omit<IContentRevision, 'revisionId'> = {
+            contentId,
+            createdAt: new Date(),
+            files,
+            metadata: await this.contentManager.loadH5PJson(contentId, user),
+            parameters: await this.contentManager.loadContent(contentId, user),
+            restoredFrom,
+            userId: user?.id
+        };
+        return {
+            ...revision,
+            revisionId: await this.revisionStorage.addRevision(revision)
+        };
+    }
+
+    /**
+     * Creates a revision of the content as it is currently stored if there
+     * are no revisions of it yet. This makes sure that content created
+     * before the revision history was enabled can be restored to its
+     * original state. Does nothing if the content doesn't exist. Throws an
+     * H5pError (403) if the user isn't allowed to edit the content.
+     * @param contentId the content
+     * @param user the user who is about to change the content
+     */
+    public async createRevisionIfMissing(
+        contentId: ContentId,
+        user: IUser
+    ): Promise<void> {
+        if (
+            contentId === undefined ||
+            !(await this.contentManager.contentExists(contentId))
+        ) {
+            return;
+        }
+        await this.contentManager.checkPermission(
+            contentId,
+            user,
+            Permission.Edit
+        );
+        if ((await this.revisionStorage.listRevisions(contentId)).length > 0) {
+            return;
+        }
+        await this.createRevision(contentId, user);
+    }
+
+    /**
+     * Lists the differences between two revisions. The revisions are
+     * compared as objects with the properties parameters, metadata and files
+     * (filename -> hash).
+     * @param contentId the content
+     * @param fromRevisionId the older revision
+     * @param toRevisionId the newer revision
+     * @param user the user who wants to compare the revisions
+     * @returns the differences with the JSON paths of the changed values
+     */
+    public async diffRevisions(
+        contentId: ContentId,
+        fromRevisionId: number,
+        toRevisionId: number,
+        user: IUser
+    ): Promise<IRevisionDifference[]> {
+        const fromRevision = await this.getRevision(
+            contentId,
+            fromRevisionId,
+            user
+        );
+        const toRevision = await this.getRevision(
+            contentId,
+            toRevisionId,
+            user
+        );
+        const result: IRevisionDifference[] = [];
+        RevisionManager.diffValues(
+            {
+                files: fromRevision.files,
+                metadata: fromRevision.metadata,
+                parameters: fromRevision.parameters
+            },
+            {
+                files: toRevision.files,
+                metadata: toRevision.metadata,
+                parameters: toRevision.parameters
+            },
+            ['$'],
+            result
+        );
+        return result;
+    }
+
+    /**
+     * Loads a revision. Throws an H5pError (404) if there is no such
+     * revision.
+     * @param contentId the content
+     * @param revisionId the number of the revision
+     * @param user the user who wants to access the revision
+     * @returns the revision
+     */
+    public async getRevision(
+        contentId: ContentId,
+        revisionId: number,
+        user: IUser
+    ): Promise<IContentRevision> {
+        await this.contentManager.checkPermission(
+            contentId,
+            user,
+            Permission.Edit
+        );
+        const revision = await this.revisionStorage.getRevision(
+            contentId,
+            revisionId
+        );
+        if (!revision) {
+            throw new H5pError(
+                'revision-not-found',
+                { contentId, revisionId: revisionId.toString() },
+                404
+            );
+        }
+        return revision;
+    }
+
+    /**
+     * Lists the revisions of a piece of content (without their parameters
+     * and metadata).
+     * @param contentId the content
+     * @param user the user who wants to see the revisions
+     * @returns the revisions in ascending order
+     */
+    public async listRevisions(
+        contentId: ContentId,
+        user: IUser
+    ): Promise<
+        Pick<
+            IContentRevision,
+            'contentId' | 'createdAt' | 'restoredFrom' | 'revisionId' | 'userId'
+        >[]
+    > {
+        await this.contentManager.checkPermission(
+            contentId,
+            user,
+            Permission.Edit
+        );
+        const revisions = await Promise.all(
+            (await this.revisionStorage.listRevisions(contentId)).map(id =>
+                this.revisionStorage.getRevision(contentId, id)
+            )
+        );
+        return revisions.map(revision => ({
+            contentId: revision.contentId,
+            createdAt: revision.createdAt,
+            restoredFrom: revision.restoredFrom,
+            revisionId: revision.revisionId,
+            userId: revision.userId
+        }));
+    }
+
+    /**
+     * Restores the content to the state of an older revision: the parameters,
+     * the metadata and the files are replaced by the ones of the revision.
+     * The restore itself creates a new revision, so it can be undone as well.
+     * @param contentId the content
+     * @param revisionId the revision to restore
+     * @param user the user who restores the revision
+     * @returns the new revision created by the restore
+     */
+    public async restoreRevision(
+        contentId: ContentId,
+        revisionId: number,
+        user: IUser
+    ): Promise<IContentRevision> {
+        log.info(`restoring revision ${revisionId} of content ${contentId}`);
+        const revision = await this.getRevision(contentId, revisionId, user);
+
+        await this.contentManager.createOrUpdateContent(
+            revision.metadata,
+            revision.parameters,
+            user,
+            contentId
+        );
+        for (const filename of await this.contentManager.getContentFiles(
+            contentId,
+            user
+        )) {
+            if (revision.files[filename] === undefined) {
+                await this.contentManager.deleteContentFile(
+                    contentId,
+                    filename
+                );
+            }
+        }
+        for (const filename of Object.keys(revision.files)) {
+            if (
+                !(await this.contentManager.contentFileExists(
+                    contentId,
+                    filename
+                )) ||
+                (await this.hashFile(contentId, filename, user)) !==
+                    revision.files[filename]
+            ) {
+                await this.contentManager.addContentFile(
+                    contentId,
+                    filename,
+                    await this.revisionStorage.getFileStream(
+                        revision.files[filename]
+                    ),
+                    user
+                );
+            }
+        }
+
+        return this.createRevision(contentId, user, revisionId);
+    }
+
+    /**
+     * Computes the hash of a content file. The file is streamed through the
+     * hash function, so large files (e.g. videos) aren't loaded into memory.
+     * @param contentId the content the file belongs to
+     * @param filename the file
+     * @param user the user who accesses the file
+     * @returns the hash of the file's data
+     */
+    private async hashFile(
+        contentId: ContentId,
+        filename: string,
+        user: IUser
+    ): Promise<string> {
+        const stream = await this.contentManager.getContentFileStream(
+            contentId,
+            filename,
+            user
+        );
+        const hash = crypto.createHash('sha256');
+        await new Promise((resolve, reject) => {
+            stream.on('data', chunk => hash.update(chunk));
+            stream.on('end', resolve);
+            stream.on('error', reject);
+        });
+        return hash.digest('hex');
+    }
+
+    /**
+     * Copies a content file into the revision storage (if it isn't stored
+     * there already).
+     * @param contentId the content the file belongs to
+     * @param filename the file
+     * @param user the user who accesses the file
+     * @returns the hash of the file's data
+     */
+    private async storeFile(
+        contentId: ContentId,
+        filename: string,
+        user: IUser
+    ): Promise<string> {
+        const hash = await this.hashFile(contentId, filename, user);
+        if (!(await this.revisionStorage.fileExists(hash))) {
+            await this.revisionStorage.addFile(
+                hash,
+                await this.contentManager.getContentFileStream(
+                    contentId,
+                    filename,
+                    user
+                )
+            );
+        }
+        return hash;
+    }
+}
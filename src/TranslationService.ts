@@ -0,0 +1,206 @@
+import de from '../assets/translations/server/de.json';
+import en from '../assets/translations/server/en.json';
+import fr from '../assets/translations/server/fr.json';
+import AggregateH5pError from './helpers/AggregateH5pError';
+import H5pError from './helpers/H5pError';
+import { getLanguageFallbacks } from './helpers/LocalizationHelpers';
+import Logger from './helpers/Logger';
+
+const log = new Logger('TranslationService');
+
+/**
+ * Translates the error ids of H5pErrors and the other strings the server sends
+ * to the user (see assets/translations/server). The strings use the format of
+ * i18next: replacements are added with {{replacement}} and the plural form of
+ * a string is stored with the suffix '_plural' (used if the replacement
+ * 'count' requires it).
+ */
+export default class TranslationService {
+    /**
+     * @param translations (optional) the strings by language; if undefined,
+     * the strings bundled with the library are used (English, German and
+     * French)
+     * @param fallbackLanguage (optional) the language used for strings that
+     * aren't translated into the requested language
+     */
+    constructor(
+        private translations: {
+            [language: string]: { [key: string]: string };
+        } = { de, en, fr },
+        private fallbackLanguage: string = 'en'
+    ) {
+        log.info('initialize');
+    }
+
+    /**
+     * Returns the languages into which strings can be translated.
+     * @returns the language codes (e.g. ['de', 'en', 'fr'])
+     */
+    public getLanguages(): string[] {
+        return Object.keys(this.translations).sort();
+    }
+
+    /**
+     * Returns a translation function that can be used as req.t in the Express
+     * adapter.
+     * @param language the language into which strings are translated
+     * @returns the translation function
+     */
+    public getTranslationFunction(
+        language: string
+    ): (key: string, replacements?: { [key: string]: any }) => string {
+        return (key, replacements) =>
+            this.translate(key, replacements, language);
+    }
+
+    /**
+     * Determines the language that fits the Accept-Language header of a
+     * request best. Languages with a higher quality value are preferred;
+     * regional variants (e.g. de-CH) match their primary language.
+     * @param acceptLanguage the value of the Accept-Language header
+     * @returns the best language or the fallback language if no language of
+     * the header is supported
+     */
+    public negotiateLanguage(acceptLanguage: string): string {
+        const requestedLanguages = (acceptLanguage ?? '')
+            .split(',')
+            .map((entry, index) => {
+                const [language, ...parameters] = entry.trim().split(';');
+                const quality = parameters
+                    .map(parameter => /^\s*q=([0-9.]+)\s*$/.exec(parameter))
+                    .find(match => match);
+                return {
+                    index,
+                    language,
+                    quality: quality ? Number.parseFloat(quality[1]) : 1
+                };
+            })
+            .filter(({ quality }) => quality > 0)
+            .sort((a, b) => b.quality - a.quality || a.index - b.index);
+        for (const { language } of requestedLanguages) {
+            const supported = this.findLanguage(language);
+            if (supported) {
+                return supported;
+            }
+        }
+        return this.fallbackLanguage;
+    }
+
+    /**
+     * Translates a string.
+     * @param key the id of the string (e.g. the errorId of a H5pError)
+     * @param replacements (optional) the values of the replacements in the
+     * string; arrays are joined with commas
+     * @param language (optional) the language; if undefined or if the string
+     * isn't translated into the language, the fallback language is used
+     * @returns the translated string or the key if there is no translation
+     */
+    public translate(
+        key: string,
+        replacements: { [key: string]: any } = {},
+        language?: string
+    ): string {
+        const translation =
+            this.findString(key, replacements, this.findLanguage(language)) ??
+            this.findString(key, replacements, this.fallbackLanguage);
+        if (translation === undefined) {
+            log.debug(`no translation for ${key}`);
+            return key;
+        }
+        return translation.replace(/{{\s*([^}\s]+)\s*}}/g, (match, name) =>
+            replacements[name] === undefined
+                ? match
+                : escapeHtml(
+                      Array.isArray(replacements[name])
+                          ? replacements[name].join(', ')
+                          : String(replacements[name])
+                  )
+        );
+    }
+
+    /**
+     * Translates the error id of a H5pError. The errors of an
+     * AggregateH5pError are translated as well; errors of nested
+     * AggregateH5pErrors are added to the details of the outer error.
+     * @param error the error to translate
+     * @param language (optional) the language
+     * @returns the translated message of the error and the translated
+     * messages of the errors it contains (only for AggregateH5pErrors)
+     */
+    public translateError(
+        error: H5pError,
+        language?: string
+    ): { details?: { code: string; message: string }[]; message: string } {
+        const message = this.translate(
+            error.errorId,
+            error.replacements,
+            language
+        );
+        if (!(error instanceof AggregateH5pError)) {
+            return { message };
+        }
+        return {
+            details: [].concat(
+                ...error.getErrors().map(e => {
+                    const translated = this.translateError(e, language);
+                    return [
+                        { code: e.errorId, message: translated.message },
+                        ...(translated.details ?? [])
+                    ];
+                })
+            ),
+            message
+        };
+    }
+
+    /**
+     * Returns the supported language that matches the language code (e.g.
+     * 'de' for 'de-CH') or undefined if the language isn't supported.
+     */
+    private findLanguage(language: string): string {
+        return getLanguageFallbacks(language).find(
+            fallback => this.translations[fallback] !== undefined
+        );
+    }
+
+    private findString(
+        key: string,
+        replacements: { [key: string]: any },
+        language: string
+    ): string {
+        const strings = this.translations[language];
+        if (!strings) {
+            return undefined;
+        }
+        if (
+            typeof replacements.count === 'number' &&
+            isPlural(replacements.count, language) &&
+            strings[`${key}_plural`] !== undefined
+        ) {
+            return strings[`${key}_plural`];
+        }
+        return strings[key];
+    }
+}
+
+/**
+ * Escapes the replacements, as the strings are displayed as HTML by the
+ * client.
+ */
+function escapeHtml(value: string): string {
+    const entities = {
+        '"': '&quot;',
+        '&': '&amp;',
+        "'": '&#39;',
+        '<': '&lt;',
+        '>': '&gt;'
+    };
+    return value.replace(/[&<>"']/g, character => entities[character]);
+}
+
+/**
+ * French uses the singular for 0 and 1, most other languages only for 1.
+ */
+function isPlural(count: number, language: string): boolean {
+    return language === 'fr' ? count > 1 : count !== 1;
+}
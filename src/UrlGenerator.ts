@@ -1,4 +1,9 @@
-import { ContentId, IEditorConfig, ILibraryName } from './types';
+import {
+    ContentId,
+    IEditorConfig,
+    IFullLibraryName,
+    ILibraryName
+} from './types';
 
 /**
  * This class generates URLs for files based on the URLs set in the configuration.
@@ -6,6 +11,23 @@ import { ContentId, IEditorConfig, ILibraryName } from './types';
 export default class UrlGenerator {
     constructor(private config: IEditorConfig) {}
 
+    /**
+     * Returns the URL of a bundle of library scripts or styles created by the
+     * asset aggregator.
+     */
+    public assetBundle = (filename: string): string => {
+        return `${this.config.baseUrl}${this.config.assetsUrl}/${filename}`;
+    };
+
+    /**
+     * Returns the URL template for loading and saving user data. The H5P
+     * client replaces :contentId, :dataType and :subContentId.
+     */
+
+    public contentUserData = (): string => {
+        return `${this.config.baseUrl}${this.config.contentUserDataUrl}/:contentId/:dataType/:subContentId`;
+    };
+
     public coreFile = (file: string) => {
         return `${this.config.baseUrl}${this.config.coreUrl}/${file}`;
     };
@@ -22,8 +44,29 @@ export default class UrlGenerator {
         return `${this.config.baseUrl}${this.config.editorLibraryUrl}/`;
     };
 
-    public libraryFile = (library: ILibraryName, file: string) => {
-        return `${this.config.baseUrl}${this.config.librariesUrl}/${library.machineName}-${library.majorVersion}.${library.minorVersion}/${file}`;
+    /**
+     * Returns the absolute URL of the page that displays content in an
+     * iframe on other sites.
+     */
+    public embed = (contentId: ContentId): string => {
+        return `${this.config.siteUrl}${this.config.baseUrl}${this.config.embedUrl}/${contentId}`;
+    };
+
+    /**
+     * Returns the URL of a file in a library. If the patch version of the
+     * library is known, it is added to the URL (as the query parameter
+     * 'version'), so that the file can be cached until the library is
+     * updated.
+     */
+    public libraryFile = (
+        library: ILibraryName | IFullLibraryName,
+        file: string
+    ): string => {
+        const url = `${this.config.baseUrl}${this.config.librariesUrl}/${library.machineName}-${library.majorVersion}.${library.minorVersion}/${file}`;
+        const patchVersion = (library as IFullLibraryName).patchVersion;
+        return patchVersion === undefined
+            ? url
+            : `${url}?version=${library.majorVersion}.${library.minorVersion}.${patchVersion}`;
     };
 
     public parameters = () => {
@@ -34,6 +77,18 @@ export default class UrlGenerator {
         return `${this.config.baseUrl}${this.config.playUrl}`;
     };
 
+    /**
+     * Returns the absolute URL of the script that resizes the iframes of
+     * embedded content.
+     */
+    public resizer = (): string => {
+        return `${this.config.siteUrl}${this.config.baseUrl}${this.config.resizerUrl}`;
+    };
+
+    public results = (): string => {
+        return `${this.config.baseUrl}${this.config.resultsUrl}`;
+    };
+
     public temporaryFiles = (): string => {
         return this.config.baseUrl + this.config.temporaryFilesUrl;
     };
@@ -0,0 +1,75 @@
+import axios from 'axios';
+
+import H5pError from './helpers/H5pError';
+import Logger from './helpers/Logger';
+
+const log = new Logger('XapiLrsForwarder');
+
+/**
+ * Sends xAPI statements to the statements resource of a Learning Record Store
+ * (LRS) as specified in the xAPI specification.
+ */
+export default class XapiLrsForwarder {
+    /**
+     * @param endpoint the xAPI endpoint of the LRS (without /statements)
+     * @param authorization (optional) the value of the Authorization header
+     * sent to the LRS (e.g. 'Basic dXNlcjpwYXNzd29yZA==')
+     */
+    constructor(private endpoint: string, private authorization?: string) {
+        log.info('initialize');
+    }
+
+    /**
+     * The time in milliseconds after which a request to the LRS is aborted.
+     */
+    public static timeout: number = 10000;
+
+    public static xapiVersion: string = '1.0.3';
+
+    /**
+     * Posts the statements to the LRS. Throws an H5pError (502) if the LRS
+     * doesn't accept them or doesn't respond within the timeout.
+     * @param statements the xAPI statements
+     */
+    public async forward(statements: any[]): Promise<void> {
+        if (statements.length === 0) {
+            return;
+        }
+        log.debug(`forwarding ${statements.length} statement(s) to LRS`);
+        const headers: { [name: string]: string } = {
+            'Content-Type': 'application/json',
+            'X-Experience-API-Version': XapiLrsForwarder.xapiVersion
+        };
+        if (this.authorization) {
+            headers.Authorization = this.authorization;
+        }
+        let status: number;
+        let statusText: string;
+        try {
+            const response = await axios.post(
+                `${this.endpoint.replace(/\/$/, '')}/statements`,
+                statements,
+                {
+                    headers,
+                    timeout: XapiLrsForwarder.timeout,
+                    validateStatus: () => true
+                }
+            );
+            status = response.status;
+            statusText = response.statusText;
+        } catch (error) {
+            throw new H5pError(
+                'xapi-lrs-forwarding-failed',
+                { error: error.message },
+                502
+            );
+        }
+        if (status < 200 || status >= 300) {
+            throw new H5pError(
+                'xapi-lrs-forwarding-failed',
+                { error: `${status} ${statusText}` },
+                502
+            );
+        }
+    }
+}
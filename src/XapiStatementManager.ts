@@ -0,0 +1,159 @@
+import ContentManager from './ContentManager';
+import H5pError from './helpers/H5pError';
+import Logger from './helpers/Logger';
+import {
+    ContentId,
+    IUser,
+    IXapiStatementRecord,
+    IXapiStatementStore,
+    Permission
+} from './types';
+import XapiLrsForwarder from './XapiLrsForwarder';
+
+const log = new Logger('XapiStatementManager');
+
+/**
+ * Receives the xAPI statements the H5P client emits while users interact
+ * with content. The statements are stored in the statement store and, if a
+ * forwarder is set, sent to a Learning Record Store. The actor of the
+ * statements is replaced with the user who sent them, so users can't record
+ * statements in the name of others. The statements are forwarded in the
+ * background: forwarding errors are logged, but don't cause the statements
+ * to be rejected, as they have already been stored locally.
+ */
+export default class XapiStatementManager {
+    /**
+     * @param contentManager the content manager used to check permissions
+     * @param statementStore the storage for the statements
+     * @param forwarder (optional) sends the statements to an LRS
+     * @param homePage (optional) the home page of the user accounts in the
+     * actors of the statements (normally the URL of the site)
+     */
+    constructor(
+        private contentManager: ContentManager,
+        private statementStore: IXapiStatementStore,
+        private forwarder?: XapiLrsForwarder,
+        private homePage: string = 'http://localhost'
+    ) {
+        log.info('initialize');
+    }
+
+    /**
+     * Throws an H5pError (401) if there is no user (e.g. because the route
+     * is used without authentication).
+     */
+    private static checkUser(user: IUser): void {
+        if (!user?.id) {
+            throw new H5pError('xapi-no-user', {}, 401);
+        }
+    }
+
+    /**
+     * Checks if the statement has the properties required by the xAPI
+     * specification (actor, verb and object) and throws an H5pError (400) if
+     * not.
+     */
+    private static validateStatement(statement: any): void {
+        if (
+            typeof statement !== 'object' ||
+            statement === null ||
+            typeof statement.actor !== 'object' ||
+            statement.actor === null ||
+            typeof statement.verb?.id !== 'string' ||
+            typeof statement.object !== 'object' ||
+            statement.object === null
+        ) {
+            throw new H5pError('xapi-statement-invalid', {}, 400);
+        }
+    }
+
+    /**
+     * Stores xAPI statements emitted by a user in a piece of content and
+     * forwards them to the LRS (if configured). The user must be allowed to
+     * view the content. The actor of the statements is replaced with an
+     * account of the user.
+     * @param contentId the content in which the statements were emitted
+     * @param statements the xAPI statements
+     * @param user the user who emitted the statements
+     * @returns the stored records
+     */
+    public async addStatements(
+        contentId: ContentId,
+        statements: any[],
+        user: IUser
+    ): Promise<IXapiStatementRecord[]> {
+        XapiStatementManager.checkUser(user);
+        log.info(
+            `adding ${statements.length} xAPI statement(s) for content ${contentId} and user ${user.id}`
+        );
+        await this.checkContent(contentId, user, Permission.View);
+        for (const statement of statements) {
+            XapiStatementManager.validateStatement(statement);
+        }
+
+        const storedAt = new Date();
+        const actor = {
+            account: { homePage: this.homePage, name: user.id },
+            name: user.name,
+            objectType: 'Agent'
+        };
+        const records = statements.map(statement => ({
+            contentId,
+            statement: { ...statement, actor },
+            storedAt,
+            userId: user.id
+        }));
+        await this.statementStore.addStatements(records);
+
+        if (this.forwarder) {
+            // not awaited, so that a slow LRS doesn't delay the response
+            this.forwarder
+                .forward(records.map(record => record.statement))
+                .catch(error => {
+                    log.error(
+                        `Could not forward xAPI statements of content ${contentId} to LRS: ${error.message}`
+                    );
+                });
+        }
+        return records;
+    }
+
+    /**
+     * Gets the stored statements of a piece of content. Users who can view
+     * the content can get their own statements. Getting the statements of
+     * all or other users requires the permission to edit the content.
+     * @param contentId the content
+     * @param user the user who requests the statements
+     * @param userId (optional) only returns the statements of this user
+     * @returns the statements in the order they were received
+     */
+    public async getStatements(
+        contentId: ContentId,
+        user: IUser,
+        userId?: string
+    ): Promise<IXapiStatementRecord[]> {
+        XapiStatementManager.checkUser(user);
+        log.info(`getting xAPI statements of content ${contentId}`);
+        await this.checkContent(
+            contentId,
+            user,
+            userId === user.id ? Permission.View : Permission.Edit
+        );
+        return this.statementStore.getStatements(contentId, userId);
+    }
+
+    /**
+     * Throws an H5pError if the content doesn't exist (404) or the user
+     * lacks the permission (403).
+     */
+    private async checkContent(
+        contentId: ContentId,
+        user: IUser,
+        permission: Permission
+    ): Promise<void> {
+        if (!(await this.contentManager.contentExists(contentId))) {
+            throw new H5pError('content-not-found', { contentId }, 404);
+        }
+        await this.contentManager.checkPermission(contentId, user, permission);
+    }
+}
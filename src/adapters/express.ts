@@ -1,9 +1,11 @@
 import express from 'express';
+import { ReadStream } from 'fs';
 import path from 'path';
 
 import * as H5P from '../';
 import AjaxSuccessResponse from '../helpers/AjaxSuccessResponse';
 import expressErrorHandler from './expressErrorHandler';
+import expressTranslationMiddleware from './expressTranslationMiddleware';
 
 /**
  * This router implements all Ajax calls necessary for the H5P (editor) client to work.
@@ -26,34 +28,182 @@ export default function(
      */
     const catchAndPassOnErrors = fn => (...args) => fn(...args).catch(args[2]);
 
-    // get library file
+    // Adds req.t and req.language with the bundled translations if they
+    // weren't added by another localization middleware.
+    router.use(expressTranslationMiddleware());
+
+    /**
+     * Sends a file to the client. Adds the ETag and Last-Modified headers,
+     * answers conditional requests (If-None-Match, If-Modified-Since) with 304
+     * and honors the Range header of the request (used by the browser e.g. to
+     * seek in videos). Requests with several ranges are answered with the
+     * whole file.
+     * @param req the request
+     * @param res the response
+     * @param filename the name of the file (used to determine its type)
+     * @param stats the size, modification time and (optional) etag of the file
+     * @param cacheControl the value of the Cache-Control header
+     * @param getStream returns a stream of the file or of the range of it
+     */
+    const sendFile = async (
+        req: express.Request,
+        res: express.Response,
+        filename: string,
+        stats: H5P.IFileStats,
+        cacheControl: string,
+        getStream: (
+            rangeStart?: number,
+            rangeEnd?: number
+        ) => Promise<ReadStream> | ReadStream
+    ): Promise<void> => {
+        const { size } = stats;
+        const etag =
+            stats.etag ??
+            `W/"${size.toString(16)}-${stats.mtime.getTime().toString(16)}"`;
+        const lastModified = stats.mtime.toUTCString();
+        res.type(path.basename(filename));
+        res.setHeader('Accept-Ranges', 'bytes');
+        res.setHeader('Cache-Control', cacheControl);
+        res.setHeader('ETag', etag);
+        res.setHeader('Last-Modified', lastModified);
+        if (req.fresh) {
+            res.status(304).end();
+            return;
+        }
+
+        // The range is only valid if the file hasn't changed since the client
+        // got the rest of it.
+        const ifRange = req.get('If-Range');
+        const ranges =
+            ifRange === undefined ||
+            ifRange === etag ||
+            ifRange === lastModified
+                ? req.range(size, { combine: true })
+                : undefined;
+        if (ranges === -1) {
+            res.setHeader('Content-Range', `bytes */${size}`);
+            res.status(416).end();
+            return;
+        }
+        let stream: ReadStream;
+        if (
+            ranges === undefined ||
+            ranges === -2 ||
+            ranges.type !== 'bytes' ||
+            ranges.length !== 1
+        ) {
+            res.setHeader('Content-Length', size);
+            res.status(200);
+            stream = await getStream();
+        } else {
+            const { start, end } = ranges[0];
+            res.setHeader('Content-Range', `bytes ${start}-${end}/${size}`);
+            res.setHeader('Content-Length', end - start + 1);
+            res.status(206);
+            stream = await getStream(start, end);
+        }
+        stream.on('end', () => {
+            res.end();
+        });
+        stream.pipe(res);
+    };
+
+    // get library file (supports HTTP Range requests); files requested with
+    // the version of the library (as added by the player and editor) don't
+    // change until the library is updated, which changes the URL
     router.get(
         `${h5pEditor.config.librariesUrl}/:uberName/:file(*)`,
         catchAndPassOnErrors(async (req, res) => {
-            const stream = await h5pEditor.libraryManager.getFileStream(
-                H5P.LibraryName.fromUberName(req.params.uberName),
+            const library = H5P.LibraryName.fromUberName(req.params.uberName);
+            const { file } = req.params;
+            const stats = await h5pEditor.libraryManager.getFileStats(
+                library,
+                file
+            );
+            await sendFile(
+                req,
+                res,
+                file,
+                stats,
+                req.query.version
+                    ? 'public, max-age=31536000, immutable'
+                    : 'public, no-cache',
+                (start, end) =>
+                    h5pEditor.libraryManager.getFileStream(
+                        library,
+                        file,
+                        start,
+                        end
+                    )
+            );
+        })
+    );
+
+    // get bundle of library scripts or styles; the filename of a bundle
+    // changes when its libraries change
+    router.get(
+        `${h5pEditor.config.assetsUrl}/:file`,
+        catchAndPassOnErrors(async (req, res) => {
+            if (!h5pEditor.assetAggregator) {
+                throw new H5P.H5pError(
+                    'asset-bundle-not-found',
+                    { filename: req.params.file },
+                    404
+                );
+            }
+            const bundle = await h5pEditor.assetAggregator.getBundle(
                 req.params.file
             );
-            stream.on('end', () => {
-                res.end();
-            });
-            stream.pipe(res.type(path.basename(req.params.file)));
+            res.type(path.extname(req.params.file))
+                .set('Cache-Control', 'public, max-age=31536000, immutable')
+                .send(bundle);
         })
     );
 
-    // get content file
+    // get content file (supports HTTP Range requests)
     router.get(
         `${h5pEditor.config.contentFilesUrl}/:id/:file(*)`,
         catchAndPassOnErrors(async (req, res) => {
-            const stream = await h5pEditor.getContentFileStream(
-                req.params.id,
-                req.params.file,
+            const { id, file } = req.params;
+            if (!(await h5pEditor.contentManager.contentFileExists(id, file))) {
+                // The H5P client ignores the '#tmp' suffix of files that were
+                // uploaded in the editor, so they are requested here as well.
+                const stream = await h5pEditor.getContentFileStream(
+                    id,
+                    file,
+                    req.user
+                );
+                stream.on('end', () => {
+                    res.end();
+                });
+                stream.pipe(res.type(path.basename(file)));
+                return;
+            }
+            await h5pEditor.contentManager.checkPermission(
+                id,
+                req.user,
+                H5P.Permission.View
+            );
+            const stats = await h5pEditor.contentManager.getContentFileStats(
+                id,
+                file,
                 req.user
             );
-            stream.on('end', () => {
-                res.end();
-            });
-            stream.pipe(res.type(path.basename(req.params.file)));
+            await sendFile(
+                req,
+                res,
+                file,
+                stats,
+                'private, no-cache',
+                (start, end) =>
+                    h5pEditor.contentManager.getContentFileStream(
+                        id,
+                        file,
+                        req.user,
+                        start,
+                        end
+                    )
+            );
         })
     );
 
@@ -110,7 +260,8 @@ export default function(
                         machineName,
                         majorVersion,
                         minorVersion,
-                        language
+                        language,
+                        req.query['default-language']
                     );
                     res.status(200).json(library);
 
@@ -222,15 +373,16 @@ export default function(
                         );
                     }
 
-                    // TODO: properly filter params, this is just a hack to get uploading working
-
                     res.status(200).json(
-                        new AjaxSuccessResponse({
-                            library: unfilteredLibrary,
-                            metadata: unfilteredMetadata,
-                            params: unfilteredParams
-                        })
+                        new AjaxSuccessResponse(
+                            await h5pEditor.filterParameters(
+                                unfilteredLibrary,
+                                unfilteredParams,
+                                unfilteredMetadata
+                            )
+                        )
                     );
+                    break;
                 case 'library-install':
                     const installedLibs = await h5pEditor.installLibrary(
                         req.query.id,
@@ -303,16 +455,319 @@ export default function(
     // serve core files (= JavaScript + CSS from h5p-php-library)
     router.use(h5pEditor.config.coreUrl, express.static(h5pCorePath));
 
+    /**
+     * Loads the content and renders it with a player. Throws an H5pError if
+     * the content doesn't exist (404) or the user lacks one of the
+     * permissions (403).
+     * @param contentId the content to render
+     * @param user the user who wants to view the content
+     * @param permissions the permissions the user must have on the content
+     * @param render renders the content with the player (e.g. as page or
+     * embedded page)
+     * @returns the rendered content
+     */
+    const renderContent = async (
+        contentId: H5P.ContentId,
+        user: H5P.IUser,
+        permissions: H5P.Permission[],
+        render: (
+            player: H5P.H5PPlayer,
+            contentObject: any,
+            h5pObject: H5P.IContentMetadata,
+            displayOptions: Partial<H5P.IDisplayOptions>
+        ) => Promise<string>
+    ): Promise<string> => {
+        if (!(await h5pEditor.contentManager.contentExists(contentId))) {
+            throw new H5P.H5pError('content-not-found', { contentId }, 404);
+        }
+        for (const permission of permissions) {
+            await h5pEditor.contentManager.checkPermission(
+                contentId,
+                user,
+                permission
+            );
+        }
+        const [contentObject, h5pObject, displayOptions] = await Promise.all([
+            h5pEditor.contentManager.loadContent(contentId, user),
+            h5pEditor.contentManager.loadH5PJson(contentId, user),
+            h5pEditor.contentManager.getDisplayOptions(contentId)
+        ]);
+        const player = new H5P.H5PPlayer(
+            (machineName, majorVersion, minorVersion) =>
+                h5pEditor.libraryManager.loadLibrary(
+                    new H5P.LibraryName(machineName, majorVersion, minorVersion)
+                ),
+            h5pEditor.config,
+            undefined,
+            undefined,
+            undefined,
+            {
+                assetAggregator: h5pEditor.assetAggregator,
+                contentUserDataManager: h5pEditor.contentUserDataManager,
+                contentUserResultManager: h5pEditor.contentUserResultManager,
+                permissionSystem: h5pEditor.getPermissionSystem()
+            }
+        );
+        return render(player, contentObject, h5pObject, displayOptions);
+    };
+
+    // play content
+    router.get(
+        `${h5pEditor.config.playUrl}/:contentId`,
+        catchAndPassOnErrors(async (req, res) => {
+            const { contentId } = req.params;
+            const page = await renderContent(
+                contentId,
+                req.user,
+                [H5P.Permission.View],
+                (player, contentObject, h5pObject, displayOptions) =>
+                    player.render(
+                        contentId,
+                        contentObject,
+                        h5pObject,
+                        req.user,
+                        displayOptions,
+                        'page',
+                        req.query.language ?? req.language
+                    )
+            );
+            res.status(200)
+                .type('html')
+                .send(page);
+        })
+    );
+
+    // serve the page that displays content embedded into other sites
+    router.get(
+        `${h5pEditor.config.embedUrl}/:contentId`,
+        catchAndPassOnErrors(async (req, res) => {
+            const { contentId } = req.params;
+            const page = await renderContent(
+                contentId,
+                req.user,
+                [H5P.Permission.View, H5P.Permission.Embed],
+                (player, contentObject, h5pObject, displayOptions) =>
+                    player.renderEmbed(
+                        contentId,
+                        contentObject,
+                        h5pObject,
+                        req.user,
+                        displayOptions,
+                        req.query.language ?? req.language
+                    )
+            );
+            res.status(200)
+                .type('html')
+                .send(page);
+        })
+    );
+
+    // serve the script that resizes the iframes of embedded content
+    router.get(h5pEditor.config.resizerUrl, (req, res, next) => {
+        res.sendFile(
+            path.resolve(h5pCorePath, 'js/h5p-resizer.js'),
+            error => error && next(error)
+        );
+    });
+
     // serve editor core files (= JavaScript + CSS from h5p-editor-php-library)
     router.use(
         h5pEditor.config.editorLibraryUrl,
         express.static(h5pEditorLibraryPath)
     );
 
+    /**
+     * Returns the xAPI statement manager of the editor. Throws an H5pError
+     * (404) if no xAPI statement store was passed to the editor.
+     */
+    const getXapiStatementManager = (): H5P.XapiStatementManager => {
+        if (!h5pEditor.xapiStatementManager) {
+            throw new H5P.H5pError('xapi-not-enabled', {}, 404);
+        }
+        return h5pEditor.xapiStatementManager;
+    };
+
+    // receive xAPI statements (a single statement or an array) emitted by the player
+    router.post(
+        `${h5pEditor.config.xapiUrl}/:contentId`,
+        catchAndPassOnErrors(async (req, res) => {
+            if (!req.body || typeof req.body !== 'object') {
+                throw new H5P.H5pError(
+                    'malformed-request',
+                    { error: 'The body must contain xAPI statements.' },
+                    400
+                );
+            }
+            await getXapiStatementManager().addStatements(
+                req.params.contentId,
+                Array.isArray(req.body) ? req.body : [req.body],
+                req.user
+            );
+            res.status(204).end();
+        })
+    );
+
+    // get the xAPI statements of content (optionally only those of ?userId=...)
+    router.get(
+        `${h5pEditor.config.xapiUrl}/:contentId`,
+        catchAndPassOnErrors(async (req, res) => {
+            res.status(200).json(
+                await getXapiStatementManager().getStatements(
+                    req.params.contentId,
+                    req.user,
+                    req.query.userId
+                )
+            );
+        })
+    );
+
+    /**
+     * Returns the result manager of the editor. Throws an H5pError (404) if
+     * no result storage was passed to the editor.
+     */
+    const getContentUserResultManager = (): H5P.ContentUserResultManager => {
+        if (!h5pEditor.contentUserResultManager) {
+            throw new H5P.H5pError('user-results-not-enabled', {}, 404);
+        }
+        return h5pEditor.contentUserResultManager;
+    };
+
+    // store the result of a user who has finished content (H5P.setFinished in the client)
+    router.post(
+        h5pEditor.config.resultsUrl,
+        catchAndPassOnErrors(async (req, res) => {
+            if (!req.body?.contentId) {
+                throw new H5P.H5pError(
+                    'malformed-request',
+                    { error: "'contentId' property is missing in request" },
+                    400
+                );
+            }
+            await getContentUserResultManager().setFinished(
+                req.body.contentId,
+                {
+                    finished: Number(req.body.finished),
+                    maxScore: Number(req.body.maxScore),
+                    opened: Number(req.body.opened),
+                    score: Number(req.body.score),
+                    time:
+                        req.body.time !== undefined
+                            ? Number(req.body.time)
+                            : undefined
+                },
+                req.user
+            );
+            res.status(200).json(new AjaxSuccessResponse(undefined));
+        })
+    );
+
+    // get the results of all users in a piece of content
+    router.get(
+        `${h5pEditor.config.resultsUrl}/content/:contentId`,
+        catchAndPassOnErrors(async (req, res) => {
+            res.status(200).json(
+                await getContentUserResultManager().getResultsByContent(
+                    req.params.contentId,
+                    req.user
+                )
+            );
+        })
+    );
+
+    // get the results of a user in all pieces of content
+    router.get(
+        `${h5pEditor.config.resultsUrl}/user/:userId`,
+        catchAndPassOnErrors(async (req, res) => {
+            res.status(200).json(
+                await getContentUserResultManager().getResultsByUser(
+                    req.params.userId,
+                    req.user
+                )
+            );
+        })
+    );
+
+    /**
+     * Returns the user data manager of the editor. Throws an H5pError (404) if
+     * no user data storage was passed to the editor.
+     */
+    const getContentUserDataManager = (): H5P.ContentUserDataManager => {
+        if (!h5pEditor.contentUserDataManager) {
+            throw new H5P.H5pError('content-user-data-not-enabled', {}, 404);
+        }
+        return h5pEditor.contentUserDataManager;
+    };
+
+    // load user data of content (e.g. the state to resume it); data is false if there is none
+    router.get(
+        `${h5pEditor.config.contentUserDataUrl}/:contentId/:dataType/:subContentId`,
+        catchAndPassOnErrors(async (req, res) => {
+            const data = await getContentUserDataManager().getContentUserData(
+                req.params.contentId,
+                req.params.dataType,
+                req.params.subContentId,
+                req.user
+            );
+            res.status(200).json(new AjaxSuccessResponse(data ?? false));
+        })
+    );
+
+    // save user data of content; the H5P client sends data=0 to delete it
+    router.post(
+        `${h5pEditor.config.contentUserDataUrl}/:contentId/:dataType/:subContentId`,
+        catchAndPassOnErrors(async (req, res) => {
+            if (req.body?.data === undefined) {
+                throw new H5P.H5pError(
+                    'malformed-request',
+                    { error: "'data' property is missing in request" },
+                    400
+                );
+            }
+            if (req.body.data === '0' || req.body.data === 0) {
+                await getContentUserDataManager().deleteContentUserData(
+                    req.params.contentId,
+                    req.params.dataType,
+                    req.params.subContentId,
+                    req.user
+                );
+            } else {
+                await getContentUserDataManager().createOrUpdateContentUserData(
+                    req.params.contentId,
+                    req.params.dataType,
+                    req.params.subContentId,
+                    req.body.data,
+                    req.body.invalidate === '1' ||
+                        req.body.invalidate === 1 ||
+                        req.body.invalidate === true,
+                    req.body.preload === '1' ||
+                        req.body.preload === 1 ||
+                        req.body.preload === true,
+                    req.user
+                );
+            }
+            res.status(200).json(new AjaxSuccessResponse(undefined));
+        })
+    );
+
     // serve download links
     router.get(
         `${h5pEditor.config.downloadUrl}/:contentId`,
         catchAndPassOnErrors(async (req, res) => {
+            const { contentId } = req.params;
+            // check before the headers of the package are sent, so that
+            // errors can be reported to the user
+            if (!(await h5pEditor.contentManager.contentExists(contentId))) {
+                throw new H5P.H5pError(
+                    'download-content-not-found',
+                    { contentId },
+                    404
+                );
+            }
+            await h5pEditor.contentManager.checkPermission(
+                contentId,
+                req.user,
+                H5P.Permission.Download
+            );
             // set filename for the package with .h5p extension
             res.setHeader(
                 'Content-disposition',
@@ -1,12 +1,35 @@
 import AggregateH5pError from '../helpers/AggregateH5pError';
 import AjaxErrorResponse from '../helpers/AjaxErrorResponse';
 import H5pError from '../helpers/H5pError';
+import TranslationService from '../TranslationService';
+
+/**
+ * Used to translate errors if no translation function (req.t) was added to
+ * the request.
+ */
+const defaultTranslationService = new TranslationService();
+
+/**
+ * Returns the errors of an AggregateH5pError including the errors of nested
+ * AggregateH5pErrors.
+ */
+function flattenErrors(error: AggregateH5pError): H5pError[] {
+    return [].concat(
+        ...error
+            .getErrors()
+            .map(e =>
+                e instanceof AggregateH5pError ? [e, ...flattenErrors(e)] : [e]
+            )
+    );
+}
 
 /**
  * An Express middleware that converts NodeJs error objects into error
  * responses the H5P client can understand. Add this middleware as the last
  * entry in your express application and make sure all routes don't throw errors
  * but pass them to the next(...) function. (You must do this manually in async functions!)
+ * Errors are translated with req.t if it exists and with the translations
+ * bundled with the library otherwise.
  */
 export default function errorHandler(
     err: Error | H5pError | AggregateH5pError,
@@ -21,22 +44,27 @@ export default function errorHandler(
 
     if (err instanceof H5pError) {
         statusCode = err.httpStatusCode;
-        statusText =
-            req.t === undefined
-                ? err.errorId
-                : req.t(err.errorId, err.replacements);
         clientErrorId = err.clientErrorId || '';
-
-        if (err instanceof AggregateH5pError) {
-            detailsList = err.getErrors().map(e => {
-                return {
-                    code: e.errorId,
-                    message:
-                        req.t === undefined
-                            ? e.errorId
-                            : req.t(e.errorId, e.replacements)
-                };
-            });
+        if (req.t === undefined) {
+            const translated = defaultTranslationService.translateError(
+                err,
+                req.language ??
+                    defaultTranslationService.negotiateLanguage(
+                        req.get?.('Accept-Language')
+                    )
+            );
+            statusText = translated.message;
+            detailsList = translated.details;
+        } else {
+            statusText = req.t(err.errorId, err.replacements);
+            if (err instanceof AggregateH5pError) {
+                detailsList = flattenErrors(err).map(e => {
+                    return {
+                        code: e.errorId,
+                        message: req.t(e.errorId, e.replacements)
+                    };
+                });
+            }
         }
     } else {
         statusText = err.message;
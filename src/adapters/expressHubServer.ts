@@ -0,0 +1,89 @@
+import express from 'express';
+import shortid from 'shortid';
+
+import * as H5P from '../';
+import expressErrorHandler from './expressErrorHandler';
+
+/**
+ * This router implements the endpoints of the H5P Hub, so that other H5P
+ * servers can install the content types published by a HubServer.
+ * Use it like this: server.use('/h5p/hub', H5P.adapters.expressHubServer(hubServer));
+ * and set the config of the other servers to
+ * hubContentTypesEndpoint: 'https://example.com/h5p/hub/content-types/'
+ * hubRegistrationEndpoint: 'https://example.com/h5p/hub/sites'
+ *
+ * POST   /sites                             registers a site; returns { uuid }
+ * POST   /content-types/                    returns { contentTypes } in the
+ *                                           format of the H5P Hub
+ * GET    /content-types/:machineName        downloads the package of the
+ *                                           content type
+ * GET    /content-types/:machineName/icon.svg  returns the icon of the
+ *                                           content type
+ *
+ * The routes don't require a body parser, as the data sent by the servers
+ * (e.g. usage statistics) isn't used.
+ * @param hubServer the hub server that publishes the content types
+ */
+export default function(hubServer: H5P.HubServer): express.Router {
+    const router = express.Router();
+
+    /**
+     * Calls the function passed to it and catches errors it throws. These arrows are then
+     * passed to the next(...) function for proper error handling.
+     * @param fn The function to call
+     */
+    const catchAndPassOnErrors = fn => (...args) => fn(...args).catch(args[2]);
+
+    router.post('/sites', (req, res) => {
+        res.status(200).json({ uuid: shortid() });
+    });
+
+    router.post(
+        '/content-types/',
+        catchAndPassOnErrors(async (req, res) => {
+            // the icons are loaded by the browsers of the users of the other
+            // servers, so their URLs must be absolute
+            res.status(200).json({
+                contentTypes: await hubServer.getContentTypes(
+                    `${req.protocol}://${req.get('host')}${
+                        req.baseUrl
+                    }/content-types`
+                )
+            });
+        })
+    );
+
+    router.get(
+        '/content-types/:machineName',
+        catchAndPassOnErrors(async (req, res) => {
+            // the package is created before the headers are set, so that
+            // errors (e.g. unknown content types) are returned as usual
+            const stream = await hubServer.createPackage(
+                req.params.machineName
+            );
+            res.setHeader(
+                'Content-disposition',
+                `attachment; filename="${req.params.machineName}.h5p"`
+            );
+            stream.pipe(res);
+        })
+    );
+
+    router.get(
+        '/content-types/:machineName/icon.svg',
+        catchAndPassOnErrors(async (req, res) => {
+            const stream = await hubServer.getIconStream(
+                req.params.machineName
+            );
+            res.type('svg');
+            stream.on('end', () => {
+                res.end();
+            });
+            stream.pipe(res);
+        })
+    );
+
+    router.use(expressErrorHandler);
+
+    return router;
+}
@@ -0,0 +1,160 @@
+import express from 'express';
+
+import * as H5P from '../';
+import expressErrorHandler from './expressErrorHandler';
+
+/**
+ * This router implements the routes needed for a library administration page
+ * (like the "Libraries" page of the PHP implementation). Only users who are
+ * allowed to update and install libraries can use them.
+ * Use it like this: server.use('/h5p/libraries', H5P.adapters.expressLibraryAdministration(h5pEditor));
+ *
+ * GET    /                 lists all installed libraries with their usage
+ * GET    /translations     checks the translations of all libraries; add
+ *                          ?languages=de,fr to check specific languages
+ * GET    /:uberName        returns details about a single library
+ * PATCH  /:uberName        changes the library; body: { restricted: boolean }
+ * DELETE /:uberName        deletes the library; add ?force=true to delete it
+ *                          and all dependent libraries even if in use
+ * POST   /:uberName/check  checks the consistency of the library
+ * GET    /:uberName/translations  checks the translations of the library
+ *
+ * The routes require a JSON body parser and the user object in req.user.
+ * @param h5pEditor the editor object
+ */
+export default function(h5pEditor: H5P.H5PEditor): express.Router {
+    const router = express.Router();
+
+    /**
+     * Calls the function passed to it and catches errors it throws. These arrows are then
+     * passed to the next(...) function for proper error handling.
+     * @param fn The function to call
+     */
+    const catchAndPassOnErrors = fn => (...args) => fn(...args).catch(args[2]);
+
+    /**
+     * Parses the ubername in the route parameters. Throws an H5pError (400)
+     * if it's invalid.
+     */
+    const getLibraryName = (req): H5P.ILibraryName => {
+        try {
+            return H5P.LibraryName.fromUberName(req.params.uberName);
+        } catch (error) {
+            throw new H5P.H5pError(
+                'invalid-library-name',
+                { name: req.params.uberName },
+                400
+            );
+        }
+    };
+
+    /**
+     * Parses the comma-separated list of languages in the query string.
+     */
+    const getLanguages = (req): string[] =>
+        typeof req.query.languages === 'string' && req.query.languages !== ''
+            ? req.query.languages.split(',').map(language => language.trim())
+            : undefined;
+
+    router.get(
+        '/',
+        catchAndPassOnErrors(async (req, res) => {
+            res.status(200).json(
+                await h5pEditor.libraryAdministration.getLibraries(req.user)
+            );
+        })
+    );
+
+    router.get(
+        '/translations',
+        catchAndPassOnErrors(async (req, res) => {
+            res.status(200).json(
+                await h5pEditor.libraryAdministration.getTranslationReport(
+                    req.user,
+                    getLanguages(req)
+                )
+            );
+        })
+    );
+
+    router.get(
+        '/:uberName',
+        catchAndPassOnErrors(async (req, res) => {
+            res.status(200).json(
+                await h5pEditor.libraryAdministration.getLibrary(
+                    getLibraryName(req),
+                    req.user
+                )
+            );
+        })
+    );
+
+    router.patch(
+        '/:uberName',
+        catchAndPassOnErrors(async (req, res) => {
+            const library = getLibraryName(req);
+            if (typeof req.body?.restricted !== 'boolean') {
+                throw new H5P.H5pError(
+                    'malformed-request',
+                    { error: "'restricted' must be a boolean" },
+                    400
+                );
+            }
+            await h5pEditor.libraryAdministration.setRestricted(
+                library,
+                req.body.restricted,
+                req.user
+            );
+            res.status(200).json(
+                await h5pEditor.libraryAdministration.getLibrary(
+                    library,
+                    req.user
+                )
+            );
+        })
+    );
+
+    router.delete(
+        '/:uberName',
+        catchAndPassOnErrors(async (req, res) => {
+            const result = await h5pEditor.libraryAdministration.deleteLibrary(
+                getLibraryName(req),
+                req.user,
+                req.query.force === 'true'
+            );
+            // 409 Conflict: the library is still in use and wasn't deleted
+            res.status(result.removedLibraries.length > 0 ? 200 : 409).json(
+                result
+            );
+        })
+    );
+
+    router.post(
+        '/:uberName/check',
+        catchAndPassOnErrors(async (req, res) => {
+            res.status(200).json({
+                consistent: await h5pEditor.libraryAdministration.checkConsistency(
+                    getLibraryName(req),
+                    req.user
+                )
+            });
+        })
+    );
+
+    router.get(
+        '/:uberName/translations',
+        catchAndPassOnErrors(async (req, res) => {
+            res.status(200).json(
+                await h5pEditor.libraryAdministration.getLibraryTranslationReport(
+                    getLibraryName(req),
+                    req.user,
+                    getLanguages(req)
+                )
+            );
+        })
+    );
+
+    router.use(expressErrorHandler);
+
+    return router;
+}
@@ -0,0 +1,28 @@
+import TranslationService from '../TranslationService';
+
+/**
+ * An Express middleware that adds the language of the user (req.language) and
+ * the function t (req.t), which the adapters use to translate errors and
+ * other messages, to requests. The language is determined from the
+ * Accept-Language header. Values set by other middleware (e.g. by i18next)
+ * are kept, so you only need this middleware if you don't use a localization
+ * library yourself.
+ * Use it like this: server.use(H5P.adapters.expressTranslationMiddleware());
+ * @param translationService (optional) the service that translates the
+ * strings; uses the translations bundled with the library if undefined
+ */
+export default function(
+    translationService: TranslationService = new TranslationService()
+): (req: any, res: any, next: any) => void {
+    return (req, res, next) => {
+        if (req.language === undefined) {
+            req.language = translationService.negotiateLanguage(
+                req.get('Accept-Language')
+            );
+        }
+        if (req.t === undefined) {
+            req.t = translationService.getTranslationFunction(req.language);
+        }
+        next();
+    };
+}
@@ -0,0 +1,33 @@
+import { IDisplayOptions, Permission } from '../types';
+
+/**
+ * Computes the display options that are passed to the H5P client. The options
+ * set for the content override the defaults of the installation. If the
+ * permissions of the user are passed, the buttons for downloading, copying and
+ * embedding are hidden from users who aren't allowed to do this.
+ * @param defaults the display options of the installation
+ * @param overrides the display options set for the content
+ * @param permissions (optional) the permissions of the user on the content;
+ * if undefined, the permissions aren't considered
+ * @returns the display options
+ */
+export function computeDisplayOptions(
+    defaults: IDisplayOptions,
+    overrides: Partial<IDisplayOptions> = {},
+    permissions?: Permission[]
+): IDisplayOptions {
+    const displayOptions: IDisplayOptions = { ...defaults };
+    for (const key of Object.keys(displayOptions)) {
+        if (typeof overrides[key] === 'boolean') {
+            displayOptions[key] = overrides[key];
+        }
+    }
+    if (permissions) {
+        const canDownload = permissions.includes(Permission.Download);
+        displayOptions.copy = displayOptions.copy && canDownload;
+        displayOptions.export = displayOptions.export && canDownload;
+        displayOptions.embed =
+            displayOptions.embed && permissions.includes(Permission.Embed);
+    }
+    return displayOptions;
+}
@@ -0,0 +1,285 @@
+/**
+ * Port of the XSS filter used by the H5P PHP library (which itself is a port of
+ * Drupal's filter_xss). It removes all HTML tags that are not in the list of
+ * allowed tags and removes dangerous attributes (event handlers, unsafe
+ * protocols in URLs, disallowed styles) from the remaining tags.
+ */
+
+/**
+ * Protocols that are allowed in attributes of allowed tags (e.g. href or src).
+ */
+const allowedProtocols = ['http', 'https', 'ftp', 'mailto'];
+
+/**
+ * Tags that can have a style attribute (the styles are filtered with the
+ * allowed style patterns).
+ */
+const styleableTags = ['span', 'p', 'div', 'h1', 'h2', 'h3', 'td'];
+
+/**
+ * Escapes all characters that have a special meaning in HTML. Already escaped
+ * entities are not escaped twice (equivalent to htmlspecialchars(..., FALSE) in PHP).
+ * @param text the text to escape
+ * @returns the escaped text
+ */
+export function escapeHtml(text: string): string {
+    return text
+        .replace(
+            /&(?!(#[0-9]+|#[xX][0-9a-fA-F]+|[A-Za-z][A-Za-z0-9]*);)/g,
+            '&amp;'
+        )
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#039;');
+}
+
+/**
+ * Adds the tags that are implicitly allowed by the H5P client if certain other
+ * tags are allowed (e.g. table cells if tables are allowed).
+ * @param tags the tags allowed in the semantics
+ * @returns the complete list of tags that are allowed
+ */
+export function addImpliedTags(tags: string[]): string[] {
+    const allTags = [...tags];
+    if (allTags.includes('table')) {
+        allTags.push('tr', 'td', 'th', 'colgroup', 'thead', 'tbody', 'tfoot');
+    }
+    if (allTags.includes('b') && !allTags.includes('strong')) {
+        allTags.push('strong');
+    }
+    if (allTags.includes('i') && !allTags.includes('em')) {
+        allTags.push('em');
+    }
+    if (
+        (allTags.includes('ul') || allTags.includes('ol')) &&
+        !allTags.includes('li')
+    ) {
+        allTags.push('li');
+    }
+    if (
+        (allTags.includes('del') || allTags.includes('strike')) &&
+        !allTags.includes('s')
+    ) {
+        allTags.push('s');
+    }
+    return allTags;
+}
+
+/**
+ * Removes all HTML tags that are not allowed and all dangerous attributes
+ * from the text.
+ * @param text the HTML text to filter
+ * @param allowedTags the tags that are allowed in the text (e.g. ['p', 'strong'])
+ * @param allowedStyles regular expressions that a single CSS declaration inside
+ * a style attribute must match to be kept
+ * @returns the filtered text
+ */
+export function filterHtml(
+    text: string,
+    allowedTags: string[],
+    allowedStyles: RegExp[] = []
+): string {
+    if (text.length === 0) {
+        return text;
+    }
+    const allowed = allowedTags.map(t => t.toLowerCase());
+
+    const defused = text
+        // Remove NULL characters (ignored by some browsers)
+        .replace(/\0/g, '')
+        // Remove Netscape 4 JS entities
+        .replace(/&\s*\{[^}]*(\}\s*;?|$)/g, '')
+        // Defuse all HTML entities
+        .replace(/&/g, '&amp;')
+        // Change back only well-formed entities
+        .replace(/&amp;#([0-9]+;)/g, '&#$1')
+        .replace(/&amp;#[Xx]0*((?:[0-9A-Fa-f]{2})+;)/g, '&#x$1')
+        .replace(/&amp;([A-Za-z][A-Za-z0-9]*;)/g, '&$1');
+
+    return defused.replace(
+        /(<(?=[^a-zA-Z!\/])|<!--[\s\S]*?-->|<[^>]*(>|$)|>)/g,
+        match => filterTag(match, allowed, allowedStyles)
+    );
+}
+
+/**
+ * Decodes numeric and the most common named HTML entities. Used to make sure
+ * that protocols can't be hidden by encoding them (e.g. javascript&#58;) and
+ * to tell if filterHtml only normalized the entities of a text.
+ * @param value the text to decode
+ * @returns the decoded text
+ */
+export function decodeEntities(value: string): string {
+    const namedEntities = {
+        amp: '&',
+        apos: "'",
+        colon: ':',
+        gt: '>',
+        lt: '<',
+        quot: '"'
+    };
+    return value.replace(
+        /&(#[0-9]+|#[xX][0-9a-fA-F]+|[A-Za-z]+);?/g,
+        (entity, code: string) => {
+            if (code.startsWith('#x') || code.startsWith('#X')) {
+                return String.fromCharCode(parseInt(code.substr(2), 16));
+            }
+            if (code.startsWith('#')) {
+                return String.fromCharCode(parseInt(code.substr(1), 10));
+            }
+            return namedEntities[code.toLowerCase()] ?? entity;
+        }
+    );
+}
+
+/**
+ * Checks if a URL uses a protocol that is allowed and removes the protocol if not.
+ * @param value the URL to check (can contain HTML entities)
+ * @returns the (possibly modified) URL without HTML entities
+ */
+function filterBadProtocol(value: string): string {
+    let decoded = decodeEntities(value);
+    let previous: string;
+    // Iteratively remove any invalid protocol found (e.g. "javajavascript:script:")
+    do {
+        previous = decoded;
+        const colonPosition = decoded.indexOf(':');
+        if (colonPosition > 0) {
+            const protocol = decoded.substr(0, colonPosition);
+            // If a colon is preceded by a slash, question mark or hash, it cannot
+            // possibly be part of the URL scheme.
+            if (/[\/?#]/.test(protocol)) {
+                break;
+            }
+            if (
+                !allowedProtocols.includes(
+                    protocol.toLowerCase().replace(/\s/g, '')
+                )
+            ) {
+                decoded = decoded.substr(colonPosition + 1);
+            }
+        }
+    } while (previous !== decoded);
+    return decoded;
+}
+
+/**
+ * Parses the attributes of a tag and returns only those that are safe.
+ * @param attributes the raw attribute string (everything after the tag name)
+ * @param allowedStyles the patterns of allowed CSS declarations; undefined if
+ * style attributes are not allowed for the tag at all
+ * @returns a list of cleaned up attributes (e.g. ['href="http://h5p.org"'])
+ */
+function filterAttributes(
+    attributes: string,
+    allowedStyles?: RegExp[]
+): string[] {
+    const result: string[] = [];
+    const attributeRegExp = /([-a-zA-Z]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g;
+    let match: RegExpExecArray;
+    // tslint:disable-next-line: no-conditional-assignment
+    while ((match = attributeRegExp.exec(attributes)) !== null) {
+        const name = match[1].toLowerCase();
+        const hasValue =
+            match[2] !== undefined ||
+            match[3] !== undefined ||
+            match[4] !== undefined;
+        let value = match[2] ?? match[3] ?? match[4] ?? '';
+
+        // Event handlers are never allowed.
+        if (name.startsWith('on')) {
+            continue;
+        }
+
+        if (name === 'style') {
+            if (!allowedStyles) {
+                continue;
+            }
+            value = value
+                .split(';')
+                .map(declaration => declaration.trim())
+                .filter(
+                    declaration =>
+                        declaration !== '' &&
+                        allowedStyles.some(pattern => pattern.test(declaration))
+                )
+                .join('; ');
+            if (value === '') {
+                continue;
+            }
+        } else {
+            value = filterBadProtocol(value);
+        }
+
+        result.push(
+            hasValue || name === 'style'
+                ? `${name}="${value
+                      .replace(/&/g, '&amp;')
+                      .replace(/"/g, '&quot;')}"`
+                : name
+        );
+    }
+    return result;
+}
+
+/**
+ * Processes a single HTML tag (or lone < or > character) found in the text.
+ * @param tag the matched string
+ * @param allowedTags the tags that are allowed (lower case)
+ * @param allowedStyles the patterns of allowed CSS declarations
+ * @returns the cleaned up tag or '' if the tag is not allowed
+ */
+function filterTag(
+    tag: string,
+    allowedTags: string[],
+    allowedStyles: RegExp[]
+): string {
+    if (!tag.startsWith('<')) {
+        // We matched a lone ">" character.
+        return '&gt;';
+    }
+    if (tag.length === 1) {
+        // We matched a lone "<" character.
+        return '&lt;';
+    }
+
+    const matches = /^<\s*(\/\s*)?([a-zA-Z0-9\-]+)([^>]*)>?$|^(<!--[\s\S]*?-->)$/.exec(
+        tag
+    );
+    if (!matches) {
+        // Seriously malformed.
+        return '';
+    }
+    const slash = (matches[1] || '').trim();
+    const comment = matches[4];
+    const element = comment ? '!--' : matches[2];
+
+    if (!allowedTags.includes(element.toLowerCase())) {
+        return '';
+    }
+    if (comment) {
+        return comment;
+    }
+    if (slash !== '') {
+        return `</${element}>`;
+    }
+
+    // Is there a closing XHTML slash at the end of the attributes?
+    let attributes = matches[3];
+    const xhtmlSlash = /\s?\/\s*$/.test(attributes) ? ' /' : '';
+    attributes = attributes.replace(/(\s?)\/\s*$/, '$1');
+
+    const cleanedAttributes = filterAttributes(
+        attributes,
+        styleableTags.includes(element.toLowerCase())
+            ? allowedStyles
+            : undefined
+    )
+        .join(' ')
+        .replace(/[<>]/g, '');
+
+    return `<${element}${
+        cleanedAttributes.length ? ` ${cleanedAttributes}` : ''
+    }${xhtmlSlash}>`;
+}
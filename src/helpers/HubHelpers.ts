@@ -0,0 +1,48 @@
+import { ILibraryMetadata } from '../types';
+
+/**
+ * Converts the metadata of a library to an entry of the content type list of
+ * the H5P Hub. Used by HubServer and HubMirror to publish libraries as
+ * content types. Information the library metadata doesn't contain (e.g.
+ * categories or screenshots) is left empty.
+ * @param library the metadata of the main library of the content type
+ * @param updatedAt the date (ISO string) used as the time of creation and of
+ * the last update
+ * @param icon (optional) the URL of the icon of the content type
+ * @returns the entry in the format of the H5P Hub
+ */
+export function toHubContentType(
+    library: ILibraryMetadata,
+    updatedAt: string,
+    icon: string = ''
+): any {
+    return {
+        categories: [],
+        coreApiVersionNeeded: {
+            major: library.coreApi?.majorVersion ?? 1,
+            minor: library.coreApi?.minorVersion ?? 0
+        },
+        createdAt: updatedAt,
+        description: library.description ?? '',
+        example: '',
+        icon,
+        id: library.machineName,
+        isRecommended: false,
+        keywords: [],
+        license: library.license
+            ? { attributes: {}, id: library.license }
+            : undefined,
+        owner: library.author ?? '',
+        popularity: 0,
+        screenshots: [],
+        summary: library.description ?? '',
+        title: library.title,
+        tutorial: '',
+        updatedAt,
+        version: {
+            major: library.majorVersion,
+            minor: library.minorVersion,
+            patch: library.patchVersion
+        }
+    };
+}
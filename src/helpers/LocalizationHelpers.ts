@@ -0,0 +1,58 @@
+import de from '../../assets/translations/client/de.json';
+import en from '../../assets/translations/client/en.json';
+import fr from '../../assets/translations/client/fr.json';
+
+/**
+ * The translations of the strings of the H5P client (core) that are bundled
+ * with the library.
+ */
+const clientTranslations: { [language: string]: { [key: string]: string } } = {
+    de,
+    en,
+    fr
+};
+
+/**
+ * Returns the language codes that are tried when looking for a translation,
+ * from the most specific to the least specific one (e.g. ['de-ch', 'de'] for
+ * 'de-CH' or 'de_CH'). The codes are lower case, like the names of the
+ * language files of H5P libraries. Returns an empty list if the language is
+ * undefined, undetermined ('und') or not a valid language code.
+ * @param language the language code
+ * @returns the language codes to try
+ */
+export function getLanguageFallbacks(language: string): string[] {
+    const normalized = String(language ?? '')
+        .trim()
+        .toLowerCase()
+        .replace(/_/g, '-');
+    if (normalized === 'und' || !/^[a-z0-9]+(-[a-z0-9]+)*$/.test(normalized)) {
+        return [];
+    }
+    const fallbacks = [];
+    const parts = normalized.split('-');
+    for (let length = parts.length; length > 0; length -= 1) {
+        fallbacks.push(parts.slice(0, length).join('-'));
+    }
+    return fallbacks;
+}
+
+/**
+ * Returns the strings of the H5P client (H5PIntegration.l10n.H5P) in the
+ * language. Strings that aren't translated into the language are returned in
+ * English, so the result is always complete.
+ * @param language (optional) the language code (e.g. 'de' or 'fr-CA'); if
+ * undefined or unknown, the English strings are returned
+ * @returns the strings of the H5P client
+ */
+export function getClientTranslation(
+    language?: string
+): { [key: string]: string } {
+    const translated = getLanguageFallbacks(language).find(
+        fallback => clientTranslations[fallback] !== undefined
+    );
+    return {
+        ...clientTranslations.en,
+        ...(translated ? clientTranslations[translated] : {})
+    };
+}
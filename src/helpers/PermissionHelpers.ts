@@ -0,0 +1,32 @@
+import { GeneralPermission, IPermissionSystem, IUser } from '../types';
+
+/**
+ * Checks if the user has a general permission. Consults the permission system
+ * if there is one and falls back to the flags of the user object if there
+ * is none.
+ * @param permission the permission to check
+ * @param user the user to check
+ * @param permissionSystem (optional) the permission system
+ * @returns true if the user has the permission
+ */
+export async function hasGeneralPermission(
+    permission: GeneralPermission,
+    user: IUser,
+    permissionSystem?: IPermissionSystem
+): Promise<boolean> {
+    if (permissionSystem) {
+        return permissionSystem.hasGeneralPermission(permission, user);
+    }
+    switch (permission) {
+        case GeneralPermission.CreateContent:
+            return true;
+        case GeneralPermission.CreateRestricted:
+            return !!user?.canCreateRestricted;
+        case GeneralPermission.InstallRecommended:
+            return !!user?.canInstallRecommended;
+        case GeneralPermission.UpdateAndInstallLibraries:
+            return !!user?.canUpdateAndInstallLibraries;
+        default:
+            return false;
+    }
+}
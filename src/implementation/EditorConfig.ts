@@ -1,4 +1,4 @@
-import { IEditorConfig, IKeyValueStorage } from '../types';
+import { IDisplayOptions, IEditorConfig, IKeyValueStorage } from '../types';
 
 /**
  * Stores configuration options and literals that are used throughout the system.
@@ -20,10 +20,15 @@ export default class EditorConfig implements IEditorConfig {
         }
     }
 
+    public aggregateAssets: boolean = false;
     public ajaxUrl: string = '/ajax';
+    public assetsUrl: string = '/assets';
     public baseUrl: string = '/h5p';
     public contentFilesUrl: string = '/content';
     public contentTypeCacheRefreshInterval: number = 1 * 1000 * 60 * 60 * 24;
+    public contentUserDataUrl: string = '/content-user-data';
+    public contentUserStateSaveInterval: number | false = 30;
+    public contentValidationMode: 'strict' | 'lenient' = 'lenient';
     public contentWhitelist: string =
         'json png jpg jpeg gif bmp tif tiff svg eot ttf woff woff2 otf webm mp4 ogg mp3 m4a wav txt pdf rtf doc docx xls xlsx ppt pptx odt ods odp xml csv diff patch swf md textile vtt webvtt';
     public coreApiVersion: { major: number; minor: number } = {
@@ -31,31 +36,48 @@ export default class EditorConfig implements IEditorConfig {
         minor: 24
     };
     public coreUrl: string = '/core';
+    public displayOptions: IDisplayOptions = {
+        copy: false,
+        copyright: true,
+        embed: false,
+        export: true,
+        frame: true,
+        icon: true
+    };
     public downloadUrl: string = '/download';
     public editorLibraryUrl: string = '/editor';
+    public embedUrl: string = '/embed';
     public enableLrsContentTypes: boolean = true;
+    public enableXapiTracking: boolean = false;
     public fetchingDisabled: 0 | 1 = 0;
     public h5pVersion: string = '1.24.0';
     public hubContentTypesEndpoint: string =
         'https://api.h5p.org/v1/content-types/';
+    public hubMirrorPath: string = '';
     public hubRegistrationEndpoint: string = 'https://api.h5p.org/v1/sites';
     public librariesUrl: string = '/libraries';
     public libraryWhitelist: string = 'js css';
+    public lrsAuthorization: string = '';
     public lrsContentTypes: string[] = [
         'H5P.Questionnaire',
         'H5P.FreeTextQuestion'
     ];
+    public lrsEndpoint: string = '';
     public maxFileSize: number = 16 * 1024 * 1024;
     public maxTotalSize: number = 64 * 1024 * 1024;
     public paramsUrl: string = '/params';
     public platformName: string = 'H5P-Editor-NodeJs';
     public platformVersion: string = '0.10';
     public playUrl: string = '/play';
+    public resizerUrl: string = '/resizer.js';
+    public resultsUrl: string = '/results';
     public sendUsageStatistics: boolean = false;
     public siteType: 'local' | 'network' | 'internet' = 'local';
+    public siteUrl: string = '';
     public temporaryFileLifetime: number = 120 * 60 * 1000; // 120 minutes
     public temporaryFilesUrl: string = '/temp-files';
     public uuid: string = ''; // TODO: revert to''
+    public xapiUrl: string = '/xapi';
 
     private storage: IKeyValueStorage;
 
@@ -9,14 +9,33 @@ import {
     ContentId,
     H5pError,
     IContentMetadata,
+    IContentMetadataSummary,
     IContentStorage,
+    IDisplayOptions,
+    IFileStats,
     IUser,
     Permission
 } from '../../../src';
 import checkFilename from './filenameCheck';
 
+/**
+ * The information stored in the storage metadata file next to h5p.json.
+ */
+interface IStorageMetadata {
+    created: string;
+    displayOptions?: Partial<IDisplayOptions>;
+    mainLibrary: string;
+    modified: string;
+    owner: string;
+    title: string;
+}
+
 /**
  * Persists content to the disk.
+ *
+ * Besides h5p.json and content.json, a storage metadata file is written into
+ * the directory of each piece of content. It records who created the content
+ * and when it was created and last modified.
  */
 export default class FileContentStorage implements IContentStorage {
     /**
@@ -26,6 +45,12 @@ export default class FileContentStorage implements IContentStorage {
         fsExtra.ensureDirSync(contentPath);
     }
 
+    /**
+     * The name of the file in which ownership and timestamps are stored.
+     * (It is hidden so that it isn't listed as a content file.)
+     */
+    private static storageMetadataFilename: string = '.storage-metadata.json';
+
     /**
      * Returns a random integer
      * @param {number} min The minimum
@@ -38,6 +63,18 @@ export default class FileContentStorage implements IContentStorage {
         return Math.floor(Math.random() * (finalMax - finalMin + 1)) + finalMin;
     }
 
+    /**
+     * Checks if the filename refers to the storage metadata file, which must
+     * not be accessed as a content file (it contains the owner of the
+     * content).
+     */
+    private static isStorageMetadataFile(filename: string): boolean {
+        return (
+            path.normalize(filename) ===
+            FileContentStorage.storageMetadataFilename
+        );
+    }
+
     /**
      * Adds a content file to an existing content object. The content object has to be created with createContent(...) first.
      * @param {ContentId} id The id of the content to add the file to
@@ -53,6 +90,13 @@ export default class FileContentStorage implements IContentStorage {
         user: IUser
     ): Promise<void> {
         checkFilename(filename);
+        if (FileContentStorage.isStorageMetadataFile(filename)) {
+            throw new H5pError(
+                'storage-file-implementations:reserved-content-filename',
+                { filename },
+                400
+            );
+        }
         if (
             !(await fsExtra.pathExists(
                 path.join(this.contentPath, id.toString())
@@ -93,6 +137,9 @@ export default class FileContentStorage implements IContentStorage {
         filename: string
     ): Promise<boolean> {
         checkFilename(filename);
+        if (FileContentStorage.isStorageMetadataFile(filename)) {
+            return false;
+        }
         return fsExtra.pathExists(
             path.join(this.contentPath, contentId.toString(), filename)
         );
@@ -101,6 +148,8 @@ export default class FileContentStorage implements IContentStorage {
     /**
      * Creates a content object in the repository. Add files to it later with addContentFile(...).
      * Throws an error if something went wrong. In this case no traces of the content are left in storage and all changes are reverted.
+     * The user is recorded as the owner of new content. The owner of existing
+     * content is never changed.
      * @param {any} metadata The metadata of the content (= h5p.json)
      * @param {any} content the content object (= content/content.json)
      * @param {User} user The user who owns this object.
@@ -117,8 +166,24 @@ export default class FileContentStorage implements IContentStorage {
             // tslint:disable-next-line: no-parameter-reassignment
             id = await this.createContentId();
         }
+        const existingStorageMetadata = await this.readStorageMetadata(id);
+        const now = new Date().toISOString();
+        const storageMetadata: IStorageMetadata = {
+            created: existingStorageMetadata?.created ?? now,
+            displayOptions: existingStorageMetadata?.displayOptions,
+            mainLibrary: metadata.mainLibrary,
+            modified: now,
+            owner: existingStorageMetadata
+                ? existingStorageMetadata.owner
+                : user?.id,
+            title: metadata.title
+        };
         try {
             await fsExtra.ensureDir(path.join(this.contentPath, id.toString()));
+            await fsExtra.writeJSON(
+                this.getStorageMetadataPath(id),
+                storageMetadata
+            );
             await fsExtra.writeJSON(
                 path.join(this.contentPath, id.toString(), 'h5p.json'),
                 metadata
@@ -196,7 +261,10 @@ export default class FileContentStorage implements IContentStorage {
             contentId.toString(),
             filename
         );
-        if (!(await fsExtra.pathExists(absolutePath))) {
+        if (
+            FileContentStorage.isStorageMetadataFile(filename) ||
+            !(await fsExtra.pathExists(absolutePath))
+        ) {
             throw new H5pError(
                 'storage-file-implementations:delete-content-file-not-found',
                 { filename },
@@ -225,7 +293,11 @@ export default class FileContentStorage implements IContentStorage {
             {
                 ignore: [
                     path.join(contentDirectoryPath, 'content.json'),
-                    path.join(contentDirectoryPath, 'h5p.json')
+                    path.join(contentDirectoryPath, 'h5p.json'),
+                    path.join(
+                        contentDirectoryPath,
+                        FileContentStorage.storageMetadataFilename
+                    )
                 ],
                 nodir: true
             }
@@ -233,21 +305,98 @@ export default class FileContentStorage implements IContentStorage {
         return absolutePaths.map(p => path.relative(contentDirectoryPath, p));
     }
 
+    /**
+     * Returns information about a content file.
+     * @param id the id of the content object that the file is attached to
+     * @param filename the filename of the file
+     * @param user the user who wants to retrieve the content file
+     * @returns the size and modification time of the file
+     */
+    public async getContentFileStats(
+        id: ContentId,
+        filename: string,
+        user: IUser
+    ): Promise<IFileStats> {
+        checkFilename(filename);
+        const filePath = path.join(this.contentPath, id.toString(), filename);
+        if (
+            FileContentStorage.isStorageMetadataFile(filename) ||
+            !(await fsExtra.pathExists(filePath))
+        ) {
+            throw new H5pError(
+                'storage-file-implementations:content-file-not-found',
+                { contentId: id, filename },
+                404
+            );
+        }
+        const stats = await fsExtra.stat(filePath);
+        return { mtime: stats.mtime, size: stats.size };
+    }
+
     /**
      * Returns a readable stream of a content file (e.g. image or video) inside a piece of content
      * @param {ContentId} id the id of the content object that the file is attached to
      * @param {string} filename the filename of the file to get
      * @param {User} user the user who wants to retrieve the content file
+     * @param {number} rangeStart (optional) the position in bytes at which the stream should start
+     * @param {number} rangeEnd (optional) the position in bytes at which the stream should end (inclusive)
      * @returns {Stream}
      */
     public getContentFileStream(
         id: ContentId,
         filename: string,
-        user: IUser
+        user: IUser,
+        rangeStart?: number,
+        rangeEnd?: number
     ): ReadStream {
         checkFilename(filename);
+        if (FileContentStorage.isStorageMetadataFile(filename)) {
+            throw new H5pError(
+                'storage-file-implementations:content-file-not-found',
+                { contentId: id, filename },
+                404
+            );
+        }
         return fsExtra.createReadStream(
-            path.join(this.contentPath, id.toString(), filename)
+            path.join(this.contentPath, id.toString(), filename),
+            { end: rangeEnd, start: rangeStart }
+        );
+    }
+
+    /**
+     * Returns a summary of the content's metadata: title, main library, owner
+     * and timestamps. The information is taken from the storage metadata file
+     * and doesn't require loading h5p.json. For content that was created
+     * before the storage metadata file existed, h5p.json and the timestamps of
+     * the file system are used and the owner is undefined.
+     * @param contentId the content id
+     * @returns the summary
+     */
+    public async getContentMetadataSummary(
+        contentId: ContentId
+    ): Promise<IContentMetadataSummary> {
+        const storageMetadata = await this.loadStorageMetadata(contentId);
+        return {
+            contentId,
+            created: new Date(storageMetadata.created),
+            mainLibrary: storageMetadata.mainLibrary,
+            modified: new Date(storageMetadata.modified),
+            owner: storageMetadata.owner,
+            title: storageMetadata.title
+        };
+    }
+
+    /**
+     * Returns the display options that were set for the piece of content.
+     * They are stored in the storage metadata file.
+     * @param contentId the content id
+     * @returns the display options (empty if none were set)
+     */
+    public async getDisplayOptions(
+        contentId: ContentId
+    ): Promise<Partial<IDisplayOptions>> {
+        return (
+            (await this.readStorageMetadata(contentId))?.displayOptions ?? {}
         );
     }
 
@@ -287,9 +436,94 @@ export default class FileContentStorage implements IContentStorage {
                     ) {
                         return '';
                     }
+                    if (
+                        user &&
+                        (await this.readStorageMetadata(dir))?.owner !== user.id
+                    ) {
+                        return '';
+                    }
                     return dir;
                 })
             )
         ).filter(content => content !== '');
     }
+
+    /**
+     * Sets the display options of the piece of content. Throws an H5pError
+     * (404) if the content doesn't exist. The storage metadata file is created
+     * for content that was created before it existed (with an unknown owner).
+     * @param contentId the content id
+     * @param displayOptions the display options
+     */
+    public async setDisplayOptions(
+        contentId: ContentId,
+        displayOptions: Partial<IDisplayOptions>
+    ): Promise<void> {
+        await fsExtra.writeJSON(this.getStorageMetadataPath(contentId), {
+            ...(await this.loadStorageMetadata(contentId)),
+            displayOptions
+        });
+    }
+
+    private getStorageMetadataPath(contentId: ContentId): string {
+        return path.join(
+            this.contentPath,
+            contentId.toString(),
+            FileContentStorage.storageMetadataFilename
+        );
+    }
+
+    /**
+     * Returns the storage metadata of a piece of content. For content that
+     * was created before the storage metadata file existed, it is derived
+     * from h5p.json and the timestamps of the file system and the owner is
+     * undefined. Throws an H5pError (404) if the content doesn't exist.
+     * @param contentId the content id
+     * @returns the storage metadata
+     */
+    private async loadStorageMetadata(
+        contentId: ContentId
+    ): Promise<IStorageMetadata> {
+        const storageMetadata = await this.readStorageMetadata(contentId);
+        if (storageMetadata) {
+            return storageMetadata;
+        }
+
+        const h5pJsonPath = path.join(
+            this.contentPath,
+            contentId.toString(),
+            'h5p.json'
+        );
+        if (!(await fsExtra.pathExists(h5pJsonPath))) {
+            throw new H5pError(
+                'storage-file-implementations:content-not-found',
+                { contentId },
+                404
+            );
+        }
+        const metadata: IContentMetadata = await fsExtra.readJSON(h5pJsonPath);
+        const stats = await fsExtra.stat(h5pJsonPath);
+        return {
+            created: stats.birthtime.toISOString(),
+            mainLibrary: metadata.mainLibrary,
+            modified: stats.mtime.toISOString(),
+            owner: undefined,
+            title: metadata.title
+        };
+    }
+
+    /**
+     * Reads the storage metadata file of a piece of content.
+     * @param contentId the content id
+     * @returns the storage metadata or undefined if there is no such file
+     */
+    private async readStorageMetadata(
+        contentId: ContentId
+    ): Promise<IStorageMetadata> {
+        const storageMetadataPath = this.getStorageMetadataPath(contentId);
+        if (!(await fsExtra.pathExists(storageMetadataPath))) {
+            return undefined;
+        }
+        return fsExtra.readJSON(storageMetadataPath);
+    }
 }
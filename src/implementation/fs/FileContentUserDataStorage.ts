@@ -0,0 +1,132 @@
+import fsExtra from 'fs-extra';
+import globPromise from 'glob-promise';
+import path from 'path';
+
+import {
+    ContentId,
+    IContentUserData,
+    IContentUserDataStorage
+} from '../../../src';
+import checkFilename from './filenameCheck';
+
+/**
+ * Stores the user data of content in a directory:
+ * - <contentId>/<userId>/<subContentId>/<dataType>.json contains a single
+ *   piece of user data
+ */
+export default class FileContentUserDataStorage
+    implements IContentUserDataStorage {
+    /**
+     * @param directory the directory in which the user data is stored. Must
+     * be read- and write accessible
+     */
+    constructor(private directory: string) {
+        fsExtra.ensureDirSync(directory);
+    }
+
+    public async createOrUpdateContentUserData(
+        data: IContentUserData
+    ): Promise<void> {
+        const filePath = this.getFilePath(
+            data.contentId,
+            data.dataType,
+            data.subContentId,
+            data.userId
+        );
+        await fsExtra.ensureDir(path.dirname(filePath));
+        await fsExtra.writeJSON(filePath, data);
+    }
+
+    public async deleteAllContentUserDataByContentId(
+        contentId: ContentId
+    ): Promise<void> {
+        await fsExtra.remove(this.getContentDirectory(contentId));
+    }
+
+    public async deleteContentUserData(
+        contentId: ContentId,
+        dataType: string,
+        subContentId: string,
+        userId: string
+    ): Promise<void> {
+        await fsExtra.remove(
+            this.getFilePath(contentId, dataType, subContentId, userId)
+        );
+    }
+
+    public async deleteInvalidatedContentUserData(
+        contentId: ContentId
+    ): Promise<void> {
+        const contentDirectory = this.getContentDirectory(contentId);
+        if (!(await fsExtra.pathExists(contentDirectory))) {
+            return;
+        }
+        for (const file of await globPromise(
+            path.join(contentDirectory, '*/*/*.json')
+        )) {
+            const data: IContentUserData = await fsExtra.readJSON(file);
+            if (data.invalidate) {
+                await fsExtra.remove(file);
+            }
+        }
+    }
+
+    public async getContentUserData(
+        contentId: ContentId,
+        dataType: string,
+        subContentId: string,
+        userId: string
+    ): Promise<IContentUserData> {
+        const filePath = this.getFilePath(
+            contentId,
+            dataType,
+            subContentId,
+            userId
+        );
+        if (!(await fsExtra.pathExists(filePath))) {
+            return undefined;
+        }
+        return fsExtra.readJSON(filePath);
+    }
+
+    public async listContentUserDataByUser(
+        contentId: ContentId,
+        userId: string
+    ): Promise<IContentUserData[]> {
+        checkFilename(userId);
+        const userDirectory = path.join(
+            this.getContentDirectory(contentId),
+            userId
+        );
+        if (!(await fsExtra.pathExists(userDirectory))) {
+            return [];
+        }
+        return Promise.all(
+            (
+                await globPromise(path.join(userDirectory, '*/*.json'))
+            ).map(file => fsExtra.readJSON(file))
+        );
+    }
+
+    private getContentDirectory(contentId: ContentId): string {
+        checkFilename(contentId.toString());
+        return path.join(this.directory, contentId.toString());
+    }
+
+    private getFilePath(
+        contentId: ContentId,
+        dataType: string,
+        subContentId: string,
+        userId: string
+    ): string {
+        checkFilename(userId);
+        checkFilename(subContentId);
+        checkFilename(dataType);
+        return path.join(
+            this.getContentDirectory(contentId),
+            userId,
+            subContentId,
+            `${dataType}.json`
+        );
+    }
+}
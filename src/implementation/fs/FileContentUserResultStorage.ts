@@ -0,0 +1,76 @@
+import fsExtra from 'fs-extra';
+import path from 'path';
+
+import {
+    ContentId,
+    IContentUserResult,
+    IContentUserResultStorage
+} from '../../../src';
+import checkFilename from './filenameCheck';
+
+/**
+ * Stores the results of users in a directory:
+ * - <contentId>/<userId>.json contains the latest result of a user in a piece
+ *   of content
+ */
+export default class FileContentUserResultStorage
+    implements IContentUserResultStorage {
+    /**
+     * @param directory the directory in which the results are stored. Must
+     * be read- and write accessible
+     */
+    constructor(private directory: string) {
+        fsExtra.ensureDirSync(directory);
+    }
+
+    public async getResultsByContent(
+        contentId: ContentId
+    ): Promise<IContentUserResult[]> {
+        checkFilename(contentId.toString());
+        const contentDirectory = path.join(
+            this.directory,
+            contentId.toString()
+        );
+        if (!(await fsExtra.pathExists(contentDirectory))) {
+            return [];
+        }
+        const results: IContentUserResult[] = [];
+        for (const file of await fsExtra.readdir(contentDirectory)) {
+            if (path.extname(file) === '.json') {
+                results.push(
+                    await fsExtra.readJSON(path.join(contentDirectory, file))
+                );
+            }
+        }
+        return results;
+    }
+
+    public async getResultsByUser(
+        userId: string
+    ): Promise<IContentUserResult[]> {
+        const results: IContentUserResult[] = [];
+        for (const contentDirectory of await fsExtra.readdir(this.directory)) {
+            const filePath = this.getFilePath(contentDirectory, userId);
+            if (await fsExtra.pathExists(filePath)) {
+                results.push(await fsExtra.readJSON(filePath));
+            }
+        }
+        return results;
+    }
+
+    public async saveResult(result: IContentUserResult): Promise<void> {
+        const filePath = this.getFilePath(result.contentId, result.userId);
+        await fsExtra.ensureDir(path.dirname(filePath));
+        await fsExtra.writeJSON(filePath, result);
+    }
+
+    private getFilePath(contentId: ContentId, userId: string): string {
+        checkFilename(contentId.toString());
+        checkFilename(userId);
+        return path.join(
+            this.directory,
+            contentId.toString(),
+            `${userId}.json`
+        );
+    }
+}
@@ -6,6 +6,7 @@ import { Stream } from 'stream';
 
 import {
     H5pError,
+    IFileStats,
     IInstalledLibrary,
     ILibraryMetadata,
     ILibraryName,
@@ -27,6 +28,13 @@ export default class FileLibraryStorage implements ILibraryStorage {
         fsExtra.ensureDirSync(librariesDirectory);
     }
 
+    /**
+     * The file (in the libraries directory) that contains the list of
+     * restricted libraries.
+     */
+    // tslint:disable-next-line: typedef
+    private static restrictedLibrariesFilename = '.restricted-libraries.json';
+
     /**
      * Files with this pattern are not returned when listing the directory contents. Can be used by classes
      * extending FileLibraryStorage to hide internals.
@@ -106,32 +114,42 @@ export default class FileLibraryStorage implements ILibraryStorage {
         return fsExtra.pathExists(this.getFilePath(library, filename));
     }
 
+    /**
+     * Returns information about a library file (size, modification time).
+     * Throws an exception if the file does not exist.
+     * @param {ILibraryName} library library
+     * @param {string} filename the relative path inside the library
+     * @returns {Promise<IFileStats>} the information about the file
+     */
+    public async getFileStats(
+        library: ILibraryName,
+        filename: string
+    ): Promise<IFileStats> {
+        await this.checkFileExists(library, filename);
+        const stats = await fsExtra.stat(this.getFilePath(library, filename));
+        return { mtime: stats.mtime, size: stats.size };
+    }
+
     /**
      * Returns a readable stream of a library file's contents.
      * Throws an exception if the file does not exist.
      * @param {ILibraryName} library library
      * @param {string} filename the relative path inside the library
+     * @param {number} rangeStart (optional) the position in bytes at which the stream should start
+     * @param {number} rangeEnd (optional) the position in bytes at which the stream should end (inclusive)
      * @returns {Promise<Stream>} a readable stream of the file's contents
      */
     public async getFileStream(
         library: ILibraryName,
-        filename: string
+        filename: string,
+        rangeStart?: number,
+        rangeEnd?: number
     ): Promise<ReadStream> {
-        if (
-            !(await this.fileExists(library, filename)) ||
-            this.isIgnored(filename)
-        ) {
-            throw new H5pError(
-                'library-file-missing',
-                {
-                    filename,
-                    library: LibraryName.toUberName(library)
-                },
-                404
-            );
-        }
-
-        return fsExtra.createReadStream(this.getFilePath(library, filename));
+        await this.checkFileExists(library, filename);
+        return fsExtra.createReadStream(this.getFilePath(library, filename), {
+            end: rangeEnd,
+            start: rangeStart
+        });
     }
 
     /**
@@ -207,6 +225,7 @@ export default class FileLibraryStorage implements ILibraryStorage {
                 this.getFilePath(library, 'library.json'),
                 libraryMetadata
             );
+            await this.setRestricted(library, restricted);
             return library;
         } catch (error) {
             await fsExtra.remove(libPath);
@@ -214,6 +233,17 @@ export default class FileLibraryStorage implements ILibraryStorage {
         }
     }
 
+    /**
+     * Checks if the library is restricted.
+     * @param library the library to check
+     * @returns true if the library is restricted
+     */
+    public async isRestricted(library: ILibraryName): Promise<boolean> {
+        return (await this.readRestrictedLibraries()).includes(
+            LibraryName.toUberName(library)
+        );
+    }
+
     /**
      * Checks if the library has been installed.
      * @param name the library name
@@ -251,6 +281,37 @@ export default class FileLibraryStorage implements ILibraryStorage {
             );
         }
         await fsExtra.remove(libPath);
+        await this.writeRestrictedLibraries(
+            (await this.readRestrictedLibraries()).filter(
+                uberName => uberName !== LibraryName.toUberName(library)
+            )
+        );
+    }
+
+    /**
+     * Sets or removes the restricted flag of an installed library.
+     * @param library the library to change
+     * @param restricted true if the library should be restricted
+     */
+    public async setRestricted(
+        library: ILibraryName,
+        restricted: boolean
+    ): Promise<void> {
+        if (!(await this.libraryExists(library))) {
+            throw new H5pError(
+                'storage-file-implementations:set-restricted-library-missing',
+                { libraryName: LibraryName.toUberName(library) },
+                404
+            );
+        }
+        const uberName = LibraryName.toUberName(library);
+        const restrictedLibraries = (
+            await this.readRestrictedLibraries()
+        ).filter(name => name !== uberName);
+        if (restricted) {
+            restrictedLibraries.push(uberName);
+        }
+        await this.writeRestrictedLibraries(restrictedLibraries);
     }
 
     /**
@@ -306,6 +367,29 @@ export default class FileLibraryStorage implements ILibraryStorage {
         );
     }
 
+    /**
+     * Throws an H5pError (404) if the library file doesn't exist or is
+     * ignored.
+     */
+    private async checkFileExists(
+        library: ILibraryName,
+        filename: string
+    ): Promise<void> {
+        if (
+            !(await this.fileExists(library, filename)) ||
+            this.isIgnored(filename)
+        ) {
+            throw new H5pError(
+                'library-file-missing',
+                {
+                    filename,
+                    library: LibraryName.toUberName(library)
+                },
+                404
+            );
+        }
+    }
+
     /**
      * Checks if a filename is in the ignore list.
      * @param filename the filename to check
@@ -313,4 +397,29 @@ export default class FileLibraryStorage implements ILibraryStorage {
     private isIgnored(filename: string): boolean {
         return this.ignoredFilePatterns.some(pattern => pattern.test(filename));
     }
+
+    private async readRestrictedLibraries(): Promise<string[]> {
+        const filePath = path.join(
+            this.librariesDirectory,
+            FileLibraryStorage.restrictedLibrariesFilename
+        );
+        if (!(await fsExtra.pathExists(filePath))) {
+            return [];
+        }
+        return fsExtra.readJSON(filePath);
+    }
+
+    private async writeRestrictedLibraries(
+        restrictedLibraries: string[]
+    ): Promise<void> {
+        const filePath = path.join(
+            this.librariesDirectory,
+            FileLibraryStorage.restrictedLibrariesFilename
+        );
+        if (restrictedLibraries.length === 0) {
+            await fsExtra.remove(filePath);
+            return;
+        }
+        await fsExtra.writeJSON(filePath, restrictedLibraries.sort());
+    }
 }
@@ -0,0 +1,267 @@
+import * as fsExtra from 'fs-extra';
+
+import {
+    ContentId,
+    GeneralPermission,
+    IPermissionSystem,
+    IUser,
+    Permission
+} from '../../../src';
+
+/**
+ * A role grants permissions to all users who have the role.
+ */
+export interface IRole {
+    /**
+     * The permissions users with this role have on **all** pieces of content.
+     */
+    content: Permission[];
+    /**
+     * The general permissions users with this role have.
+     */
+    general: GeneralPermission[];
+}
+
+/**
+ * The structure of the JSON file the permission information is stored in.
+ */
+interface IPermissionData {
+    /**
+     * Per-content information: the owner and an access control list that
+     * grants permissions to individual users. (The permissions are stored by
+     * their names to keep the file readable.)
+     */
+    content: {
+        [contentId: string]: {
+            acl: { [userId: string]: string[] };
+            owner: string;
+        };
+    };
+    /**
+     * The roles defined in the system. (The permissions are stored by their
+     * names to keep the file readable.)
+     */
+    roles: { [role: string]: { content: string[]; general: string[] } };
+    /**
+     * The roles assigned to users.
+     */
+    userRoles: { [userId: string]: string[] };
+}
+
+/**
+ * Stores permission information in a JSON file. Supports
+ * - owners: users who create content have all permissions on it
+ * - roles: roles grant general permissions and permissions on all content to
+ *   the users who have the role
+ * - access control lists: grant permissions on individual pieces of content
+ *   to individual users
+ *
+ * It is meant as a sample implementation and shouldn't be used in
+ * deployments with many users as the whole file is rewritten on every change.
+ */
+export default class FilePermissionSystem implements IPermissionSystem {
+    /**
+     * @param file the path of the JSON file (will be created if it doesn't exist)
+     * @param defaultRoles the roles of users who have no roles assigned and of
+     * anonymous users
+     */
+    constructor(private file: string, private defaultRoles: string[] = []) {}
+
+    private data: IPermissionData;
+    private loadPromise: Promise<IPermissionData>;
+    private saveQueue: Promise<void> = Promise.resolve();
+
+    /**
+     * Converts a list of permission names (as stored in the file) into enum
+     * values. Unknown names and duplicates are dropped.
+     */
+    private static namesToPermissions(names: string[]): Permission[] {
+        const permissions: Permission[] = [];
+        for (const name of names) {
+            const permission: Permission = Permission[name];
+            if (permission !== undefined && !permissions.includes(permission)) {
+                permissions.push(permission);
+            }
+        }
+        return permissions.sort((a, b) => a - b);
+    }
+
+    public async deleteContentPermissions(contentId: ContentId): Promise<void> {
+        const data = await this.load();
+        delete data.content[contentId];
+        await this.save();
+    }
+
+    public async getContentPermissions(
+        contentId: ContentId,
+        user: IUser
+    ): Promise<Permission[]> {
+        const data = await this.load();
+        const contentData = data.content[contentId];
+        if (user && contentData?.owner === user.id) {
+            return [
+                Permission.Delete,
+                Permission.Download,
+                Permission.Edit,
+                Permission.Embed,
+                Permission.View
+            ];
+        }
+        const permissionNames: string[] = [];
+        for (const role of this.getRolesOfUser(user)) {
+            permissionNames.push(...(data.roles[role]?.content ?? []));
+        }
+        if (user && contentData?.acl[user.id]) {
+            permissionNames.push(...contentData.acl[user.id]);
+        }
+        return FilePermissionSystem.namesToPermissions(permissionNames);
+    }
+
+    /**
+     * Returns the roles assigned to the user.
+     * @param userId the id of the user
+     * @returns the roles (empty if the user has no roles assigned)
+     */
+    public async getUserRoles(userId: string): Promise<string[]> {
+        return (await this.load()).userRoles[userId] ?? [];
+    }
+
+    /**
+     * Grants permissions on a piece of content to a user. Existing permissions
+     * are kept.
+     * @param contentId the content
+     * @param userId the id of the user who gets the permissions
+     * @param permissions the permissions to grant
+     */
+    public async grantContentPermissions(
+        contentId: ContentId,
+        userId: string,
+        permissions: Permission[]
+    ): Promise<void> {
+        const data = await this.load();
+        const contentData = this.getOrCreateContentData(contentId);
+        const existing = contentData.acl[userId] ?? [];
+        contentData.acl[userId] = existing.concat(
+            permissions
+                .map(p => Permission[p])
+                .filter(name => !existing.includes(name))
+        );
+        data.content[contentId] = contentData;
+        await this.save();
+    }
+
+    public async hasGeneralPermission(
+        permission: GeneralPermission,
+        user: IUser
+    ): Promise<boolean> {
+        const data = await this.load();
+        return this.getRolesOfUser(user).some(role =>
+            (data.roles[role]?.general ?? []).includes(
+                GeneralPermission[permission]
+            )
+        );
+    }
+
+    /**
+     * Removes all permissions a user was granted on a piece of content through
+     * the access control list. (Doesn't change ownership or roles.)
+     * @param contentId the content
+     * @param userId the id of the user
+     */
+    public async revokeContentPermissions(
+        contentId: ContentId,
+        userId: string
+    ): Promise<void> {
+        const data = await this.load();
+        if (data.content[contentId]) {
+            delete data.content[contentId].acl[userId];
+            await this.save();
+        }
+    }
+
+    public async setContentOwner(
+        contentId: ContentId,
+        user: IUser
+    ): Promise<void> {
+        const data = await this.load();
+        const contentData = this.getOrCreateContentData(contentId);
+        contentData.owner = user?.id;
+        data.content[contentId] = contentData;
+        await this.save();
+    }
+
+    /**
+     * Creates or replaces a role.
+     * @param role the name of the role
+     * @param permissions the permissions users with this role have
+     */
+    public async setRole(role: string, permissions: IRole): Promise<void> {
+        const data = await this.load();
+        data.roles[role] = {
+            content: permissions.content.map(p => Permission[p]),
+            general: permissions.general.map(p => GeneralPermission[p])
+        };
+        await this.save();
+    }
+
+    /**
+     * Assigns roles to a user. Replaces the roles the user had before.
+     * @param userId the id of the user
+     * @param roles the names of the roles
+     */
+    public async setUserRoles(userId: string, roles: string[]): Promise<void> {
+        const data = await this.load();
+        data.userRoles[userId] = roles;
+        await this.save();
+    }
+
+    private getOrCreateContentData(
+        contentId: ContentId
+    ): { acl: { [userId: string]: string[] }; owner: string } {
+        return this.data.content[contentId] ?? { acl: {}, owner: undefined };
+    }
+
+    private getRolesOfUser(user: IUser): string[] {
+        if (!user || !this.data.userRoles[user.id]) {
+            return this.defaultRoles;
+        }
+        return this.data.userRoles[user.id];
+    }
+
+    /**
+     * Loads the data from the file (only once). Concurrent calls share the
+     * same promise, so that all of them work on the same data. If reading the
+     * file fails, it is read again the next time.
+     */
+    private load(): Promise<IPermissionData> {
+        if (!this.loadPromise) {
+            const promise = this.readFile().catch(error => {
+                if (this.loadPromise === promise) {
+                    this.loadPromise = undefined;
+                }
+                throw error;
+            });
+            this.loadPromise = promise;
+        }
+        return this.loadPromise;
+    }
+
+    private async readFile(): Promise<IPermissionData> {
+        this.data = (await fsExtra.pathExists(this.file))
+            ? await fsExtra.readJSON(this.file)
+            : { content: {}, roles: {}, userRoles: {} };
+        return this.data;
+    }
+
+    /**
+     * Writes the data to the file. The writes are queued, so that they don't
+     * interleave; every write contains all changes made before it starts.
+     */
+    private save(): Promise<void> {
+        const write = this.saveQueue.then(() =>
+            fsExtra.writeJSON(this.file, this.data)
+        );
+        this.saveQueue = write.catch(() => undefined);
+        return write;
+    }
+}
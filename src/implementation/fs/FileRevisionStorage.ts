@@ -0,0 +1,140 @@
+import crypto from 'crypto';
+import { ReadStream } from 'fs';
+import fsExtra from 'fs-extra';
+import path from 'path';
+import promisepipe from 'promisepipe';
+import { Stream } from 'stream';
+
+import {
+    ContentId,
+    H5pError,
+    IContentRevision,
+    IRevisionStorage
+} from '../../../src';
+import checkFilename from './filenameCheck';
+
+/**
+ * Stores revisions of content in a directory:
+ * - revisions/<contentId>/<revisionId>.json contains a single revision
+ * - files/<hash> contains the data of a file used in one or more revisions
+ */
+export default class FileRevisionStorage implements IRevisionStorage {
+    /**
+     * @param directory the directory in which the revisions are stored. Must
+     * be read- and write accessible
+     */
+    constructor(private directory: string) {
+        fsExtra.ensureDirSync(path.join(directory, 'revisions'));
+        fsExtra.ensureDirSync(path.join(directory, 'files'));
+    }
+
+    public async addFile(hash: string, readStream: Stream): Promise<void> {
+        const writeStream = fsExtra.createWriteStream(this.getFilePath(hash));
+        await promisepipe(readStream, writeStream);
+    }
+
+    /**
+     * Writes the revision to a temporary file first and then links it to the
+     * path of the next free revision number. Linking fails if the path exists
+     * already, so concurrent calls (even of other processes) can't get the
+     * same number; the call that loses tries the next one.
+     */
+    public async addRevision(
+        revision: Omit<IContentRevision, 'revisionId'>
+    ): Promise<number> {
+        const revisionIds = await this.listRevisions(revision.contentId);
+        let revisionId =
+            revisionIds.length > 0
+                ? revisionIds[revisionIds.length - 1] + 1
+                : 1;
+        const directory = path.dirname(
+            this.getRevisionPath(revision.contentId, revisionId)
+        );
+        await fsExtra.ensureDir(directory);
+        const tempPath = path.join(
+            directory,
+            `.${crypto.randomBytes(16).toString('hex')}.tmp`
+        );
+        try {
+            let linked = false;
+            while (!linked) {
+                await fsExtra.writeJSON(tempPath, { ...revision, revisionId });
+                try {
+                    await fsExtra.link(
+                        tempPath,
+                        this.getRevisionPath(revision.contentId, revisionId)
+                    );
+                    linked = true;
+                } catch (error) {
+                    if (error.code !== 'EEXIST') {
+                        throw error;
+                    }
+                    revisionId += 1;
+                }
+            }
+        } finally {
+            await fsExtra.remove(tempPath);
+        }
+        return revisionId;
+    }
+
+    public async fileExists(hash: string): Promise<boolean> {
+        return fsExtra.pathExists(this.getFilePath(hash));
+    }
+
+    public async getFileStream(hash: string): Promise<ReadStream> {
+        const filePath = this.getFilePath(hash);
+        if (!(await fsExtra.pathExists(filePath))) {
+            throw new H5pError(
+                'storage-file-implementations:revision-file-not-found',
+                { hash },
+                404
+            );
+        }
+        return fsExtra.createReadStream(filePath);
+    }
+
+    public async getRevision(
+        contentId: ContentId,
+        revisionId: number
+    ): Promise<IContentRevision> {
+        const revisionPath = this.getRevisionPath(contentId, revisionId);
+        if (!(await fsExtra.pathExists(revisionPath))) {
+            return undefined;
+        }
+        const revision = await fsExtra.readJSON(revisionPath);
+        revision.createdAt = new Date(revision.createdAt);
+        return revision;
+    }
+
+    public async listRevisions(contentId: ContentId): Promise<number[]> {
+        checkFilename(contentId.toString());
+        const contentDirectory = path.join(
+            this.directory,
+            'revisions',
+            contentId.toString()
+        );
+        if (!(await fsExtra.pathExists(contentDirectory))) {
+            return [];
+        }
+        return (await fsExtra.readdir(contentDirectory))
+            .filter(file => /^\d+\.json$/.test(file))
+            .map(file => Number.parseInt(path.basename(file, '.json'), 10))
+            .sort((a, b) => a - b);
+    }
+
+    private getFilePath(hash: string): string {
+        checkFilename(hash);
+        return path.join(this.directory, 'files', hash);
+    }
+
+    private getRevisionPath(contentId: ContentId, revisionId: number): string {
+        checkFilename(contentId.toString());
+        return path.join(
+            this.directory,
+            'revisions',
+            contentId.toString(),
+            `${revisionId}.json`
+        );
+    }
+}
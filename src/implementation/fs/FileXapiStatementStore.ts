@@ -0,0 +1,84 @@
+import fsExtra from 'fs-extra';
+import path from 'path';
+
+import {
+    ContentId,
+    IXapiStatementRecord,
+    IXapiStatementStore
+} from '../../../src';
+import checkFilename from './filenameCheck';
+
+/**
+ * Stores xAPI statements in a directory:
+ * - <contentId>/<userId>.jsonl contains the statements a user emitted in a
+ *   piece of content (one JSON object per line)
+ * Statements are only appended, so existing statements are never rewritten.
+ */
+export default class FileXapiStatementStore implements IXapiStatementStore {
+    /**
+     * @param directory the directory in which the statements are stored. Must
+     * be read- and write accessible
+     */
+    constructor(private directory: string) {
+        fsExtra.ensureDirSync(directory);
+    }
+
+    public async addStatements(records: IXapiStatementRecord[]): Promise<void> {
+        for (const record of records) {
+            const filePath = this.getFilePath(record.contentId, record.userId);
+            await fsExtra.ensureDir(path.dirname(filePath));
+            await fsExtra.appendFile(filePath, `${JSON.stringify(record)}\n`);
+        }
+    }
+
+    public async getStatements(
+        contentId: ContentId,
+        userId?: string
+    ): Promise<IXapiStatementRecord[]> {
+        checkFilename(contentId.toString());
+        const contentDirectory = path.join(
+            this.directory,
+            contentId.toString()
+        );
+        if (!(await fsExtra.pathExists(contentDirectory))) {
+            return [];
+        }
+        const files =
+            userId !== undefined
+                ? [path.basename(this.getFilePath(contentId, userId))]
+                : (await fsExtra.readdir(contentDirectory)).filter(
+                      file => path.extname(file) === '.jsonl'
+                  );
+
+        const records: IXapiStatementRecord[] = [];
+        for (const file of files) {
+            const filePath = path.join(contentDirectory, file);
+            if (!(await fsExtra.pathExists(filePath))) {
+                continue;
+            }
+            records.push(
+                ...(await fsExtra.readFile(filePath, 'utf8'))
+                    .split('\n')
+                    .filter(line => line.trim() !== '')
+                    .map(line => {
+                        const record = JSON.parse(line);
+                        record.storedAt = new Date(record.storedAt);
+                        return record;
+                    })
+            );
+        }
+        return records.sort(
+            (a, b) => a.storedAt.getTime() - b.storedAt.getTime()
+        );
+    }
+
+    private getFilePath(contentId: ContentId, userId: string): string {
+        checkFilename(contentId.toString());
+        checkFilename(userId);
+        return path.join(
+            this.directory,
+            contentId.toString(),
+            `${userId}.jsonl`
+        );
+    }
+}
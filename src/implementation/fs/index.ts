@@ -1,22 +1,55 @@
 import * as H5P from '../../';
-import { IContentStorage } from '../../types';
+import { IContentStorage, IPermissionSystem } from '../../types';
 import InMemoryStorage from '../InMemoryStorage';
 import DirectoryTemporaryFileStorage from './DirectoryTemporaryFileStorage';
 import FileContentStorage from './FileContentStorage';
+import FileContentUserDataStorage from './FileContentUserDataStorage';
+import FileContentUserResultStorage from './FileContentUserResultStorage';
 import FileLibraryStorage from './FileLibraryStorage';
+import FileRevisionStorage from './FileRevisionStorage';
+import FileXapiStatementStore from './FileXapiStatementStore';
 
 export default function h5pfs(
     editorConfig: H5P.IEditorConfig,
     librariesPath: string,
     temporaryStoragePath: string,
     contentPath: string,
-    contentStorage?: IContentStorage
+    contentStorage?: IContentStorage,
+    options: {
+        contentUserDataPath?: string;
+        permissionSystem?: IPermissionSystem;
+        resultsPath?: string;
+        revisionsPath?: string;
+        xapiStatementsPath?: string;
+    } = {}
 ): H5P.H5PEditor {
+    const {
+        contentUserDataPath,
+        permissionSystem,
+        resultsPath,
+        revisionsPath,
+        xapiStatementsPath
+    } = options;
     return new H5P.H5PEditor(
         new InMemoryStorage(),
         editorConfig,
         new FileLibraryStorage(librariesPath),
         contentStorage || new FileContentStorage(contentPath),
-        new DirectoryTemporaryFileStorage(temporaryStoragePath)
+        new DirectoryTemporaryFileStorage(temporaryStoragePath),
+        {
+            contentUserDataStorage: contentUserDataPath
+                ? new FileContentUserDataStorage(contentUserDataPath)
+                : undefined,
+            contentUserResultStorage: resultsPath
+                ? new FileContentUserResultStorage(resultsPath)
+                : undefined,
+            permissionSystem,
+            revisionStorage: revisionsPath
+                ? new FileRevisionStorage(revisionsPath)
+                : undefined,
+            xapiStatementStore: xapiStatementsPath
+                ? new FileXapiStatementStore(xapiStatementsPath)
+                : undefined
+        }
     );
 }
@@ -0,0 +1,82 @@
+import crypto from 'crypto';
+import { Readable, Stream } from 'stream';
+
+import { H5pError, IFileStats, IObjectStore } from '../../../src';
+import { streamToBuffer } from './objectStoreHelpers';
+
+/**
+ * Keeps objects in memory. This is a stand-in for real object stores (like
+ * MongoDB GridFS or S3) and is meant for tests and development. All data is
+ * lost when the process ends.
+ */
+export default class InMemoryObjectStore implements IObjectStore {
+    private modified: { [key: string]: Date } = {};
+    private objects: { [key: string]: Buffer } = {};
+
+    public async deleteObject(key: string): Promise<void> {
+        delete this.objects[key];
+        delete this.modified[key];
+    }
+
+    public async getObjectStats(key: string): Promise<IFileStats> {
+        const data = this.getObject(key);
+        return {
+            etag: `"${crypto
+                .createHash('md5')
+                .update(data)
+                .digest('hex')}"`,
+            mtime: this.modified[key],
+            size: data.length
+        };
+    }
+
+    public async getObjectStream(
+        key: string,
+        rangeStart?: number,
+        rangeEnd?: number
+    ): Promise<Readable> {
+        const data = this.getObject(key);
+        const stream = new Readable();
+        stream._read = () => {
+            return;
+        };
+        stream.push(
+            data.slice(
+                rangeStart ?? 0,
+                rangeEnd === undefined ? data.length : rangeEnd + 1
+            )
+        );
+        stream.push(null);
+        return stream;
+    }
+
+    public async listObjects(prefix: string): Promise<string[]> {
+        return Object.keys(this.objects)
+            .filter(key => key.startsWith(prefix))
+            .sort();
+    }
+
+    public async objectExists(key: string): Promise<boolean> {
+        return this.objects[key] !== undefined;
+    }
+
+    public async putObject(key: string, readStream: Stream): Promise<void> {
+        this.objects[key] = await streamToBuffer(readStream);
+        this.modified[key] = new Date();
+    }
+
+    /**
+     * Returns the data of an object. Throws an H5pError (404) if the object
+     * doesn't exist.
+     */
+    private getObject(key: string): Buffer {
+        if (this.objects[key] === undefined) {
+            throw new H5pError(
+                'storage-file-implementations:object-not-found',
+                { key },
+                404
+            );
+        }
+        return this.objects[key];
+    }
+}
@@ -0,0 +1,509 @@
+import { ReadStream } from 'fs';
+import path from 'path';
+import { PassThrough, Stream } from 'stream';
+
+import {
+    ContentId,
+    H5pError,
+    IContentMetadata,
+    IContentMetadataSummary,
+    IContentStorage,
+    IDisplayOptions,
+    IFileStats,
+    IObjectStore,
+    IUser,
+    Permission
+} from '../../../src';
+import checkFilename from '../fs/filenameCheck';
+import {
+    readJsonObject,
+    toReadStream,
+    writeJsonObject
+} from './objectStoreHelpers';
+
+/**
+ * The information stored in the storage metadata object next to h5p.json.
+ */
+interface IStorageMetadata {
+    created: string;
+    displayOptions?: Partial<IDisplayOptions>;
+    mainLibrary: string;
+    modified: string;
+    owner: string;
+    title: string;
+}
+
+/**
+ * Persists content in an object store. Every piece of content is stored
+ * under the key prefix '<prefix>/<contentId>/'. Like FileContentStorage, it
+ * records the owner and the creation and modification times of the content
+ * in a storage metadata object next to h5p.json.
+ */
+export default class ObjectStoreContentStorage implements IContentStorage {
+    /**
+     * @param objectStore the object store in which the content is stored
+     * @param prefix (optional) the key prefix of all content objects; use it if
+     * several storages share the same object store
+     */
+    constructor(
+        private objectStore: IObjectStore,
+        private prefix: string = 'content'
+    ) {}
+
+    private static storageMetadataFilename: string = '.storage-metadata.json';
+
+    /**
+     * Returns a random integer
+     * @param min The minimum
+     * @param max The maximum
+     * @returns a random integer
+     */
+    private static getRandomInt(min: number, max: number): number {
+        const finalMin = Math.ceil(min);
+        const finalMax = Math.floor(max);
+        return Math.floor(Math.random() * (finalMax - finalMin + 1)) + finalMin;
+    }
+
+    /**
+     * Checks if the filename refers to the storage metadata file, which must
+     * not be accessed as a content file (it contains the owner of the
+     * content).
+     */
+    private static isStorageMetadataFile(filename: string): boolean {
+        return (
+            path.posix.normalize(filename) ===
+            ObjectStoreContentStorage.storageMetadataFilename
+        );
+    }
+
+    /**
+     * Adds a content file to an existing content object. The content object has to be created with createContent(...) first.
+     * @param id The id of the content to add the file to
+     * @param filename The filename
+     * @param stream A readable stream that contains the data
+     * @param user The user who owns this object
+     */
+    public async addContentFile(
+        id: ContentId,
+        filename: string,
+        stream: Stream,
+        user: IUser
+    ): Promise<void> {
+        checkFilename(filename);
+        if (ObjectStoreContentStorage.isStorageMetadataFile(filename)) {
+            throw new H5pError(
+                'storage-file-implementations:reserved-content-filename',
+                { filename },
+                400
+            );
+        }
+        if (!(await this.contentExists(id))) {
+            throw new H5pError(
+                'storage-file-implementations:add-file-content-not-found',
+                { filename, id },
+                404
+            );
+        }
+        await this.objectStore.putObject(this.getKey(id, filename), stream);
+    }
+
+    /**
+     * Checks if a piece of content exists in storage.
+     * @param contentId the content id to check
+     * @returns true if the piece of content exists
+     */
+    public async contentExists(contentId: ContentId): Promise<boolean> {
+        return this.objectStore.objectExists(
+            this.getKey(contentId, 'h5p.json')
+        );
+    }
+
+    /**
+     * Checks if a file exists.
+     * @param contentId The id of the content to add the file to
+     * @param filename the filename of the file to get
+     * @returns true if the file exists
+     */
+    public async contentFileExists(
+        contentId: ContentId,
+        filename: string
+    ): Promise<boolean> {
+        checkFilename(filename);
+        if (ObjectStoreContentStorage.isStorageMetadataFile(filename)) {
+            return false;
+        }
+        return this.objectStore.objectExists(this.getKey(contentId, filename));
+    }
+
+    /**
+     * Creates a content object in the repository. Add files to it later with addContentFile(...).
+     * Throws an error if something went wrong. In this case no traces of the content are left in storage and all changes are reverted.
+     * The user is recorded as the owner of new content. The owner of existing
+     * content is never changed.
+     * @param metadata The metadata of the content (= h5p.json)
+     * @param content the content object (= content/content.json)
+     * @param user The user who owns this object.
+     * @param id (optional) The content id to use
+     * @returns The newly assigned content id
+     */
+    public async createContent(
+        metadata: IContentMetadata,
+        content: any,
+        user: IUser,
+        id?: ContentId
+    ): Promise<ContentId> {
+        if (id === undefined || id === null) {
+            // tslint:disable-next-line: no-parameter-reassignment
+            id = await this.createContentId();
+        }
+        const existingStorageMetadata = await this.readStorageMetadata(id);
+        const now = new Date().toISOString();
+        const storageMetadata: IStorageMetadata = {
+            created: existingStorageMetadata?.created ?? now,
+            displayOptions: existingStorageMetadata?.displayOptions,
+            mainLibrary: metadata.mainLibrary,
+            modified: now,
+            owner: existingStorageMetadata
+                ? existingStorageMetadata.owner
+                : user?.id,
+            title: metadata.title
+        };
+        try {
+            await writeJsonObject(
+                this.objectStore,
+                this.getKey(
+                    id,
+                    ObjectStoreContentStorage.storageMetadataFilename
+                ),
+                storageMetadata
+            );
+            await writeJsonObject(
+                this.objectStore,
+                this.getKey(id, 'h5p.json'),
+                metadata
+            );
+            await writeJsonObject(
+                this.objectStore,
+                this.getKey(id, 'content.json'),
+                content
+            );
+        } catch (error) {
+            await this.deleteAllObjects(id);
+            throw new H5pError(
+                'storage-file-implementations:error-creating-content'
+            );
+        }
+        return id;
+    }
+
+    /**
+     * Generates a unique content id that hasn't been used in the system so far.
+     * @returns A unique content id
+     */
+    public async createContentId(): Promise<ContentId> {
+        let counter = 0;
+        let id: ContentId;
+        let exists = false;
+        do {
+            id = ObjectStoreContentStorage.getRandomInt(1, 2 ** 32).toString();
+            counter += 1;
+            exists =
+                (await this.objectStore.listObjects(this.getKey(id, '')))
+                    .length > 0;
+        } while (exists && counter < 5); // try 5x and give up then
+        if (exists) {
+            throw new H5pError(
+                'storage-file-implementations:error-generating-content-id'
+            );
+        }
+        return id;
+    }
+
+    /**
+     * Deletes a content object and all its dependent files from the repository.
+     * Throws errors if something goes wrong.
+     * @param id The content id to delete.
+     * @param user The user who wants to delete the content
+     */
+    public async deleteContent(id: ContentId, user?: IUser): Promise<void> {
+        if (!(await this.contentExists(id))) {
+            throw new H5pError(
+                'storage-file-implementations:delete-content-not-found',
+                {},
+                404
+            );
+        }
+        await this.deleteAllObjects(id);
+    }
+
+    /**
+     * Deletes a file from a content object.
+     * @param contentId the content object the file is attached to
+     * @param filename the file to delete
+     */
+    public async deleteContentFile(
+        contentId: ContentId,
+        filename: string
+    ): Promise<void> {
+        checkFilename(filename);
+        const key = this.getKey(contentId, filename);
+        if (
+            ObjectStoreContentStorage.isStorageMetadataFile(filename) ||
+            !(await this.objectStore.objectExists(key))
+        ) {
+            throw new H5pError(
+                'storage-file-implementations:delete-content-file-not-found',
+                { filename },
+                404
+            );
+        }
+        await this.objectStore.deleteObject(key);
+    }
+
+    /**
+     * Gets the filenames of files added to the content with addContentFile(...) (e.g. images, videos or other files)
+     * @param contentId the piece of content
+     * @param user the user who wants to access the piece of content
+     * @returns a list of files that are used in the piece of content, e.g. ['image1.png', 'video2.mp4']
+     */
+    public async getContentFiles(
+        contentId: ContentId,
+        user: IUser
+    ): Promise<string[]> {
+        const contentPrefix = this.getKey(contentId, '');
+        return (await this.objectStore.listObjects(contentPrefix))
+            .map(key => key.substr(contentPrefix.length))
+            .filter(
+                filename =>
+                    filename !== 'content.json' &&
+                    filename !== 'h5p.json' &&
+                    filename !==
+                        ObjectStoreContentStorage.storageMetadataFilename
+            );
+    }
+
+    /**
+     * Returns information about a content file (size, modification time).
+     * @param id the id of the content object that the file is attached to
+     * @param filename the filename of the file
+     * @param user the user who wants to retrieve the content file
+     * @returns the information about the file
+     */
+    public async getContentFileStats(
+        id: ContentId,
+        filename: string,
+        user: IUser
+    ): Promise<IFileStats> {
+        checkFilename(filename);
+        if (
+            ObjectStoreContentStorage.isStorageMetadataFile(filename) ||
+            !(await this.objectStore.objectExists(this.getKey(id, filename)))
+        ) {
+            throw new H5pError(
+                'storage-file-implementations:content-file-not-found',
+                { contentId: id, filename },
+                404
+            );
+        }
+        return this.objectStore.getObjectStats(this.getKey(id, filename));
+    }
+
+    /**
+     * Returns a readable stream of a content file (e.g. image or video) inside a piece of content.
+     * As the object store is asynchronous, a stream is returned immediately and the data is piped
+     * into it when it is available. Errors are emitted on the stream.
+     * @param id the id of the content object that the file is attached to
+     * @param filename the filename of the file to get
+     * @param user the user who wants to retrieve the content file
+     * @param rangeStart (optional) the position in bytes at which the stream
+     * should start
+     * @param rangeEnd (optional) the position in bytes at which the stream
+     * should end (inclusive)
+     * @returns the stream
+     */
+    public getContentFileStream(
+        id: ContentId,
+        filename: string,
+        user: IUser,
+        rangeStart?: number,
+        rangeEnd?: number
+    ): ReadStream {
+        checkFilename(filename);
+        if (ObjectStoreContentStorage.isStorageMetadataFile(filename)) {
+            throw new H5pError(
+                'storage-file-implementations:content-file-not-found',
+                { contentId: id, filename },
+                404
+            );
+        }
+        const stream = new PassThrough();
+        this.objectStore
+            .getObjectStream(this.getKey(id, filename), rangeStart, rangeEnd)
+            .then(objectStream => objectStream.pipe(stream))
+            .catch(error => stream.emit('error', error));
+        return toReadStream(stream);
+    }
+
+    /**
+     * Returns a summary of the content's metadata: title, main library, owner
+     * and timestamps. For content without storage metadata object, h5p.json
+     * and the modification time of the object are used and the owner is
+     * undefined.
+     * @param contentId the content id
+     * @returns the summary
+     */
+    public async getContentMetadataSummary(
+        contentId: ContentId
+    ): Promise<IContentMetadataSummary> {
+        const storageMetadata = await this.loadStorageMetadata(contentId);
+        return {
+            contentId,
+            created: new Date(storageMetadata.created),
+            mainLibrary: storageMetadata.mainLibrary,
+            modified: new Date(storageMetadata.modified),
+            owner: storageMetadata.owner,
+            title: storageMetadata.title
+        };
+    }
+
+    /**
+     * Returns the display options that were set for the piece of content.
+     * They are stored in the storage metadata object.
+     * @param contentId the content id
+     * @returns the display options (empty if none were set)
+     */
+    public async getDisplayOptions(
+        contentId: ContentId
+    ): Promise<Partial<IDisplayOptions>> {
+        return (
+            (await this.readStorageMetadata(contentId))?.displayOptions ?? {}
+        );
+    }
+
+    /**
+     * Returns an array of permissions that the user has on the piece of content
+     * @param contentId the content id to check
+     * @param user the user who wants to access the piece of content
+     * @returns the permissions the user has for this content (e.g. download it, delete it etc.)
+     */
+    public async getUserPermissions(
+        contentId: ContentId,
+        user: IUser
+    ): Promise<Permission[]> {
+        return [
+            Permission.Delete,
+            Permission.Download,
+            Permission.Edit,
+            Permission.Embed,
+            Permission.View
+        ];
+    }
+
+    /**
+     * Lists the content objects in the system (if no user is specified) or owned by the user.
+     * @param user (optional) the user who owns the content
+     * @returns a list of contentIds
+     */
+    public async listContent(user?: IUser): Promise<ContentId[]> {
+        const contentIds = (
+            await this.objectStore.listObjects(`${this.prefix}/`)
+        )
+            .map(key => key.substr(this.prefix.length + 1).split('/'))
+            .filter(parts => parts.length === 2 && parts[1] === 'h5p.json')
+            .map(parts => parts[0]);
+        if (!user) {
+            return contentIds;
+        }
+        const owners = await Promise.all(
+            contentIds.map(
+                async contentId =>
+                    (await this.readStorageMetadata(contentId))?.owner
+            )
+        );
+        return contentIds.filter(
+            (contentId, index) => owners[index] === user.id
+        );
+    }
+
+    /**
+     * Sets the display options of the piece of content. Throws an H5pError
+     * (404) if the content doesn't exist. The storage metadata object is
+     * created for content that doesn't have one yet (with an unknown owner).
+     * @param contentId the content id
+     * @param displayOptions the display options
+     */
+    public async setDisplayOptions(
+        contentId: ContentId,
+        displayOptions: Partial<IDisplayOptions>
+    ): Promise<void> {
+        await writeJsonObject(
+            this.objectStore,
+            this.getKey(
+                contentId,
+                ObjectStoreContentStorage.storageMetadataFilename
+            ),
+            { ...(await this.loadStorageMetadata(contentId)), displayOptions }
+        );
+    }
+
+    private async deleteAllObjects(contentId: ContentId): Promise<void> {
+        const keys = await this.objectStore.listObjects(
+            this.getKey(contentId, '')
+        );
+        await Promise.all(keys.map(key => this.objectStore.deleteObject(key)));
+    }
+
+    private getKey(contentId: ContentId, filename: string): string {
+        return `${this.prefix}/${contentId}/${filename}`;
+    }
+
+    /**
+     * Returns the storage metadata of a piece of content. For content without
+     * storage metadata object, it is derived from h5p.json and the owner is
+     * undefined. Throws an H5pError (404) if the content doesn't exist.
+     */
+    private async loadStorageMetadata(
+        contentId: ContentId
+    ): Promise<IStorageMetadata> {
+        const storageMetadata = await this.readStorageMetadata(contentId);
+        if (storageMetadata) {
+            return storageMetadata;
+        }
+
+        const h5pJsonKey = this.getKey(contentId, 'h5p.json');
+        if (!(await this.objectStore.objectExists(h5pJsonKey))) {
+            throw new H5pError(
+                'storage-file-implementations:content-not-found',
+                { contentId },
+                404
+            );
+        }
+        const metadata: IContentMetadata = await readJsonObject(
+            this.objectStore,
+            h5pJsonKey
+        );
+        const modified = (
+            await this.objectStore.getObjectStats(h5pJsonKey)
+        ).mtime.toISOString();
+        return {
+            created: modified,
+            mainLibrary: metadata.mainLibrary,
+            modified,
+            owner: undefined,
+            title: metadata.title
+        };
+    }
+
+    private async readStorageMetadata(
+        contentId: ContentId
+    ): Promise<IStorageMetadata> {
+        const key = this.getKey(
+            contentId,
+            ObjectStoreContentStorage.storageMetadataFilename
+        );
+        if (!(await this.objectStore.objectExists(key))) {
+            return undefined;
+        }
+        return readJsonObject(this.objectStore, key);
+    }
+}
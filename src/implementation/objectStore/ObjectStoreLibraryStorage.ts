@@ -0,0 +1,381 @@
+import { ReadStream } from 'fs';
+import path from 'path';
+import { Stream } from 'stream';
+
+import {
+    H5pError,
+    IFileStats,
+    IInstalledLibrary,
+    ILibraryMetadata,
+    ILibraryName,
+    ILibraryStorage,
+    InstalledLibrary,
+    IObjectStore,
+    LibraryName
+} from '../../../src';
+import checkFilename from '../fs/filenameCheck';
+import {
+    readJsonObject,
+    toReadStream,
+    writeJsonObject
+} from './objectStoreHelpers';
+
+/**
+ * Stores libraries in an object store. The files of a library are stored
+ * under the key prefix '<prefix>/<ubername>/' (e.g.
+ * 'libraries/H5P.Example-1.0/library.json').
+ */
+export default class ObjectStoreLibraryStorage implements ILibraryStorage {
+    /**
+     * @param objectStore the object store in which the libraries are stored
+     * @param prefix (optional) the key prefix of all library objects; use it
+     * if several storages share the same object store
+     */
+    constructor(
+        private objectStore: IObjectStore,
+        private prefix: string = 'libraries'
+    ) {}
+
+    /**
+     * Adds a library file to a library. The library metadata must have been installed with installLibrary(...) first.
+     * Throws an error if something unexpected happens.
+     * @param library The library that is being installed
+     * @param filename Filename of the file to add, relative to the library root
+     * @param stream The stream containing the file content
+     * @returns true if successful
+     */
+    public async addLibraryFile(
+        library: ILibraryName,
+        filename: string,
+        stream: Stream
+    ): Promise<boolean> {
+        checkFilename(filename);
+        if (!(await this.libraryExists(library))) {
+            throw new H5pError(
+                'storage-file-implementations:add-library-file-not-installed',
+                { filename, libraryName: LibraryName.toUberName(library) },
+                500
+            );
+        }
+        await this.objectStore.putObject(
+            this.getKey(library, filename),
+            stream
+        );
+        return true;
+    }
+
+    /**
+     * Removes all files of a library. Doesn't delete the library metadata. (Used when updating libraries.)
+     * @param library the library whose files should be deleted
+     */
+    public async clearLibraryFiles(library: ILibraryName): Promise<void> {
+        if (!(await this.libraryExists(library))) {
+            throw new H5pError(
+                'storage-file-implementations:clear-library-not-found',
+                {
+                    libraryName: LibraryName.toUberName(library)
+                }
+            );
+        }
+        const libraryJsonKey = this.getKey(library, 'library.json');
+        const keys = (
+            await this.objectStore.listObjects(this.getKey(library, ''))
+        ).filter(key => key !== libraryJsonKey);
+        await Promise.all(keys.map(key => this.objectStore.deleteObject(key)));
+    }
+
+    /**
+     * Check if the library contains a file
+     * @param library The library to check
+     * @param filename
+     * @returns true if file exists in library, false otherwise
+     */
+    public async fileExists(
+        library: ILibraryName,
+        filename: string
+    ): Promise<boolean> {
+        checkFilename(filename);
+        return this.objectStore.objectExists(this.getKey(library, filename));
+    }
+
+    /**
+     * Returns information about a library file (size, modification time).
+     * Throws an exception if the file does not exist.
+     * @param library library
+     * @param filename the relative path inside the library
+     * @returns the information about the file
+     */
+    public async getFileStats(
+        library: ILibraryName,
+        filename: string
+    ): Promise<IFileStats> {
+        await this.checkFileExists(library, filename);
+        return this.objectStore.getObjectStats(this.getKey(library, filename));
+    }
+
+    /**
+     * Returns a readable stream of a library file's contents.
+     * Throws an exception if the file does not exist.
+     * @param library library
+     * @param filename the relative path inside the library
+     * @param rangeStart (optional) the position in bytes at which the stream
+     * should start
+     * @param rangeEnd (optional) the position in bytes at which the stream
+     * should end (inclusive)
+     * @returns a readable stream of the file's contents
+     */
+    public async getFileStream(
+        library: ILibraryName,
+        filename: string,
+        rangeStart?: number,
+        rangeEnd?: number
+    ): Promise<ReadStream> {
+        await this.checkFileExists(library, filename);
+        return toReadStream(
+            await this.objectStore.getObjectStream(
+                this.getKey(library, filename),
+                rangeStart,
+                rangeEnd
+            )
+        );
+    }
+
+    /**
+     * Returns all installed libraries or the installed libraries that have the machine names in the arguments.
+     * @param machineNames (optional) only return libraries that have these machine names
+     * @returns the libraries installed
+     */
+    public async getInstalled(
+        ...machineNames: string[]
+    ): Promise<ILibraryName[]> {
+        const nameRegex = /^([^\s]+)-(\d+)\.(\d+)$/;
+        return (await this.objectStore.listObjects(`${this.prefix}/`))
+            .map(key => key.substr(this.prefix.length + 1).split('/'))
+            .filter(
+                parts =>
+                    parts.length === 2 &&
+                    parts[1] === 'library.json' &&
+                    nameRegex.test(parts[0])
+            )
+            .map(parts => LibraryName.fromUberName(parts[0]))
+            .filter(
+                lib =>
+                    !machineNames ||
+                    machineNames.length === 0 ||
+                    machineNames.some(mn => mn === lib.machineName)
+            );
+    }
+
+    /**
+     * Gets a list of installed language files for the library.
+     * @param library The library to get the languages for
+     * @returns The list of JSON files in the language folder (without the extension .json)
+     */
+    public async getLanguageFiles(library: ILibraryName): Promise<string[]> {
+        const languagePrefix = this.getKey(library, 'language/');
+        return (await this.objectStore.listObjects(languagePrefix))
+            .map(key => key.substr(languagePrefix.length))
+            .filter(
+                file => !file.includes('/') && path.extname(file) === '.json'
+            )
+            .map(file => path.basename(file, '.json'));
+    }
+
+    /**
+     * Adds the metadata of the library to the repository.
+     * Throws errors if something goes wrong.
+     * @param libraryMetadata The library metadata object (= content of library.json)
+     * @param restricted True if the library can only be used be users allowed to install restricted libraries.
+     * @returns The newly created library object to use when adding library files with addLibraryFile(...)
+     */
+    public async installLibrary(
+        libraryMetadata: ILibraryMetadata,
+        restricted: boolean = false
+    ): Promise<IInstalledLibrary> {
+        const library = new InstalledLibrary(
+            libraryMetadata.machineName,
+            libraryMetadata.majorVersion,
+            libraryMetadata.minorVersion,
+            libraryMetadata.patchVersion,
+            restricted
+        );
+
+        if (await this.libraryExists(library)) {
+            throw new H5pError(
+                'storage-file-implementations:install-library-already-installed',
+                {
+                    libraryName: LibraryName.toUberName(library)
+                }
+            );
+        }
+        await writeJsonObject(
+            this.objectStore,
+            this.getKey(library, 'library.json'),
+            libraryMetadata
+        );
+        await this.setRestricted(library, restricted);
+        return library;
+    }
+
+    /**
+     * Checks if the library is restricted.
+     * @param library the library to check
+     * @returns true if the library is restricted
+     */
+    public async isRestricted(library: ILibraryName): Promise<boolean> {
+        return (await this.readRestrictedLibraries()).includes(
+            LibraryName.toUberName(library)
+        );
+    }
+
+    /**
+     * Checks if the library has been installed.
+     * @param name the library name
+     * @returns true if the library has been installed
+     */
+    public async libraryExists(name: ILibraryName): Promise<boolean> {
+        return this.objectStore.objectExists(this.getKey(name, 'library.json'));
+    }
+
+    /**
+     * Gets a list of all library files that exist for this library.
+     * @param library
+     * @returns all files that exist for the library
+     */
+    public async listFiles(library: ILibraryName): Promise<string[]> {
+        const libraryPrefix = this.getKey(library, '');
+        return (await this.objectStore.listObjects(libraryPrefix)).map(key =>
+            key.substr(libraryPrefix.length)
+        );
+    }
+
+    /**
+     * Removes the library and all its files from the repository.
+     * Throws errors if something went wrong.
+     * @param library The library to remove.
+     */
+    public async removeLibrary(library: ILibraryName): Promise<void> {
+        if (!(await this.libraryExists(library))) {
+            throw new H5pError(
+                'storage-file-implementations:remove-library-library-missing',
+                { libraryName: LibraryName.toUberName(library) },
+                404
+            );
+        }
+        const keys = await this.objectStore.listObjects(
+            this.getKey(library, '')
+        );
+        await Promise.all(keys.map(key => this.objectStore.deleteObject(key)));
+        await this.writeRestrictedLibraries(
+            (await this.readRestrictedLibraries()).filter(
+                uberName => uberName !== LibraryName.toUberName(library)
+            )
+        );
+    }
+
+    /**
+     * Sets or removes the restricted flag of an installed library.
+     * @param library the library to change
+     * @param restricted true if the library should be restricted
+     */
+    public async setRestricted(
+        library: ILibraryName,
+        restricted: boolean
+    ): Promise<void> {
+        if (!(await this.libraryExists(library))) {
+            throw new H5pError(
+                'storage-file-implementations:set-restricted-library-missing',
+                { libraryName: LibraryName.toUberName(library) },
+                404
+            );
+        }
+        const uberName = LibraryName.toUberName(library);
+        const restrictedLibraries = (
+            await this.readRestrictedLibraries()
+        ).filter(name => name !== uberName);
+        if (restricted) {
+            restrictedLibraries.push(uberName);
+        }
+        await this.writeRestrictedLibraries(restrictedLibraries);
+    }
+
+    /**
+     * Updates the library metadata.
+     * This is necessary when updating to a new patch version.
+     * You also need to call clearLibraryFiles(...) to remove all old files during the update process and addLibraryFile(...)
+     * to add the files of the patch.
+     * @param libraryMetadata the new library metadata
+     * @returns The updated library object
+     */
+    public async updateLibrary(
+        libraryMetadata: ILibraryMetadata
+    ): Promise<IInstalledLibrary> {
+        if (!(await this.libraryExists(libraryMetadata))) {
+            throw new H5pError(
+                'storage-file-implementations:update-library-library-missing',
+                { libraryName: LibraryName.toUberName(libraryMetadata) },
+                404
+            );
+        }
+        await writeJsonObject(
+            this.objectStore,
+            this.getKey(libraryMetadata, 'library.json'),
+            libraryMetadata
+        );
+        return InstalledLibrary.fromMetadata(libraryMetadata);
+    }
+
+    /**
+     * Throws an H5pError (404) if the library file doesn't exist.
+     */
+    private async checkFileExists(
+        library: ILibraryName,
+        filename: string
+    ): Promise<void> {
+        if (!(await this.fileExists(library, filename))) {
+            throw new H5pError(
+                'library-file-missing',
+                {
+                    filename,
+                    library: LibraryName.toUberName(library)
+                },
+                404
+            );
+        }
+    }
+
+    private getKey(library: ILibraryName, filename: string): string {
+        return `${this.prefix}/${LibraryName.toUberName(library)}/${filename}`;
+    }
+
+    /**
+     * The list of restricted libraries is stored in a single object next to
+     * the library directories.
+     */
+    private getRestrictedLibrariesKey(): string {
+        return `${this.prefix}/.restricted-libraries.json`;
+    }
+
+    private async readRestrictedLibraries(): Promise<string[]> {
+        const key = this.getRestrictedLibrariesKey();
+        if (!(await this.objectStore.objectExists(key))) {
+            return [];
+        }
+        return readJsonObject(this.objectStore, key);
+    }
+
+    private async writeRestrictedLibraries(
+        restrictedLibraries: string[]
+    ): Promise<void> {
+        const key = this.getRestrictedLibrariesKey();
+        if (restrictedLibraries.length === 0) {
+            await this.objectStore.deleteObject(key);
+            return;
+        }
+        await writeJsonObject(
+            this.objectStore,
+            key,
+            restrictedLibraries.sort()
+        );
+    }
+}
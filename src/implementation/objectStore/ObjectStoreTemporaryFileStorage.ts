@@ -0,0 +1,118 @@
+import { ReadStream } from 'fs';
+
+import {
+    H5pError,
+    IObjectStore,
+    ITemporaryFile,
+    ITemporaryFileStorage,
+    IUser
+} from '../../../src';
+import checkFilename from '../fs/filenameCheck';
+import {
+    readJsonObject,
+    toReadStream,
+    writeJsonObject
+} from './objectStoreHelpers';
+
+/**
+ * Stores temporary files in an object store.
+ * Manages access rights by storing the files of each user under the key
+ * prefix '<prefix>/<userId>/'. Manages expiration times by storing companion
+ * '.metadata' objects for every file stored.
+ */
+export default class ObjectStoreTemporaryFileStorage
+    implements ITemporaryFileStorage {
+    /**
+     * @param objectStore the object store in which the temporary files are
+     * stored
+     * @param prefix (optional) the key prefix of all temporary files; use it
+     * if several storages share the same object store
+     */
+    constructor(
+        private objectStore: IObjectStore,
+        private prefix: string = 'temporary-files'
+    ) {}
+
+    public async deleteFile(filename: string, userId: string): Promise<void> {
+        checkFilename(filename);
+        checkFilename(userId);
+        const key = this.getKey(userId, filename);
+        await this.objectStore.deleteObject(key);
+        await this.objectStore.deleteObject(`${key}.metadata`);
+    }
+
+    public async fileExists(filename: string, user: IUser): Promise<boolean> {
+        checkFilename(filename);
+        checkFilename(user.id);
+        return this.objectStore.objectExists(this.getKey(user.id, filename));
+    }
+
+    public async getFileStream(
+        filename: string,
+        user: IUser
+    ): Promise<ReadStream> {
+        checkFilename(filename);
+        checkFilename(user.id);
+        const key = this.getKey(user.id, filename);
+        if (!(await this.objectStore.objectExists(key))) {
+            throw new H5pError(
+                'storage-file-implementations:temporary-file-not-found',
+                { filename, userId: user.id },
+                404
+            );
+        }
+        return toReadStream(await this.objectStore.getObjectStream(key));
+    }
+
+    public async listFiles(user?: IUser): Promise<ITemporaryFile[]> {
+        if (user) {
+            checkFilename(user.id);
+        }
+        const listPrefix = user
+            ? `${this.prefix}/${user.id}/`
+            : `${this.prefix}/`;
+        const metadataKeys = (
+            await this.objectStore.listObjects(listPrefix)
+        ).filter(key => key.endsWith('.metadata'));
+        return Promise.all(
+            metadataKeys.map(async key => {
+                const [userId, ...filenameParts] = key
+                    .substr(this.prefix.length + 1)
+                    .split('/');
+                const metadata = await readJsonObject(this.objectStore, key);
+                return {
+                    expiresAt: new Date(metadata.expiresAt),
+                    filename: filenameParts
+                        .join('/')
+                        .replace(/\.metadata$/, ''),
+                    ownedByUserId: userId
+                };
+            })
+        );
+    }
+
+    public async saveFile(
+        filename: string,
+        dataStream: ReadStream,
+        user: IUser,
+        expirationTime: Date
+    ): Promise<ITemporaryFile> {
+        checkFilename(filename);
+        checkFilename(user.id);
+
+        const key = this.getKey(user.id, filename);
+        await this.objectStore.putObject(key, dataStream);
+        await writeJsonObject(this.objectStore, `${key}.metadata`, {
+            expiresAt: expirationTime.getTime()
+        });
+        return {
+            expiresAt: expirationTime,
+            filename,
+            ownedByUserId: user.id
+        };
+    }
+
+    private getKey(userId: string, filename: string): string {
+        return `${this.prefix}/${userId}/${filename}`;
+    }
+}
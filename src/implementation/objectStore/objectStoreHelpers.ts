@@ -0,0 +1,70 @@
+import { ReadStream } from 'fs';
+import { Readable, Stream } from 'stream';
+
+import { IObjectStore } from '../../../src';
+
+/**
+ * Reads a stream to its end and returns all of its data.
+ * @param stream the stream to read
+ * @returns the data of the stream
+ */
+export async function streamToBuffer(stream: Stream): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    await new Promise((resolve, reject) => {
+        stream.on('data', (chunk: Buffer | string) => {
+            chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+        });
+        stream.on('end', resolve);
+        stream.on('error', reject);
+    });
+    return Buffer.concat(chunks);
+}
+
+/**
+ * The storage interfaces return file system ReadStreams, whose users may call
+ * close() on them. Streams of object stores are generic Readables, so a
+ * close() method that destroys the stream is added to them.
+ * @param stream the stream returned by the object store
+ * @returns the same stream, usable as a ReadStream
+ */
+export function toReadStream(stream: Readable): ReadStream {
+    const readStream: any = stream;
+    if (typeof readStream.close !== 'function') {
+        readStream.close = () => stream.destroy();
+    }
+    return readStream;
+}
+
+/**
+ * Reads an object from the store and parses it as JSON.
+ * @param objectStore the store to read from
+ * @param key the key of the object
+ * @returns the parsed object
+ */
+export async function readJsonObject(
+    objectStore: IObjectStore,
+    key: string
+): Promise<any> {
+    const data = await streamToBuffer(await objectStore.getObjectStream(key));
+    return JSON.parse(data.toString('utf8'));
+}
+
+/**
+ * Serializes the data as JSON and stores it as an object.
+ * @param objectStore the store to write to
+ * @param key the key of the object
+ * @param data the data to serialize
+ */
+export async function writeJsonObject(
+    objectStore: IObjectStore,
+    key: string,
+    data: any
+): Promise<void> {
+    const stream = new Readable();
+    stream._read = () => {
+        return;
+    };
+    stream.push(JSON.stringify(data));
+    stream.push(null);
+    await objectStore.putObject(key, stream);
+}
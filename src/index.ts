@@ -1,81 +1,195 @@
 // Classes
+import AssetAggregator from './AssetAggregator';
+import ContentUpgrader from './ContentUpgrader';
+import ContentUserDataManager from './ContentUserDataManager';
+import ContentUserResultManager from './ContentUserResultManager';
 import H5PEditor from './H5PEditor';
 import H5PPlayer from './H5PPlayer';
 import H5pError from './helpers/H5pError';
+import HubMirror from './HubMirror';
+import HubServer from './HubServer';
 import InstalledLibrary from './InstalledLibrary';
+import LibraryAdministration from './LibraryAdministration';
 import LibraryName from './LibraryName';
+import LibraryTranslationChecker from './LibraryTranslationChecker';
+import LibraryUsageIndex from './LibraryUsageIndex';
 import PackageExporter from './PackageExporter';
+import RevisionManager from './RevisionManager';
+import TranslationService from './TranslationService';
+import XapiLrsForwarder from './XapiLrsForwarder';
+import XapiStatementManager from './XapiStatementManager';
 
 import EditorConfig from './implementation/EditorConfig';
 import fs from './implementation/fs';
 import DirectoryTemporaryFileStorage from './implementation/fs/DirectoryTemporaryFileStorage';
 import FileContentStorage from './implementation/fs/FileContentStorage';
+import FileContentUserDataStorage from './implementation/fs/FileContentUserDataStorage';
+import FileContentUserResultStorage from './implementation/fs/FileContentUserResultStorage';
 import FileLibraryStorage from './implementation/fs/FileLibraryStorage';
+import FilePermissionSystem from './implementation/fs/FilePermissionSystem';
+import FileRevisionStorage from './implementation/fs/FileRevisionStorage';
+import FileXapiStatementStore from './implementation/fs/FileXapiStatementStore';
 import JsonStorage from './implementation/fs/JsonStorage';
 import InMemoryStorage from './implementation/InMemoryStorage';
+import InMemoryObjectStore from './implementation/objectStore/InMemoryObjectStore';
+import ObjectStoreContentStorage from './implementation/objectStore/ObjectStoreContentStorage';
+import ObjectStoreLibraryStorage from './implementation/objectStore/ObjectStoreLibraryStorage';
+import ObjectStoreTemporaryFileStorage from './implementation/objectStore/ObjectStoreTemporaryFileStorage';
 
 // Interfaces
 import {
+    ContentChangedListener,
     ContentId,
+    GeneralPermission,
+    IAssetBundleLibrary,
+    IAssetMinifier,
     IContentMetadata,
+    IContentMetadataSummary,
+    IContentRevision,
     IContentStorage,
+    IContentUpgradeResult,
+    IContentUserData,
+    IContentUserDataStorage,
+    IContentUserResult,
+    IContentUserResultStorage,
+    IDisplayOptions,
     IEditorConfig,
+    IFileStats,
+    IH5PEditorOptions,
+    IH5PPlayerOptions,
     IInstalledLibrary,
     IKeyValueStorage,
+    ILanguageTranslationReport,
+    ILibraryAdministrationDetails,
+    ILibraryAdministrationOverviewItem,
     ILibraryFileUrlResolver,
     ILibraryMetadata,
     ILibraryName,
+    ILibraryRemovalResult,
     ILibraryStorage,
+    ILibraryTranslationReport,
+    ILibraryUsage,
+    IObjectStore,
+    IPermissionSystem,
+    IPlayerContent,
+    IPlayerFragment,
+    IRevisionDifference,
+    IRevisionStorage,
     ITemporaryFile,
     ITemporaryFileStorage,
     IUser,
+    IXapiStatementRecord,
+    IXapiStatementStore,
+    LibraryUpdatedListener,
     Permission
 } from './types';
 
 // Adapters
 import express from './adapters/express';
 import expressErrorHandler from './adapters/expressErrorHandler';
+import expressHubServer from './adapters/expressHubServer';
+import expressLibraryAdministration from './adapters/expressLibraryAdministration';
+import expressTranslationMiddleware from './adapters/expressTranslationMiddleware';
 
 const adapters = {
     express,
-    expressErrorHandler
+    expressErrorHandler,
+    expressHubServer,
+    expressLibraryAdministration,
+    expressTranslationMiddleware
 };
 
 const fsImplementations = {
     DirectoryTemporaryFileStorage,
     FileContentStorage,
+    FileContentUserDataStorage,
+    FileContentUserResultStorage,
     FileLibraryStorage,
+    FilePermissionSystem,
+    FileRevisionStorage,
+    FileXapiStatementStore,
     InMemoryStorage,
     JsonStorage
 };
 
+const objectStoreImplementations = {
+    InMemoryObjectStore,
+    ObjectStoreContentStorage,
+    ObjectStoreLibraryStorage,
+    ObjectStoreTemporaryFileStorage
+};
+
 export {
     // classes
+    AssetAggregator,
+    ContentUpgrader,
+    ContentUserDataManager,
+    ContentUserResultManager,
     H5PEditor,
     H5pError,
     H5PPlayer,
+    HubMirror,
+    HubServer,
     InstalledLibrary,
+    LibraryAdministration,
     LibraryName,
+    LibraryTranslationChecker,
+    LibraryUsageIndex,
     PackageExporter,
+    RevisionManager,
+    TranslationService,
+    XapiLrsForwarder,
+    XapiStatementManager,
     // interfaces
+    ContentChangedListener,
     ContentId,
+    GeneralPermission,
+    IAssetBundleLibrary,
+    IAssetMinifier,
     IContentMetadata,
+    IContentMetadataSummary,
+    IContentRevision,
     IContentStorage,
+    IContentUpgradeResult,
+    IContentUserData,
+    IContentUserDataStorage,
+    IContentUserResult,
+    IContentUserResultStorage,
+    IDisplayOptions,
     IEditorConfig,
+    IFileStats,
+    IH5PEditorOptions,
+    IH5PPlayerOptions,
     IInstalledLibrary,
     IKeyValueStorage,
+    ILanguageTranslationReport,
+    ILibraryAdministrationDetails,
+    ILibraryAdministrationOverviewItem,
     ILibraryFileUrlResolver,
     ILibraryMetadata,
     ILibraryName,
+    ILibraryRemovalResult,
     ILibraryStorage,
+    ILibraryTranslationReport,
+    ILibraryUsage,
+    IObjectStore,
+    IPermissionSystem,
+    IPlayerContent,
+    IPlayerFragment,
+    IRevisionDifference,
+    IRevisionStorage,
     ITemporaryFile,
     ITemporaryFileStorage,
     IUser,
+    IXapiStatementRecord,
+    IXapiStatementStore,
+    LibraryUpdatedListener,
     Permission,
     // implementations
     EditorConfig,
     fs,
     fsImplementations,
+    objectStoreImplementations,
     // adapters
     adapters
 };
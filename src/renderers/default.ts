@@ -21,6 +21,17 @@ ${model.scripts
             <div class="h5p-editor"></div>
         </div>
     </div>
+    <fieldset class="h5p-display-options">
+        <legend>Display options</legend>
+        ${['frame', 'export', 'embed', 'copyright', 'icon', 'copy']
+            .map(
+                option =>
+                    `<label><input type="checkbox" name="displayOptions.${option}" value="${option}"${
+                        model.displayOptions?.[option] ? ' checked' : ''
+                    }> ${option}</label>`
+            )
+            .join('\n        ')}
+    </fieldset>
     <input type="submit" name="submit" value="Create" class="button button-primary button-large">
 </form>
 <script>
@@ -72,6 +83,11 @@ var ns = H5PEditor;
                     $create.show();
                 },
                 success: function(res) {
+                    if (res.displayOptions) {
+                        $('.h5p-display-options input').each(function() {
+                            this.checked = !!res.displayOptions[this.value];
+                        });
+                    }
                     h5peditor = new ns.Editor(
                         res.library,
                         JSON.stringify(res.params),
@@ -115,8 +131,15 @@ var ns = H5PEditor;
                     // Set params
                     $params.val(JSON.stringify(params));
 
+                    // Set display options
+                    var displayOptions = {};
+                    $('.h5p-display-options input').each(function() {
+                        displayOptions[this.value] = this.checked;
+                    });
+
                     $.ajax({
                         data: JSON.stringify({
+                            displayOptions,
                             library: h5peditor.getLibrary(),
                             params
                         }),
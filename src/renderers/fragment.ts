@@ -0,0 +1,4 @@
+export default model =>
+    model.embedType === 'div'
+        ? `<div class="h5p-content" data-content-id="${model.contentId}"></div>`
+        : `<div class="h5p-iframe-wrapper"><iframe id="h5p-iframe-${model.contentId}" class="h5p-iframe" data-content-id="${model.contentId}" style="height:1px" src="about:blank" frameBorder="0" scrolling="no"></iframe></div>`;
@@ -11,11 +11,23 @@ export default model => `<!doctype html>
         .join('\n    ')}
 
     <script>
-        H5PIntegration = ${JSON.stringify(model.integration, null, 2)};
+        H5PIntegration = ${JSON.stringify(model.integration, null, 2).replace(
+            /<\//g,
+            '<\\/'
+        )};
     </script>${model.customScripts}
 </head>
 <body>
-    <div class="h5p-content" data-content-id="${model.contentId}"></div>
-    <a href="${model.downloadPath}">Download</button>
+    ${model.contents
+        .map(
+            content =>
+                `<div class="h5p-content" data-content-id="${content.contentId}"></div>`
+        )
+        .join('\n    ')}
+    ${
+        model.downloadPath
+            ? `<a href="${model.downloadPath}">Download</button>`
+            : ''
+    }
 </body>
 </html>`;
@@ -1,5 +1,9 @@
 import { ReadStream } from 'fs';
-import { Stream } from 'stream';
+import { Readable, Stream } from 'stream';
+
+import AssetAggregator from './AssetAggregator';
+import ContentUserDataManager from './ContentUserDataManager';
+import ContentUserResultManager from './ContentUserResultManager';
 
 /**
  * The content id identifies content objects in storage. The PHP implementation of H5P
@@ -19,6 +23,29 @@ export enum Permission {
     View
 }
 
+/**
+ * General permissions give rights to users to do certain actions that are not
+ * tied to a specific piece of content.
+ */
+export enum GeneralPermission {
+    /**
+     * Create new content.
+     */
+    CreateContent,
+    /**
+     * Create content of content types that are set to "restricted".
+     */
+    CreateRestricted,
+    /**
+     * Install content types from the hub that are set to "recommended".
+     */
+    InstallRecommended,
+    /**
+     * Install and update any library (also by uploading packages).
+     */
+    UpdateAndInstallLibraries
+}
+
 /**
  * A response that is sent back to an AJAX call.
  */
@@ -58,6 +85,39 @@ export interface IAssets {
     translations: object;
 }
 
+/**
+ * A library whose files are added to a bundle of the asset aggregator.
+ */
+export interface IAssetBundleLibrary {
+    /**
+     * The library (the patch version is part of the key of the bundle, so
+     * that updating the library creates a new bundle)
+     */
+    library: IFullLibraryName;
+    /**
+     * The paths of the scripts (preloadedJs) inside the library
+     */
+    scripts: string[];
+    /**
+     * The paths of the styles (preloadedCss) inside the library
+     */
+    styles: string[];
+}
+
+/**
+ * Minifies the bundles of the asset aggregator. Implementations can wrap
+ * libraries like terser (JavaScript) or clean-css (CSS).
+ */
+export interface IAssetMinifier {
+    /**
+     * Minifies a bundle.
+     * @param code the concatenated scripts or styles
+     * @param type 'js' for scripts, 'css' for styles
+     * @returns the minified code
+     */
+    minify(code: string, type: 'css' | 'js'): Promise<string>;
+}
+
 /**
  * Represents the information needed to identify an installed library. This information is also called
  * ubername when it's represented as a string like this: H5P.Example-1.0
@@ -91,6 +151,161 @@ export interface ILibraryInstallResult {
     type: 'new' | 'patch' | 'none';
 }
 
+/**
+ * A function that is called by the ContentManager after a piece of content
+ * was saved or deleted.
+ * @param contentId the content that was changed
+ * @param metadata the new metadata (= h5p.json) of the content; undefined if
+ * the content was deleted
+ * @param parametersChanged true if the parameters (= content.json) of
+ * existing content were changed; false for new and deleted content
+ */
+export type ContentChangedListener = (
+    contentId: ContentId,
+    metadata?: IContentMetadata,
+    parametersChanged?: boolean
+) => Promise<void>;
+
+/**
+ * A function that is called by the LibraryManager after an installed library
+ * was replaced by a newer patch version.
+ * @param oldVersion the version that was installed before
+ * @param newVersion the version that is installed now
+ */
+export type LibraryUpdatedListener = (
+    oldVersion: IFullLibraryName,
+    newVersion: IFullLibraryName
+) => Promise<void>;
+
+/**
+ * Information about which content uses a library.
+ */
+export interface ILibraryUsage {
+    /**
+     * The number of pieces of content that require the library (directly or
+     * through other libraries) without it being their main library.
+     */
+    asDependency: number;
+    /**
+     * The number of pieces of content of which the library is the main
+     * library.
+     */
+    asMainLibrary: number;
+    /**
+     * The pieces of content that use the library (as main library or as
+     * dependency).
+     */
+    contentIds: ContentId[];
+}
+
+/**
+ * Information about an installed library that is displayed in the library
+ * administration (list of libraries).
+ */
+export interface ILibraryAdministrationOverviewItem {
+    /**
+     * True if no installed library and no content uses the library.
+     */
+    canBeDeleted: boolean;
+    /**
+     * The number of installed libraries that directly require the library.
+     */
+    dependentsCount: number;
+    /**
+     * The number of pieces of content that use the library as a dependency
+     * (including content of which it is the main library).
+     */
+    instancesAsDependencyCount: number;
+    /**
+     * The number of pieces of content of which the library is the main
+     * library.
+     */
+    instancesCount: number;
+    machineName: string;
+    majorVersion: number;
+    minorVersion: number;
+    patchVersion: number;
+    restricted: boolean;
+    runnable: boolean;
+    title: string;
+}
+
+/**
+ * Detailed information about a single installed library in the library
+ * administration.
+ */
+export interface ILibraryAdministrationDetails
+    extends ILibraryAdministrationOverviewItem {
+    /**
+     * The pieces of content that use the library as a dependency.
+     */
+    dependentContent: ContentId[];
+    /**
+     * The installed libraries that directly require the library.
+     */
+    dependentLibraries: ILibraryName[];
+    /**
+     * The metadata of the library (= library.json).
+     */
+    metadata: ILibraryMetadata;
+}
+
+/**
+ * Describes how complete the translation of a library into a language is.
+ * The fields are identified by their path in the language file (e.g.
+ * 'semantics[0].fields[1].label').
+ */
+export interface ILanguageTranslationReport {
+    /**
+     * False if the library has no language file for the language or its
+     * primary language (e.g. 'de' for 'de-CH'); all fields are missing then.
+     */
+    exists: boolean;
+    /**
+     * Fields of the language file that don't exist in the semantics (e.g.
+     * because the semantics have changed since the translation was made).
+     */
+    extra: string[];
+    language: string;
+    /**
+     * Fields of the semantics that are missing in the language file.
+     */
+    missing: string[];
+    /**
+     * Fields whose translation is the same as the English text in the
+     * semantics.
+     */
+    untranslated: string[];
+}
+
+/**
+ * The translation reports of a library (see LibraryTranslationChecker).
+ */
+export interface ILibraryTranslationReport extends ILibraryName {
+    languages: ILanguageTranslationReport[];
+}
+
+/**
+ * The result of a call to LibraryManager.removeLibrary(...).
+ */
+export interface ILibraryRemovalResult {
+    /**
+     * The content that uses the library (directly or through other
+     * libraries).
+     */
+    dependentContent: ContentId[];
+    /**
+     * The installed libraries that require the library (directly or through
+     * other libraries).
+     */
+    dependentLibraries: ILibraryName[];
+    /**
+     * The libraries that were removed. Empty if the removal was refused
+     * because there are dependent libraries or content.
+     */
+    removedLibraries: ILibraryName[];
+}
+
 /**
  * This is an author inside content metadata.
  */
@@ -149,6 +364,15 @@ export interface IIntegration {
     };
     ajaxPath: string;
     contents?: any;
+    /**
+     * The core files the H5P client adds to the iframes it creates for
+     * content (only needed if content is embedded with an iframe into a page
+     * that isn't an iframe itself).
+     */
+    core?: {
+        scripts: string[];
+        styles: string[];
+    };
     editor?: IEditorIntegration;
     hubIsEnabled: boolean;
     l10n: object;
@@ -164,6 +388,57 @@ export interface IIntegration {
     };
 }
 
+/**
+ * A piece of content that is rendered by the player (see
+ * H5PPlayer.renderMultiple).
+ */
+export interface IPlayerContent {
+    contentId: ContentId;
+    /**
+     * The content parameters (= content.json)
+     */
+    contentObject: any;
+    /**
+     * (optional) The display options set for the content (see
+     * ContentManager.getDisplayOptions)
+     */
+    displayOptions?: Partial<IDisplayOptions>;
+    /**
+     * The content metadata (= h5p.json)
+     */
+    h5pObject: IContentMetadata;
+}
+
+/**
+ * Content rendered as a fragment that is inserted into a page of the host
+ * application (see H5PPlayer.render).
+ */
+export interface IPlayerFragment {
+    /**
+     * 'div' if the content is displayed directly in the page; 'iframe' if the
+     * H5P client creates an iframe for it (or for at least one of several
+     * pieces of content)
+     */
+    embedType: 'div' | 'iframe';
+    /**
+     * The HTML to insert at the place where the content is displayed
+     */
+    html: string;
+    /**
+     * The integration object the page must assign to window.H5PIntegration
+     * before the scripts are loaded
+     */
+    integration: IIntegration;
+    /**
+     * The scripts the page must load (in this order)
+     */
+    scripts: string[];
+    /**
+     * The styles the page must load
+     */
+    styles: string[];
+}
+
 /**
  * The editor integration object is used to pass information to the H5P JavaScript
  * editor client about settings and constants of the server.
@@ -304,6 +579,82 @@ export interface IUser {
     type: 'local' | string;
 }
 
+/**
+ * The permission system decides which actions users may perform. Pass an
+ * implementation to H5PEditor and H5PPlayer if you need more fine-grained control
+ * than the flags of IUser and IContentStorage.getUserPermissions offer.
+ * If no permission system is passed, the permissions are taken from
+ * IContentStorage.getUserPermissions and the IUser flags.
+ * See the FilePermissionSystem sample implementation for more details.
+ */
+export interface IPermissionSystem {
+    /**
+     * Removes all permission information about a piece of content. Called
+     * after the content was deleted.
+     * @param contentId the content that was deleted
+     */
+    deleteContentPermissions(contentId: ContentId): Promise<void>;
+
+    /**
+     * Returns the permissions the user has on a piece of content.
+     * @param contentId the content to check
+     * @param user the user who wants to access the piece of content (can be
+     * undefined for anonymous users)
+     * @returns the permissions the user has for this content
+     */
+    getContentPermissions(
+        contentId: ContentId,
+        user: IUser
+    ): Promise<Permission[]>;
+
+    /**
+     * Checks if the user has a permission that is not tied to a specific
+     * piece of content.
+     * @param permission the permission to check
+     * @param user the user to check (can be undefined for anonymous users)
+     * @returns true if the user has the permission
+     */
+    hasGeneralPermission(
+        permission: GeneralPermission,
+        user: IUser
+    ): Promise<boolean>;
+
+    /**
+     * Registers the user as the owner of a piece of content. Called after
+     * new content was created.
+     * @param contentId the content that was created
+     * @param user the user who created the content
+     */
+    setContentOwner(contentId: ContentId, user: IUser): Promise<void>;
+}
+
+/**
+ * A summary of the most important information about a piece of content.
+ * Allows listing content (e.g. in a dashboard) without loading the whole
+ * h5p.json of every piece of content.
+ */
+export interface IContentMetadataSummary {
+    contentId: ContentId;
+    /**
+     * The time the content was created.
+     */
+    created: Date;
+    /**
+     * The machine name of the main library (e.g. H5P.InteractiveVideo).
+     */
+    mainLibrary: string;
+    /**
+     * The time the content was last saved.
+     */
+    modified: Date;
+    /**
+     * The id of the user who created the content. Undefined for content that
+     * was created before ownership was recorded.
+     */
+    owner: string;
+    title: string;
+}
+
 /**
  * Implementations need to implement the IContentStorage interface and pass it to the constructor of
  * H5PEditor.
@@ -387,20 +738,48 @@ export interface IContentStorage {
      */
     getContentFiles(contentId: ContentId, user: IUser): Promise<string[]>;
 
+    /**
+     * Returns information about a content file (e.g. image or video) inside a
+     * piece of content. Throws an error if the file doesn't exist.
+     * @param contentId the id of the content object that the file is attached to
+     * @param file the filename of the file
+     * @param user the user who wants to retrieve the content file
+     * @returns the information about the file (size, modification time)
+     */
+    getContentFileStats(
+        contentId: ContentId,
+        file: string,
+        user: IUser
+    ): Promise<IFileStats>;
+
     /**
      * Returns a readable stream of a content file (e.g. image or video) inside a piece of content
      * NOTE: THIS METHOD IS NOT ASYNC!
      * @param id the id of the content object that the file is attached to
      * @param filename the filename of the file to get
      * @param user the user who wants to retrieve the content file
+     * @param rangeStart (optional) the position in bytes at which the stream
+     * should start (used to serve HTTP Range requests)
+     * @param rangeEnd (optional) the position in bytes at which the stream
+     * should end (inclusive)
      * @returns the stream (that can be used to send the file to the user)
      */
     getContentFileStream(
         contentId: ContentId,
         file: string,
-        user: IUser
+        user: IUser,
+        rangeStart?: number,
+        rangeEnd?: number
     ): ReadStream;
 
+    /**
+     * Returns the display options that were set for the piece of content.
+     * @param contentId the piece of content
+     * @returns the options that override the defaults of the installation
+     * (empty if none were set)
+     */
+    getDisplayOptions(contentId: ContentId): Promise<Partial<IDisplayOptions>>;
+
     /**
      * Returns an array of permissions that the user has on the piece of content
      * @param contentId the content id to check
@@ -418,6 +797,18 @@ export interface IContentStorage {
      * @returns a list of contentIds
      */
     listContent(user?: IUser): Promise<ContentId[]>;
+
+    /**
+     * Sets the display options of the piece of content. Replaces the options
+     * that were set before. Throws an error if the content doesn't exist.
+     * @param contentId the piece of content
+     * @param displayOptions the options that override the defaults of the
+     * installation
+     */
+    setDisplayOptions(
+        contentId: ContentId,
+        displayOptions: Partial<IDisplayOptions>
+    ): Promise<void>;
 }
 
 /**
@@ -458,14 +849,32 @@ export interface ILibraryStorage {
      */
     fileExists(library: ILibraryName, filename: string): Promise<boolean>;
 
+    /**
+     * Returns information about a library file (size, modification time).
+     * Throws an exception if the file does not exist.
+     * @param library library
+     * @param filename the relative path inside the library
+     * @returns the information about the file
+     */
+    getFileStats(library: ILibraryName, file: string): Promise<IFileStats>;
+
     /**
      * Returns a readable stream of a library file's contents.
      * Throws an exception if the file does not exist.
      * @param library library
      * @param filename the relative path inside the library
+     * @param rangeStart (optional) the position in bytes at which the stream
+     * should start
+     * @param rangeEnd (optional) the position in bytes at which the stream
+     * should end (inclusive)
      * @returns a readable stream of the file's contents
      */
-    getFileStream(library: ILibraryName, file: string): Promise<ReadStream>;
+    getFileStream(
+        library: ILibraryName,
+        file: string,
+        rangeStart?: number,
+        rangeEnd?: number
+    ): Promise<ReadStream>;
 
     /**
      * Returns all installed libraries or the installed libraries that have the machine names in the arguments.
@@ -494,6 +903,14 @@ export interface ILibraryStorage {
         restricted: boolean
     ): Promise<IInstalledLibrary>;
 
+    /**
+     * Checks if the library is restricted, i.e. if it can only be used by
+     * users who are allowed to create restricted content.
+     * @param library the library to check
+     * @returns true if the library is restricted
+     */
+    isRestricted(library: ILibraryName): Promise<boolean>;
+
     /**
      * Checks if the library has been installed.
      * @param name the library name
@@ -515,6 +932,15 @@ export interface ILibraryStorage {
      */
     removeLibrary(library: ILibraryName): Promise<void>;
 
+    /**
+     * Sets or removes the restricted flag of an installed library.
+     * Throws an error if the library is not installed.
+     * @param library the library to change
+     * @param restricted true if the library can only be used by users who are
+     * allowed to create restricted content
+     */
+    setRestricted(library: ILibraryName, restricted: boolean): Promise<void>;
+
     /**
      * Updates the library metadata. This is necessary when updating to a new patch version.
      * After this clearLibraryFiles(...) is called by the LibraryManager to remove all old files.
@@ -572,6 +998,11 @@ export interface ISemanticsEntry {
      * (for group) Group is expanded by default
      */
     expanded?: boolean;
+    /**
+     * (for library) additional properties that are allowed in the parameters
+     * of the library element besides library, params, subContentId and metadata
+     */
+    extraAttributes?: string[];
     /**
      * (in lists only) defines a single field type in the list
      */
@@ -622,6 +1053,10 @@ export interface ISemanticsEntry {
      * (for list) the minimum number of elements
      */
     min?: number;
+    /**
+     * (for select) if true, multiple options can be selected
+     */
+    multiple?: boolean;
     /**
      * The internal name (e.g. for referencing it in code)
      */
@@ -744,6 +1179,87 @@ export interface IKeyValueStorage {
     save(key: string, value: any): Promise<any>;
 }
 
+/**
+ * Information about a stored file.
+ */
+export interface IFileStats {
+    /**
+     * (optional) an identifier of the current version of the file (e.g. a
+     * hash of its contents); if undefined, the identifier is derived from the
+     * size and the modification time
+     */
+    etag?: string;
+    /**
+     * The time at which the file was last modified
+     */
+    mtime: Date;
+    /**
+     * The size of the file in bytes
+     */
+    size: number;
+}
+
+/**
+ * A minimal abstraction of an object store (like MongoDB GridFS or Amazon S3).
+ * Objects are binary blobs identified by a key. Keys can contain slashes to
+ * emulate directories, which allows listing all objects with a common prefix.
+ * The object store storage implementations use this interface to persist
+ * content, libraries and temporary files, so that several instances of the
+ * editor can share the same data without a shared file system.
+ */
+export interface IObjectStore {
+    /**
+     * Deletes an object. Does nothing if the object doesn't exist.
+     * @param key the key of the object
+     */
+    deleteObject(key: string): Promise<void>;
+
+    /**
+     * Returns information about the object (size, modification time).
+     * Throws an error if the object doesn't exist.
+     * @param key the key of the object
+     * @returns the information
+     */
+    getObjectStats(key: string): Promise<IFileStats>;
+
+    /**
+     * Returns a readable stream of the object's data.
+     * Throws an error if the object doesn't exist.
+     * @param key the key of the object
+     * @param rangeStart (optional) the position in bytes at which the stream
+     * should start
+     * @param rangeEnd (optional) the position in bytes at which the stream
+     * should end (inclusive)
+     * @returns the stream
+     */
+    getObjectStream(
+        key: string,
+        rangeStart?: number,
+        rangeEnd?: number
+    ): Promise<Readable>;
+
+    /**
+     * Lists the keys of all objects whose key starts with the prefix.
+     * @param prefix the prefix to look for (an empty string lists all objects)
+     * @returns the full keys of the objects
+     */
+    listObjects(prefix: string): Promise<string[]>;
+
+    /**
+     * Checks if an object exists.
+     * @param key the key of the object
+     * @returns true if the object exists
+     */
+    objectExists(key: string): Promise<boolean>;
+
+    /**
+     * Stores an object. Existing objects with the same key are replaced.
+     * @param key the key of the object
+     * @param readStream the stream containing the object's data
+     */
+    putObject(key: string, readStream: Stream): Promise<void>;
+}
+
 /**
  * This is the data sent to the H5P Hub when the local installation (site) registers itself there.
  */
@@ -852,13 +1368,24 @@ export type ILibraryLoader = (
     machineName: string,
     majorVersion: number,
     minorVersion: number
-) => IInstalledLibrary;
+) => IInstalledLibrary | Promise<IInstalledLibrary>;
 
 export interface IEditorConfig {
+    /**
+     * If true, H5PEditor.assetAggregator combines the scripts and styles of
+     * the libraries used by content into bundles, which reduces the number of
+     * requests the player makes.
+     */
+    aggregateAssets: boolean;
     /**
      * URL prefix for all AJAX requests
      */
     ajaxUrl: string;
+    /**
+     * The URL at which the bundles of library scripts and styles created by
+     * the asset aggregator can be retrieved.
+     */
+    assetsUrl: string;
     /**
      * The prefix that is added to all URLs.
      */
@@ -872,6 +1399,22 @@ export interface IEditorConfig {
      * User-configurable.
      */
     contentTypeCacheRefreshInterval: number;
+    /**
+     * The URL at which the H5P client loads and saves the user data of
+     * content (e.g. the state of a presentation to resume it later).
+     */
+    contentUserDataUrl: string;
+    /**
+     * The interval (in seconds) in which the H5P client saves the state of
+     * content. Set to false to disable saving the state.
+     */
+    contentUserStateSaveInterval: number | false;
+    /**
+     * How the content parameters are validated when content is saved:
+     * 'strict' rejects content with invalid parameters, 'lenient' removes or
+     * corrects the invalid parts of the parameters.
+     */
+    contentValidationMode: 'strict' | 'lenient';
     /**
      * A list of file extensions allowed for content files.
      * Contains file extensions (without .) separated by whitespaces.
@@ -891,6 +1434,12 @@ export interface IEditorConfig {
      * Path to the H5P core files directory.
      */
     coreUrl: string;
+    /**
+     * The display options used for content that doesn't override them. The
+     * buttons for downloading, copying and embedding are only shown to users
+     * with the respective permissions.
+     */
+    displayOptions: IDisplayOptions;
     /**
      * Path to the downloadable H5P packages.
      */
@@ -899,12 +1448,24 @@ export interface IEditorConfig {
      * Path to editor "core files"
      */
     editorLibraryUrl: string;
+    /**
+     * The URL at which content is displayed in a page that can be embedded
+     * into other sites with an iframe.
+     */
+    embedUrl: string;
     /**
      * If set to true, the content types that require a Learning Record Store to make sense are
      * offered as a choice when the user creates new content.
      * User-configurable.
      */
     enableLrsContentTypes: boolean;
+    /**
+     * If set to true, the player sends the xAPI statements emitted by content
+     * to the server (at xapiUrl), where they are stored and optionally
+     * forwarded to a Learning Record Store (see lrsEndpoint).
+     * Requires an xAPI statement store to be passed to H5PEditor.
+     */
+    enableXapiTracking: boolean;
     /**
      * Unclear. Taken over from PHP implementation and sent to the H5P Hub when registering the site.
      * User-configurable.
@@ -922,6 +1483,14 @@ export interface IEditorConfig {
      * User-configurable.
      */
     hubContentTypesEndpoint: string;
+    /**
+     * The directory of a local mirror of the H5P Hub (see HubMirror). If set,
+     * the information about content types and the packages of content types
+     * are read from this directory instead of being downloaded from the H5P
+     * Hub, which allows installing content types on servers without internet
+     * access.
+     */
+    hubMirrorPath?: string;
     /**
      * The URL called to register the running instance at the H5P Hub.
      * User-configurable.
@@ -937,11 +1506,23 @@ export interface IEditorConfig {
      * (All extensions allowed for content files are also automatically allowed for libraries).
      */
     libraryWhitelist: string;
+    /**
+     * The value of the Authorization header sent to the Learning Record Store
+     * (e.g. 'Basic dXNlcjpwYXNzd29yZA=='). Leave empty if the LRS doesn't
+     * require authorization.
+     */
+    lrsAuthorization: string;
     /**
      * The list of content types that are enabled when enableLrsContentTypes is set to true.
      * Not user-configurable.
      */
     lrsContentTypes: string[];
+    /**
+     * The xAPI endpoint of a Learning Record Store (without /statements) to
+     * which received xAPI statements are forwarded. Leave empty to only store
+     * statements locally.
+     */
+    lrsEndpoint: string;
     /**
      * The maximum allowed file size of content and library files (in bytes).
      */
@@ -968,6 +1549,18 @@ export interface IEditorConfig {
      * The Url at which content can be displayed.
      */
     playUrl: string;
+    /**
+     * The URL at which the script that resizes the iframes of embedded
+     * content (h5p-resizer.js of the core) is served. Other sites include it
+     * together with the embed code.
+     */
+    resizerUrl: string;
+    /**
+     * The URL to which the player posts the results of users when they have
+     * finished content (setFinished) and at which the results can be
+     * retrieved.
+     */
+    resultsUrl: string;
     /**
      * If true, the instance will send usage statistics to the H5P Hub whenever it looks for new content types or updates.
      * User-configurable.
@@ -979,6 +1572,12 @@ export interface IEditorConfig {
      * (If possible.)
      */
     siteType: 'local' | 'network' | 'internet';
+    /**
+     * The absolute URL of the site (protocol, host and port, e.g.
+     * https://example.com) that is prepended to the URLs in the embed code of
+     * content. Must be set for embed codes to work on other sites.
+     */
+    siteUrl: string;
     /*
      * Temporary files will be deleted after this time. (in milliseconds)
      */
@@ -990,6 +1589,10 @@ export interface IEditorConfig {
     temporaryFilesUrl: string;
 
     uuid: string;
+    /**
+     * The URL to which the player posts xAPI statements.
+     */
+    xapiUrl: string;
 
     /**
      * Loads all changeable settings from storage. (Should be called when the system initializes.)
@@ -1069,6 +1672,445 @@ export interface ITemporaryFileStorage {
     ): Promise<ITemporaryFile>;
 }
 
+/**
+ * The result of upgrading a single piece of content to a new version of a
+ * library.
+ */
+export interface IContentUpgradeResult {
+    contentId: ContentId;
+    /**
+     * The error message if the upgrade failed.
+     */
+    error?: string;
+    /**
+     * - upgraded: the content uses an older version of the library and was
+     *   upgraded (or would have been upgraded in dry-run mode)
+     * - up-to-date: the content doesn't use an older version of the library
+     * - failed: the upgrade failed; the content was not changed
+     */
+    status: 'upgraded' | 'up-to-date' | 'failed';
+    /**
+     * The versions of the library that were upgraded in the content (as
+     * ubernames, e.g. H5P.Example-1.0). Contains more than one entry if
+     * different versions of the library are used as sub-content.
+     */
+    upgradedFrom: string[];
+}
+
+/**
+ * An immutable snapshot of a piece of content at the time it was saved.
+ */
+export interface IContentRevision {
+    contentId: ContentId;
+    /**
+     * The time the revision was created.
+     */
+    createdAt: Date;
+    /**
+     * The files of the content at the time of the revision. Maps the filename
+     * (as used in the parameters) to the SHA-256 hash of the file's data. The
+     * data itself is stored in the revision storage under this hash.
+     */
+    files: { [filename: string]: string };
+    /**
+     * The metadata of the content (= h5p.json)
+     */
+    metadata: IContentMetadata;
+    /**
+     * The parameters of the content (= content.json)
+     */
+    parameters: ContentParameters;
+    /**
+     * If the revision was created by restoring an older revision, this is the
+     * number of the older revision.
+     */
+    restoredFrom?: number;
+    /**
+     * The number of the revision. Revisions of a piece of content are numbered
+     * consecutively, starting with 1.
+     */
+    revisionId: number;
+    /**
+     * The id of the user who saved the content.
+     */
+    userId: string;
+}
+
+/**
+ * A single difference between two revisions.
+ */
+export interface IRevisionDifference {
+    /**
+     * The value in the newer revision (undefined if it was removed).
+     */
+    newValue?: any;
+    /**
+     * The value in the older revision (undefined if it was added).
+     */
+    oldValue?: any;
+    /**
+     * The JSON path of the value that was changed, relative to an object with
+     * the properties parameters, metadata and files (e.g.
+     * $.parameters.questions[0].text).
+     */
+    path: string;
+    type: 'added' | 'removed' | 'changed';
+}
+
+/**
+ * Implementations need to implement the IRevisionStorage interface and pass
+ * it to H5PEditor to enable the revision history of content. The revision
+ * storage must never change or remove revisions and files, as they are used
+ * to restore content later.
+ * See the FileRevisionStorage sample implementation for more details.
+ */
+export interface IRevisionStorage {
+    /**
+     * Stores a file of a revision. Files are identified by the hash of their
+     * data, so files that haven't changed between revisions are only stored
+     * once.
+     * @param hash the SHA-256 hash of the file's data
+     * @param readStream the stream containing the file's data
+     */
+    addFile(hash: string, readStream: Stream): Promise<void>;
+
+    /**
+     * Stores a new revision and assigns the next free number to it. The
+     * number must be allocated atomically: concurrent calls for the same
+     * content must never get the same number.
+     * @param revision the revision to store (without its number)
+     * @returns the number of the new revision
+     */
+    addRevision(
+        revision: Omit<IContentRevision, 'revisionId'>
+    ): Promise<number>;
+
+    /**
+     * Checks if a file with this hash has been stored.
+     * @param hash the SHA-256 hash of the file's data
+     * @returns true if the file exists
+     */
+    fileExists(hash: string): Promise<boolean>;
+
+    /**
+     * Returns a readable stream of a stored file.
+     * @param hash the SHA-256 hash of the file's data
+     * @returns the stream
+     */
+    getFileStream(hash: string): Promise<ReadStream>;
+
+    /**
+     * Loads a revision.
+     * @param contentId the content the revision belongs to
+     * @param revisionId the number of the revision
+     * @returns the revision or undefined if there is no such revision
+     */
+    getRevision(
+        contentId: ContentId,
+        revisionId: number
+    ): Promise<IContentRevision>;
+
+    /**
+     * Lists the revisions of a piece of content.
+     * @param contentId the content
+     * @returns the numbers of the revisions (in ascending order)
+     */
+    listRevisions(contentId: ContentId): Promise<number[]>;
+}
+
+/**
+ * The display options control which parts of the frame around content the H5P
+ * client shows.
+ */
+export interface IDisplayOptions {
+    /**
+     * Show the "Reuse" button that allows copying the content
+     */
+    copy: boolean;
+    /**
+     * Show the "Rights of use" button that displays the copyright information
+     */
+    copyright: boolean;
+    /**
+     * Show the "Embed" button that displays the embed code
+     */
+    embed: boolean;
+    /**
+     * Show the "Download" button that allows downloading the .h5p package
+     */
+    export: boolean;
+    /**
+     * Show the action bar below the content
+     */
+    frame: boolean;
+    /**
+     * Show the H5P icon in the action bar
+     */
+    icon: boolean;
+}
+
+/**
+ * Data that the H5P client stores for a user in a piece of content, e.g. the
+ * state of the content used to resume it later.
+ */
+export interface IContentUserData {
+    contentId: ContentId;
+    /**
+     * The type of data (e.g. 'state'), as set by the content type
+     */
+    dataType: string;
+    /**
+     * If true, the data is deleted when the parameters of the content change,
+     * as it probably can't be used with the changed content anymore.
+     */
+    invalidate: boolean;
+    /**
+     * If true, the data is added to the player integration when the content
+     * is displayed (the H5P client only resumes the state if it is preloaded).
+     */
+    preload: boolean;
+    /**
+     * The id of the sub-content the data belongs to ('0' for the main
+     * content)
+     */
+    subContentId: string;
+    userId: string;
+    /**
+     * The data as sent by the H5P client (usually serialized JSON)
+     */
+    userState: string;
+}
+
+/**
+ * Implementations need to implement the IContentUserDataStorage interface and
+ * pass it to H5PEditor to allow the H5P client to save and load the user data
+ * of content (e.g. to resume content after reloading the page).
+ * See the FileContentUserDataStorage sample implementation for more details.
+ */
+export interface IContentUserDataStorage {
+    /**
+     * Stores user data. Replaces existing data of the same user, data type and
+     * sub-content.
+     * @param data the data to store
+     */
+    createOrUpdateContentUserData(data: IContentUserData): Promise<void>;
+
+    /**
+     * Deletes the user data of all users in a piece of content.
+     * @param contentId the content
+     */
+    deleteAllContentUserDataByContentId(contentId: ContentId): Promise<void>;
+
+    /**
+     * Deletes user data. Does nothing if there is no such data.
+     * @param contentId the content
+     * @param dataType the type of data
+     * @param subContentId the sub-content ('0' for the main content)
+     * @param userId the user
+     */
+    deleteContentUserData(
+        contentId: ContentId,
+        dataType: string,
+        subContentId: string,
+        userId: string
+    ): Promise<void>;
+
+    /**
+     * Deletes the user data of all users in a piece of content that was
+     * saved with the invalidate flag.
+     * @param contentId the content
+     */
+    deleteInvalidatedContentUserData(contentId: ContentId): Promise<void>;
+
+    /**
+     * Loads user data.
+     * @param contentId the content
+     * @param dataType the type of data
+     * @param subContentId the sub-content ('0' for the main content)
+     * @param userId the user
+     * @returns the data or undefined if there is none
+     */
+    getContentUserData(
+        contentId: ContentId,
+        dataType: string,
+        subContentId: string,
+        userId: string
+    ): Promise<IContentUserData>;
+
+    /**
+     * Lists all user data of a user in a piece of content.
+     * @param contentId the content
+     * @param userId the user
+     * @returns the data (empty if there is none)
+     */
+    listContentUserDataByUser(
+        contentId: ContentId,
+        userId: string
+    ): Promise<IContentUserData[]>;
+}
+
+/**
+ * The result a user achieved in a piece of content, as reported by the H5P
+ * client when the user has finished the content (setFinished).
+ */
+export interface IContentUserResult {
+    contentId: ContentId;
+    /**
+     * The time the user finished the content (Unix timestamp in seconds)
+     */
+    finished: number;
+    maxScore: number;
+    /**
+     * The time the user opened the content (Unix timestamp in seconds)
+     */
+    opened: number;
+    score: number;
+    /**
+     * The time the user spent on the content in seconds (0 if the content
+     * type doesn't report it)
+     */
+    time: number;
+    userId: string;
+}
+
+/**
+ * Implementations need to implement the IContentUserResultStorage interface
+ * and pass it to H5PEditor to store the results users achieve in content.
+ * Only the latest result of a user in a piece of content is kept.
+ * See the FileContentUserResultStorage sample implementation for more
+ * details.
+ */
+export interface IContentUserResultStorage {
+    /**
+     * Lists the results of all users in a piece of content.
+     * @param contentId the content
+     * @returns the results (empty if there are none)
+     */
+    getResultsByContent(contentId: ContentId): Promise<IContentUserResult[]>;
+
+    /**
+     * Lists the results of a user in all pieces of content.
+     * @param userId the user
+     * @returns the results (empty if there are none)
+     */
+    getResultsByUser(userId: string): Promise<IContentUserResult[]>;
+
+    /**
+     * Stores the result of a user. Replaces the previous result of the user
+     * in the content.
+     * @param result the result to store
+     */
+    saveResult(result: IContentUserResult): Promise<void>;
+}
+
+/**
+ * An xAPI statement emitted by a piece of content together with the
+ * information needed to find it again.
+ */
+export interface IXapiStatementRecord {
+    contentId: ContentId;
+    /**
+     * The xAPI statement as sent by the H5P client
+     */
+    statement: any;
+    /**
+     * The time the statement was received by the server.
+     */
+    storedAt: Date;
+    /**
+     * The id of the user who emitted the statement
+     */
+    userId: string;
+}
+
+/**
+ * Implementations need to implement the IXapiStatementStore interface and
+ * pass it to H5PEditor to store the xAPI statements the H5P client posts.
+ * See the FileXapiStatementStore sample implementation for more details.
+ */
+export interface IXapiStatementStore {
+    /**
+     * Stores xAPI statements.
+     * @param records the statements to store
+     */
+    addStatements(records: IXapiStatementRecord[]): Promise<void>;
+
+    /**
+     * Gets the stored statements of a piece of content.
+     * @param contentId the content
+     * @param userId (optional) only returns the statements of this user
+     * @returns the statements in the order in which they were stored
+     */
+    getStatements(
+        contentId: ContentId,
+        userId?: string
+    ): Promise<IXapiStatementRecord[]>;
+}
+
+/**
+ * The optional collaborators of H5PEditor. Features whose storage isn't set
+ * are disabled.
+ */
+export interface IH5PEditorOptions {
+    /**
+     * The storage for the user data of content (e.g. the state used to
+     * resume content); if set, the H5P client can save and load user data
+     * (see H5PEditor.contentUserDataManager).
+     */
+    contentUserDataStorage?: IContentUserDataStorage;
+    /**
+     * The storage for the results users achieve in content; if set, the
+     * results reported by the player are stored (see
+     * H5PEditor.contentUserResultManager).
+     */
+    contentUserResultStorage?: IContentUserResultStorage;
+    /**
+     * The permission system that decides who can do what; if not set, the
+     * permissions are taken from the content storage and the flags of the
+     * user objects.
+     */
+    permissionSystem?: IPermissionSystem;
+    /**
+     * The storage for the revision history of content; if set, every save
+     * creates a revision that can be restored later (see
+     * H5PEditor.revisionManager).
+     */
+    revisionStorage?: IRevisionStorage;
+    /**
+     * The storage for the xAPI statements posted by the player; if set,
+     * statements are received (see H5PEditor.xapiStatementManager) and
+     * forwarded to the LRS set in the configuration.
+     */
+    xapiStatementStore?: IXapiStatementStore;
+}
+
+/**
+ * The optional collaborators of H5PPlayer. Features whose collaborator isn't
+ * set are disabled.
+ */
+export interface IH5PPlayerOptions {
+    /**
+     * The asset aggregator (see H5PEditor.assetAggregator); if set, the
+     * scripts and styles of the libraries are combined into bundles.
+     */
+    assetAggregator?: AssetAggregator;
+    /**
+     * The user data manager (see H5PEditor.contentUserDataManager); if set,
+     * the H5P client saves the state of content for users and resumes it.
+     */
+    contentUserDataManager?: ContentUserDataManager;
+    /**
+     * The result manager (see H5PEditor.contentUserResultManager); if set,
+     * the H5P client posts the results of users who have finished content.
+     */
+    contentUserResultManager?: ContentUserResultManager;
+    /**
+     * The permission system (see H5PEditor.getPermissionSystem); if set,
+     * users must be allowed to view content to render it.
+     */
+    permissionSystem?: IPermissionSystem;
+}
+
 /**
  * This function returns the (relative) URL at which a file inside a library
  * can be accessed. It is used when URLs of library files must be inserted
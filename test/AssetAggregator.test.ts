@@ -0,0 +1,227 @@
+import fsExtra from 'fs-extra';
+import path from 'path';
+import { withDir } from 'tmp-promise';
+
+import AssetAggregator from '../src/AssetAggregator';
+import EditorConfig from '../src/implementation/EditorConfig';
+import FileLibraryStorage from '../src/implementation/fs/FileLibraryStorage';
+import InMemoryStorage from '../src/implementation/InMemoryStorage';
+import LibraryManager from '../src/LibraryManager';
+import { IAssetBundleLibrary } from '../src/types';
+
+describe('AssetAggregator', () => {
+    /**
+     * Writes a library with a script and a style to a directory from which it
+     * can be installed.
+     */
+    async function writeLibrary(
+        directory: string,
+        machineName: string,
+        patchVersion: number,
+        script: string,
+        style: string
+    ): Promise<string> {
+        const libraryPath = path.join(
+            directory,
+            `${machineName}-1.0.${patchVersion}`
+        );
+        await fsExtra.outputJSON(path.join(libraryPath, 'library.json'), {
+            machineName,
+            majorVersion: 1,
+            minorVersion: 0,
+            patchVersion,
+            preloadedCss: [{ path: 'css/style.css' }],
+            preloadedJs: [{ path: 'script.js' }],
+            runnable: 0,
+            title: machineName
+        });
+        await fsExtra.outputFile(path.join(libraryPath, 'script.js'), script);
+        await fsExtra.outputFile(
+            path.join(libraryPath, 'css', 'style.css'),
+            style
+        );
+        return libraryPath;
+    }
+
+    function bundleLibrary(
+        machineName: string,
+        patchVersion: number
+    ): IAssetBundleLibrary {
+        return {
+            library: {
+                machineName,
+                majorVersion: 1,
+                minorVersion: 0,
+                patchVersion
+            },
+            scripts: ['script.js'],
+            styles: ['css/style.css']
+        };
+    }
+
+    async function setup(
+        tempPath: string
+    ): Promise<{
+        aggregator: AssetAggregator;
+        libraryManager: LibraryManager;
+    }> {
+        const libraryManager = new LibraryManager(
+            new FileLibraryStorage(path.join(tempPath, 'libraries'))
+        );
+        await libraryManager.installFromDirectory(
+            await writeLibrary(
+                path.join(tempPath, 'packages'),
+                'H5P.Dependency',
+                1,
+                'var dependency = 1',
+                '.dependency { background: url("../images/bg.png"); }'
+            )
+        );
+        await libraryManager.installFromDirectory(
+            await writeLibrary(
+                path.join(tempPath, 'packages'),
+                'H5P.Main',
+                1,
+                'var main = 1;',
+                '.main { background: url(data:image/png;base64,AAAA); }'
+            )
+        );
+        const aggregator = new AssetAggregator(
+            libraryManager,
+            new InMemoryStorage(),
+            new EditorConfig(null, { baseUrl: '/h5p' })
+        );
+        return { aggregator, libraryManager };
+    }
+
+    it('combines the scripts and styles of libraries into bundles', async () => {
+        await withDir(
+            async ({ path: tempDirPath }) => {
+                const { aggregator } = await setup(tempDirPath);
+
+                const assets = await aggregator.createBundles([
+                    bundleLibrary('H5P.Dependency', 1),
+                    bundleLibrary('H5P.Main', 1)
+                ]);
+                expect(assets.scripts).toEqual([
+                    expect.stringMatching(/^\/h5p\/assets\/[0-9a-f]{40}\.js$/)
+                ]);
+                expect(assets.styles).toEqual([
+                    expect.stringMatching(/^\/h5p\/assets\/[0-9a-f]{40}\.css$/)
+                ]);
+
+                expect(
+                    await aggregator.getBundle(path.basename(assets.scripts[0]))
+                ).toEqual('var dependency = 1;\nvar main = 1;');
+                expect(
+                    await aggregator.getBundle(path.basename(assets.styles[0]))
+                ).toEqual(
+                    [
+                        '.dependency { background: url("/h5p/libraries/H5P.Dependency-1.0/images/bg.png"); }',
+                        '.main { background: url(data:image/png;base64,AAAA); }'
+                    ].join('\n')
+                );
+            },
+            { keep: false, unsafeCleanup: true }
+        );
+    });
+
+    it("doesn't lose bundles that are created concurrently", async () => {
+        await withDir(
+            async ({ path: tempDirPath }) => {
+                const { aggregator } = await setup(tempDirPath);
+
+                const assets = await Promise.all([
+                    aggregator.createBundles([
+                        bundleLibrary('H5P.Dependency', 1)
+                    ]),
+                    aggregator.createBundles([bundleLibrary('H5P.Main', 1)]),
+                    aggregator.createBundles([
+                        bundleLibrary('H5P.Dependency', 1),
+                        bundleLibrary('H5P.Main', 1)
+                    ])
+                ]);
+                for (const { scripts } of assets) {
+                    await expect(
+                        aggregator.getBundle(path.basename(scripts[0]))
+                    ).resolves.toContain('var');
+                }
+            },
+            { keep: false, unsafeCleanup: true }
+        );
+    });
+
+    it('uses the same bundle for the same libraries and minifies it', async () => {
+        await withDir(
+            async ({ path: tempDirPath }) => {
+                const { aggregator } = await setup(tempDirPath);
+                aggregator.useMinifier({
+                    minify: async (code, type) =>
+                        `/* ${type} */${code.replace(/\s/g, '')}`
+                });
+
+                const assets1 = await aggregator.createBundles([
+                    bundleLibrary('H5P.Dependency', 1),
+                    bundleLibrary('H5P.Main', 1)
+                ]);
+                const assets2 = await aggregator.createBundles([
+                    bundleLibrary('H5P.Main', 1),
+                    bundleLibrary('H5P.Dependency', 1)
+                ]);
+                expect(assets2).toEqual(assets1);
+                expect(
+                    await aggregator.getBundle(
+                        path.basename(assets1.scripts[0])
+                    )
+                ).toEqual('/* js */vardependency=1;varmain=1;');
+
+                await expect(
+                    aggregator.getBundle(`${'0'.repeat(40)}.js`)
+                ).rejects.toThrow('asset-bundle-not-found');
+                await expect(
+                    aggregator.getBundle('../library.json')
+                ).rejects.toThrow('asset-bundle-not-found');
+            },
+            { keep: false, unsafeCleanup: true }
+        );
+    });
+
+    it('removes the bundles of libraries that are updated', async () => {
+        await withDir(
+            async ({ path: tempDirPath }) => {
+                const { aggregator, libraryManager } = await setup(tempDirPath);
+                const oldAssets = await aggregator.createBundles([
+                    bundleLibrary('H5P.Dependency', 1),
+                    bundleLibrary('H5P.Main', 1)
+                ]);
+                const oldBundle = path.basename(oldAssets.scripts[0]);
+                await aggregator.getBundle(oldBundle);
+
+                await libraryManager.installFromDirectory(
+                    await writeLibrary(
+                        path.join(tempDirPath, 'packages'),
+                        'H5P.Dependency',
+                        2,
+                        'var dependency = 2',
+                        ''
+                    )
+                );
+
+                await expect(aggregator.getBundle(oldBundle)).rejects.toThrow(
+                    'asset-bundle-not-found'
+                );
+                const newAssets = await aggregator.createBundles([
+                    bundleLibrary('H5P.Dependency', 2),
+                    bundleLibrary('H5P.Main', 1)
+                ]);
+                expect(newAssets.scripts).not.toEqual(oldAssets.scripts);
+                expect(
+                    await aggregator.getBundle(
+                        path.basename(newAssets.scripts[0])
+                    )
+                ).toEqual('var dependency = 2;\nvar main = 1;');
+            },
+            { keep: false, unsafeCleanup: true }
+        );
+    });
+});
@@ -227,11 +227,13 @@ describe('ContentManager', () => {
                         user1
                     )
                 ).toString();
+                const user2 = new User();
+                user2.id = '2';
                 const contentId3 = (
                     await contentManager.createOrUpdateContent(
                         mockupMetadata,
                         mockupParameters,
-                        new User()
+                        user2
                     )
                 ).toString();
 
@@ -241,13 +243,12 @@ describe('ContentManager', () => {
                 expect(contentIdsAllUsers).toMatchObject(
                     [contentId1, contentId2, contentId3].sort()
                 );
-                // TODO: add later when FileContentStorage supports user access rights
-                /*const contentIdsUser1 = (
+                const contentIdsUser1 = (
                     await contentManager.listContent(user1)
                 ).sort();
                 expect(contentIdsUser1).toMatchObject(
                     [contentId1, contentId2].sort()
-                );*/
+                );
             },
             { keep: false, unsafeCleanup: true }
         );
@@ -0,0 +1,353 @@
+import * as fsExtra from 'fs-extra';
+import * as path from 'path';
+import { withDir } from 'tmp-promise';
+
+import ContentParameterFilter from '../src/ContentParameterFilter';
+import { filterHtml } from '../src/helpers/HtmlFilter';
+import FileLibraryStorage from '../src/implementation/fs/FileLibraryStorage';
+import LibraryManager from '../src/LibraryManager';
+import { ISemanticsEntry } from '../src/types';
+
+const mainSemantics: ISemanticsEntry[] = [
+    {
+        name: 'text',
+        tags: ['p', 'strong', 'a'],
+        type: 'text'
+    },
+    {
+        maxLength: 5,
+        name: 'shortText',
+        type: 'text'
+    },
+    {
+        name: 'url',
+        regexp: { pattern: '^https?://', modifiers: 'i' },
+        type: 'text'
+    },
+    {
+        max: 10,
+        min: 0,
+        name: 'number',
+        steps: 2,
+        type: 'number'
+    },
+    {
+        name: 'checkbox',
+        type: 'boolean'
+    },
+    {
+        default: 'b',
+        name: 'select',
+        options: [
+            { value: 'a', label: 'A' },
+            { value: 'b', label: 'B' }
+        ],
+        type: 'select'
+    },
+    {
+        field: { name: 'entry', type: 'text' },
+        max: 2,
+        name: 'list',
+        type: 'list'
+    },
+    {
+        fields: [
+            { name: 'first', type: 'text' },
+            { name: 'second', type: 'number' }
+        ],
+        name: 'group',
+        type: 'group'
+    },
+    {
+        name: 'image',
+        type: 'image'
+    },
+    {
+        name: 'subContent',
+        options: ['H5P.Sub 1.0'],
+        type: 'library'
+    }
+];
+
+const subSemantics: ISemanticsEntry[] = [
+    {
+        name: 'subText',
+        type: 'text'
+    }
+];
+
+/**
+ * Creates a library directory with library.json and semantics.json that can
+ * be read by FileLibraryStorage.
+ */
+async function createLibrary(
+    libraryDir: string,
+    machineName: string,
+    semantics: ISemanticsEntry[]
+): Promise<void> {
+    const directory = path.join(libraryDir, `${machineName}-1.0`);
+    await fsExtra.ensureDir(directory);
+    await fsExtra.writeJSON(path.join(directory, 'library.json'), {
+        machineName,
+        majorVersion: 1,
+        minorVersion: 0,
+        patchVersion: 0,
+        runnable: 1,
+        title: machineName
+    });
+    await fsExtra.writeJSON(path.join(directory, 'semantics.json'), semantics);
+}
+
+async function withParameterFilter(
+    callback: (filter: ContentParameterFilter) => Promise<void>
+): Promise<void> {
+    await withDir(
+        async ({ path: tmpDirPath }) => {
+            await createLibrary(tmpDirPath, 'H5P.Main', mainSemantics);
+            await createLibrary(tmpDirPath, 'H5P.Sub', subSemantics);
+            await callback(
+                new ContentParameterFilter(
+                    new LibraryManager(new FileLibraryStorage(tmpDirPath))
+                )
+            );
+        },
+        { keep: false, unsafeCleanup: true }
+    );
+}
+
+const mainLibrary = {
+    machineName: 'H5P.Main',
+    majorVersion: 1,
+    minorVersion: 0
+};
+
+describe('HtmlFilter', () => {
+    it('removes disallowed tags and dangerous attributes', () => {
+        expect(
+            filterHtml(
+                '<p onclick="alert(1)">a<script>alert(1)</script><a href="javascript:alert(1)">b</a></p>',
+                ['p', 'a']
+            )
+        ).toEqual('<p>aalert(1)<a href="alert(1)">b</a></p>');
+    });
+
+    it('removes protocols hidden by entities', () => {
+        expect(
+            filterHtml('<a href="javascript&#58;alert(1)">b</a>', ['a'])
+        ).toEqual('<a href="alert(1)">b</a>');
+    });
+
+    it('keeps allowed styles only', () => {
+        expect(
+            filterHtml(
+                '<p style="text-align: center; position: fixed">a</p>',
+                ['p'],
+                [/^text-align: *(center|left|right);?$/i]
+            )
+        ).toEqual('<p style="text-align: center">a</p>');
+    });
+});
+
+describe('ContentParameterFilter', () => {
+    it('leaves valid parameters untouched', async () => {
+        await withParameterFilter(async filter => {
+            const params = {
+                checkbox: true,
+                group: { first: 'first', second: 3 },
+                image: { path: 'images/image.png', mime: 'image/png' },
+                list: ['a', 'b'],
+                number: 4,
+                select: 'a',
+                shortText: 'short',
+                subContent: {
+                    library: 'H5P.Sub 1.0',
+                    params: { subText: 'sub' },
+                    subContentId: '0c2ed8b1-7fc9-4e1a-9f3c-8b1a0bcbd6f5'
+                },
+                text: '<p>Some <strong>bold</strong> text</p>',
+                url: 'https://h5p.org'
+            };
+            const result = await filter.filterParams(params, mainLibrary);
+            expect(result.violations).toEqual([]);
+            expect(result.params).toEqual(params);
+        });
+    });
+
+    it('fixes invalid values and reports the violations', async () => {
+        await withParameterFilter(async filter => {
+            const params = {
+                checkbox: 'yes',
+                group: { first: 1, unknown: 'x' },
+                image: {
+                    evil: 'x',
+                    mime: 'image/png',
+                    path: 'images/image.png'
+                },
+                list: ['a', 'b', 'c'],
+                number: 13,
+                select: 'c',
+                shortText: 'too long',
+                text: '<p>Text<script>alert(1)</script></p>',
+                unknownField: 'x',
+                url: 'ftp://h5p.org'
+            };
+            const result = await filter.filterParams(params, mainLibrary);
+            expect(result.params).toEqual({
+                checkbox: false,
+                group: { first: '' },
+                image: { mime: 'image/png', path: 'images/image.png' },
+                list: ['a', 'b'],
+                number: 10,
+                select: 'b',
+                shortText: 'too l',
+                text: '<p>Textalert(1)</p>',
+                url: ''
+            });
+            expect(result.violations.map(v => v.errorId).sort()).toEqual(
+                [
+                    'semantics-html-tags-removed',
+                    'semantics-invalid-boolean',
+                    'semantics-invalid-select-option',
+                    'semantics-invalid-text',
+                    'semantics-list-too-long',
+                    'semantics-number-too-large',
+                    'semantics-text-regexp-mismatch',
+                    'semantics-text-too-long',
+                    'semantics-unknown-field',
+                    'semantics-unknown-field',
+                    'semantics-unknown-field'
+                ].sort()
+            );
+            expect(
+                result.violations.find(
+                    v => v.errorId === 'semantics-list-too-long'
+                ).replacements.path
+            ).toEqual('$.list');
+            // the original parameters must not be changed
+            expect(params.shortText).toEqual('too long');
+        });
+    });
+
+    it('escapes text without allowed tags', async () => {
+        await withParameterFilter(async filter => {
+            const result = await filter.filterParams(
+                { group: { first: '<b>' } },
+                mainLibrary
+            );
+            expect(result.params.group.first).toEqual('&lt;b&gt;');
+        });
+    });
+
+    it('rounds numbers to the allowed steps', async () => {
+        await withParameterFilter(async filter => {
+            const result = await filter.filterParams(
+                { number: 5.2 },
+                mainLibrary
+            );
+            expect(result.params.number).toEqual(6);
+            expect(result.violations[0].errorId).toEqual(
+                'semantics-number-step-mismatch'
+            );
+        });
+    });
+
+    it('removes libraries that are not allowed', async () => {
+        await withParameterFilter(async filter => {
+            const wrongVersion = await filter.filterParams(
+                {
+                    subContent: {
+                        library: 'H5P.Sub 2.0',
+                        params: {}
+                    }
+                },
+                mainLibrary
+            );
+            expect(wrongVersion.params).toEqual({});
+            expect(wrongVersion.violations[0].errorId).toEqual(
+                'semantics-library-wrong-version'
+            );
+
+            const notAllowed = await filter.filterParams(
+                {
+                    subContent: {
+                        library: 'H5P.Main 1.0',
+                        params: {}
+                    }
+                },
+                mainLibrary
+            );
+            expect(notAllowed.params).toEqual({});
+            expect(notAllowed.violations[0].errorId).toEqual(
+                'semantics-library-not-allowed'
+            );
+        });
+    });
+
+    it('filters the parameters of sub content', async () => {
+        await withParameterFilter(async filter => {
+            const result = await filter.filterParams(
+                {
+                    subContent: {
+                        evil: 'x',
+                        library: 'H5P.Sub 1.0',
+                        metadata: { title: '<script>' },
+                        params: { subText: '<script>', unknown: 1 },
+                        subContentId: 'invalid'
+                    }
+                },
+                mainLibrary
+            );
+            expect(result.params).toEqual({
+                subContent: {
+                    library: 'H5P.Sub 1.0',
+                    metadata: { title: '&lt;script&gt;' },
+                    params: { subText: '&lt;script&gt;' }
+                }
+            });
+            expect(result.violations.map(v => v.errorId).sort()).toEqual([
+                'semantics-invalid-sub-content-id',
+                'semantics-unknown-field',
+                'semantics-unknown-field'
+            ]);
+        });
+    });
+
+    it('removes invalid list entries and files', async () => {
+        await withParameterFilter(async filter => {
+            const result = await filter.filterParams(
+                {
+                    image: { mime: 'image/png' },
+                    list: 'not a list'
+                },
+                mainLibrary
+            );
+            expect(result.params).toEqual({});
+            expect(result.violations.map(v => v.errorId).sort()).toEqual([
+                'semantics-invalid-file',
+                'semantics-invalid-list'
+            ]);
+        });
+    });
+
+    it('filters copyright information of files', async () => {
+        await withParameterFilter(async filter => {
+            const result = await filter.filterParams(
+                {
+                    image: {
+                        copyright: {
+                            author: '<b>Me</b>',
+                            license: 'invalid',
+                            unknown: 'x'
+                        },
+                        path: 'images/image.png'
+                    }
+                },
+                mainLibrary
+            );
+            expect(result.params.image.copyright).toEqual({
+                author: '&lt;b&gt;Me&lt;/b&gt;',
+                license: 'U'
+            });
+        });
+    });
+});
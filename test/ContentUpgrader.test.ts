@@ -0,0 +1,464 @@
+import fsExtra from 'fs-extra';
+import path from 'path';
+import { withDir } from 'tmp-promise';
+
+import ContentUpgrader from '../src/ContentUpgrader';
+import H5PEditor from '../src/H5PEditor';
+import EditorConfig from '../src/implementation/EditorConfig';
+import DirectoryTemporaryFileStorage from '../src/implementation/fs/DirectoryTemporaryFileStorage';
+import FileContentStorage from '../src/implementation/fs/FileContentStorage';
+import FileLibraryStorage from '../src/implementation/fs/FileLibraryStorage';
+import InMemoryStorage from '../src/implementation/InMemoryStorage';
+import { IContentMetadata } from '../src/types';
+
+import User from '../examples/User';
+
+describe('ContentUpgrader', () => {
+    const upgradesScript = `
+        H5PUpgrades['H5P.Example'] = {
+            1: {
+                1: function (parameters, finished, extras) {
+                    parameters.text = parameters.greeting;
+                    delete parameters.greeting;
+                    finished(null, parameters, extras);
+                }
+            },
+            2: {
+                0: function (parameters, finished, extras) {
+                    parameters.texts = [parameters.text];
+                    delete parameters.text;
+                    parameters.environment = typeof process;
+                    finished(null, parameters, extras);
+                }
+            }
+        };`;
+
+    async function installLibrary(
+        h5pEditor: H5PEditor,
+        tempPath: string,
+        machineName: string,
+        majorVersion: number,
+        minorVersion: number,
+        upgrades?: string
+    ): Promise<void> {
+        const directory = path.join(
+            tempPath,
+            'src',
+            `${machineName}-${majorVersion}.${minorVersion}`
+        );
+        await fsExtra.ensureDir(directory);
+        await fsExtra.writeJSON(path.join(directory, 'library.json'), {
+            machineName,
+            majorVersion,
+            minorVersion,
+            patchVersion: 0,
+            runnable: true,
+            title: machineName
+        });
+        if (upgrades) {
+            await fsExtra.writeFile(
+                path.join(directory, 'upgrades.js'),
+                upgrades
+            );
+        }
+        await h5pEditor.libraryManager.installFromDirectory(directory);
+    }
+
+    async function createH5PEditor(
+        tempPath: string,
+        upgrades: string = upgradesScript
+    ): Promise<H5PEditor> {
+        const keyValueStorage = new InMemoryStorage();
+        const h5pEditor = new H5PEditor(
+            keyValueStorage,
+            new EditorConfig(keyValueStorage),
+            new FileLibraryStorage(path.join(tempPath, 'libraries')),
+            new FileContentStorage(path.join(tempPath, 'content')),
+            new DirectoryTemporaryFileStorage(path.join(tempPath, 'tmp'))
+        );
+        await installLibrary(h5pEditor, tempPath, 'H5P.Example', 1, 0);
+        await installLibrary(
+            h5pEditor,
+            tempPath,
+            'H5P.Example',
+            2,
+            0,
+            upgrades
+        );
+        await installLibrary(h5pEditor, tempPath, 'H5P.Container', 1, 0);
+        return h5pEditor;
+    }
+
+    function createMetadata(mainLibrary: string): IContentMetadata {
+        const metadata: IContentMetadata = {
+            embedTypes: ['iframe'],
+            language: 'en',
+            license: 'U',
+            mainLibrary,
+            preloadedDependencies: [
+                { machineName: mainLibrary, majorVersion: 1, minorVersion: 0 }
+            ],
+            title: 'Example'
+        };
+        return metadata;
+    }
+
+    it('upgrades the main library and rewrites the dependencies', async () => {
+        await withDir(
+            async ({ path: tempDirPath }) => {
+                const h5pEditor = await createH5PEditor(tempDirPath);
+                const user = new User();
+                const contentId = await h5pEditor.contentManager.createOrUpdateContent(
+                    createMetadata('H5P.Example'),
+                    { greeting: 'Hello world!' },
+                    user
+                );
+
+                const result = await h5pEditor.contentUpgrader.upgradeContent(
+                    contentId,
+                    {
+                        machineName: 'H5P.Example',
+                        majorVersion: 2,
+                        minorVersion: 0
+                    },
+                    user
+                );
+
+                expect(result).toEqual({
+                    contentId,
+                    status: 'upgraded',
+                    upgradedFrom: ['H5P.Example-1.0']
+                });
+                expect(
+                    await h5pEditor.contentManager.loadContent(contentId, user)
+                ).toEqual({
+                    environment: 'undefined',
+                    texts: ['Hello world!']
+                });
+                const metadata = await h5pEditor.contentManager.loadH5PJson(
+                    contentId,
+                    user
+                );
+                expect(metadata.title).toEqual('Example');
+                expect(metadata.preloadedDependencies).toEqual([
+                    {
+                        machineName: 'H5P.Example',
+                        majorVersion: 2,
+                        minorVersion: 0
+                    }
+                ]);
+            },
+            { keep: false, unsafeCleanup: true }
+        );
+    });
+
+    it('upgrades sub-content and reports up-to-date content', async () => {
+        await withDir(
+            async ({ path: tempDirPath }) => {
+                const h5pEditor = await createH5PEditor(tempDirPath);
+                const user = new User();
+                const metadata = createMetadata('H5P.Container');
+                metadata.preloadedDependencies.push({
+                    machineName: 'H5P.Example',
+                    majorVersion: 1,
+                    minorVersion: 0
+                });
+                const containerId = await h5pEditor.contentManager.createOrUpdateContent(
+                    metadata,
+                    {
+                        children: [
+                            {
+                                library: 'H5P.Example 1.0',
+                                params: { greeting: 'first' }
+                            },
+                            {
+                                library: 'H5P.Example 2.0',
+                                params: { texts: ['second'] }
+                            }
+                        ]
+                    },
+                    user
+                );
+                const otherId = await h5pEditor.contentManager.createOrUpdateContent(
+                    createMetadata('H5P.Container'),
+                    { children: [] },
+                    user
+                );
+
+                const results = await h5pEditor.contentUpgrader.upgradeAllContent(
+                    {
+                        machineName: 'H5P.Example',
+                        majorVersion: 2,
+                        minorVersion: 0
+                    },
+                    user
+                );
+
+                expect(results).toContainEqual({
+                    contentId: containerId.toString(),
+                    status: 'upgraded',
+                    upgradedFrom: ['H5P.Example-1.0']
+                });
+                expect(results).toContainEqual({
+                    contentId: otherId.toString(),
+                    status: 'up-to-date',
+                    upgradedFrom: []
+                });
+                expect(
+                    await h5pEditor.contentManager.loadContent(
+                        containerId,
+                        user
+                    )
+                ).toEqual({
+                    children: [
+                        {
+                            library: 'H5P.Example 2.0',
+                            params: {
+                                environment: 'undefined',
+                                texts: ['first']
+                            }
+                        },
+                        {
+                            library: 'H5P.Example 2.0',
+                            params: { texts: ['second'] }
+                        }
+                    ]
+                });
+                expect(
+                    (
+                        await h5pEditor.contentManager.loadH5PJson(
+                            containerId,
+                            user
+                        )
+                    ).preloadedDependencies
+                ).toContainEqual({
+                    machineName: 'H5P.Example',
+                    majorVersion: 2,
+                    minorVersion: 0
+                });
+            },
+            { keep: false, unsafeCleanup: true }
+        );
+    });
+
+    it("doesn't save anything in dry-run mode", async () => {
+        await withDir(
+            async ({ path: tempDirPath }) => {
+                const h5pEditor = await createH5PEditor(tempDirPath);
+                const user = new User();
+                const contentId = await h5pEditor.contentManager.createOrUpdateContent(
+                    createMetadata('H5P.Example'),
+                    { greeting: 'Hello world!' },
+                    user
+                );
+
+                const results = await h5pEditor.contentUpgrader.upgradeAllContent(
+                    {
+                        machineName: 'H5P.Example',
+                        majorVersion: 2,
+                        minorVersion: 0
+                    },
+                    user,
+                    true
+                );
+
+                expect(results).toEqual([
+                    {
+                        contentId: contentId.toString(),
+                        status: 'upgraded',
+                        upgradedFrom: ['H5P.Example-1.0']
+                    }
+                ]);
+                expect(
+                    await h5pEditor.contentManager.loadContent(contentId, user)
+                ).toEqual({ greeting: 'Hello world!' });
+            },
+            { keep: false, unsafeCleanup: true }
+        );
+    });
+
+    it('reports failing and endless upgrade scripts', async () => {
+        await withDir(
+            async ({ path: tempDirPath }) => {
+                const h5pEditor = await createH5PEditor(
+                    tempDirPath,
+                    `H5PUpgrades['H5P.Example'] = {
+                        1: {
+                            1: function (parameters, finished) {
+                                finished(new Error('broken'));
+                            }
+                        },
+                        2: {
+                            0: function (parameters, finished) {
+                                while (true) {}
+                            }
+                        }
+                    };`
+                );
+                const user = new User();
+                const contentId = await h5pEditor.contentManager.createOrUpdateContent(
+                    createMetadata('H5P.Example'),
+                    { greeting: 'Hello world!' },
+                    user
+                );
+                const oldTimeout = ContentUpgrader.timeout;
+                ContentUpgrader.timeout = 100;
+
+                const failed = await h5pEditor.contentUpgrader.upgradeContent(
+                    contentId,
+                    {
+                        machineName: 'H5P.Example',
+                        majorVersion: 2,
+                        minorVersion: 0
+                    },
+                    user
+                );
+                const timedOut = await h5pEditor.contentUpgrader.upgradeContent(
+                    contentId,
+                    {
+                        machineName: 'H5P.Example',
+                        majorVersion: 2,
+                        minorVersion: 0
+                    },
+                    user
+                );
+                // The first step is skipped when upgrading from 1.1.
+                const metadata = createMetadata('H5P.Example');
+                metadata.preloadedDependencies[0].minorVersion = 1;
+                await h5pEditor.contentManager.createOrUpdateContent(
+                    metadata,
+                    { greeting: 'Hello world!' },
+                    user,
+                    contentId
+                );
+                const timedOutFrom11 = await h5pEditor.contentUpgrader.upgradeContent(
+                    contentId,
+                    {
+                        machineName: 'H5P.Example',
+                        majorVersion: 2,
+                        minorVersion: 0
+                    },
+                    user
+                );
+                ContentUpgrader.timeout = oldTimeout;
+
+                expect(failed.status).toEqual('failed');
+                expect(failed.error).toEqual('content-upgrade-step-failed');
+                expect(timedOut.status).toEqual('failed');
+                expect(timedOutFrom11.status).toEqual('failed');
+                expect(timedOutFrom11.error).toMatch(/timed out/);
+                expect(
+                    await h5pEditor.contentManager.loadContent(contentId, user)
+                ).toEqual({ greeting: 'Hello world!' });
+            },
+            { keep: false, unsafeCleanup: true }
+        );
+    });
+
+    it("doesn't give upgrade scripts access to the host", async () => {
+        await withDir(
+            async ({ path: tempDirPath }) => {
+                const h5pEditor = await createH5PEditor(
+                    tempDirPath,
+                    `H5PUpgrades['H5P.Example'] = {
+                        2: {
+                            0: function (parameters, finished) {
+                                parameters.pid = H5P.constructor.constructor(
+                                    'return process.pid'
+                                )();
+                                finished(null, parameters);
+                            }
+                        }
+                    };`
+                );
+                const user = new User();
+                const contentId = await h5pEditor.contentManager.createOrUpdateContent(
+                    createMetadata('H5P.Example'),
+                    { greeting: 'Hello world!' },
+                    user
+                );
+
+                const result = await h5pEditor.contentUpgrader.upgradeContent(
+                    contentId,
+                    {
+                        machineName: 'H5P.Example',
+                        majorVersion: 2,
+                        minorVersion: 0
+                    },
+                    user
+                );
+                expect(result.status).toEqual('failed');
+                expect(result.error).toMatch(/Code generation from strings/);
+                expect(
+                    await h5pEditor.contentManager.loadContent(contentId, user)
+                ).toEqual({ greeting: 'Hello world!' });
+            },
+            { keep: false, unsafeCleanup: true }
+        );
+    });
+
+    it("doesn't run code of upgrade scripts outside of the context", async () => {
+        await withDir(
+            async ({ path: tempDirPath }) => {
+                const h5pEditor = await createH5PEditor(
+                    tempDirPath,
+                    `H5PUpgrades['H5P.Example'] = {
+                        2: {
+                            0: function (parameters, finished) {
+                                JSON.stringify = function () {
+                                    return {
+                                        toString: function () {
+                                            return '{"params":{"host":true}}';
+                                        }
+                                    };
+                                };
+                                finished(null, parameters);
+                            }
+                        }
+                    };`
+                );
+                const user = new User();
+                const contentId = await h5pEditor.contentManager.createOrUpdateContent(
+                    createMetadata('H5P.Example'),
+                    { greeting: 'Hello world!' },
+                    user
+                );
+
+                const result = await h5pEditor.contentUpgrader.upgradeContent(
+                    contentId,
+                    {
+                        machineName: 'H5P.Example',
+                        majorVersion: 2,
+                        minorVersion: 0
+                    },
+                    user
+                );
+                expect(result.status).toEqual('failed');
+                expect(result.error).toEqual('content-upgrade-not-finished');
+                expect(
+                    await h5pEditor.contentManager.loadContent(contentId, user)
+                ).toEqual({ greeting: 'Hello world!' });
+            },
+            { keep: false, unsafeCleanup: true }
+        );
+    });
+
+    it('throws an error if the target library is not installed', async () => {
+        await withDir(
+            async ({ path: tempDirPath }) => {
+                const h5pEditor = await createH5PEditor(tempDirPath);
+                await expect(
+                    h5pEditor.contentUpgrader.upgradeAllContent(
+                        {
+                            machineName: 'H5P.Example',
+                            majorVersion: 3,
+                            minorVersion: 0
+                        },
+                        new User()
+                    )
+                ).rejects.toThrow('content-upgrade-library-not-installed');
+            },
+            { keep: false, unsafeCleanup: true }
+        );
+    });
+});
@@ -0,0 +1,228 @@
+import path from 'path';
+import { withDir } from 'tmp-promise';
+
+import ContentManager from '../src/ContentManager';
+import ContentUserDataManager from '../src/ContentUserDataManager';
+import FileContentStorage from '../src/implementation/fs/FileContentStorage';
+import FileContentUserDataStorage from '../src/implementation/fs/FileContentUserDataStorage';
+import { ContentId, IContentMetadata } from '../src/types';
+
+import User from '../examples/User';
+
+describe('ContentUserDataManager', () => {
+    const metadata: IContentMetadata = {
+        embedTypes: ['iframe'],
+        language: 'en',
+        license: 'U',
+        mainLibrary: 'H5P.Example',
+        preloadedDependencies: [
+            { machineName: 'H5P.Example', majorVersion: 1, minorVersion: 0 }
+        ],
+        title: 'Example'
+    };
+
+    async function setup(
+        tempPath: string
+    ): Promise<{
+        contentId: ContentId;
+        contentManager: ContentManager;
+        manager: ContentUserDataManager;
+    }> {
+        const contentManager = new ContentManager(
+            new FileContentStorage(path.join(tempPath, 'content'))
+        );
+        const manager = new ContentUserDataManager(
+            contentManager,
+            new FileContentUserDataStorage(path.join(tempPath, 'user-data'))
+        );
+        const contentId = await contentManager.createOrUpdateContent(
+            metadata,
+            { text: 'original' },
+            new User()
+        );
+        return { contentId, contentManager, manager };
+    }
+
+    it('saves, loads and deletes user data', async () => {
+        await withDir(
+            async ({ path: tempDirPath }) => {
+                const { contentId, manager } = await setup(tempDirPath);
+                const user = new User();
+
+                expect(
+                    await manager.getContentUserData(
+                        contentId,
+                        'state',
+                        '0',
+                        user
+                    )
+                ).toBeUndefined();
+
+                await manager.createOrUpdateContentUserData(
+                    contentId,
+                    'state',
+                    '0',
+                    '{"progress":3}',
+                    true,
+                    true,
+                    user
+                );
+                await manager.createOrUpdateContentUserData(
+                    contentId,
+                    'answers',
+                    'd1a9e2c4-0f14-4b7e-9c1c-5f6a2f0b1e3d',
+                    '[1,2]',
+                    false,
+                    false,
+                    user
+                );
+                expect(
+                    await manager.getContentUserData(
+                        contentId,
+                        'state',
+                        '0',
+                        user
+                    )
+                ).toEqual('{"progress":3}');
+                expect(
+                    await manager.generateContentUserDataIntegration(
+                        contentId,
+                        user
+                    )
+                ).toEqual({ 0: { state: '{"progress":3}' } });
+
+                await manager.deleteContentUserData(
+                    contentId,
+                    'state',
+                    '0',
+                    user
+                );
+                expect(
+                    await manager.getContentUserData(
+                        contentId,
+                        'state',
+                        '0',
+                        user
+                    )
+                ).toBeUndefined();
+            },
+            { keep: false, unsafeCleanup: true }
+        );
+    });
+
+    it('rejects invalid identifiers and unknown content', async () => {
+        await withDir(
+            async ({ path: tempDirPath }) => {
+                const { contentId, manager } = await setup(tempDirPath);
+                const user = new User();
+
+                await expect(
+                    manager.getContentUserData(contentId, '../state', '0', user)
+                ).rejects.toThrow('content-user-data-invalid-identifiers');
+                await expect(
+                    manager.getContentUserData('999', 'state', '0', user)
+                ).rejects.toThrow('content-not-found');
+            },
+            { keep: false, unsafeCleanup: true }
+        );
+    });
+
+    it('deletes invalidated user data when the parameters change', async () => {
+        await withDir(
+            async ({ path: tempDirPath }) => {
+                const { contentId, contentManager, manager } = await setup(
+                    tempDirPath
+                );
+                const user = new User();
+                await manager.createOrUpdateContentUserData(
+                    contentId,
+                    'state',
+                    '0',
+                    '{"progress":3}',
+                    true,
+                    true,
+                    user
+                );
+                await manager.createOrUpdateContentUserData(
+                    contentId,
+                    'settings',
+                    '0',
+                    '{"volume":1}',
+                    false,
+                    false,
+                    user
+                );
+
+                // only the metadata changes
+                await contentManager.createOrUpdateContent(
+                    { ...metadata, title: 'Changed' },
+                    { text: 'original' },
+                    user,
+                    contentId
+                );
+                expect(
+                    await manager.getContentUserData(
+                        contentId,
+                        'state',
+                        '0',
+                        user
+                    )
+                ).toEqual('{"progress":3}');
+
+                await contentManager.createOrUpdateContent(
+                    metadata,
+                    { text: 'changed' },
+                    user,
+                    contentId
+                );
+                expect(
+                    await manager.getContentUserData(
+                        contentId,
+                        'state',
+                        '0',
+                        user
+                    )
+                ).toBeUndefined();
+                expect(
+                    await manager.getContentUserData(
+                        contentId,
+                        'settings',
+                        '0',
+                        user
+                    )
+                ).toEqual('{"volume":1}');
+            },
+            { keep: false, unsafeCleanup: true }
+        );
+    });
+
+    it('deletes all user data when the content is deleted', async () => {
+        await withDir(
+            async ({ path: tempDirPath }) => {
+                const { contentId, contentManager, manager } = await setup(
+                    tempDirPath
+                );
+                const user = new User();
+                await manager.createOrUpdateContentUserData(
+                    contentId,
+                    'settings',
+                    '0',
+                    '{"volume":1}',
+                    false,
+                    true,
+                    user
+                );
+
+                await contentManager.deleteContent(contentId, user);
+
+                expect(
+                    await manager.generateContentUserDataIntegration(
+                        contentId,
+                        user
+                    )
+                ).toEqual({});
+            },
+            { keep: false, unsafeCleanup: true }
+        );
+    });
+});
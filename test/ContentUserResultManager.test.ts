@@ -0,0 +1,199 @@
+import path from 'path';
+import { withDir } from 'tmp-promise';
+
+import ContentManager from '../src/ContentManager';
+import ContentUserResultManager from '../src/ContentUserResultManager';
+import FileContentStorage from '../src/implementation/fs/FileContentStorage';
+import FileContentUserResultStorage from '../src/implementation/fs/FileContentUserResultStorage';
+import { ContentId, IContentMetadata, IUser, Permission } from '../src/types';
+
+import User from '../examples/User';
+
+describe('ContentUserResultManager', () => {
+    const metadata: IContentMetadata = {
+        embedTypes: ['iframe'],
+        language: 'en',
+        license: 'U',
+        mainLibrary: 'H5P.Example',
+        preloadedDependencies: [
+            { machineName: 'H5P.Example', majorVersion: 1, minorVersion: 0 }
+        ],
+        title: 'Example'
+    };
+
+    function createUser(id: string): IUser {
+        const user = new User();
+        user.id = id;
+        return user;
+    }
+
+    async function setup(
+        tempPath: string
+    ): Promise<{
+        contentIds: ContentId[];
+        contentStorage: FileContentStorage;
+        manager: ContentUserResultManager;
+    }> {
+        const contentStorage = new FileContentStorage(
+            path.join(tempPath, 'content')
+        );
+        const contentManager = new ContentManager(contentStorage);
+        const contentIds = [
+            await contentManager.createOrUpdateContent(
+                metadata,
+                {},
+                new User()
+            ),
+            await contentManager.createOrUpdateContent(metadata, {}, new User())
+        ];
+        const manager = new ContentUserResultManager(
+            contentManager,
+            new FileContentUserResultStorage(path.join(tempPath, 'results'))
+        );
+        return { contentIds, contentStorage, manager };
+    }
+
+    it('stores the latest result of users and returns it per content and user', async () => {
+        await withDir(
+            async ({ path: tempDirPath }) => {
+                const {
+                    contentIds: [firstId, secondId],
+                    manager
+                } = await setup(tempDirPath);
+                const user1 = createUser('1');
+                const user2 = createUser('2');
+
+                await manager.setFinished(
+                    firstId,
+                    { finished: 110, maxScore: 10, opened: 100, score: 3 },
+                    user1
+                );
+                await manager.setFinished(
+                    firstId,
+                    {
+                        finished: 220,
+                        maxScore: 10,
+                        opened: 200,
+                        score: 8,
+                        time: 20
+                    },
+                    user1
+                );
+                await manager.setFinished(
+                    firstId,
+                    { finished: 130, maxScore: 10, opened: 100, score: 5 },
+                    user2
+                );
+                await manager.setFinished(
+                    secondId,
+                    { finished: 140, maxScore: 4, opened: 100, score: 4 },
+                    user1
+                );
+
+                const contentResults = await manager.getResultsByContent(
+                    firstId,
+                    user1
+                );
+                expect(contentResults.length).toEqual(2);
+                expect(
+                    contentResults.find(result => result.userId === '1')
+                ).toEqual({
+                    contentId: firstId,
+                    finished: 220,
+                    maxScore: 10,
+                    opened: 200,
+                    score: 8,
+                    time: 20,
+                    userId: '1'
+                });
+
+                const userResults = await manager.getResultsByUser('1', user1);
+                expect(
+                    userResults
+                        .map(result => result.contentId.toString())
+                        .sort()
+                ).toEqual([firstId.toString(), secondId.toString()].sort());
+                expect(await manager.getResultsByUser('3', user1)).toEqual([]);
+            },
+            { keep: false, unsafeCleanup: true }
+        );
+    });
+
+    it('rejects invalid results and unknown content', async () => {
+        await withDir(
+            async ({ path: tempDirPath }) => {
+                const {
+                    contentIds: [contentId],
+                    manager
+                } = await setup(tempDirPath);
+                const user = new User();
+
+                await expect(
+                    manager.setFinished(
+                        contentId,
+                        { finished: 110, maxScore: 10, opened: 100, score: 11 },
+                        user
+                    )
+                ).rejects.toThrow('user-result-invalid');
+                await expect(
+                    manager.setFinished(
+                        contentId,
+                        { finished: NaN, maxScore: 10, opened: 100, score: 1 },
+                        user
+                    )
+                ).rejects.toThrow('user-result-invalid');
+                await expect(
+                    manager.setFinished(
+                        '999',
+                        { finished: 110, maxScore: 10, opened: 100, score: 1 },
+                        user
+                    )
+                ).rejects.toThrow('content-not-found');
+            },
+            { keep: false, unsafeCleanup: true }
+        );
+    });
+
+    it('only returns results of other users for content the user can edit', async () => {
+        await withDir(
+            async ({ path: tempDirPath }) => {
+                const {
+                    contentIds: [firstId, secondId],
+                    contentStorage,
+                    manager
+                } = await setup(tempDirPath);
+                const student = createUser('2');
+                const teacher = createUser('1');
+                for (const contentId of [firstId, secondId]) {
+                    await manager.setFinished(
+                        contentId,
+                        { finished: 110, maxScore: 10, opened: 100, score: 5 },
+                        student
+                    );
+                }
+
+                jest.spyOn(
+                    contentStorage,
+                    'getUserPermissions'
+                ).mockImplementation(async (contentId, user) =>
+                    user.id === '1' &&
+                    contentId.toString() === firstId.toString()
+                        ? [Permission.Edit, Permission.View]
+                        : [Permission.View]
+                );
+
+                const results = await manager.getResultsByUser('2', teacher);
+                expect(results.map(result => result.contentId)).toEqual([
+                    firstId
+                ]);
+                expect(
+                    (await manager.getResultsByUser('2', student)).length
+                ).toEqual(2);
+                await expect(
+                    manager.getResultsByContent(secondId, teacher)
+                ).rejects.toThrow('content-permission-denied');
+            },
+            { keep: false, unsafeCleanup: true }
+        );
+    });
+});
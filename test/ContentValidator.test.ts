@@ -0,0 +1,168 @@
+import * as fsExtra from 'fs-extra';
+import * as path from 'path';
+import { withDir } from 'tmp-promise';
+
+import ContentValidator from '../src/ContentValidator';
+import AggregateH5pError from '../src/helpers/AggregateH5pError';
+import FileLibraryStorage from '../src/implementation/fs/FileLibraryStorage';
+import LibraryManager from '../src/LibraryManager';
+
+const mainLibrary = {
+    machineName: 'H5P.Main',
+    majorVersion: 1,
+    minorVersion: 0
+};
+
+async function withLibraryManager(
+    callback: (libraryManager: LibraryManager) => Promise<void>
+): Promise<void> {
+    await withDir(
+        async ({ path: tmpDirPath }) => {
+            const directory = path.join(tmpDirPath, 'H5P.Main-1.0');
+            await fsExtra.ensureDir(directory);
+            await fsExtra.writeJSON(path.join(directory, 'library.json'), {
+                machineName: 'H5P.Main',
+                majorVersion: 1,
+                minorVersion: 0,
+                patchVersion: 0,
+                runnable: 1,
+                title: 'Main'
+            });
+            await fsExtra.writeJSON(path.join(directory, 'semantics.json'), [
+                { name: 'text', tags: ['p'], type: 'text' },
+                {
+                    field: {
+                        name: 'content',
+                        options: ['H5P.Main 1.0', 'H5P.Missing 1.0'],
+                        type: 'library'
+                    },
+                    name: 'contents',
+                    type: 'list'
+                }
+            ]);
+            await callback(
+                new LibraryManager(new FileLibraryStorage(tmpDirPath))
+            );
+        },
+        { keep: false, unsafeCleanup: true }
+    );
+}
+
+describe('ContentValidator', () => {
+    it('accepts valid parameters in strict mode', async () => {
+        await withLibraryManager(async libraryManager => {
+            const validator = new ContentValidator(libraryManager, 'strict');
+            const params = {
+                contents: [
+                    {
+                        library: 'H5P.Main 1.0',
+                        params: { text: '<p>nested</p>' }
+                    }
+                ],
+                text: '<p>text</p>'
+            };
+            await expect(
+                validator.validate(params, mainLibrary)
+            ).resolves.toEqual(params);
+        });
+    });
+
+    it('accepts text whose entities are only normalized in strict mode', async () => {
+        await withLibraryManager(async libraryManager => {
+            const validator = new ContentValidator(libraryManager, 'strict');
+            await expect(
+                validator.validate(
+                    { text: '<p>Tom & Jerry: 1 < 2 &amp; 2 > 1</p>' },
+                    mainLibrary
+                )
+            ).resolves.toEqual({
+                text: '<p>Tom &amp; Jerry: 1 &lt; 2 &amp; 2 &gt; 1</p>'
+            });
+        });
+    });
+
+    it('rejects invalid parameters in strict mode', async () => {
+        await withLibraryManager(async libraryManager => {
+            const validator = new ContentValidator(libraryManager, 'strict');
+            let error: AggregateH5pError;
+            try {
+                await validator.validate(
+                    {
+                        contents: [
+                            {
+                                library: 'H5P.Unknown 1.0',
+                                params: {}
+                            }
+                        ],
+                        text: '<script>alert(1)</script>'
+                    },
+                    mainLibrary
+                );
+            } catch (e) {
+                error = e;
+            }
+            expect(error).toBeInstanceOf(AggregateH5pError);
+            expect(error.errorId).toEqual('content-validation-failed');
+            expect(
+                error.getErrors().map(e => ({
+                    errorId: e.errorId,
+                    path: e.replacements.path
+                }))
+            ).toEqual([
+                { errorId: 'semantics-html-tags-removed', path: '$.text' },
+                {
+                    errorId: 'semantics-library-not-allowed',
+                    path: '$.contents[0]'
+                }
+            ]);
+        });
+    });
+
+    it('fixes invalid parameters in lenient mode', async () => {
+        await withLibraryManager(async libraryManager => {
+            const validator = new ContentValidator(libraryManager, 'lenient');
+            await expect(
+                validator.validate(
+                    {
+                        contents: [
+                            {
+                                library: 'H5P.Unknown 1.0',
+                                params: {}
+                            },
+                            {
+                                library: 'H5P.Main 1.0',
+                                params: {
+                                    text: '<p onclick="alert(1)">nested</p>'
+                                }
+                            }
+                        ],
+                        text: '<script>alert(1)</script>'
+                    },
+                    mainLibrary
+                )
+            ).resolves.toEqual({
+                contents: [
+                    {
+                        library: 'H5P.Main 1.0',
+                        params: { text: '<p>nested</p>' }
+                    }
+                ],
+                text: 'alert(1)'
+            });
+        });
+    });
+
+    it('rejects sub content libraries that are not installed', async () => {
+        await withLibraryManager(async libraryManager => {
+            const validator = new ContentValidator(libraryManager, 'strict');
+            await expect(
+                validator.validate(
+                    {
+                        contents: [{ library: 'H5P.Missing 1.0', params: {} }]
+                    },
+                    mainLibrary
+                )
+            ).rejects.toThrow('semantics-library-not-installed');
+        });
+    });
+});
@@ -1,4 +1,5 @@
 import fsExtra from 'fs-extra';
+import path from 'path';
 import { Readable } from 'stream';
 import { withDir } from 'tmp-promise';
 
@@ -183,4 +184,195 @@ describe('FileContentStorage (repository that saves content objects to a local d
             { keep: false, unsafeCleanup: true }
         );
     });
+
+    it('records the owner and lists content by owner', async () => {
+        await withDir(
+            async ({ path: tempDirPath }) => {
+                const storage = new FileContentStorage(tempDirPath);
+                const user1 = new User();
+                const user2 = new User();
+                user2.id = '2';
+
+                const id1 = await storage.createContent(
+                    createMetadataMock(),
+                    {},
+                    user1
+                );
+                const id2 = await storage.createContent(
+                    createMetadataMock(),
+                    {},
+                    user2
+                );
+                // updating content of another user doesn't change the owner
+                await storage.createContent(
+                    createMetadataMock(),
+                    {},
+                    user1,
+                    id2
+                );
+
+                expect(await storage.listContent(user1)).toEqual([
+                    id1.toString()
+                ]);
+                expect(await storage.listContent(user2)).toEqual([
+                    id2.toString()
+                ]);
+                expect((await storage.listContent()).sort()).toEqual(
+                    [id1.toString(), id2.toString()].sort()
+                );
+                expect(await storage.getContentFiles(id1, user1)).toEqual([]);
+            },
+            { keep: false, unsafeCleanup: true }
+        );
+    });
+
+    it('returns metadata summaries with timestamps', async () => {
+        await withDir(
+            async ({ path: tempDirPath }) => {
+                const storage = new FileContentStorage(tempDirPath);
+                const user = new User();
+                const metadata = {
+                    ...createMetadataMock(),
+                    mainLibrary: 'H5P.Example',
+                    title: 'My content'
+                };
+
+                const before = new Date();
+                const id = await storage.createContent(metadata, {}, user);
+                const summary = await storage.getContentMetadataSummary(id);
+                expect(summary).toMatchObject({
+                    contentId: id,
+                    mainLibrary: 'H5P.Example',
+                    owner: user.id,
+                    title: 'My content'
+                });
+                expect(summary.created.getTime()).toBeGreaterThanOrEqual(
+                    before.getTime()
+                );
+                expect(summary.modified).toEqual(summary.created);
+
+                await new Promise(resolve => setTimeout(resolve, 10));
+                await storage.createContent(
+                    { ...metadata, title: 'Renamed' },
+                    {},
+                    user,
+                    id
+                );
+                const updatedSummary = await storage.getContentMetadataSummary(
+                    id
+                );
+                expect(updatedSummary.title).toEqual('Renamed');
+                expect(updatedSummary.created).toEqual(summary.created);
+                expect(updatedSummary.modified.getTime()).toBeGreaterThan(
+                    summary.modified.getTime()
+                );
+            },
+            { keep: false, unsafeCleanup: true }
+        );
+    });
+
+    it('returns metadata summaries of content without storage metadata', async () => {
+        await withDir(
+            async ({ path: tempDirPath }) => {
+                await fsExtra.ensureDir(path.join(tempDirPath, '1'));
+                await fsExtra.writeJSON(
+                    path.join(tempDirPath, '1', 'h5p.json'),
+                    { ...createMetadataMock(), title: 'Old content' }
+                );
+                const storage = new FileContentStorage(tempDirPath);
+
+                const summary = await storage.getContentMetadataSummary('1');
+                expect(summary.title).toEqual('Old content');
+                expect(summary.owner).toBeUndefined();
+                expect(summary.modified.getTime()).toBeGreaterThan(0);
+                expect(await storage.listContent(new User())).toEqual([]);
+                await expect(
+                    storage.getContentMetadataSummary('2')
+                ).rejects.toThrow(
+                    'storage-file-implementations:content-not-found'
+                );
+            },
+            { keep: false, unsafeCleanup: true }
+        );
+    });
+
+    it('saves display options of content without storage metadata', async () => {
+        await withDir(
+            async ({ path: tempDirPath }) => {
+                await fsExtra.ensureDir(path.join(tempDirPath, '1'));
+                await fsExtra.writeJSON(
+                    path.join(tempDirPath, '1', 'h5p.json'),
+                    { ...createMetadataMock(), title: 'Old content' }
+                );
+                const storage = new FileContentStorage(tempDirPath);
+
+                await storage.setDisplayOptions('1', { frame: false });
+                expect(await storage.getDisplayOptions('1')).toEqual({
+                    frame: false
+                });
+                const summary = await storage.getContentMetadataSummary('1');
+                expect(summary.title).toEqual('Old content');
+                expect(summary.owner).toBeUndefined();
+                await expect(
+                    storage.setDisplayOptions('2', { frame: false })
+                ).rejects.toThrow(
+                    'storage-file-implementations:content-not-found'
+                );
+            },
+            { keep: false, unsafeCleanup: true }
+        );
+    });
+
+    it("doesn't give access to the storage metadata file", async () => {
+        await withDir(
+            async ({ path: tempDirPath }) => {
+                const storage = new FileContentStorage(tempDirPath);
+                const user = new User();
+                const id = await storage.createContent(
+                    createMetadataMock(),
+                    {},
+                    user
+                );
+
+                expect(
+                    await storage.contentFileExists(
+                        id,
+                        '.storage-metadata.json'
+                    )
+                ).toEqual(false);
+                expect(() =>
+                    storage.getContentFileStream(
+                        id,
+                        './.storage-metadata.json',
+                        user
+                    )
+                ).toThrow(
+                    'storage-file-implementations:content-file-not-found'
+                );
+                await expect(
+                    storage.getContentFileStats(
+                        id,
+                        '.storage-metadata.json',
+                        user
+                    )
+                ).rejects.toThrow(
+                    'storage-file-implementations:content-file-not-found'
+                );
+                await expect(
+                    storage.addContentFile(
+                        id,
+                        '.storage-metadata.json',
+                        fsExtra.createReadStream(__filename),
+                        user
+                    )
+                ).rejects.toThrow(
+                    'storage-file-implementations:reserved-content-filename'
+                );
+                expect(
+                    (await storage.getContentMetadataSummary(id)).owner
+                ).toEqual(user.id);
+            },
+            { keep: false, unsafeCleanup: true }
+        );
+    });
 });
@@ -0,0 +1,291 @@
+import fsExtra from 'fs-extra';
+import path from 'path';
+import { withDir } from 'tmp-promise';
+
+import ContentManager from '../src/ContentManager';
+import FileContentStorage from '../src/implementation/fs/FileContentStorage';
+import FilePermissionSystem from '../src/implementation/fs/FilePermissionSystem';
+import { GeneralPermission, IContentMetadata, Permission } from '../src/types';
+
+import User from '../examples/User';
+
+function createUser(id: string): User {
+    const user = new User();
+    user.id = id;
+    return user;
+}
+
+describe('FilePermissionSystem', () => {
+    const mockupMetadata: IContentMetadata = {
+        embedTypes: ['div'],
+        language: 'und',
+        license: 'U',
+        mainLibrary: 'H5P.GreetingCard',
+        preloadedDependencies: [
+            {
+                machineName: 'H5P.GreetingCard',
+                majorVersion: 1,
+                minorVersion: 0
+            }
+        ],
+        title: 'Greeting card'
+    };
+
+    const mockupParameters = { greeting: 'Hello world!' };
+
+    it('gives owners all permissions', async () => {
+        await withDir(
+            async ({ path: tempDirPath }) => {
+                const permissionSystem = new FilePermissionSystem(
+                    path.join(tempDirPath, 'permissions.json')
+                );
+                await permissionSystem.setContentOwner('1', createUser('1'));
+                expect(
+                    await permissionSystem.getContentPermissions(
+                        '1',
+                        createUser('1')
+                    )
+                ).toEqual([
+                    Permission.Delete,
+                    Permission.Download,
+                    Permission.Edit,
+                    Permission.Embed,
+                    Permission.View
+                ]);
+                expect(
+                    await permissionSystem.getContentPermissions(
+                        '1',
+                        createUser('2')
+                    )
+                ).toEqual([]);
+            },
+            { keep: false, unsafeCleanup: true }
+        );
+    });
+
+    it('combines permissions of roles and access control lists', async () => {
+        await withDir(
+            async ({ path: tempDirPath }) => {
+                const permissionSystem = new FilePermissionSystem(
+                    path.join(tempDirPath, 'permissions.json')
+                );
+                await permissionSystem.setRole('viewer', {
+                    content: [Permission.View],
+                    general: []
+                });
+                await permissionSystem.setUserRoles('2', ['viewer']);
+                await permissionSystem.grantContentPermissions('1', '2', [
+                    Permission.Edit,
+                    Permission.View
+                ]);
+
+                expect(
+                    await permissionSystem.getContentPermissions(
+                        '1',
+                        createUser('2')
+                    )
+                ).toEqual([Permission.Edit, Permission.View]);
+                expect(
+                    await permissionSystem.getContentPermissions(
+                        '3',
+                        createUser('2')
+                    )
+                ).toEqual([Permission.View]);
+
+                await permissionSystem.revokeContentPermissions('1', '2');
+                expect(
+                    await permissionSystem.getContentPermissions(
+                        '1',
+                        createUser('2')
+                    )
+                ).toEqual([Permission.View]);
+            },
+            { keep: false, unsafeCleanup: true }
+        );
+    });
+
+    it('uses the default roles for users without roles and anonymous users', async () => {
+        await withDir(
+            async ({ path: tempDirPath }) => {
+                const permissionSystem = new FilePermissionSystem(
+                    path.join(tempDirPath, 'permissions.json'),
+                    ['author']
+                );
+                await permissionSystem.setRole('author', {
+                    content: [Permission.View],
+                    general: [GeneralPermission.CreateContent]
+                });
+                await permissionSystem.setRole('admin', {
+                    content: [],
+                    general: [GeneralPermission.UpdateAndInstallLibraries]
+                });
+                await permissionSystem.setUserRoles('admin', ['admin']);
+
+                expect(
+                    await permissionSystem.hasGeneralPermission(
+                        GeneralPermission.CreateContent,
+                        createUser('1')
+                    )
+                ).toBe(true);
+                expect(
+                    await permissionSystem.hasGeneralPermission(
+                        GeneralPermission.CreateContent,
+                        undefined
+                    )
+                ).toBe(true);
+                expect(
+                    await permissionSystem.hasGeneralPermission(
+                        GeneralPermission.UpdateAndInstallLibraries,
+                        createUser('1')
+                    )
+                ).toBe(false);
+                expect(
+                    await permissionSystem.hasGeneralPermission(
+                        GeneralPermission.UpdateAndInstallLibraries,
+                        createUser('admin')
+                    )
+                ).toBe(true);
+                expect(
+                    await permissionSystem.hasGeneralPermission(
+                        GeneralPermission.CreateContent,
+                        createUser('admin')
+                    )
+                ).toBe(false);
+            },
+            { keep: false, unsafeCleanup: true }
+        );
+    });
+
+    it('persists the permissions in the file', async () => {
+        await withDir(
+            async ({ path: tempDirPath }) => {
+                const file = path.join(tempDirPath, 'permissions.json');
+                const permissionSystem = new FilePermissionSystem(file);
+                await permissionSystem.setContentOwner('1', createUser('1'));
+                await permissionSystem.setUserRoles('2', ['viewer']);
+
+                expect(await fsExtra.pathExists(file)).toBe(true);
+                const reloaded = new FilePermissionSystem(file);
+                expect(
+                    await reloaded.getContentPermissions('1', createUser('1'))
+                ).toContain(Permission.Delete);
+                expect(await reloaded.getUserRoles('2')).toEqual(['viewer']);
+
+                await reloaded.deleteContentPermissions('1');
+                expect(
+                    await new FilePermissionSystem(file).getContentPermissions(
+                        '1',
+                        createUser('1')
+                    )
+                ).toEqual([]);
+            },
+            { keep: false, unsafeCleanup: true }
+        );
+    });
+
+    it("doesn't lose concurrent changes", async () => {
+        await withDir(
+            async ({ path: tempDirPath }) => {
+                const file = path.join(tempDirPath, 'permissions.json');
+                await new FilePermissionSystem(file).setUserRoles('0', [
+                    'viewer'
+                ]);
+
+                const permissionSystem = new FilePermissionSystem(file);
+                const userIds = ['1', '2', '3', '4', '5', '6', '7', '8'];
+                await Promise.all(
+                    userIds.map(userId =>
+                        permissionSystem.grantContentPermissions('1', userId, [
+                            Permission.View
+                        ])
+                    )
+                );
+
+                const reloaded = new FilePermissionSystem(file);
+                expect(await reloaded.getUserRoles('0')).toEqual(['viewer']);
+                for (const userId of userIds) {
+                    expect(
+                        await reloaded.getContentPermissions(
+                            '1',
+                            createUser(userId)
+                        )
+                    ).toContain(Permission.View);
+                }
+            },
+            { keep: false, unsafeCleanup: true }
+        );
+    });
+
+    it('is used by the ContentManager to restrict access to content', async () => {
+        await withDir(
+            async ({ path: tempDirPath }) => {
+                const permissionSystem = new FilePermissionSystem(
+                    path.join(tempDirPath, 'permissions.json'),
+                    ['author']
+                );
+                await permissionSystem.setRole('author', {
+                    content: [],
+                    general: [GeneralPermission.CreateContent]
+                });
+                await permissionSystem.setRole('guest', {
+                    content: [],
+                    general: []
+                });
+                await permissionSystem.setUserRoles('guest', ['guest']);
+                const contentManager = new ContentManager(
+                    new FileContentStorage(path.join(tempDirPath, 'content')),
+                    permissionSystem
+                );
+                const owner = createUser('owner');
+                const other = createUser('other');
+
+                const contentId = await contentManager.createOrUpdateContent(
+                    mockupMetadata,
+                    mockupParameters,
+                    owner
+                );
+                await expect(
+                    contentManager.createOrUpdateContent(
+                        mockupMetadata,
+                        mockupParameters,
+                        createUser('guest')
+                    )
+                ).rejects.toThrow('content-create-forbidden');
+                await expect(
+                    contentManager.createOrUpdateContent(
+                        mockupMetadata,
+                        mockupParameters,
+                        other,
+                        contentId
+                    )
+                ).rejects.toThrow('content-permission-denied');
+
+                expect(await contentManager.listContent(owner)).toEqual([
+                    contentId.toString()
+                ]);
+                expect(await contentManager.listContent(other)).toEqual([]);
+
+                await permissionSystem.grantContentPermissions(
+                    contentId,
+                    other.id,
+                    [Permission.View]
+                );
+                expect(await contentManager.listContent(other)).toEqual([
+                    contentId.toString()
+                ]);
+
+                await expect(
+                    contentManager.deleteContent(contentId, other)
+                ).rejects.toThrow('content-permission-denied');
+                await contentManager.deleteContent(contentId, owner);
+                expect(
+                    await permissionSystem.getContentPermissions(
+                        contentId,
+                        other
+                    )
+                ).toEqual([]);
+            },
+            { keep: false, unsafeCleanup: true }
+        );
+    });
+});
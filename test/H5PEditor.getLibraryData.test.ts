@@ -351,6 +351,41 @@ describe('aggregating data from library folders for the editor', () => {
             });
     });
 
+    it('loads the default language of the content', async () => {
+        const h5pEditor = new H5PEditor(
+            null,
+            new EditorConfig(null),
+            null,
+            null,
+            null
+        );
+        const libraryManager = new LibraryManager(new FileLibraryStorage(''));
+
+        Object.assign(libraryManager, {
+            libraryExists: () => Promise.resolve(true),
+            listLanguages: () => Promise.resolve(['de', 'fr']),
+            loadLanguage: (library, language) =>
+                Promise.resolve(language === 'en' ? null : { language }),
+            loadLibrary: () =>
+                Promise.resolve({
+                    editorDependencies: []
+                }),
+            loadSemantics: () => Promise.resolve({})
+        });
+
+        h5pEditor.libraryManager = libraryManager;
+
+        const libraryData = await h5pEditor.getLibraryData(
+            'Foo',
+            '1',
+            '2',
+            'fr',
+            'de'
+        );
+        expect(libraryData.language).toEqual({ language: 'fr' });
+        expect(libraryData.defaultLanguage).toEqual({ language: 'de' });
+    });
+
     it('lists all available languages', () => {
         const listLanguages = jest.fn(() => {
             return Promise.resolve(['array', 'with', 'languages']);
@@ -197,6 +197,53 @@ describe('H5PEditor', () => {
         );
     });
 
+    it('saves display options with the content and merges them with the defaults', async () => {
+        await withDir(
+            async ({ path: tempDirPath }) => {
+                const { h5pEditor } = createH5PEditor(tempDirPath);
+                const user = new User();
+
+                await h5pEditor.libraryManager.installFromDirectory(
+                    path.resolve(
+                        'test/data/sample-content/H5P.GreetingCard-1.0'
+                    )
+                );
+
+                const contentId = await h5pEditor.saveH5P(
+                    undefined,
+                    mockupParametersWithoutImage,
+                    mockupMetadata,
+                    mockupMainLibraryName,
+                    user,
+                    { copy: true, frame: false }
+                );
+                expect(
+                    (await h5pEditor.loadH5P(contentId, user)).displayOptions
+                ).toEqual({
+                    copy: true,
+                    copyright: true,
+                    embed: false,
+                    export: true,
+                    frame: false,
+                    icon: true
+                });
+
+                // saving without display options keeps the existing ones
+                await h5pEditor.saveH5P(
+                    contentId,
+                    mockupParametersWithoutImage,
+                    mockupMetadata,
+                    mockupMainLibraryName,
+                    user
+                );
+                expect(
+                    await h5pEditor.contentManager.getDisplayOptions(contentId)
+                ).toEqual({ copy: true, frame: false });
+            },
+            { keep: false, unsafeCleanup: true }
+        );
+    });
+
     it('adds files to previously existing content and deletes them again', async () => {
         await withDir(
             async ({ path: tempDirPath }) => {
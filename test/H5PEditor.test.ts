@@ -63,4 +63,31 @@ describe('H5PEditor: general', () => {
             h5pEditor.installLibrary('H5P.Example1', new User())
         ).rejects.toThrow('Request failed with status code 500');
     });
+
+    it('renders the editor in the language of the user', async () => {
+        const h5pEditor = new H5PEditor(
+            new InMemoryStorage(),
+            new EditorConfig(new InMemoryStorage()),
+            null,
+            null,
+            null
+        ).useRenderer(model => model);
+
+        const englishModel: any = await h5pEditor.render(undefined);
+        expect(englishModel.integration.l10n.H5P.fullscreen).toEqual(
+            'Fullscreen'
+        );
+        expect(
+            englishModel.scripts.filter(script => script.includes('/language/'))
+        ).toEqual(['/h5p/editor/language/en.js']);
+
+        const germanModel: any = await h5pEditor.render(undefined, 'de-CH');
+        expect(germanModel.integration.l10n.H5P.fullscreen).toEqual('Vollbild');
+        expect(
+            germanModel.scripts.filter(script => script.includes('/language/'))
+        ).toEqual(['/h5p/editor/language/en.js', '/h5p/editor/language/de.js']);
+        expect(germanModel.integration.editor.assets.js).toContain(
+            '/h5p/editor/language/de.js'
+        );
+    });
 });
@@ -1,6 +1,8 @@
 import H5PPlayer from '../src/H5PPlayer';
 import EditorConfig from '../src/implementation/EditorConfig';
 
+import User from '../examples/User';
+
 describe('H5PPlayer.generateIntegration()', () => {
     it('should use the passed integration', () => {
         const integration = new H5PPlayer(
@@ -12,4 +14,78 @@ describe('H5PPlayer.generateIntegration()', () => {
 
         expect(integration.postUserStatistics).toBeTruthy();
     });
+
+    it('posts user statistics to the results URL if results are stored', () => {
+        const config = new EditorConfig(undefined, { baseUrl: '/h5p' });
+        let integration = new H5PPlayer(
+            undefined,
+            config,
+            undefined,
+            undefined
+        ).generateIntegration('test', {}, {} as any);
+        expect(integration.postUserStatistics).toBe(false);
+        expect(integration.ajax.setFinished).toEqual('');
+
+        integration = new H5PPlayer(
+            undefined,
+            config,
+            undefined,
+            undefined,
+            undefined,
+            { contentUserResultManager: {} as any }
+        ).generateIntegration('test', {}, {} as any);
+        expect(integration.postUserStatistics).toBe(true);
+        expect(integration.ajax.setFinished).toEqual('/h5p/results');
+    });
+
+    it('saves the content state if user data is passed', () => {
+        const player = new H5PPlayer(
+            undefined,
+            new EditorConfig(undefined, { baseUrl: '/h5p' }),
+            undefined,
+            undefined
+        );
+        const user = new User();
+
+        let integration = player.generateIntegration('test', {}, {} as any);
+        expect(integration.saveFreq).toBe(false);
+        expect(integration.ajax.contentUserData).toEqual(
+            '/h5p/content-user-data/:contentId/:dataType/:subContentId'
+        );
+
+        integration = player.generateIntegration('test', {}, {} as any, user, {
+            0: { state: '{}' }
+        });
+        expect(integration.saveFreq).toBe(30);
+        expect(integration.user.name).toEqual(user.name);
+        expect(integration.contents['cid-test'].contentUserData).toEqual({
+            0: { state: '{}' }
+        });
+    });
+
+    it('translates the strings of the client into the language', () => {
+        const player = new H5PPlayer(
+            undefined,
+            new EditorConfig(undefined),
+            undefined,
+            undefined
+        );
+        const getFullscreenString = (h5pObject: any, language?: string) =>
+            (player.generateIntegration(
+                'test',
+                {},
+                h5pObject,
+                undefined,
+                undefined,
+                undefined,
+                language
+            ).l10n as any).H5P.fullscreen;
+
+        expect(getFullscreenString({})).toEqual('Fullscreen');
+        expect(getFullscreenString({ language: 'de' })).toEqual('Vollbild');
+        expect(getFullscreenString({ language: 'de' }, 'fr-CA')).toEqual(
+            'Plein écran'
+        );
+        expect(getFullscreenString({ language: 'und' })).toEqual('Fullscreen');
+    });
 });
@@ -421,4 +421,79 @@ describe('Loading dependencies', () => {
                 ).toBe('/baseUrl');
             });
     });
+
+    it('passes the libraries to the asset aggregator', async () => {
+        const h5pObject = {
+            mainLibrary: 'Foo',
+            preloadedDependencies: [
+                {
+                    machineName: 'Foo',
+                    majorVersion: 4,
+                    minorVersion: 2
+                }
+            ]
+        };
+        const libraryLoader = (name, maj, min) =>
+            ({
+                Bar21: {
+                    patchVersion: 3,
+                    preloadedJs: [{ path: 'bar.js' }]
+                },
+                Foo42: {
+                    patchVersion: 1,
+                    preloadedCss: [{ path: 'foo.css' }],
+                    preloadedDependencies: [
+                        {
+                            machineName: 'Bar',
+                            majorVersion: 2,
+                            minorVersion: 1
+                        }
+                    ],
+                    preloadedJs: [{ path: 'foo.js' }]
+                }
+            }[name + maj + min]);
+        const assetAggregator = {
+            createBundles: jest.fn(async () => ({
+                scripts: ['/h5p/assets/bundle.js'],
+                styles: ['/h5p/assets/bundle.css'],
+                translations: {}
+            }))
+        };
+
+        const model: any = await new H5PPlayer(
+            libraryLoader,
+            new EditorConfig(undefined),
+            undefined,
+            undefined,
+            undefined,
+            { assetAggregator: assetAggregator as any }
+        )
+            .useRenderer(m => m)
+            .render('foo', {}, h5pObject as any);
+
+        expect(assetAggregator.createBundles).toHaveBeenCalledWith([
+            {
+                library: {
+                    machineName: 'Bar',
+                    majorVersion: 2,
+                    minorVersion: 1,
+                    patchVersion: 3
+                },
+                scripts: ['bar.js'],
+                styles: []
+            },
+            {
+                library: {
+                    machineName: 'Foo',
+                    majorVersion: 4,
+                    minorVersion: 2,
+                    patchVersion: 1
+                },
+                scripts: ['foo.js'],
+                styles: ['foo.css']
+            }
+        ]);
+        expect(model.scripts.slice(9)).toEqual(['/h5p/assets/bundle.js']);
+        expect(model.styles.slice(2)).toEqual(['/h5p/assets/bundle.css']);
+    });
 });
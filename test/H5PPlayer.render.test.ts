@@ -1,5 +1,8 @@
 import H5PPlayer from '../src/H5PPlayer';
 import EditorConfig from '../src/implementation/EditorConfig';
+import { Permission } from '../src/types';
+
+import User from '../examples/User';
 
 describe('H5P.render()', () => {
     it('should work with a callback', () => {
@@ -20,4 +23,59 @@ describe('H5P.render()', () => {
                 expect((model as any).contentId).toBe('foo');
             });
     });
+
+    it('adds a script that posts xAPI statements if tracking is enabled', async () => {
+        const config = new EditorConfig(undefined, {
+            baseUrl: '/h5p',
+            enableXapiTracking: true
+        });
+
+        const model: any = await new H5PPlayer(
+            undefined,
+            config,
+            undefined,
+            undefined
+        )
+            .useRenderer(m => m)
+            .render('foo', {}, {} as any);
+
+        expect(model.customScripts).toContain(
+            "H5P.externalDispatcher.on('xAPI'"
+        );
+        expect(model.customScripts).toContain('"/h5p/xapi"');
+    });
+
+    it('passes display options restricted by the permissions of the user', async () => {
+        const config = new EditorConfig(undefined);
+        const permissionSystem: any = {
+            getContentPermissions: async () => [
+                Permission.View,
+                Permission.Embed
+            ]
+        };
+
+        const model: any = await new H5PPlayer(
+            undefined,
+            config,
+            undefined,
+            undefined,
+            undefined,
+            { permissionSystem }
+        )
+            .useRenderer(m => m)
+            .render('foo', {}, {} as any, new User(), {
+                copy: true,
+                embed: true,
+                frame: false
+            });
+
+        expect(model.integration.contents['cid-foo'].displayOptions).toEqual({
+            copy: false,
+            copyright: true,
+            embed: true,
+            export: false,
+            frame: false,
+            icon: true
+        });
+    });
 });
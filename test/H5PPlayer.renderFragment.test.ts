@@ -0,0 +1,90 @@
+import H5PPlayer from '../src/H5PPlayer';
+import EditorConfig from '../src/implementation/EditorConfig';
+
+describe('Rendering content as a fragment', () => {
+    const h5pObject: any = {
+        embedTypes: ['div'],
+        mainLibrary: 'Foo',
+        preloadedDependencies: [
+            {
+                machineName: 'Foo',
+                majorVersion: 4,
+                minorVersion: 2
+            }
+        ]
+    };
+
+    function createPlayer(libraryEmbedTypes: string[]): H5PPlayer {
+        return new H5PPlayer(
+            () =>
+                ({
+                    embedTypes: libraryEmbedTypes,
+                    preloadedCss: [{ path: 'foo.css' }],
+                    preloadedJs: [{ path: 'foo.js' }]
+                } as any),
+            new EditorConfig(undefined),
+            undefined,
+            undefined
+        );
+    }
+
+    it('renders a div if the content and the main library support it', async () => {
+        const fragment = await createPlayer(['div', 'iframe']).render(
+            'foo',
+            {},
+            h5pObject,
+            undefined,
+            undefined,
+            'fragment'
+        );
+
+        expect(fragment.embedType).toBe('div');
+        expect(fragment.html).toBe(
+            '<div class="h5p-content" data-content-id="foo"></div>'
+        );
+        expect(fragment.scripts.slice(9)).toEqual([
+            '/h5p/libraries/Foo-4.2/foo.js'
+        ]);
+        expect(fragment.styles.slice(2)).toEqual([
+            '/h5p/libraries/Foo-4.2/foo.css'
+        ]);
+        expect(fragment.integration.contents['cid-foo']).toBeDefined();
+        expect(fragment.integration.core).toBeUndefined();
+    });
+
+    it('falls back to an iframe created by the client if the main library only supports iframes', async () => {
+        const fragment = await createPlayer(['iframe']).render(
+            'foo',
+            {},
+            h5pObject,
+            undefined,
+            undefined,
+            'fragment'
+        );
+
+        expect(fragment.embedType).toBe('iframe');
+        expect(fragment.html).toContain(
+            '<iframe id="h5p-iframe-foo" class="h5p-iframe" data-content-id="foo"'
+        );
+        expect(fragment.scripts).toEqual(fragment.integration.core.scripts);
+        expect(fragment.integration.contents['cid-foo'].scripts).toEqual([
+            '/h5p/libraries/Foo-4.2/foo.js'
+        ]);
+        expect(fragment.integration.contents['cid-foo'].styles).toEqual([
+            '/h5p/libraries/Foo-4.2/foo.css'
+        ]);
+    });
+
+    it('renders an iframe if the content prefers it', async () => {
+        const fragment = await createPlayer(['div', 'iframe']).render(
+            'foo',
+            {},
+            { ...h5pObject, embedTypes: ['iframe'] },
+            undefined,
+            undefined,
+            'fragment'
+        );
+
+        expect(fragment.embedType).toBe('iframe');
+    });
+});
@@ -37,18 +37,24 @@ describe('Rendering the HTML page', () => {
                 
                     <script>
                         H5PIntegration = {
+                  "ajax": {
+                    "contentUserData": "/h5p/content-user-data/:contentId/:dataType/:subContentId",
+                    "setFinished": ""
+                  },
                   "contents": {
                     "cid-foo": {
                       "displayOptions": {
                         "copy": false,
-                        "copyright": false,
+                        "copyright": true,
                         "embed": false,
-                        "export": false,
-                        "frame": false,
-                        "icon": false
+                        "export": true,
+                        "frame": true,
+                        "icon": true
                       },
+                      "embedCode": "<iframe src=\\"/h5p/embed/foo\\" width=\\":w\\" height=\\":h\\" frameborder=\\"0\\" allowfullscreen=\\"allowfullscreen\\"><\\/iframe>",
                       "fullScreen": false,
-                      "jsonContent": "{\\"my\\":\\"content\\"}"
+                      "jsonContent": "{\\"my\\":\\"content\\"}",
+                      "resizeCode": "<script src=\\"/h5p/resizer.js\\" charset=\\"UTF-8\\"><\\/script>"
                     }
                   },
                   "l10n": {
@@ -272,18 +278,24 @@ describe('Rendering the HTML page', () => {
                     
                         <script>
                             H5PIntegration = {
+                      "ajax": {
+                        "contentUserData": "/h5p/content-user-data/:contentId/:dataType/:subContentId",
+                        "setFinished": ""
+                      },
                       "contents": {
                         "cid-foo": {
                           "displayOptions": {
                             "copy": false,
-                            "copyright": false,
+                            "copyright": true,
                             "embed": false,
-                            "export": false,
-                            "frame": false,
-                            "icon": false
+                            "export": true,
+                            "frame": true,
+                            "icon": true
                           },
+                          "embedCode": "<iframe src=\\"/h5p/embed/foo\\" width=\\":w\\" height=\\":h\\" frameborder=\\"0\\" allowfullscreen=\\"allowfullscreen\\"><\\/iframe>",
                           "fullScreen": false,
-                          "jsonContent": "{\\"my\\":\\"content\\"}"
+                          "jsonContent": "{\\"my\\":\\"content\\"}",
+                          "resizeCode": "<script src=\\"/h5p/resizer.js\\" charset=\\"UTF-8\\"><\\/script>"
                         }
                       },
                       "l10n": {
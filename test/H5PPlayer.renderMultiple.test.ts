@@ -0,0 +1,115 @@
+import H5PPlayer from '../src/H5PPlayer';
+import EditorConfig from '../src/implementation/EditorConfig';
+
+describe('Rendering multiple pieces of content', () => {
+    const libraryLoader = (name, maj, min) =>
+        ({
+            Bar10: {
+                preloadedCss: [{ path: 'bar.css' }],
+                preloadedJs: [{ path: 'bar.js' }]
+            },
+            Quiz10: {
+                embedTypes: ['div', 'iframe'],
+                preloadedDependencies: [
+                    { machineName: 'Bar', majorVersion: 1, minorVersion: 0 }
+                ],
+                preloadedJs: [{ path: 'quiz.js' }]
+            },
+            Video10: {
+                embedTypes: ['iframe'],
+                preloadedDependencies: [
+                    { machineName: 'Bar', majorVersion: 1, minorVersion: 0 }
+                ],
+                preloadedJs: [{ path: 'video.js' }]
+            }
+        }[name + maj + min]);
+
+    function createContent(contentId: string, mainLibrary: string): any {
+        return {
+            contentId,
+            contentObject: { id: contentId },
+            h5pObject: {
+                embedTypes: ['div'],
+                mainLibrary,
+                preloadedDependencies: [
+                    {
+                        machineName: mainLibrary,
+                        majorVersion: 1,
+                        minorVersion: 0
+                    }
+                ]
+            }
+        };
+    }
+
+    function createPlayer(): H5PPlayer {
+        return new H5PPlayer(
+            libraryLoader as any,
+            new EditorConfig(undefined),
+            undefined,
+            undefined
+        );
+    }
+
+    it('renders all contents into one page and loads shared libraries once', async () => {
+        const html = await createPlayer().renderMultiple([
+            createContent('video', 'Video'),
+            createContent('quiz', 'Quiz')
+        ]);
+
+        expect(html).toContain(
+            '<div class="h5p-content" data-content-id="video"></div>'
+        );
+        expect(html).toContain(
+            '<div class="h5p-content" data-content-id="quiz"></div>'
+        );
+        expect(html).not.toContain('Download</button>');
+        expect(html.match(/Bar-1\.0\/bar\.js/g).length).toBe(1);
+
+        const model: any = await createPlayer()
+            .useRenderer(m => m)
+            .renderMultiple([
+                createContent('video', 'Video'),
+                createContent('quiz', 'Quiz')
+            ]);
+        expect(Object.keys(model.integration.contents)).toEqual([
+            'cid-video',
+            'cid-quiz'
+        ]);
+        expect(model.scripts.slice(9)).toEqual([
+            '/h5p/libraries/Bar-1.0/bar.js',
+            '/h5p/libraries/Video-1.0/video.js',
+            '/h5p/libraries/Quiz-1.0/quiz.js'
+        ]);
+        expect(model.styles.slice(2)).toEqual([
+            '/h5p/libraries/Bar-1.0/bar.css'
+        ]);
+    });
+
+    it('renders a fragment with div and iframe contents', async () => {
+        const fragment = await createPlayer().renderMultiple(
+            [createContent('video', 'Video'), createContent('quiz', 'Quiz')],
+            undefined,
+            'fragment'
+        );
+
+        expect(fragment.embedType).toBe('iframe');
+        expect(fragment.html).toContain('id="h5p-iframe-video"');
+        expect(fragment.html).toContain(
+            '<div class="h5p-content" data-content-id="quiz"></div>'
+        );
+        // only the libraries of the quiz are displayed directly in the page
+        expect(fragment.scripts.slice(9)).toEqual([
+            '/h5p/libraries/Bar-1.0/bar.js',
+            '/h5p/libraries/Quiz-1.0/quiz.js'
+        ]);
+        expect(fragment.integration.contents['cid-video'].scripts).toEqual([
+            '/h5p/libraries/Bar-1.0/bar.js',
+            '/h5p/libraries/Video-1.0/video.js'
+        ]);
+        expect(fragment.integration.contents['cid-quiz'].scripts).toBe(
+            undefined
+        );
+        expect(fragment.integration.core).toBeDefined();
+    });
+});
@@ -0,0 +1,127 @@
+import * as fsExtra from 'fs-extra';
+import * as path from 'path';
+import { withDir } from 'tmp-promise';
+
+import ContentTypeCache from '../src/ContentTypeCache';
+import ContentTypeInformationRepository from '../src/ContentTypeInformationRepository';
+import HubMirror from '../src/HubMirror';
+import EditorConfig from '../src/implementation/EditorConfig';
+import FileLibraryStorage from '../src/implementation/fs/FileLibraryStorage';
+import InMemoryStorage from '../src/implementation/InMemoryStorage';
+import LibraryManager from '../src/LibraryManager';
+
+import User from '../examples/User';
+
+describe('HubMirror', () => {
+    /**
+     * Creates a mirror with a valid and a broken package.
+     */
+    async function createMirror(mirrorPath: string): Promise<HubMirror> {
+        await fsExtra.copy(
+            path.resolve('test/data/validator/valid2.h5p'),
+            path.join(mirrorPath, 'greeting-card.h5p')
+        );
+        await fsExtra.copy(
+            path.resolve('test/data/validator/corrupt_archive.h5p'),
+            path.join(mirrorPath, 'corrupt.h5p')
+        );
+        return new HubMirror(mirrorPath);
+    }
+
+    it('generates the manifest from the packages and keeps edits', async () => {
+        await withDir(
+            async ({ path: tempDirPath }) => {
+                const mirror = await createMirror(tempDirPath);
+                await expect(mirror.getContentTypes()).rejects.toThrow(
+                    'hub-mirror-manifest-missing'
+                );
+
+                const contentTypes = await mirror.generateManifest();
+                expect(contentTypes).toEqual([
+                    expect.objectContaining({
+                        coreApiVersionNeeded: { major: 1, minor: 0 },
+                        description: 'Displays a greeting card',
+                        id: 'H5P.GreetingCard',
+                        owner: 'Joubel AS',
+                        package: 'greeting-card.h5p',
+                        title: 'Greeting Card',
+                        version: { major: 1, minor: 0, patch: 6 }
+                    })
+                ]);
+                expect(await mirror.getContentTypes()).toEqual(contentTypes);
+
+                const manifestPath = path.join(
+                    tempDirPath,
+                    'content-types.json'
+                );
+                const manifest = await fsExtra.readJSON(manifestPath);
+                manifest.contentTypes[0].icon = 'https://example.com/icon.svg';
+                await fsExtra.writeJSON(manifestPath, manifest);
+                expect((await mirror.generateManifest())[0].icon).toEqual(
+                    'https://example.com/icon.svg'
+                );
+            },
+            { keep: false, unsafeCleanup: true }
+        );
+    });
+
+    it('is used by the content type cache and to install content types', async () => {
+        await withDir(
+            async ({ path: tempDirPath }) => {
+                const mirrorPath = path.join(tempDirPath, 'mirror');
+                const mirror = await createMirror(mirrorPath);
+                await mirror.generateManifest();
+
+                const storage = new InMemoryStorage();
+                const config = new EditorConfig(storage, {
+                    hubContentTypesEndpoint: 'http://unreachable.invalid/',
+                    hubRegistrationEndpoint: 'http://unreachable.invalid/'
+                });
+                const cache = new ContentTypeCache(config, storage, mirror);
+                const contentTypes = await cache.get();
+                expect(contentTypes).toEqual([
+                    expect.objectContaining({
+                        h5pMajorVersion: 1,
+                        h5pMinorVersion: 0,
+                        machineName: 'H5P.GreetingCard',
+                        majorVersion: 1,
+                        minorVersion: 0,
+                        patchVersion: 6,
+                        title: 'Greeting Card'
+                    })
+                ]);
+
+                const libraryManager = new LibraryManager(
+                    new FileLibraryStorage(path.join(tempDirPath, 'libraries'))
+                );
+                const repository = new ContentTypeInformationRepository(
+                    cache,
+                    libraryManager,
+                    config,
+                    undefined,
+                    mirror
+                );
+                await repository.install('H5P.GreetingCard', new User());
+                expect(
+                    await libraryManager.getInstalled(['H5P.GreetingCard'])
+                ).toEqual({
+                    'H5P.GreetingCard': [
+                        expect.objectContaining({
+                            majorVersion: 1,
+                            minorVersion: 0,
+                            patchVersion: 6
+                        })
+                    ]
+                });
+
+                await fsExtra.remove(
+                    path.join(mirrorPath, 'greeting-card.h5p')
+                );
+                await expect(
+                    mirror.getPackageStream('H5P.GreetingCard')
+                ).rejects.toThrow('hub-mirror-package-missing');
+            },
+            { keep: false, unsafeCleanup: true }
+        );
+    });
+});
@@ -0,0 +1,106 @@
+import * as fsExtra from 'fs-extra';
+import * as path from 'path';
+import { withDir } from 'tmp-promise';
+
+import HubServer from '../src/HubServer';
+import EditorConfig from '../src/implementation/EditorConfig';
+import FileLibraryStorage from '../src/implementation/fs/FileLibraryStorage';
+import LibraryManager from '../src/LibraryManager';
+import PackageImporter from '../src/PackageImporter';
+
+describe('HubServer', () => {
+    /**
+     * Creates a hub server whose library storage contains the Greeting Card
+     * content type and a library that isn't runnable.
+     */
+    async function createHubServer(tempPath: string): Promise<HubServer> {
+        const libraryStorage = new FileLibraryStorage(
+            path.join(tempPath, 'libraries')
+        );
+        const libraryManager = new LibraryManager(libraryStorage);
+        await new PackageImporter(
+            libraryManager,
+            new EditorConfig(null)
+        ).installLibrariesFromPackage(
+            path.resolve('test/data/validator/valid2.h5p')
+        );
+        const dependencyPath = path.join(tempPath, 'H5P.Dependency-1.0');
+        await fsExtra.outputJSON(path.join(dependencyPath, 'library.json'), {
+            machineName: 'H5P.Dependency',
+            majorVersion: 1,
+            minorVersion: 0,
+            patchVersion: 0,
+            runnable: 0,
+            title: 'Dependency'
+        });
+        await libraryManager.installFromDirectory(dependencyPath);
+        return new HubServer(libraryStorage);
+    }
+
+    it('returns the runnable libraries as content types', async () => {
+        await withDir(
+            async ({ path: tempDirPath }) => {
+                const hubServer = await createHubServer(tempDirPath);
+
+                expect(await hubServer.getContentTypes()).toEqual([
+                    expect.objectContaining({
+                        coreApiVersionNeeded: { major: 1, minor: 0 },
+                        createdAt: expect.any(String),
+                        description: 'Displays a greeting card',
+                        icon: '',
+                        id: 'H5P.GreetingCard',
+                        owner: 'Joubel AS',
+                        title: 'Greeting Card',
+                        updatedAt: expect.any(String),
+                        version: { major: 1, minor: 0, patch: 6 }
+                    })
+                ]);
+                await expect(
+                    hubServer.getIconStream('H5P.GreetingCard')
+                ).rejects.toThrow('hub-server-content-type-not-found');
+            },
+            { keep: false, unsafeCleanup: true }
+        );
+    });
+
+    it('creates packages from which the content type can be installed', async () => {
+        await withDir(
+            async ({ path: tempDirPath }) => {
+                const hubServer = await createHubServer(tempDirPath);
+                const packagePath = path.join(tempDirPath, 'package.h5p');
+                const writeStream = fsExtra.createWriteStream(packagePath);
+                const written = new Promise(resolve =>
+                    writeStream.on('close', resolve)
+                );
+                (await hubServer.createPackage('H5P.GreetingCard')).pipe(
+                    writeStream
+                );
+                await written;
+
+                const libraryManager = new LibraryManager(
+                    new FileLibraryStorage(path.join(tempDirPath, 'installed'))
+                );
+                await new PackageImporter(
+                    libraryManager,
+                    new EditorConfig(null)
+                ).installLibrariesFromPackage(packagePath);
+                expect(
+                    await libraryManager.getInstalled(['H5P.GreetingCard'])
+                ).toEqual({
+                    'H5P.GreetingCard': [
+                        expect.objectContaining({
+                            majorVersion: 1,
+                            minorVersion: 0,
+                            patchVersion: 6
+                        })
+                    ]
+                });
+
+                await expect(
+                    hubServer.createPackage('H5P.Dependency')
+                ).rejects.toThrow('hub-server-content-type-not-found');
+            },
+            { keep: false, unsafeCleanup: true }
+        );
+    });
+});
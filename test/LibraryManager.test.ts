@@ -2,9 +2,14 @@ import fsExtra from 'fs-extra';
 import path from 'path';
 import { withDir } from 'tmp-promise';
 
+import ContentManager from '../src/ContentManager';
+import FileContentStorage from '../src/implementation/fs/FileContentStorage';
 import FileLibraryStorage from '../src/implementation/fs/FileLibraryStorage';
 import InstalledLibrary from '../src/InstalledLibrary';
 import LibraryManager from '../src/LibraryManager';
+import { ILibraryName } from '../src/types';
+
+import User from '../examples/User';
 
 describe('basic file library manager functionality', () => {
     it('returns the list of installed library in demo directory', async () => {
@@ -292,3 +297,227 @@ describe('listLanguages()', () => {
         await expect(libManager.listLanguages(library)).resolves.toEqual([]);
     });
 });
+
+describe('loadLanguage()', () => {
+    it('falls back to the primary language if a regional variant is missing', async () => {
+        const libManager = new LibraryManager(
+            new FileLibraryStorage(`${path.resolve('')}/test/data/libraries`)
+        );
+        const library = new InstalledLibrary('H5P.Example1', 1, 1, 1);
+
+        const german = await libManager.loadLanguage(library, 'de');
+        expect(german.semantics[0].label).toEqual('Grußbotschaft');
+        await expect(
+            libManager.loadLanguage(library, 'de-CH')
+        ).resolves.toEqual(german);
+        await expect(
+            libManager.loadLanguage(library, 'de_AT')
+        ).resolves.toEqual(german);
+        await expect(
+            libManager.loadLanguage(library, 'fr')
+        ).resolves.toBeNull();
+        await expect(
+            libManager.loadLanguage(library, '../../library')
+        ).resolves.toBeNull();
+    });
+});
+
+describe('removeLibrary()', () => {
+    async function installLibrary(
+        libManager: LibraryManager,
+        tempPath: string,
+        machineName: string,
+        preloadedDependencies: ILibraryName[] = []
+    ): Promise<ILibraryName> {
+        const directory = path.join(tempPath, 'src', `${machineName}-1.0`);
+        await fsExtra.ensureDir(directory);
+        await fsExtra.writeJSON(path.join(directory, 'library.json'), {
+            machineName,
+            majorVersion: 1,
+            minorVersion: 0,
+            patchVersion: 0,
+            preloadedDependencies,
+            runnable: true,
+            title: machineName
+        });
+        await libManager.installFromDirectory(directory);
+        return { machineName, majorVersion: 1, minorVersion: 0 };
+    }
+
+    async function setup(
+        tempPath: string
+    ): Promise<{
+        base: ILibraryName;
+        contentManager: ContentManager;
+        libManager: LibraryManager;
+        middle: ILibraryName;
+        other: ILibraryName;
+        top: ILibraryName;
+    }> {
+        const libManager = new LibraryManager(
+            new FileLibraryStorage(path.join(tempPath, 'libraries'))
+        );
+        const contentManager = new ContentManager(
+            new FileContentStorage(path.join(tempPath, 'content'))
+        );
+        const base = await installLibrary(libManager, tempPath, 'H5P.Base');
+        const middle = await installLibrary(
+            libManager,
+            tempPath,
+            'H5P.Middle',
+            [base]
+        );
+        const top = await installLibrary(libManager, tempPath, 'H5P.Top', [
+            middle
+        ]);
+        const other = await installLibrary(libManager, tempPath, 'H5P.Other');
+        return { base, contentManager, libManager, middle, other, top };
+    }
+
+    it('removes unused libraries', async () => {
+        await withDir(
+            async ({ path: tempDirPath }) => {
+                const { contentManager, libManager, other } = await setup(
+                    tempDirPath
+                );
+
+                await expect(
+                    libManager.removeLibrary(other, contentManager)
+                ).resolves.toEqual({
+                    dependentContent: [],
+                    dependentLibraries: [],
+                    removedLibraries: [other]
+                });
+                expect(await libManager.libraryExists(other)).toEqual(false);
+            },
+            { keep: false, unsafeCleanup: true }
+        );
+    });
+
+    it('refuses to remove libraries required by other libraries or content', async () => {
+        await withDir(
+            async ({ path: tempDirPath }) => {
+                const {
+                    base,
+                    contentManager,
+                    libManager,
+                    middle,
+                    top
+                } = await setup(tempDirPath);
+                const contentId = await contentManager.createOrUpdateContent(
+                    {
+                        embedTypes: ['iframe'],
+                        language: 'en',
+                        license: 'U',
+                        mainLibrary: 'H5P.Top',
+                        preloadedDependencies: [top],
+                        title: 'Example'
+                    },
+                    {},
+                    new User()
+                );
+
+                const result = await libManager.removeLibrary(
+                    base,
+                    contentManager
+                );
+
+                expect(result.removedLibraries).toEqual([]);
+                expect(result.dependentLibraries).toEqual(
+                    expect.arrayContaining([middle, top])
+                );
+                expect(result.dependentLibraries.length).toEqual(2);
+                expect(result.dependentContent).toEqual([contentId.toString()]);
+                expect(await libManager.libraryExists(base)).toEqual(true);
+            },
+            { keep: false, unsafeCleanup: true }
+        );
+    });
+
+    it('removes dependent libraries too if forced', async () => {
+        await withDir(
+            async ({ path: tempDirPath }) => {
+                const {
+                    base,
+                    contentManager,
+                    libManager,
+                    middle,
+                    other,
+                    top
+                } = await setup(tempDirPath);
+
+                const result = await libManager.removeLibrary(
+                    middle,
+                    contentManager,
+                    true
+                );
+
+                expect(result.removedLibraries).toEqual([top, middle]);
+                expect(await libManager.libraryExists(top)).toEqual(false);
+                expect(await libManager.libraryExists(middle)).toEqual(false);
+                expect(await libManager.libraryExists(base)).toEqual(true);
+                expect(await libManager.libraryExists(other)).toEqual(true);
+            },
+            { keep: false, unsafeCleanup: true }
+        );
+    });
+
+    it('ignores content whose metadata is unreadable', async () => {
+        await withDir(
+            async ({ path: tempDirPath }) => {
+                const { contentManager, libManager, other } = await setup(
+                    tempDirPath
+                );
+                const contentId = await contentManager.createOrUpdateContent(
+                    {
+                        embedTypes: ['iframe'],
+                        language: 'en',
+                        license: 'U',
+                        mainLibrary: 'H5P.Other',
+                        preloadedDependencies: [other],
+                        title: 'Example'
+                    },
+                    {},
+                    new User()
+                );
+                await fsExtra.writeFile(
+                    path.join(
+                        tempDirPath,
+                        'content',
+                        contentId.toString(),
+                        'h5p.json'
+                    ),
+                    '{'
+                );
+
+                const result = await libManager.removeLibrary(
+                    other,
+                    contentManager
+                );
+
+                expect(result.removedLibraries).toEqual([other]);
+                expect(await libManager.libraryExists(other)).toEqual(false);
+            },
+            { keep: false, unsafeCleanup: true }
+        );
+    });
+
+    it('throws an error if the library is not installed', async () => {
+        await withDir(
+            async ({ path: tempDirPath }) => {
+                const { contentManager, libManager } = await setup(tempDirPath);
+                await expect(
+                    libManager.removeLibrary(
+                        {
+                            machineName: 'H5P.Missing',
+                            majorVersion: 1,
+                            minorVersion: 0
+                        },
+                        contentManager
+                    )
+                ).rejects.toThrow('library-not-found');
+            },
+            { keep: false, unsafeCleanup: true }
+        );
+    });
+});
@@ -0,0 +1,166 @@
+import fsExtra from 'fs-extra';
+import path from 'path';
+import { withDir } from 'tmp-promise';
+
+import FileLibraryStorage from '../src/implementation/fs/FileLibraryStorage';
+import LibraryManager from '../src/LibraryManager';
+import LibraryName from '../src/LibraryName';
+import LibraryTranslationChecker from '../src/LibraryTranslationChecker';
+
+describe('LibraryTranslationChecker', () => {
+    const semantics = [
+        {
+            default: 'Hello',
+            label: 'Greeting',
+            name: 'greeting',
+            type: 'text'
+        },
+        {
+            field: {
+                fields: [
+                    {
+                        label: 'Question',
+                        name: 'question',
+                        type: 'text'
+                    },
+                    {
+                        label: 'Behaviour',
+                        name: 'behaviour',
+                        options: [
+                            { label: 'Show', value: 'show' },
+                            { label: 'Hide', value: 'hide' }
+                        ],
+                        type: 'select'
+                    }
+                ],
+                label: 'Item',
+                name: 'item',
+                type: 'group'
+            },
+            label: 'Items',
+            name: 'items',
+            type: 'list'
+        }
+    ];
+
+    async function installLibrary(
+        tempPath: string,
+        languageFiles: { [language: string]: any }
+    ): Promise<LibraryManager> {
+        const libraryPath = path.join(tempPath, 'packages', 'H5P.Quiz-1.0');
+        await fsExtra.outputJSON(path.join(libraryPath, 'library.json'), {
+            machineName: 'H5P.Quiz',
+            majorVersion: 1,
+            minorVersion: 0,
+            patchVersion: 0,
+            runnable: 1,
+            title: 'Quiz'
+        });
+        await fsExtra.outputJSON(
+            path.join(libraryPath, 'semantics.json'),
+            semantics
+        );
+        for (const language of Object.keys(languageFiles)) {
+            await fsExtra.outputJSON(
+                path.join(libraryPath, 'language', `${language}.json`),
+                languageFiles[language]
+            );
+        }
+        const libraryManager = new LibraryManager(
+            new FileLibraryStorage(path.join(tempPath, 'libraries'))
+        );
+        await libraryManager.installFromDirectory(libraryPath);
+        return libraryManager;
+    }
+
+    it('reports missing, extra and untranslated fields', async () => {
+        await withDir(
+            async ({ path: tempDirPath }) => {
+                const libraryManager = await installLibrary(tempDirPath, {
+                    de: {
+                        semantics: [
+                            { default: 'Hallo', label: 'Gruß' },
+                            {
+                                field: {
+                                    fields: [
+                                        { label: 'Frage' },
+                                        {
+                                            label: 'Verhalten',
+                                            options: [
+                                                { label: 'Zeigen' },
+                                                { label: 'Hide' }
+                                            ]
+                                        },
+                                        { label: 'Veraltet' }
+                                    ],
+                                    label: 'Item'
+                                },
+                                label: 'Einträge'
+                            }
+                        ]
+                    }
+                });
+                const checker = new LibraryTranslationChecker(libraryManager);
+
+                const report = await checker.checkLibrary(
+                    new LibraryName('H5P.Quiz', 1, 0)
+                );
+                expect(report).toEqual({
+                    languages: [
+                        {
+                            exists: true,
+                            extra: ['semantics[1].field.fields[2].label'],
+                            language: 'de',
+                            missing: [],
+                            untranslated: [
+                                'semantics[1].field.label',
+                                'semantics[1].field.fields[1].options[1].label'
+                            ]
+                        }
+                    ],
+                    machineName: 'H5P.Quiz',
+                    majorVersion: 1,
+                    minorVersion: 0
+                });
+            },
+            { keep: false, unsafeCleanup: true }
+        );
+    });
+
+    it('checks the requested languages of all libraries', async () => {
+        await withDir(
+            async ({ path: tempDirPath }) => {
+                const libraryManager = await installLibrary(tempDirPath, {
+                    fr: { semantics: [{ label: 'Salutation' }] }
+                });
+                const checker = new LibraryTranslationChecker(libraryManager);
+
+                const reports = await checker.checkLibraries(['fr', 'es']);
+                expect(reports.length).toEqual(1);
+                expect(reports[0].languages).toEqual([
+                    {
+                        exists: true,
+                        extra: [],
+                        language: 'fr',
+                        missing: [
+                            'semantics[0].default',
+                            'semantics[1].label',
+                            'semantics[1].field.label',
+                            'semantics[1].field.fields[0].label',
+                            'semantics[1].field.fields[1].label',
+                            'semantics[1].field.fields[1].options[0].label',
+                            'semantics[1].field.fields[1].options[1].label'
+                        ],
+                        untranslated: []
+                    },
+                    expect.objectContaining({
+                        exists: false,
+                        language: 'es'
+                    })
+                ]);
+                expect(reports[0].languages[1].missing.length).toEqual(8);
+            },
+            { keep: false, unsafeCleanup: true }
+        );
+    });
+});
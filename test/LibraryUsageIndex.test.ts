@@ -0,0 +1,236 @@
+import fsExtra from 'fs-extra';
+import path from 'path';
+import { withDir } from 'tmp-promise';
+
+import ContentManager from '../src/ContentManager';
+import FileContentStorage from '../src/implementation/fs/FileContentStorage';
+import FileLibraryStorage from '../src/implementation/fs/FileLibraryStorage';
+import LibraryManager from '../src/LibraryManager';
+import LibraryUsageIndex from '../src/LibraryUsageIndex';
+import { IContentMetadata, ILibraryName } from '../src/types';
+
+import User from '../examples/User';
+
+describe('LibraryUsageIndex', () => {
+    const base: ILibraryName = {
+        machineName: 'H5P.Base',
+        majorVersion: 1,
+        minorVersion: 0
+    };
+    const container: ILibraryName = {
+        machineName: 'H5P.Container',
+        majorVersion: 1,
+        minorVersion: 0
+    };
+    const example: ILibraryName = {
+        machineName: 'H5P.Example',
+        majorVersion: 1,
+        minorVersion: 0
+    };
+
+    async function installLibrary(
+        libraryManager: LibraryManager,
+        tempPath: string,
+        library: ILibraryName,
+        preloadedDependencies: ILibraryName[] = []
+    ): Promise<void> {
+        const directory = path.join(
+            tempPath,
+            'src',
+            `${library.machineName}-1.0`
+        );
+        await fsExtra.ensureDir(directory);
+        await fsExtra.writeJSON(path.join(directory, 'library.json'), {
+            ...library,
+            patchVersion: 0,
+            preloadedDependencies,
+            runnable: true,
+            title: library.machineName
+        });
+        await libraryManager.installFromDirectory(directory);
+    }
+
+    async function setup(
+        tempPath: string
+    ): Promise<{
+        contentManager: ContentManager;
+        libraryManager: LibraryManager;
+    }> {
+        const libraryManager = new LibraryManager(
+            new FileLibraryStorage(path.join(tempPath, 'libraries'))
+        );
+        const contentManager = new ContentManager(
+            new FileContentStorage(path.join(tempPath, 'content'))
+        );
+        await installLibrary(libraryManager, tempPath, base);
+        await installLibrary(libraryManager, tempPath, example, [base]);
+        await installLibrary(libraryManager, tempPath, container, [example]);
+        return { contentManager, libraryManager };
+    }
+
+    function createMetadata(mainLibrary: ILibraryName): IContentMetadata {
+        return {
+            embedTypes: ['iframe'],
+            language: 'en',
+            license: 'U',
+            mainLibrary: mainLibrary.machineName,
+            preloadedDependencies: [mainLibrary],
+            title: 'Example'
+        };
+    }
+
+    it('counts the usage of libraries in existing content', async () => {
+        await withDir(
+            async ({ path: tempDirPath }) => {
+                const { contentManager, libraryManager } = await setup(
+                    tempDirPath
+                );
+                const user = new User();
+                const containerId = await contentManager.createOrUpdateContent(
+                    createMetadata(container),
+                    {},
+                    user
+                );
+                const exampleId = await contentManager.createOrUpdateContent(
+                    createMetadata(example),
+                    {},
+                    user
+                );
+
+                const index = new LibraryUsageIndex(
+                    contentManager,
+                    libraryManager
+                );
+
+                expect(await index.getLibraryUsage(container)).toEqual({
+                    asDependency: 0,
+                    asMainLibrary: 1,
+                    contentIds: [containerId.toString()]
+                });
+                const exampleUsage = await index.getLibraryUsage(example);
+                expect(exampleUsage.asDependency).toEqual(1);
+                expect(exampleUsage.asMainLibrary).toEqual(1);
+                expect(exampleUsage.contentIds).toEqual([
+                    exampleId.toString(),
+                    containerId.toString()
+                ]);
+                const baseUsage = await index.getLibraryUsage(base);
+                expect(baseUsage.asDependency).toEqual(2);
+                expect(baseUsage.asMainLibrary).toEqual(0);
+                expect(
+                    await index.getLibraryUsage({
+                        machineName: 'H5P.Unused',
+                        majorVersion: 1,
+                        minorVersion: 0
+                    })
+                ).toEqual({
+                    asDependency: 0,
+                    asMainLibrary: 0,
+                    contentIds: []
+                });
+            },
+            { keep: false, unsafeCleanup: true }
+        );
+    });
+
+    it('updates the index when content is saved or deleted', async () => {
+        await withDir(
+            async ({ path: tempDirPath }) => {
+                const { contentManager, libraryManager } = await setup(
+                    tempDirPath
+                );
+                const user = new User();
+                const index = new LibraryUsageIndex(
+                    contentManager,
+                    libraryManager
+                );
+                expect(
+                    (await index.getLibraryUsage(base)).asDependency
+                ).toEqual(0);
+
+                const contentId = await contentManager.createOrUpdateContent(
+                    createMetadata(container),
+                    {},
+                    user
+                );
+                expect(
+                    (await index.getLibraryUsage(container)).asMainLibrary
+                ).toEqual(1);
+                expect(
+                    (await index.getLibraryUsage(base)).asDependency
+                ).toEqual(1);
+
+                await contentManager.createOrUpdateContent(
+                    createMetadata(example),
+                    {},
+                    user,
+                    contentId
+                );
+                expect(
+                    (await index.getLibraryUsage(container)).asMainLibrary
+                ).toEqual(0);
+                expect(
+                    (await index.getLibraryUsage(example)).asMainLibrary
+                ).toEqual(1);
+
+                await contentManager.deleteContent(contentId, user);
+                expect(await index.getLibraryUsage(example)).toEqual({
+                    asDependency: 0,
+                    asMainLibrary: 0,
+                    contentIds: []
+                });
+                expect(
+                    (await index.getLibraryUsage(base)).asDependency
+                ).toEqual(0);
+            },
+            { keep: false, unsafeCleanup: true }
+        );
+    });
+
+    it('skips unreadable content and retries if building the index failed', async () => {
+        await withDir(
+            async ({ path: tempDirPath }) => {
+                const { contentManager, libraryManager } = await setup(
+                    tempDirPath
+                );
+                const user = new User();
+                const exampleId = await contentManager.createOrUpdateContent(
+                    createMetadata(example),
+                    {},
+                    user
+                );
+                const brokenId = await contentManager.createOrUpdateContent(
+                    createMetadata(example),
+                    {},
+                    user
+                );
+                await fsExtra.writeFile(
+                    path.join(
+                        tempDirPath,
+                        'content',
+                        brokenId.toString(),
+                        'h5p.json'
+                    ),
+                    '{ broken'
+                );
+                const index = new LibraryUsageIndex(
+                    contentManager,
+                    libraryManager
+                );
+
+                jest.spyOn(contentManager, 'listContent').mockRejectedValueOnce(
+                    new Error('storage not available')
+                );
+                await expect(index.getLibraryUsage(example)).rejects.toThrow(
+                    'storage not available'
+                );
+                expect(await index.getLibraryUsage(example)).toEqual({
+                    asDependency: 0,
+                    asMainLibrary: 1,
+                    contentIds: [exampleId.toString()]
+                });
+            },
+            { keep: false, unsafeCleanup: true }
+        );
+    });
+});
@@ -0,0 +1,228 @@
+import { Readable } from 'stream';
+
+import InMemoryObjectStore from '../src/implementation/objectStore/InMemoryObjectStore';
+import ObjectStoreContentStorage from '../src/implementation/objectStore/ObjectStoreContentStorage';
+import { streamToBuffer } from '../src/implementation/objectStore/objectStoreHelpers';
+import { IContentMetadata } from '../src/types';
+
+import User from '../examples/User';
+
+describe('ObjectStoreContentStorage', () => {
+    function createMetadataMock(): IContentMetadata {
+        return {
+            embedTypes: ['iframe'],
+            language: '',
+            mainLibrary: 'H5P.Example',
+            preloadedDependencies: [],
+            title: 'Example'
+        };
+    }
+
+    function createStream(data: string): Readable {
+        const stream = new Readable();
+        stream._read = () => {
+            return;
+        };
+        stream.push(data);
+        stream.push(null);
+        return stream;
+    }
+
+    it('creates, loads and deletes content and content files', async () => {
+        const objectStore = new InMemoryObjectStore();
+        const storage = new ObjectStoreContentStorage(objectStore);
+        const user = new User();
+
+        const id = await storage.createContent(createMetadataMock(), {}, user);
+        expect(await storage.contentExists(id)).toBe(true);
+        await storage.addContentFile(
+            id,
+            'images/image.png',
+            createStream('dummy'),
+            user
+        );
+        expect(await storage.contentFileExists(id, 'images/image.png')).toBe(
+            true
+        );
+        expect(await storage.getContentFiles(id, user)).toEqual([
+            'images/image.png'
+        ]);
+        expect(
+            (
+                await streamToBuffer(
+                    storage.getContentFileStream(id, 'images/image.png', user)
+                )
+            ).toString()
+        ).toEqual('dummy');
+
+        await storage.deleteContentFile(id, 'images/image.png');
+        expect(await storage.getContentFiles(id, user)).toEqual([]);
+
+        await storage.deleteContent(id, user);
+        expect(await storage.contentExists(id)).toBe(false);
+        expect(await objectStore.listObjects('')).toEqual([]);
+    });
+
+    it('throws errors for missing content and illegal filenames', async () => {
+        const storage = new ObjectStoreContentStorage(
+            new InMemoryObjectStore()
+        );
+        const user = new User();
+
+        await expect(
+            storage.addContentFile('1', 'test.png', createStream(''), user)
+        ).rejects.toThrow(
+            'storage-file-implementations:add-file-content-not-found'
+        );
+        await expect(storage.deleteContent('1', user)).rejects.toThrow(
+            'storage-file-implementations:delete-content-not-found'
+        );
+        await expect(
+            storage.contentFileExists('1', '../file1.txt')
+        ).rejects.toThrow('illegal-relative-filename');
+        await expect(
+            streamToBuffer(storage.getContentFileStream('1', 'missing', user))
+        ).rejects.toThrow('storage-file-implementations:object-not-found');
+    });
+
+    it('records the owner and lists content by owner', async () => {
+        const storage = new ObjectStoreContentStorage(
+            new InMemoryObjectStore()
+        );
+        const user1 = new User();
+        const user2 = new User();
+        user2.id = '2';
+
+        const id1 = await storage.createContent(
+            createMetadataMock(),
+            {},
+            user1
+        );
+        const id2 = await storage.createContent(
+            createMetadataMock(),
+            {},
+            user2
+        );
+        await storage.createContent(
+            { ...createMetadataMock(), title: 'Renamed' },
+            {},
+            user1,
+            id2
+        );
+
+        expect((await storage.listContent()).sort()).toEqual([id1, id2].sort());
+        expect(await storage.listContent(user1)).toEqual([id1]);
+        expect(await storage.listContent(user2)).toEqual([id2]);
+        expect(await storage.getContentMetadataSummary(id2)).toMatchObject({
+            contentId: id2,
+            mainLibrary: 'H5P.Example',
+            owner: '2',
+            title: 'Renamed'
+        });
+    });
+
+    it('stores display options and keeps them when content is updated', async () => {
+        const storage = new ObjectStoreContentStorage(
+            new InMemoryObjectStore()
+        );
+        const user = new User();
+
+        const id = await storage.createContent(createMetadataMock(), {}, user);
+        expect(await storage.getDisplayOptions(id)).toEqual({});
+
+        await storage.setDisplayOptions(id, { embed: true, frame: false });
+        await storage.createContent(createMetadataMock(), {}, user, id);
+        expect(await storage.getDisplayOptions(id)).toEqual({
+            embed: true,
+            frame: false
+        });
+
+        await expect(
+            storage.setDisplayOptions('999', { frame: false })
+        ).rejects.toThrow('content-not-found');
+    });
+
+    it("doesn't give access to the storage metadata object", async () => {
+        const storage = new ObjectStoreContentStorage(
+            new InMemoryObjectStore()
+        );
+        const user = new User();
+        const id = await storage.createContent(createMetadataMock(), {}, user);
+
+        expect(
+            await storage.contentFileExists(id, '.storage-metadata.json')
+        ).toEqual(false);
+        expect(() =>
+            storage.getContentFileStream(id, '.storage-metadata.json', user)
+        ).toThrow('content-file-not-found');
+        await expect(
+            storage.addContentFile(
+                id,
+                '.storage-metadata.json',
+                createStream('{}'),
+                user
+            )
+        ).rejects.toThrow('reserved-content-filename');
+        expect((await storage.getContentMetadataSummary(id)).owner).toEqual(
+            user.id
+        );
+    });
+
+    it('saves display options of content without storage metadata', async () => {
+        const objectStore = new InMemoryObjectStore();
+        await objectStore.putObject(
+            'content/1/h5p.json',
+            createStream(JSON.stringify(createMetadataMock()))
+        );
+        const storage = new ObjectStoreContentStorage(objectStore);
+
+        await storage.setDisplayOptions('1', { frame: false });
+        expect(await storage.getDisplayOptions('1')).toEqual({ frame: false });
+        const summary = await storage.getContentMetadataSummary('1');
+        expect(summary.title).toEqual('Example');
+        expect(summary.owner).toBeUndefined();
+    });
+
+    it('returns the size and ranges of content files', async () => {
+        const storage = new ObjectStoreContentStorage(
+            new InMemoryObjectStore()
+        );
+        const user = new User();
+
+        const id = await storage.createContent(createMetadataMock(), {}, user);
+        await storage.addContentFile(
+            id,
+            'video.mp4',
+            createStream('0123456789'),
+            user
+        );
+        expect(
+            await storage.getContentFileStats(id, 'video.mp4', user)
+        ).toMatchObject({ size: 10 });
+        expect(
+            (
+                await streamToBuffer(
+                    storage.getContentFileStream(id, 'video.mp4', user, 2, 5)
+                )
+            ).toString()
+        ).toEqual('2345');
+        await expect(
+            storage.getContentFileStats(id, 'missing.mp4', user)
+        ).rejects.toThrow('content-file-not-found');
+    });
+
+    it('keeps storages with different prefixes apart', async () => {
+        const objectStore = new InMemoryObjectStore();
+        const storage1 = new ObjectStoreContentStorage(objectStore, 'site1');
+        const storage2 = new ObjectStoreContentStorage(objectStore, 'site2');
+
+        const id = await storage1.createContent(
+            createMetadataMock(),
+            {},
+            new User()
+        );
+        expect(await storage1.listContent()).toEqual([id]);
+        expect(await storage2.listContent()).toEqual([]);
+        expect(await storage2.contentExists(id)).toBe(false);
+    });
+});
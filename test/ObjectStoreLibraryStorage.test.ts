@@ -0,0 +1,202 @@
+import fsExtra from 'fs-extra';
+import path from 'path';
+import { Readable } from 'stream';
+
+import H5PEditor from '../src/H5PEditor';
+import EditorConfig from '../src/implementation/EditorConfig';
+import InMemoryStorage from '../src/implementation/InMemoryStorage';
+import InMemoryObjectStore from '../src/implementation/objectStore/InMemoryObjectStore';
+import ObjectStoreContentStorage from '../src/implementation/objectStore/ObjectStoreContentStorage';
+import ObjectStoreLibraryStorage from '../src/implementation/objectStore/ObjectStoreLibraryStorage';
+import ObjectStoreTemporaryFileStorage from '../src/implementation/objectStore/ObjectStoreTemporaryFileStorage';
+import { streamToBuffer } from '../src/implementation/objectStore/objectStoreHelpers';
+import { ILibraryMetadata } from '../src/types';
+
+import User from '../examples/User';
+
+describe('ObjectStoreLibraryStorage', () => {
+    const libraryMetadata: ILibraryMetadata = {
+        machineName: 'H5P.Example',
+        majorVersion: 1,
+        minorVersion: 0,
+        patchVersion: 0,
+        runnable: true,
+        title: 'Example'
+    };
+
+    function createStream(data: string): Readable {
+        const stream = new Readable();
+        stream._read = () => {
+            return;
+        };
+        stream.push(data);
+        stream.push(null);
+        return stream;
+    }
+
+    it('installs libraries and their files', async () => {
+        const storage = new ObjectStoreLibraryStorage(
+            new InMemoryObjectStore()
+        );
+        await expect(
+            storage.addLibraryFile(
+                libraryMetadata,
+                'example.js',
+                createStream('')
+            )
+        ).rejects.toThrow(
+            'storage-file-implementations:add-library-file-not-installed'
+        );
+
+        await storage.installLibrary(libraryMetadata, false);
+        await expect(
+            storage.installLibrary(libraryMetadata, false)
+        ).rejects.toThrow(
+            'storage-file-implementations:install-library-already-installed'
+        );
+        await storage.addLibraryFile(
+            libraryMetadata,
+            'example.js',
+            createStream('var a;')
+        );
+        await storage.addLibraryFile(
+            libraryMetadata,
+            'language/de.json',
+            createStream('{}')
+        );
+
+        expect(await storage.libraryExists(libraryMetadata)).toBe(true);
+        expect(await storage.getInstalled()).toMatchObject([
+            { machineName: 'H5P.Example', majorVersion: 1, minorVersion: 0 }
+        ]);
+        expect(await storage.getInstalled('H5P.Other')).toEqual([]);
+        expect((await storage.listFiles(libraryMetadata)).sort()).toEqual([
+            'example.js',
+            'language/de.json',
+            'library.json'
+        ]);
+        expect(await storage.getLanguageFiles(libraryMetadata)).toEqual(['de']);
+        expect(
+            (
+                await streamToBuffer(
+                    await storage.getFileStream(libraryMetadata, 'example.js')
+                )
+            ).toString()
+        ).toEqual('var a;');
+        expect(
+            (
+                await streamToBuffer(
+                    await storage.getFileStream(
+                        libraryMetadata,
+                        'example.js',
+                        4,
+                        4
+                    )
+                )
+            ).toString()
+        ).toEqual('a');
+        expect(
+            await storage.getFileStats(libraryMetadata, 'example.js')
+        ).toMatchObject({ size: 6 });
+        await expect(
+            storage.getFileStream(libraryMetadata, 'missing.js')
+        ).rejects.toThrow('library-file-missing');
+        await expect(
+            storage.getFileStats(libraryMetadata, 'missing.js')
+        ).rejects.toThrow('library-file-missing');
+    });
+
+    it('updates, clears and removes libraries', async () => {
+        const objectStore = new InMemoryObjectStore();
+        const storage = new ObjectStoreLibraryStorage(objectStore);
+        await storage.installLibrary(libraryMetadata, false);
+        await storage.addLibraryFile(
+            libraryMetadata,
+            'example.js',
+            createStream('var a;')
+        );
+
+        const updated = await storage.updateLibrary({
+            ...libraryMetadata,
+            patchVersion: 1
+        });
+        expect(updated.patchVersion).toEqual(1);
+        await storage.clearLibraryFiles(libraryMetadata);
+        expect(await storage.listFiles(libraryMetadata)).toEqual([
+            'library.json'
+        ]);
+
+        await storage.removeLibrary(libraryMetadata);
+        expect(await storage.libraryExists(libraryMetadata)).toBe(false);
+        expect(await objectStore.listObjects('')).toEqual([]);
+        await expect(storage.removeLibrary(libraryMetadata)).rejects.toThrow(
+            'storage-file-implementations:remove-library-library-missing'
+        );
+    });
+
+    it('stores the restricted flag of libraries', async () => {
+        const objectStore = new InMemoryObjectStore();
+        const storage = new ObjectStoreLibraryStorage(objectStore);
+        await expect(
+            storage.setRestricted(libraryMetadata, true)
+        ).rejects.toThrow(
+            'storage-file-implementations:set-restricted-library-missing'
+        );
+
+        await storage.installLibrary(libraryMetadata, true);
+        expect(await storage.isRestricted(libraryMetadata)).toBe(true);
+        expect(await storage.getInstalled()).toEqual([
+            { machineName: 'H5P.Example', majorVersion: 1, minorVersion: 0 }
+        ]);
+        await storage.setRestricted(libraryMetadata, false);
+        expect(await storage.isRestricted(libraryMetadata)).toBe(false);
+
+        await storage.setRestricted(libraryMetadata, true);
+        await storage.removeLibrary(libraryMetadata);
+        expect(await objectStore.listObjects('')).toEqual([]);
+    });
+
+    it('can be used by the editor together with the other object store storages', async () => {
+        const objectStore = new InMemoryObjectStore();
+        const keyValueStorage = new InMemoryStorage();
+        const h5pEditor = new H5PEditor(
+            keyValueStorage,
+            new EditorConfig(keyValueStorage),
+            new ObjectStoreLibraryStorage(objectStore),
+            new ObjectStoreContentStorage(objectStore),
+            new ObjectStoreTemporaryFileStorage(objectStore)
+        );
+        const user = new User();
+
+        const { metadata, parameters } = await h5pEditor.uploadPackage(
+            await fsExtra.readFile(
+                path.resolve('test/data/validator/valid2.h5p')
+            ),
+            user
+        );
+        const contentId = await h5pEditor.saveH5P(
+            undefined,
+            parameters,
+            metadata,
+            'H5P.GreetingCard 1.0',
+            user
+        );
+
+        expect(
+            await h5pEditor.libraryManager.libraryExists({
+                machineName: 'H5P.GreetingCard',
+                majorVersion: 1,
+                minorVersion: 0
+            })
+        ).toBe(true);
+        expect(await h5pEditor.contentManager.listContent()).toEqual([
+            contentId
+        ]);
+        const contentFiles = await h5pEditor.contentManager.getContentFiles(
+            contentId,
+            user
+        );
+        expect(contentFiles.length).toEqual(1);
+        expect(contentFiles[0]).toMatch(/^earth.*\.jpg$/);
+    });
+});
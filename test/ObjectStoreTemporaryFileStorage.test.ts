@@ -0,0 +1,79 @@
+import fsExtra from 'fs-extra';
+import path from 'path';
+
+import InMemoryObjectStore from '../src/implementation/objectStore/InMemoryObjectStore';
+import ObjectStoreTemporaryFileStorage from '../src/implementation/objectStore/ObjectStoreTemporaryFileStorage';
+import { streamToBuffer } from '../src/implementation/objectStore/objectStoreHelpers';
+
+import User from '../examples/User';
+
+describe('ObjectStoreTemporaryFileStorage', () => {
+    const filePath = path.resolve('test/data/sample-content/h5p.json');
+
+    it('stores files and restricts access to their owner', async () => {
+        const storage = new ObjectStoreTemporaryFileStorage(
+            new InMemoryObjectStore()
+        );
+        const user1 = new User();
+        const user2 = new User();
+        user2.id = '2';
+        const expirationTime = new Date(Date.now() + 60000);
+
+        await storage.saveFile(
+            'images/file.json',
+            fsExtra.createReadStream(filePath),
+            user1,
+            expirationTime
+        );
+        expect(await storage.fileExists('images/file.json', user1)).toBe(true);
+        expect(await storage.fileExists('images/file.json', user2)).toBe(false);
+        expect(
+            await streamToBuffer(
+                await storage.getFileStream('images/file.json', user1)
+            )
+        ).toEqual(await fsExtra.readFile(filePath));
+        await expect(
+            storage.getFileStream('images/file.json', user2)
+        ).rejects.toThrow(
+            'storage-file-implementations:temporary-file-not-found'
+        );
+    });
+
+    it('lists files with their expiration times and deletes them', async () => {
+        const storage = new ObjectStoreTemporaryFileStorage(
+            new InMemoryObjectStore()
+        );
+        const user1 = new User();
+        const user2 = new User();
+        user2.id = '2';
+        const expirationTime = new Date(Date.now() + 60000);
+
+        await storage.saveFile(
+            'images/file1.json',
+            fsExtra.createReadStream(filePath),
+            user1,
+            expirationTime
+        );
+        await storage.saveFile(
+            'file2.json',
+            fsExtra.createReadStream(filePath),
+            user2,
+            expirationTime
+        );
+
+        expect(await storage.listFiles(user1)).toEqual([
+            {
+                expiresAt: expirationTime,
+                filename: 'images/file1.json',
+                ownedByUserId: '1'
+            }
+        ]);
+        expect((await storage.listFiles()).length).toEqual(2);
+
+        await storage.deleteFile('images/file1.json', '1');
+        expect(await storage.listFiles(user1)).toEqual([]);
+        expect(await storage.fileExists('images/file1.json', user1)).toBe(
+            false
+        );
+    });
+});
@@ -0,0 +1,321 @@
+import fsExtra from 'fs-extra';
+import path from 'path';
+import { withDir } from 'tmp-promise';
+
+import H5PEditor from '../src/H5PEditor';
+import EditorConfig from '../src/implementation/EditorConfig';
+import DirectoryTemporaryFileStorage from '../src/implementation/fs/DirectoryTemporaryFileStorage';
+import FileContentStorage from '../src/implementation/fs/FileContentStorage';
+import FileLibraryStorage from '../src/implementation/fs/FileLibraryStorage';
+import FilePermissionSystem from '../src/implementation/fs/FilePermissionSystem';
+import FileRevisionStorage from '../src/implementation/fs/FileRevisionStorage';
+import InMemoryStorage from '../src/implementation/InMemoryStorage';
+import { GeneralPermission, IPermissionSystem } from '../src/types';
+
+import User from '../examples/User';
+
+describe('RevisionManager', () => {
+    function createH5PEditor(
+        tempPath: string,
+        withRevisions: boolean = true,
+        permissionSystem?: IPermissionSystem
+    ): H5PEditor {
+        const keyValueStorage = new InMemoryStorage();
+        return new H5PEditor(
+            keyValueStorage,
+            new EditorConfig(keyValueStorage),
+            new FileLibraryStorage(path.join(tempPath, 'libraries')),
+            new FileContentStorage(path.join(tempPath, 'content')),
+            new DirectoryTemporaryFileStorage(path.join(tempPath, 'tmp')),
+            {
+                permissionSystem,
+                revisionStorage: withRevisions
+                    ? new FileRevisionStorage(path.join(tempPath, 'revisions'))
+                    : undefined
+            }
+        );
+    }
+
+    async function uploadAndSave(
+        h5pEditor: H5PEditor,
+        user: User
+    ): Promise<{ contentId: string; metadata: any; parameters: any }> {
+        const { metadata, parameters } = await h5pEditor.uploadPackage(
+            await fsExtra.readFile(
+                path.resolve('test/data/validator/valid2.h5p')
+            ),
+            user
+        );
+        const contentId = await h5pEditor.saveH5P(
+            undefined,
+            parameters,
+            metadata,
+            'H5P.GreetingCard 1.0',
+            user
+        );
+        return {
+            contentId,
+            metadata,
+            parameters: await h5pEditor.contentManager.loadContent(
+                contentId,
+                user
+            )
+        };
+    }
+
+    it('creates a revision on every save and lists them', async () => {
+        await withDir(
+            async ({ path: tempDirPath }) => {
+                const h5pEditor = createH5PEditor(tempDirPath);
+                const user = new User();
+                const { contentId, metadata, parameters } = await uploadAndSave(
+                    h5pEditor,
+                    user
+                );
+                await h5pEditor.saveH5P(
+                    contentId,
+                    { ...parameters, greeting: 'Hello again!' },
+                    metadata,
+                    'H5P.GreetingCard 1.0',
+                    user
+                );
+
+                const revisions = await h5pEditor.revisionManager.listRevisions(
+                    contentId,
+                    user
+                );
+                expect(revisions.map(r => r.revisionId)).toEqual([1, 2]);
+                expect(revisions[0]).toMatchObject({ contentId, userId: '1' });
+
+                const revision = await h5pEditor.revisionManager.getRevision(
+                    contentId,
+                    1,
+                    user
+                );
+                expect(revision.parameters.greeting).toEqual('Hello world!');
+                expect(Object.keys(revision.files)).toEqual([
+                    parameters.image.path
+                ]);
+                await expect(
+                    h5pEditor.revisionManager.getRevision(contentId, 3, user)
+                ).rejects.toThrow('revision-not-found');
+            },
+            { keep: false, unsafeCleanup: true }
+        );
+    });
+
+    it('diffs revisions by JSON path', async () => {
+        await withDir(
+            async ({ path: tempDirPath }) => {
+                const h5pEditor = createH5PEditor(tempDirPath);
+                const user = new User();
+                const { contentId, metadata, parameters } = await uploadAndSave(
+                    h5pEditor,
+                    user
+                );
+                await h5pEditor.saveH5P(
+                    contentId,
+                    { greeting: 'Hello again!' },
+                    metadata,
+                    'H5P.GreetingCard 1.0',
+                    user
+                );
+
+                const differences = await h5pEditor.revisionManager.diffRevisions(
+                    contentId,
+                    1,
+                    2,
+                    user
+                );
+                expect(differences).toEqual([
+                    {
+                        oldValue: expect.any(String),
+                        path: `$.files["${parameters.image.path}"]`,
+                        type: 'removed'
+                    },
+                    {
+                        newValue: 'Hello again!',
+                        oldValue: 'Hello world!',
+                        path: '$.parameters.greeting',
+                        type: 'changed'
+                    },
+                    {
+                        oldValue: parameters.image,
+                        path: '$.parameters.image',
+                        type: 'removed'
+                    }
+                ]);
+            },
+            { keep: false, unsafeCleanup: true }
+        );
+    });
+
+    it('restores revisions including deleted files', async () => {
+        await withDir(
+            async ({ path: tempDirPath }) => {
+                const h5pEditor = createH5PEditor(tempDirPath);
+                const user = new User();
+                const { contentId, metadata, parameters } = await uploadAndSave(
+                    h5pEditor,
+                    user
+                );
+                await h5pEditor.saveH5P(
+                    contentId,
+                    { greeting: 'Hello again!' },
+                    metadata,
+                    'H5P.GreetingCard 1.0',
+                    user
+                );
+                expect(
+                    await h5pEditor.contentManager.getContentFiles(
+                        contentId,
+                        user
+                    )
+                ).toEqual([]);
+
+                const restored = await h5pEditor.revisionManager.restoreRevision(
+                    contentId,
+                    1,
+                    user
+                );
+                expect(restored).toMatchObject({
+                    restoredFrom: 1,
+                    revisionId: 3
+                });
+                expect(
+                    await h5pEditor.contentManager.loadContent(contentId, user)
+                ).toEqual(parameters);
+                expect(
+                    await h5pEditor.contentManager.getContentFiles(
+                        contentId,
+                        user
+                    )
+                ).toEqual([parameters.image.path]);
+                expect(
+                    await h5pEditor.revisionManager.diffRevisions(
+                        contentId,
+                        1,
+                        3,
+                        user
+                    )
+                ).toEqual([]);
+            },
+            { keep: false, unsafeCleanup: true }
+        );
+    });
+
+    it('keeps the state of content saved before revisions were enabled', async () => {
+        await withDir(
+            async ({ path: tempDirPath }) => {
+                const user = new User();
+                const { contentId, metadata } = await uploadAndSave(
+                    createH5PEditor(tempDirPath, false),
+                    user
+                );
+
+                const h5pEditor = createH5PEditor(tempDirPath);
+                await h5pEditor.saveH5P(
+                    contentId,
+                    { greeting: 'Hello again!' },
+                    metadata,
+                    'H5P.GreetingCard 1.0',
+                    user
+                );
+                const revision = await h5pEditor.revisionManager.getRevision(
+                    contentId,
+                    1,
+                    user
+                );
+                expect(revision.parameters.greeting).toEqual('Hello world!');
+                expect(Object.keys(revision.files).length).toEqual(1);
+                expect(
+                    (
+                        await h5pEditor.revisionManager.listRevisions(
+                            contentId,
+                            user
+                        )
+                    ).length
+                ).toEqual(2);
+            },
+            { keep: false, unsafeCleanup: true }
+        );
+    });
+
+    it("doesn't create revisions for users who aren't allowed to edit the content", async () => {
+        await withDir(
+            async ({ path: tempDirPath }) => {
+                const permissionSystem = new FilePermissionSystem(
+                    path.join(tempDirPath, 'permissions.json'),
+                    ['author']
+                );
+                await permissionSystem.setRole('author', {
+                    content: [],
+                    general: [
+                        GeneralPermission.CreateContent,
+                        GeneralPermission.UpdateAndInstallLibraries
+                    ]
+                });
+                const { contentId, metadata } = await uploadAndSave(
+                    createH5PEditor(tempDirPath, false, permissionSystem),
+                    new User()
+                );
+                const other = new User();
+                other.id = '2';
+
+                await expect(
+                    createH5PEditor(
+                        tempDirPath,
+                        true,
+                        permissionSystem
+                    ).saveH5P(
+                        contentId,
+                        { greeting: 'Hello again!' },
+                        metadata,
+                        'H5P.GreetingCard 1.0',
+                        other
+                    )
+                ).rejects.toThrow('content-permission-denied');
+                expect(
+                    await new FileRevisionStorage(
+                        path.join(tempDirPath, 'revisions')
+                    ).listRevisions(contentId)
+                ).toEqual([]);
+            },
+            { keep: false, unsafeCleanup: true }
+        );
+    });
+
+    it('gives concurrent revisions different numbers', async () => {
+        await withDir(
+            async ({ path: tempDirPath }) => {
+                const h5pEditor = createH5PEditor(tempDirPath);
+                const user = new User();
+                const { contentId } = await uploadAndSave(h5pEditor, user);
+
+                const revisions = await Promise.all(
+                    [1, 2, 3, 4].map(() =>
+                        h5pEditor.revisionManager.createRevision(
+                            contentId,
+                            user
+                        )
+                    )
+                );
+                expect(revisions.map(r => r.revisionId).sort()).toEqual([
+                    2,
+                    3,
+                    4,
+                    5
+                ]);
+                expect(
+                    (
+                        await h5pEditor.revisionManager.listRevisions(
+                            contentId,
+                            user
+                        )
+                    ).map(r => r.revisionId)
+                ).toEqual([1, 2, 3, 4, 5]);
+            },
+            { keep: false, unsafeCleanup: true }
+        );
+    });
+});
@@ -0,0 +1,123 @@
+import AggregateH5pError from '../src/helpers/AggregateH5pError';
+import H5pError from '../src/helpers/H5pError';
+import TranslationService from '../src/TranslationService';
+
+describe('TranslationService', () => {
+    const translationService = new TranslationService();
+
+    it('translates strings with replacements into the bundled languages', () => {
+        expect(translationService.getLanguages()).toEqual(['de', 'en', 'fr']);
+        expect(
+            translationService.translate('content-not-found', {
+                contentId: '1'
+            })
+        ).toEqual('Content with id 1 does not exist.');
+        expect(
+            translationService.translate(
+                'content-not-found',
+                { contentId: '1' },
+                'de-CH'
+            )
+        ).toEqual('Der Inhalt mit der ID 1 existiert nicht.');
+        expect(
+            translationService.translate(
+                'library-consistency-check-file-missing',
+                { files: ['a.js', 'b.css'], name: '<H5P.Example>' },
+                'en'
+            )
+        ).toEqual('Missing files in library &lt;H5P.Example&gt;: a.js, b.css');
+    });
+
+    it('uses the plural form of strings', () => {
+        expect(
+            translationService.translate('installed-libraries', { count: 2 })
+        ).toEqual('Added 2 new H5P libraries.');
+        expect(
+            translationService.translate(
+                'installed-libraries',
+                { count: 1 },
+                'de'
+            )
+        ).toEqual('1 neue H5P-Bibliothek hinzugefügt.');
+        expect(
+            translationService.translate(
+                'installed-libraries',
+                { count: 0 },
+                'fr'
+            )
+        ).toEqual('0 nouvelle bibliothèque H5P ajoutée.');
+    });
+
+    it('falls back to English and to the key', () => {
+        const service = new TranslationService({
+            de: {},
+            en: { greeting: 'Hello {{name}}' }
+        });
+        expect(service.translate('greeting', { name: 'you' }, 'de')).toEqual(
+            'Hello you'
+        );
+        expect(service.translate('greeting', {}, 'es')).toEqual(
+            'Hello {{name}}'
+        );
+        expect(service.translate('unknown', {}, 'de')).toEqual('unknown');
+    });
+
+    it('negotiates the language of the Accept-Language header', () => {
+        expect(
+            translationService.negotiateLanguage('es, fr-CA;q=0.8, de;q=0.9')
+        ).toEqual('de');
+        expect(translationService.negotiateLanguage('fr-CA, de;q=0')).toEqual(
+            'fr'
+        );
+        expect(translationService.negotiateLanguage('es, *;q=0.5')).toEqual(
+            'en'
+        );
+        expect(translationService.negotiateLanguage(undefined)).toEqual('en');
+    });
+
+    it('translates the errors of nested aggregate errors', () => {
+        const innerError = new AggregateH5pError(
+            'package-validation-failed',
+            {},
+            400,
+            ''
+        ).addError(
+            new H5pError('invalid-library-name', { name: 'H5P.Example' }, 400)
+        );
+        const error = new AggregateH5pError(
+            'content-validation-failed',
+            {},
+            400,
+            ''
+        )
+            .addError(new H5pError('semantics-invalid-text', { path: 'text' }))
+            .addError(innerError);
+
+        expect(translationService.translateError(error, 'de')).toEqual({
+            details: [
+                {
+                    code: 'semantics-invalid-text',
+                    message: 'Das Feld text muss ein Text sein.'
+                },
+                {
+                    code: 'package-validation-failed',
+                    message: 'Die Prüfung des H5P-Pakets ist fehlgeschlagen.'
+                },
+                {
+                    code: 'invalid-library-name',
+                    message: 'Ungültiger Bibliotheksname: H5P.Example'
+                }
+            ],
+            message:
+                'Der Inhalt konnte nicht gespeichert werden, da seine Parameter ungültig sind.'
+        });
+        expect(
+            translationService.translateError(
+                new H5pError('content-not-found', { contentId: '1' }, 404),
+                'fr'
+            )
+        ).toEqual({
+            message: "Le contenu avec l'identifiant 1 n'existe pas."
+        });
+    });
+});
@@ -0,0 +1,277 @@
+import bodyParser from 'body-parser';
+import express from 'express';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import path from 'path';
+import { withDir } from 'tmp-promise';
+
+import ContentManager from '../src/ContentManager';
+import FileContentStorage from '../src/implementation/fs/FileContentStorage';
+import FileXapiStatementStore from '../src/implementation/fs/FileXapiStatementStore';
+import { ContentId, IContentMetadata } from '../src/types';
+import XapiLrsForwarder from '../src/XapiLrsForwarder';
+import XapiStatementManager from '../src/XapiStatementManager';
+
+import User from '../examples/User';
+
+describe('XapiStatementManager', () => {
+    const metadata: IContentMetadata = {
+        embedTypes: ['iframe'],
+        language: 'en',
+        license: 'U',
+        mainLibrary: 'H5P.Example',
+        preloadedDependencies: [
+            { machineName: 'H5P.Example', majorVersion: 1, minorVersion: 0 }
+        ],
+        title: 'Example'
+    };
+
+    function createStatement(verb: string): any {
+        return {
+            actor: { mbox: 'mailto:user@example.com', objectType: 'Agent' },
+            object: {
+                id: 'http://example.com/content',
+                objectType: 'Activity'
+            },
+            verb: { id: `http://adlnet.gov/expapi/verbs/${verb}` }
+        };
+    }
+
+    async function setup(
+        tempPath: string,
+        forwarder?: XapiLrsForwarder
+    ): Promise<{
+        contentId: ContentId;
+        contentManager: ContentManager;
+        manager: XapiStatementManager;
+    }> {
+        const contentManager = new ContentManager(
+            new FileContentStorage(path.join(tempPath, 'content'))
+        );
+        const contentId = await contentManager.createOrUpdateContent(
+            metadata,
+            {},
+            new User()
+        );
+        const manager = new XapiStatementManager(
+            contentManager,
+            new FileXapiStatementStore(path.join(tempPath, 'xapi')),
+            forwarder
+        );
+        return { contentId, contentManager, manager };
+    }
+
+    /**
+     * Starts a minimal LRS on a random local port that records the requests
+     * to its statements resource.
+     */
+    async function startLrsStub(
+        status: number
+    ): Promise<{
+        endpoint: string;
+        received: Promise<void>;
+        requests: any[];
+        server: Server;
+    }> {
+        const requests = [];
+        let resolveReceived: () => void;
+        const received = new Promise<void>(resolve => {
+            resolveReceived = resolve;
+        });
+        const lrs = express();
+        lrs.use(bodyParser.json());
+        lrs.post('/xapi/statements', (req, res) => {
+            requests.push({ body: req.body, headers: req.headers });
+            res.status(status).json([]);
+            resolveReceived();
+        });
+        const server = await new Promise<Server>(resolve => {
+            const listening = lrs.listen(0, '127.0.0.1', () =>
+                resolve(listening)
+            );
+        });
+        return {
+            endpoint: `http://127.0.0.1:${
+                (server.address() as AddressInfo).port
+            }/xapi`,
+            received,
+            requests,
+            server
+        };
+    }
+
+    it('stores statements per user and returns them', async () => {
+        await withDir(
+            async ({ path: tempDirPath }) => {
+                const { contentId, manager } = await setup(tempDirPath);
+                const user = new User();
+                const otherUser = new User();
+                otherUser.id = '2';
+
+                await manager.addStatements(
+                    contentId,
+                    [createStatement('attempted'), createStatement('answered')],
+                    user
+                );
+                await manager.addStatements(
+                    contentId,
+                    [createStatement('completed')],
+                    otherUser
+                );
+
+                const ownStatements = await manager.getStatements(
+                    contentId,
+                    user,
+                    user.id
+                );
+                expect(
+                    ownStatements.map(record => record.statement.verb.id)
+                ).toEqual([
+                    'http://adlnet.gov/expapi/verbs/attempted',
+                    'http://adlnet.gov/expapi/verbs/answered'
+                ]);
+                expect(ownStatements[0].userId).toEqual(user.id);
+                expect(ownStatements[0].storedAt).toBeInstanceOf(Date);
+
+                const allStatements = await manager.getStatements(
+                    contentId,
+                    user
+                );
+                expect(allStatements.length).toEqual(3);
+                expect(
+                    await manager.getStatements(contentId, user, '3')
+                ).toEqual([]);
+            },
+            { keep: false, unsafeCleanup: true }
+        );
+    });
+
+    it('replaces the actor with the user who sent the statements', async () => {
+        await withDir(
+            async ({ path: tempDirPath }) => {
+                const { contentId, manager } = await setup(tempDirPath);
+                const user = new User();
+                user.id = '2';
+                user.name = 'Jane Doe';
+
+                const [record] = await manager.addStatements(
+                    contentId,
+                    [createStatement('completed')],
+                    user
+                );
+                expect(record.statement.actor).toEqual({
+                    account: { homePage: 'http://localhost', name: '2' },
+                    name: 'Jane Doe',
+                    objectType: 'Agent'
+                });
+                expect(record.statement.verb).toEqual(
+                    createStatement('completed').verb
+                );
+
+                await expect(
+                    manager.addStatements(
+                        contentId,
+                        [createStatement('completed')],
+                        undefined
+                    )
+                ).rejects.toThrow('xapi-no-user');
+                await expect(
+                    manager.getStatements(contentId, undefined)
+                ).rejects.toThrow('xapi-no-user');
+            },
+            { keep: false, unsafeCleanup: true }
+        );
+    });
+
+    it('rejects invalid statements and unknown content', async () => {
+        await withDir(
+            async ({ path: tempDirPath }) => {
+                const { contentId, manager } = await setup(tempDirPath);
+                const user = new User();
+
+                await expect(
+                    manager.addStatements(
+                        contentId,
+                        [{ actor: {}, verb: {} }],
+                        user
+                    )
+                ).rejects.toThrow('xapi-statement-invalid');
+                await expect(
+                    manager.addStatements(
+                        '999',
+                        [createStatement('attempted')],
+                        user
+                    )
+                ).rejects.toThrow('content-not-found');
+                expect(await manager.getStatements(contentId, user)).toEqual(
+                    []
+                );
+            },
+            { keep: false, unsafeCleanup: true }
+        );
+    });
+
+    it('forwards statements to the LRS', async () => {
+        const lrs = await startLrsStub(200);
+        try {
+            await withDir(
+                async ({ path: tempDirPath }) => {
+                    const { contentId, manager } = await setup(
+                        tempDirPath,
+                        new XapiLrsForwarder(lrs.endpoint, 'Basic dGVzdDp0ZXN0')
+                    );
+
+                    const [record] = await manager.addStatements(
+                        contentId,
+                        [createStatement('completed')],
+                        new User()
+                    );
+                    await lrs.received;
+
+                    expect(lrs.requests.length).toEqual(1);
+                    expect(lrs.requests[0].body).toEqual([record.statement]);
+                    expect(lrs.requests[0].headers.authorization).toEqual(
+                        'Basic dGVzdDp0ZXN0'
+                    );
+                    expect(
+                        lrs.requests[0].headers['x-experience-api-version']
+                    ).toEqual('1.0.3');
+                },
+                { keep: false, unsafeCleanup: true }
+            );
+        } finally {
+            lrs.server.close();
+        }
+    });
+
+    it('stores statements even if the LRS rejects them', async () => {
+        const lrs = await startLrsStub(500);
+        try {
+            await withDir(
+                async ({ path: tempDirPath }) => {
+                    const forwarder = new XapiLrsForwarder(lrs.endpoint);
+                    const { contentId, manager } = await setup(
+                        tempDirPath,
+                        forwarder
+                    );
+                    const user = new User();
+
+                    await expect(
+                        forwarder.forward([createStatement('completed')])
+                    ).rejects.toThrow('xapi-lrs-forwarding-failed');
+                    await manager.addStatements(
+                        contentId,
+                        [createStatement('completed')],
+                        user
+                    );
+                    expect(
+                        (await manager.getStatements(contentId, user)).length
+                    ).toEqual(1);
+                },
+                { keep: false, unsafeCleanup: true }
+            );
+        } finally {
+            lrs.server.close();
+        }
+    });
+});
@@ -0,0 +1,112 @@
+import bodyParser from 'body-parser';
+import express from 'express';
+import path from 'path';
+import supertest from 'supertest';
+import { dir } from 'tmp-promise';
+
+import User from '../../examples/User';
+import * as H5P from '../../src';
+
+describe('Express content user data endpoints', () => {
+    let app: express;
+    let cleanup: () => Promise<void>;
+    let contentId: H5P.ContentId;
+
+    beforeEach(async () => {
+        app = express();
+        const tDir = await dir({ unsafeCleanup: true });
+        cleanup = tDir.cleanup;
+
+        app.use(bodyParser.json());
+        app.use(bodyParser.urlencoded({ extended: true }));
+        const h5pEditor = H5P.fs(
+            new H5P.EditorConfig(new H5P.fsImplementations.InMemoryStorage(), {
+                baseUrl: ''
+            }),
+            path.resolve(path.join(tDir.path, 'libraries')),
+            path.resolve(path.join(tDir.path, 'temporary-storage')),
+            path.resolve(path.join(tDir.path, 'content')),
+            undefined,
+            {
+                contentUserDataPath: path.resolve(
+                    path.join(tDir.path, 'content-user-data')
+                )
+            }
+        );
+        contentId = await h5pEditor.contentManager.createOrUpdateContent(
+            {
+                embedTypes: ['iframe'],
+                language: 'en',
+                license: 'U',
+                mainLibrary: 'H5P.Example',
+                preloadedDependencies: [
+                    {
+                        machineName: 'H5P.Example',
+                        majorVersion: 1,
+                        minorVersion: 0
+                    }
+                ],
+                title: 'Example'
+            },
+            {},
+            new User()
+        );
+        app.use((req, res, next) => {
+            req.user = new User();
+            req.t = (id, replacements) => id;
+            next();
+        });
+        app.use(
+            H5P.adapters.express(
+                h5pEditor,
+                path.resolve(path.join(tDir.path, 'core')),
+                path.resolve(path.join(tDir.path, 'editor'))
+            )
+        );
+    });
+
+    afterEach(async () => {
+        app = null;
+        await cleanup();
+    });
+
+    it('saves, loads and deletes user data like the H5P client does', async () => {
+        const url = `/content-user-data/${contentId}/state/0`;
+
+        let res = await supertest(app).get(url);
+        expect(res.status).toBe(200);
+        expect(res.body).toEqual({ data: false, success: true });
+
+        res = await supertest(app)
+            .post(url)
+            .type('form')
+            .send({ data: '{"progress":2}', invalidate: '1', preload: '1' });
+        expect(res.status).toBe(200);
+        expect(res.body.success).toBe(true);
+
+        res = await supertest(app).get(url);
+        expect(res.body).toEqual({ data: '{"progress":2}', success: true });
+
+        res = await supertest(app)
+            .post(url)
+            .type('form')
+            .send({ data: '0', invalidate: '0', preload: '0' });
+        expect(res.status).toBe(200);
+        res = await supertest(app).get(url);
+        expect(res.body).toEqual({ data: false, success: true });
+    });
+
+    it('returns errors for malformed requests', async () => {
+        expect(
+            (
+                await supertest(app)
+                    .post(`/content-user-data/${contentId}/state/0`)
+                    .type('form')
+                    .send({ preload: '1' })
+            ).status
+        ).toBe(400);
+        expect(
+            (await supertest(app).get('/content-user-data/999/state/0')).status
+        ).toBe(404);
+    });
+});
@@ -0,0 +1,98 @@
+import bodyParser from 'body-parser';
+import express from 'express';
+import fsExtra from 'fs-extra';
+import path from 'path';
+import supertest from 'supertest';
+import { dir } from 'tmp-promise';
+
+import User from '../../examples/User';
+import * as H5P from '../../src';
+
+describe('Express embed endpoints', () => {
+    let app: express;
+    let cleanup: () => Promise<void>;
+    let contentId: H5P.ContentId;
+    let h5pEditor: H5P.H5PEditor;
+
+    beforeEach(async () => {
+        app = express();
+        const tDir = await dir({ unsafeCleanup: true });
+        cleanup = tDir.cleanup;
+
+        app.use(bodyParser.json());
+        h5pEditor = H5P.fs(
+            new H5P.EditorConfig(new H5P.fsImplementations.InMemoryStorage(), {
+                baseUrl: '',
+                siteUrl: 'https://example.com'
+            }),
+            path.resolve(path.join(tDir.path, 'libraries')),
+            path.resolve(path.join(tDir.path, 'temporary-storage')),
+            path.resolve(path.join(tDir.path, 'content'))
+        );
+        contentId = await h5pEditor.contentManager.createOrUpdateContent(
+            {
+                embedTypes: ['iframe'],
+                language: 'en',
+                license: 'U',
+                mainLibrary: 'H5P.Example',
+                preloadedDependencies: [],
+                title: 'Example'
+            },
+            {},
+            new User()
+        );
+        await fsExtra.outputFile(
+            path.join(tDir.path, 'core', 'js', 'h5p-resizer.js'),
+            '// resizer'
+        );
+        app.use((req, res, next) => {
+            req.user = new User();
+            req.t = (id, replacements) => id;
+            next();
+        });
+        app.use(
+            H5P.adapters.express(
+                h5pEditor,
+                path.resolve(path.join(tDir.path, 'core')),
+                path.resolve(path.join(tDir.path, 'editor'))
+            )
+        );
+    });
+
+    afterEach(async () => {
+        app = null;
+        await cleanup();
+    });
+
+    it('renders the embed page if embedding is enabled for the content', async () => {
+        expect((await supertest(app).get(`/embed/${contentId}`)).status).toBe(
+            403
+        );
+
+        await h5pEditor.contentManager.setDisplayOptions(
+            contentId,
+            { embed: true },
+            new User()
+        );
+        const res = await supertest(app).get(`/embed/${contentId}`);
+        expect(res.status).toBe(200);
+        expect(res.type).toBe('text/html');
+        expect(res.text).toContain(
+            `<div class="h5p-content" data-content-id="${contentId}"></div>`
+        );
+        expect(res.text).toContain(
+            `<iframe src=\\"https://example.com/embed/${contentId}\\"`
+        );
+        expect(res.text).not.toContain('/download/');
+    });
+
+    it('returns 404 for unknown content', async () => {
+        expect((await supertest(app).get('/embed/999')).status).toBe(404);
+    });
+
+    it('serves the resizer script', async () => {
+        const res = await supertest(app).get('/resizer.js');
+        expect(res.status).toBe(200);
+        expect(res.text).toBe('// resizer');
+    });
+});
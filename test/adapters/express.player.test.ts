@@ -0,0 +1,195 @@
+import express from 'express';
+import { Readable } from 'stream';
+import path from 'path';
+import supertest from 'supertest';
+import { dir } from 'tmp-promise';
+
+import User from '../../examples/User';
+import * as H5P from '../../src';
+
+describe('Express player endpoints', () => {
+    let app: express;
+    let cleanup: () => Promise<void>;
+    let contentId: H5P.ContentId;
+    let h5pEditor: H5P.H5PEditor;
+    let permissions: H5P.Permission[];
+
+    beforeEach(async () => {
+        app = express();
+        const tDir = await dir({ unsafeCleanup: true });
+        cleanup = tDir.cleanup;
+        permissions = [H5P.Permission.View, H5P.Permission.Download];
+
+        h5pEditor = new H5P.H5PEditor(
+            new H5P.fsImplementations.InMemoryStorage(),
+            new H5P.EditorConfig(new H5P.fsImplementations.InMemoryStorage(), {
+                baseUrl: ''
+            }),
+            new H5P.fsImplementations.FileLibraryStorage(
+                path.join(tDir.path, 'libraries')
+            ),
+            new H5P.fsImplementations.FileContentStorage(
+                path.join(tDir.path, 'content')
+            ),
+            new H5P.fsImplementations.DirectoryTemporaryFileStorage(
+                path.join(tDir.path, 'temporary-storage')
+            ),
+            {
+                permissionSystem: {
+                    deleteContentPermissions: async () => undefined,
+                    getContentPermissions: async () => permissions,
+                    hasGeneralPermission: async () => true,
+                    setContentOwner: async () => undefined
+                }
+            }
+        );
+        contentId = await h5pEditor.contentManager.createOrUpdateContent(
+            {
+                embedTypes: ['iframe'],
+                language: 'en',
+                license: 'U',
+                mainLibrary: 'H5P.Example',
+                preloadedDependencies: [],
+                title: 'Example'
+            },
+            {},
+            new User()
+        );
+        const data = new Readable();
+        data._read = () => {
+            return;
+        };
+        data.push('0123456789');
+        data.push(null);
+        await h5pEditor.contentManager.addContentFile(
+            contentId,
+            'videos/video.mp4',
+            data,
+            new User()
+        );
+        app.use((req, res, next) => {
+            req.user = new User();
+            req.t = (id, replacements) => id;
+            next();
+        });
+        app.use(
+            H5P.adapters.express(
+                h5pEditor,
+                path.resolve(path.join(tDir.path, 'core')),
+                path.resolve(path.join(tDir.path, 'editor'))
+            )
+        );
+    });
+
+    afterEach(async () => {
+        app = null;
+        await cleanup();
+    });
+
+    it('plays content the user can view', async () => {
+        const res = await supertest(app).get(`/play/${contentId}`);
+        expect(res.status).toBe(200);
+        expect(res.text).toContain(
+            `<div class="h5p-content" data-content-id="${contentId}"></div>`
+        );
+
+        expect((await supertest(app).get('/play/999')).status).toBe(404);
+        permissions = [];
+        expect((await supertest(app).get(`/play/${contentId}`)).status).toBe(
+            403
+        );
+    });
+
+    it('returns 404 for content that uses libraries that are not installed', async () => {
+        const missingLibraryContentId = await h5pEditor.contentManager.createOrUpdateContent(
+            {
+                embedTypes: ['iframe'],
+                language: 'en',
+                license: 'U',
+                mainLibrary: 'H5P.Missing',
+                preloadedDependencies: [
+                    {
+                        machineName: 'H5P.Missing',
+                        majorVersion: 1,
+                        minorVersion: 0
+                    }
+                ],
+                title: 'Missing'
+            },
+            {},
+            new User()
+        );
+
+        const res = await supertest(app).get(
+            `/play/${missingLibraryContentId}`
+        );
+        expect(res.status).toBe(404);
+        expect(res.body.message).toBe('library-not-found');
+    });
+
+    it('only lets users with the embed permission embed content', async () => {
+        permissions = [H5P.Permission.Edit];
+        await h5pEditor.contentManager.setDisplayOptions(
+            contentId,
+            { embed: true },
+            new User()
+        );
+        permissions = [H5P.Permission.View];
+        const res = await supertest(app).get(`/embed/${contentId}`);
+        expect(res.status).toBe(403);
+        expect(res.body.message).toBe('content-permission-denied');
+
+        permissions = [H5P.Permission.View, H5P.Permission.Embed];
+        expect((await supertest(app).get(`/embed/${contentId}`)).status).toBe(
+            200
+        );
+    });
+
+    it('serves content files and honors ranges', async () => {
+        const url = `/content/${contentId}/videos/video.mp4`;
+
+        let res = await supertest(app).get(url);
+        expect(res.status).toBe(200);
+        expect(res.header['accept-ranges']).toBe('bytes');
+        expect(res.header['content-length']).toBe('10');
+        expect(res.body.toString()).toBe('0123456789');
+
+        res = await supertest(app)
+            .get(url)
+            .set('Range', 'bytes=2-5');
+        expect(res.status).toBe(206);
+        expect(res.header['content-range']).toBe('bytes 2-5/10');
+        expect(res.body.toString()).toBe('2345');
+
+        res = await supertest(app)
+            .get(url)
+            .set('Range', 'bytes=20-30');
+        expect(res.status).toBe(416);
+        expect(res.header['content-range']).toBe('bytes */10');
+
+        res = await supertest(app).get(url);
+        expect(res.header['cache-control']).toBe('private, no-cache');
+        res = await supertest(app)
+            .get(url)
+            .set('If-None-Match', res.header.etag);
+        expect(res.status).toBe(304);
+
+        res = await supertest(app).get(
+            `/content/${contentId}/.storage-metadata.json`
+        );
+        expect(res.status).toBe(404);
+        expect(res.text).not.toContain('owner');
+
+        permissions = [];
+        expect((await supertest(app).get(url)).status).toBe(403);
+    });
+
+    it('only lets users with the download permission download content', async () => {
+        expect((await supertest(app).get('/download/999')).status).toBe(404);
+
+        permissions = [H5P.Permission.View];
+        const res = await supertest(app).get(`/download/${contentId}`);
+        expect(res.status).toBe(403);
+        expect(res.header['content-disposition']).toBeUndefined();
+    });
+});
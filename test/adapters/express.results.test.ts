@@ -0,0 +1,128 @@
+import bodyParser from 'body-parser';
+import express from 'express';
+import path from 'path';
+import supertest from 'supertest';
+import { dir } from 'tmp-promise';
+
+import User from '../../examples/User';
+import * as H5P from '../../src';
+
+describe('Express result endpoints', () => {
+    let app: express;
+    let cleanup: () => Promise<void>;
+    let contentId: H5P.ContentId;
+
+    beforeEach(async () => {
+        app = express();
+        const tDir = await dir({ unsafeCleanup: true });
+        cleanup = tDir.cleanup;
+
+        app.use(bodyParser.json());
+        app.use(bodyParser.urlencoded({ extended: true }));
+        const h5pEditor = H5P.fs(
+            new H5P.EditorConfig(new H5P.fsImplementations.InMemoryStorage(), {
+                baseUrl: ''
+            }),
+            path.resolve(path.join(tDir.path, 'libraries')),
+            path.resolve(path.join(tDir.path, 'temporary-storage')),
+            path.resolve(path.join(tDir.path, 'content')),
+            undefined,
+            { resultsPath: path.resolve(path.join(tDir.path, 'results')) }
+        );
+        contentId = await h5pEditor.contentManager.createOrUpdateContent(
+            {
+                embedTypes: ['iframe'],
+                language: 'en',
+                license: 'U',
+                mainLibrary: 'H5P.Example',
+                preloadedDependencies: [
+                    {
+                        machineName: 'H5P.Example',
+                        majorVersion: 1,
+                        minorVersion: 0
+                    }
+                ],
+                title: 'Example'
+            },
+            {},
+            new User()
+        );
+        app.use((req, res, next) => {
+            req.user = new User();
+            req.t = (id, replacements) => id;
+            next();
+        });
+        app.use(
+            H5P.adapters.express(
+                h5pEditor,
+                path.resolve(path.join(tDir.path, 'core')),
+                path.resolve(path.join(tDir.path, 'editor'))
+            )
+        );
+    });
+
+    afterEach(async () => {
+        app = null;
+        await cleanup();
+    });
+
+    it('stores results posted by the H5P client and returns them', async () => {
+        // the H5P client posts the result as form data
+        let res = await supertest(app)
+            .post('/results')
+            .type('form')
+            .send({
+                contentId: contentId.toString(),
+                finished: '1580000100',
+                maxScore: '10',
+                opened: '1580000000',
+                score: '7',
+                time: '0'
+            });
+        expect(res.status).toBe(200);
+        expect(res.body.success).toBe(true);
+
+        res = await supertest(app).get(`/results/content/${contentId}`);
+        expect(res.status).toBe(200);
+        expect(res.body).toEqual([
+            {
+                contentId: contentId.toString(),
+                finished: 1580000100,
+                maxScore: 10,
+                opened: 1580000000,
+                score: 7,
+                time: 0,
+                userId: '1'
+            }
+        ]);
+
+        res = await supertest(app).get('/results/user/1');
+        expect(res.status).toBe(200);
+        expect(res.body.length).toBe(1);
+    });
+
+    it('returns 400 for malformed results', async () => {
+        expect(
+            (
+                await supertest(app)
+                    .post('/results')
+                    .type('form')
+                    .send({ score: '7' })
+            ).status
+        ).toBe(400);
+        expect(
+            (
+                await supertest(app)
+                    .post('/results')
+                    .type('form')
+                    .send({
+                        contentId: contentId.toString(),
+                        finished: 'abc',
+                        maxScore: '10',
+                        opened: '1580000000',
+                        score: '7'
+                    })
+            ).status
+        ).toBe(400);
+    });
+});
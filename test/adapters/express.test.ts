@@ -113,6 +113,45 @@ describe('Express Ajax endpoint adapter', () => {
         expect(res.status).toBe(200);
     });
 
+    it('should send caching headers and ranges of library files', async () => {
+        await h5pEditor.packageImporter.installLibrariesFromPackage(
+            path.resolve('test/data/validator/valid2.h5p')
+        );
+        const url = '/libraries/H5P.GreetingCard-1.0/greetingcard.js';
+
+        let res = await supertest(app).get(url);
+        expect(res.status).toBe(200);
+        expect(res.header['cache-control']).toBe('public, no-cache');
+        expect(res.header.etag).toBeDefined();
+        expect(res.header['last-modified']).toBeDefined();
+        const { etag } = res.header;
+        const size = Number(res.header['content-length']);
+
+        res = await supertest(app)
+            .get(url)
+            .set('If-None-Match', etag);
+        expect(res.status).toBe(304);
+
+        res = await supertest(app).get(`${url}?version=1.0.6`);
+        expect(res.status).toBe(200);
+        expect(res.header['cache-control']).toBe(
+            'public, max-age=31536000, immutable'
+        );
+
+        res = await supertest(app)
+            .get(url)
+            .set('Range', 'bytes=0-9');
+        expect(res.status).toBe(206);
+        expect(res.header['content-range']).toBe(`bytes 0-9/${size}`);
+        expect(res.header['content-length']).toBe('10');
+
+        res = await supertest(app)
+            .get(url)
+            .set('Range', 'bytes=0-9')
+            .set('If-Range', '"outdated"');
+        expect(res.status).toBe(200);
+    });
+
     it('should return aggregated library data for installed libraries', async () => {
         await h5pEditor.packageImporter.installLibrariesFromPackage(
             path.resolve('test/data/validator/valid2.h5p')
@@ -131,10 +170,10 @@ describe('Express Ajax endpoint adapter', () => {
         expect(parsedData.version).toMatchObject({ major: 1, minor: 0 });
         expect(parsedData.title).toBe('Greeting Card');
         expect(parsedData.css).toMatchObject([
-            '/libraries/H5P.GreetingCard-1.0/greetingcard.css'
+            '/libraries/H5P.GreetingCard-1.0/greetingcard.css?version=1.0.6'
         ]);
         expect(parsedData.javascript).toMatchObject([
-            '/libraries/H5P.GreetingCard-1.0/greetingcard.js'
+            '/libraries/H5P.GreetingCard-1.0/greetingcard.js?version=1.0.6'
         ]);
         expect(parsedData.languages.sort()).toMatchObject(
             ['en', 'fr', 'nb'].sort()
@@ -387,5 +426,28 @@ describe('Express Ajax endpoint adapter', () => {
             const imageResult = await mockApp.get(`/temp-files/${imagePath}`);
             expect(imageResult.status).toBe(200);
         });
+
+        it('should filter parameters', async () => {
+            const filterResult = await mockApp
+                .post(`/ajax?action=filter`)
+                .send({
+                    libraryParameters: JSON.stringify({
+                        library: 'H5P.GreetingCard 1.0',
+                        metadata: { title: '<b>Title</b>' },
+                        params: {
+                            greeting: '<script>alert(1)</script>',
+                            unknown: 'value'
+                        }
+                    })
+                });
+            expect(filterResult.status).toBe(200);
+            expect(JSON.parse(filterResult.text).data).toEqual({
+                library: 'H5P.GreetingCard 1.0',
+                metadata: { title: '&lt;b&gt;Title&lt;/b&gt;' },
+                params: {
+                    greeting: '&lt;script&gt;alert(1)&lt;/script&gt;'
+                }
+            });
+        });
     });
 });
@@ -0,0 +1,134 @@
+import bodyParser from 'body-parser';
+import express from 'express';
+import path from 'path';
+import supertest from 'supertest';
+import { dir } from 'tmp-promise';
+
+import User from '../../examples/User';
+import * as H5P from '../../src';
+
+describe('Express xAPI endpoints', () => {
+    const statement = {
+        actor: { mbox: 'mailto:user@example.com', objectType: 'Agent' },
+        object: { id: 'http://example.com/content', objectType: 'Activity' },
+        verb: { id: 'http://adlnet.gov/expapi/verbs/answered' }
+    };
+    let app: express;
+    let cleanup: () => Promise<void>;
+    let contentId: H5P.ContentId;
+    let h5pEditor: H5P.H5PEditor;
+
+    async function setup(xapiEnabled: boolean): Promise<void> {
+        app = express();
+        const tDir = await dir({ unsafeCleanup: true });
+        cleanup = tDir.cleanup;
+
+        app.use(bodyParser.json());
+        h5pEditor = H5P.fs(
+            new H5P.EditorConfig(new H5P.fsImplementations.InMemoryStorage(), {
+                baseUrl: ''
+            }),
+            path.resolve(path.join(tDir.path, 'libraries')),
+            path.resolve(path.join(tDir.path, 'temporary-storage')),
+            path.resolve(path.join(tDir.path, 'content')),
+            undefined,
+            {
+                xapiStatementsPath: xapiEnabled
+                    ? path.resolve(path.join(tDir.path, 'xapi'))
+                    : undefined
+            }
+        );
+        contentId = await h5pEditor.contentManager.createOrUpdateContent(
+            {
+                embedTypes: ['iframe'],
+                language: 'en',
+                license: 'U',
+                mainLibrary: 'H5P.Example',
+                preloadedDependencies: [
+                    {
+                        machineName: 'H5P.Example',
+                        majorVersion: 1,
+                        minorVersion: 0
+                    }
+                ],
+                title: 'Example'
+            },
+            {},
+            new User()
+        );
+        app.use((req, res, next) => {
+            req.user = new User();
+            req.t = (id, replacements) => id;
+            next();
+        });
+        app.use(
+            H5P.adapters.express(
+                h5pEditor,
+                path.resolve(path.join(tDir.path, 'core')),
+                path.resolve(path.join(tDir.path, 'editor'))
+            )
+        );
+    }
+
+    afterEach(async () => {
+        app = null;
+        await cleanup();
+    });
+
+    it('stores single statements and arrays of statements', async () => {
+        await setup(true);
+
+        let res = await supertest(app)
+            .post(`/xapi/${contentId}`)
+            .send(statement);
+        expect(res.status).toBe(204);
+        res = await supertest(app)
+            .post(`/xapi/${contentId}`)
+            .send([statement, statement]);
+        expect(res.status).toBe(204);
+
+        res = await supertest(app).get(`/xapi/${contentId}?userId=1`);
+        expect(res.status).toBe(200);
+        expect(res.body.length).toBe(3);
+        expect(res.body[0].statement).toEqual({
+            ...statement,
+            actor: {
+                account: { homePage: 'http://localhost', name: '1' },
+                name: 'Firstname Surname',
+                objectType: 'Agent'
+            }
+        });
+        expect(res.body[0].userId).toEqual('1');
+    });
+
+    it('returns errors for invalid statements and unknown content', async () => {
+        await setup(true);
+
+        expect(
+            (
+                await supertest(app)
+                    .post(`/xapi/${contentId}`)
+                    .send({ verb: statement.verb })
+            ).status
+        ).toBe(400);
+        expect(
+            (
+                await supertest(app)
+                    .post('/xapi/999')
+                    .send(statement)
+            ).status
+        ).toBe(404);
+    });
+
+    it('returns 404 if no statement store is configured', async () => {
+        await setup(false);
+
+        expect(
+            (
+                await supertest(app)
+                    .post(`/xapi/${contentId}`)
+                    .send(statement)
+            ).status
+        ).toBe(404);
+    });
+});
@@ -0,0 +1,147 @@
+import express from 'express';
+import fsExtra from 'fs-extra';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import path from 'path';
+import supertest from 'supertest';
+import { dir } from 'tmp-promise';
+
+import User from '../../examples/User';
+import * as H5P from '../../src';
+import ContentTypeCache from '../../src/ContentTypeCache';
+import ContentTypeInformationRepository from '../../src/ContentTypeInformationRepository';
+import LibraryManager from '../../src/LibraryManager';
+import PackageImporter from '../../src/PackageImporter';
+
+describe('Express hub server adapter', () => {
+    let app: express;
+    let cleanup: () => Promise<void>;
+    let tempPath: string;
+
+    beforeEach(async () => {
+        const tDir = await dir({ unsafeCleanup: true });
+        cleanup = tDir.cleanup;
+        tempPath = tDir.path;
+
+        const libraryStorage = new H5P.fsImplementations.FileLibraryStorage(
+            path.join(tempPath, 'published')
+        );
+        await new PackageImporter(
+            new LibraryManager(libraryStorage),
+            new H5P.EditorConfig(null)
+        ).installLibrariesFromPackage(
+            path.resolve('test/data/validator/valid2.h5p')
+        );
+        await fsExtra.writeFile(
+            path.join(
+                tempPath,
+                'published',
+                'H5P.GreetingCard-1.0',
+                'icon.svg'
+            ),
+            '<svg/>'
+        );
+
+        app = express();
+        app.use((req, res, next) => {
+            req.t = (id, replacements) => id;
+            next();
+        });
+        app.use(
+            '/hub',
+            H5P.adapters.expressHubServer(new H5P.HubServer(libraryStorage))
+        );
+    });
+
+    afterEach(async () => {
+        app = null;
+        await cleanup();
+    });
+
+    it('returns the content types and their icons', async () => {
+        const res = await supertest(app).post('/hub/content-types/');
+
+        expect(res.status).toBe(200);
+        expect(res.body.contentTypes).toEqual([
+            expect.objectContaining({
+                icon: expect.stringMatching(
+                    /^http:\/\/127\.0\.0\.1:\d+\/hub\/content-types\/H5P\.GreetingCard\/icon\.svg$/
+                ),
+                id: 'H5P.GreetingCard',
+                version: { major: 1, minor: 0, patch: 6 }
+            })
+        ]);
+
+        const iconRes = await supertest(app).get(
+            '/hub/content-types/H5P.GreetingCard/icon.svg'
+        );
+        expect(iconRes.status).toBe(200);
+        expect(iconRes.header['content-type']).toMatch(/^image\/svg\+xml/);
+    });
+
+    it('returns 404 for content types that are not published', async () => {
+        const res = await supertest(app).get('/hub/content-types/H5P.Unknown');
+
+        expect(res.status).toBe(404);
+        expect(res.body.message).toBe('hub-server-content-type-not-found');
+        expect(res.header['content-disposition']).toBeUndefined();
+    });
+
+    it('returns the packages of content types as attachments', async () => {
+        const res = await supertest(app).get(
+            '/hub/content-types/H5P.GreetingCard'
+        );
+
+        expect(res.status).toBe(200);
+        expect(res.header['content-disposition']).toBe(
+            'attachment; filename="H5P.GreetingCard.h5p"'
+        );
+    });
+
+    it('can be used as the hub of another server', async () => {
+        const server: Server = await new Promise(resolve => {
+            const s = app.listen(0, '127.0.0.1', () => resolve(s));
+        });
+        try {
+            const hubUrl = `http://127.0.0.1:${
+                (server.address() as AddressInfo).port
+            }/hub`;
+            const storage = new H5P.fsImplementations.InMemoryStorage();
+            const config = new H5P.EditorConfig(storage, {
+                hubContentTypesEndpoint: `${hubUrl}/content-types/`,
+                hubRegistrationEndpoint: `${hubUrl}/sites`
+            });
+            const cache = new ContentTypeCache(config, storage);
+            expect(await cache.get()).toEqual([
+                expect.objectContaining({
+                    h5pMajorVersion: 1,
+                    h5pMinorVersion: 0,
+                    icon: `${hubUrl}/content-types/H5P.GreetingCard/icon.svg`,
+                    machineName: 'H5P.GreetingCard',
+                    majorVersion: 1,
+                    minorVersion: 0,
+                    patchVersion: 6
+                })
+            ]);
+            expect(config.uuid).not.toBe('');
+
+            const libraryManager = new LibraryManager(
+                new H5P.fsImplementations.FileLibraryStorage(
+                    path.join(tempPath, 'installed')
+                )
+            );
+            await new ContentTypeInformationRepository(
+                cache,
+                libraryManager,
+                config
+            ).install('H5P.GreetingCard', new User());
+            expect(
+                await libraryManager.libraryExists(
+                    new H5P.LibraryName('H5P.GreetingCard', 1, 0)
+                )
+            ).toBe(true);
+        } finally {
+            await new Promise(resolve => server.close(resolve));
+        }
+    });
+});
@@ -0,0 +1,212 @@
+import bodyParser from 'body-parser';
+import express from 'express';
+import fsExtra from 'fs-extra';
+import path from 'path';
+import supertest from 'supertest';
+import { dir } from 'tmp-promise';
+
+import User from '../../examples/User';
+import * as H5P from '../../src';
+
+describe('Express library administration adapter', () => {
+    let user: User;
+    let app: express;
+    let cleanup: () => Promise<void>;
+    let h5pEditor: H5P.H5PEditor;
+
+    beforeEach(async () => {
+        app = express();
+        const tDir = await dir({ unsafeCleanup: true });
+        cleanup = tDir.cleanup;
+        user = new User();
+
+        app.use(bodyParser.json());
+        h5pEditor = H5P.fs(
+            new H5P.EditorConfig(new H5P.fsImplementations.InMemoryStorage(), {
+                baseUrl: ''
+            }),
+            path.resolve(path.join(tDir.path, 'libraries')),
+            path.resolve(path.join(tDir.path, 'temporary-storage')),
+            path.resolve(path.join(tDir.path, 'content'))
+        );
+        app.use((req, res, next) => {
+            req.user = user;
+            req.t = (id, replacements) => id;
+            next();
+        });
+        app.use(H5P.adapters.expressLibraryAdministration(h5pEditor));
+    });
+
+    afterEach(async () => {
+        app = null;
+        await cleanup();
+    });
+
+    async function createContent(): Promise<H5P.ContentId> {
+        const { metadata, parameters } = await h5pEditor.uploadPackage(
+            await fsExtra.readFile(
+                path.resolve('test/data/validator/valid2.h5p')
+            ),
+            user
+        );
+        return h5pEditor.saveH5P(
+            undefined,
+            parameters,
+            metadata,
+            'H5P.GreetingCard 1.0',
+            user
+        );
+    }
+
+    it('lists the installed libraries with their usage', async () => {
+        await createContent();
+
+        const res = await supertest(app).get('/');
+
+        expect(res.status).toBe(200);
+        expect(res.body).toEqual([
+            {
+                canBeDeleted: false,
+                dependentsCount: 0,
+                instancesAsDependencyCount: 1,
+                instancesCount: 1,
+                machineName: 'H5P.GreetingCard',
+                majorVersion: 1,
+                minorVersion: 0,
+                patchVersion: 6,
+                restricted: false,
+                runnable: true,
+                title: 'Greeting Card'
+            }
+        ]);
+    });
+
+    it('returns the details of a library', async () => {
+        const contentId = await createContent();
+
+        const res = await supertest(app).get('/H5P.GreetingCard-1.0');
+
+        expect(res.status).toBe(200);
+        expect(res.body.dependentContent).toEqual([contentId.toString()]);
+        expect(res.body.dependentLibraries).toEqual([]);
+        expect(res.body.metadata.machineName).toEqual('H5P.GreetingCard');
+    });
+
+    it('sets and removes the restricted flag', async () => {
+        await createContent();
+
+        let res = await supertest(app)
+            .patch('/H5P.GreetingCard-1.0')
+            .send({ restricted: true });
+        expect(res.status).toBe(200);
+        expect(res.body.restricted).toEqual(true);
+        expect(
+            (await h5pEditor.libraryManager.getInstalled(['H5P.GreetingCard']))[
+                'H5P.GreetingCard'
+            ][0].restricted
+        ).toEqual(true);
+
+        res = await supertest(app)
+            .patch('/H5P.GreetingCard-1.0')
+            .send({ restricted: false });
+        expect(res.status).toBe(200);
+        expect(res.body.restricted).toEqual(false);
+
+        res = await supertest(app)
+            .patch('/H5P.GreetingCard-1.0')
+            .send({ restricted: 'yes' });
+        expect(res.status).toBe(400);
+    });
+
+    it('refuses to delete libraries in use unless forced', async () => {
+        const contentId = await createContent();
+
+        let res = await supertest(app).delete('/H5P.GreetingCard-1.0');
+        expect(res.status).toBe(409);
+        expect(res.body.dependentContent).toEqual([contentId.toString()]);
+        expect(res.body.removedLibraries).toEqual([]);
+
+        res = await supertest(app).delete('/H5P.GreetingCard-1.0?force=true');
+        expect(res.status).toBe(200);
+        expect(res.body.removedLibraries).toEqual([
+            {
+                machineName: 'H5P.GreetingCard',
+                majorVersion: 1,
+                minorVersion: 0
+            }
+        ]);
+        expect(
+            await h5pEditor.libraryManager.libraryExists(
+                new H5P.LibraryName('H5P.GreetingCard', 1, 0)
+            )
+        ).toEqual(false);
+    });
+
+    it('checks the consistency of libraries', async () => {
+        await createContent();
+
+        const res = await supertest(app).post('/H5P.GreetingCard-1.0/check');
+
+        expect(res.status).toBe(200);
+        expect(res.body).toEqual({ consistent: true });
+    });
+
+    it('checks the translations of libraries', async () => {
+        await createContent();
+
+        const res = await supertest(app).get(
+            '/H5P.GreetingCard-1.0/translations?languages=fr,de'
+        );
+        expect(res.status).toBe(200);
+        expect(res.body).toEqual({
+            languages: [
+                {
+                    exists: true,
+                    extra: [],
+                    language: 'fr',
+                    missing: [],
+                    untranslated: []
+                },
+                {
+                    exists: false,
+                    extra: [],
+                    language: 'de',
+                    missing: [
+                        'semantics[0].label',
+                        'semantics[0].description',
+                        'semantics[0].default',
+                        'semantics[1].label',
+                        'semantics[1].description'
+                    ],
+                    untranslated: []
+                }
+            ],
+            machineName: 'H5P.GreetingCard',
+            majorVersion: 1,
+            minorVersion: 0
+        });
+
+        const allRes = await supertest(app).get('/translations');
+        expect(allRes.status).toBe(200);
+        expect(allRes.body).toEqual([
+            expect.objectContaining({ machineName: 'H5P.GreetingCard' })
+        ]);
+        expect(
+            allRes.body[0].languages.map(({ language }) => language).sort()
+        ).toEqual(['fr', 'nb']);
+    });
+
+    it('returns errors for invalid requests', async () => {
+        const invalidRes = await supertest(app).get('/invalid');
+        expect(invalidRes.status).toBe(400);
+        expect(invalidRes.body.message).toBe('invalid-library-name');
+        expect((await supertest(app).get('/H5P.Missing-1.0')).status).toBe(404);
+
+        user.canUpdateAndInstallLibraries = false;
+        expect((await supertest(app).get('/')).status).toBe(403);
+        expect((await supertest(app).get('/translations')).status).toBe(403);
+        expect(
+            (await supertest(app).delete('/H5P.GreetingCard-1.0')).status
+        ).toBe(403);
+    });
+});
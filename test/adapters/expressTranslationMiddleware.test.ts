@@ -0,0 +1,114 @@
+import express from 'express';
+import supertest from 'supertest';
+
+import * as H5P from '../../src';
+import AggregateH5pError from '../../src/helpers/AggregateH5pError';
+
+describe('Express translation middleware', () => {
+    let app: express;
+
+    beforeEach(() => {
+        app = express();
+        app.use(H5P.adapters.expressTranslationMiddleware());
+        app.get('/message', (req: any, res) => {
+            res.json({
+                language: req.language,
+                message: req.t('installed-libraries', { count: 3 })
+            });
+        });
+        app.get('/error', (req, res, next) => {
+            next(
+                new AggregateH5pError(
+                    'content-validation-failed',
+                    {},
+                    400,
+                    ''
+                ).addError(
+                    new AggregateH5pError(
+                        'package-validation-failed',
+                        {},
+                        400,
+                        ''
+                    ).addError(
+                        new H5P.H5pError('invalid-library-name', {
+                            name: 'H5P.Example'
+                        })
+                    )
+                )
+            );
+        });
+        app.use(H5P.adapters.expressErrorHandler);
+    });
+
+    it('adds the language and the translation function to requests', async () => {
+        const res = await supertest(app)
+            .get('/message')
+            .set('Accept-Language', 'de-DE,de;q=0.9,en;q=0.8');
+        expect(res.body).toEqual({
+            language: 'de',
+            message: '3 neue H5P-Bibliotheken hinzugefügt.'
+        });
+
+        const englishRes = await supertest(app).get('/message');
+        expect(englishRes.body).toEqual({
+            language: 'en',
+            message: 'Added 3 new H5P libraries.'
+        });
+    });
+
+    it('keeps the translation function added by other middleware', async () => {
+        const otherApp = express();
+        otherApp.use((req: any, _, next) => {
+            req.language = 'xx';
+            req.t = id => `translated ${id}`;
+            next();
+        });
+        otherApp.use(H5P.adapters.expressTranslationMiddleware());
+        otherApp.get('/', (req: any, response) => {
+            response.json({ language: req.language, message: req.t('key') });
+        });
+
+        const res = await supertest(otherApp)
+            .get('/')
+            .set('Accept-Language', 'de');
+        expect(res.body).toEqual({ language: 'xx', message: 'translated key' });
+    });
+
+    it('translates errors including the errors of nested aggregate errors', async () => {
+        const res = await supertest(app)
+            .get('/error')
+            .set('Accept-Language', 'fr');
+        expect(res.status).toBe(400);
+        expect(res.body.message).toEqual(
+            "Le contenu n'a pas pu être enregistré, car ses paramètres sont invalides."
+        );
+        expect(res.body.details).toEqual([
+            {
+                code: 'package-validation-failed',
+                message: 'La validation du paquet H5P a échoué.'
+            },
+            {
+                code: 'invalid-library-name',
+                message: 'Nom de bibliothèque invalide : H5P.Example'
+            }
+        ]);
+    });
+
+    it('translates errors without the middleware', async () => {
+        const otherApp = express();
+        otherApp.get('/', (req, _, next) => {
+            next(
+                new H5P.H5pError('content-not-found', { contentId: '1' }, 404)
+            );
+        });
+        otherApp.use(H5P.adapters.expressErrorHandler);
+
+        const res = await supertest(otherApp)
+            .get('/')
+            .set('Accept-Language', 'de');
+        expect(res.status).toBe(404);
+        expect(res.body.message).toEqual(
+            'Der Inhalt mit der ID 1 existiert nicht.'
+        );
+    });
+});